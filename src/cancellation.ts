@@ -0,0 +1,47 @@
+/**
+ * @file cancellation.ts
+ * @description Cancellation of upstream calls through an AbortSignal, for request timeouts
+ * and clients that disconnect. A cancelled call is not the API key's fault, so it is never
+ * counted as a key failure.
+ */
+
+/**
+ * Raised when a request is cancelled by its caller rather than failing upstream
+ */
+export class RequestCancelledError extends Error {
+    constructor(message: string = 'Request was cancelled') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Build the error to throw for an aborted signal
+ * @param signal - An aborted signal
+ * @returns The abort reason when it is a RequestCancelledError, otherwise a new one describing it
+ */
+export function getCancellationError(signal: AbortSignal): RequestCancelledError {
+    const reason = signal.reason;
+    if (reason instanceof RequestCancelledError) {
+        return reason;
+    }
+    // AbortSignal.timeout() aborts with a DOMException named TimeoutError
+    if (reason?.name === 'TimeoutError') {
+        return new RequestCancelledError('Request timed out');
+    }
+    return new RequestCancelledError(reason instanceof Error && reason.message ? reason.message : undefined);
+}
+
+/**
+ * Combine a caller's signal with a timeout
+ * @param signal - Signal of the caller, if any
+ * @param timeoutMs - Milliseconds after which the returned signal aborts, if any
+ * @returns A signal that aborts when either does, or undefined when neither is given
+ */
+export function combineSignals(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+    if (!timeoutMs) {
+        return signal;
+    }
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
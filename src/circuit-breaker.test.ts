@@ -0,0 +1,139 @@
+/**
+ * @file circuit-breaker.test.ts
+ * @description Unit tests for circuit state transitions and the failure-rate window
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+import type { CircuitBreakerPolicy } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+    const policy: CircuitBreakerPolicy = {
+        enabled: true,
+        failureRateThreshold: 0.5,
+        minimumRequests: 4,
+        windowMs: 60_000,
+        openMs: 30_000,
+        perModel: false
+    };
+
+    /**
+     * Record outcomes of admitted requests in order; true stands for a failure
+     */
+    function record(circuit: CircuitBreaker, outcomes: boolean[]): void {
+        outcomes.forEach(failed => {
+            const permit = circuit.allowRequest()!;
+            if (failed) circuit.recordFailure(permit);
+            else circuit.recordSuccess(permit);
+        });
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-07-14T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should stay closed until the minimum number of requests is reached', () => {
+        const circuit = new CircuitBreaker(policy);
+
+        record(circuit, [true, true, true]);
+
+        expect(circuit.state).toBe('closed');
+        expect(circuit.allowRequest()).toEqual({ probe: false });
+        expect(circuit.getSnapshot()).toEqual({ state: 'closed', requests: 3, failures: 3, failureRate: 1 });
+    });
+
+    it('should open once the failure rate reaches the threshold', () => {
+        const circuit = new CircuitBreaker(policy);
+
+        record(circuit, [false, false, true]);
+        expect(circuit.state).toBe('closed');
+        record(circuit, [true]);
+
+        expect(circuit.state).toBe('open');
+        expect(circuit.allowRequest()).toBeNull();
+        expect(circuit.retryAfterMs).toBe(30_000);
+        expect(circuit.getSnapshot()).toMatchObject({ state: 'open', openedAt: Date.now(), retryAt: Date.now() + 30_000 });
+    });
+
+    it('should forget outcomes that left the window', () => {
+        const circuit = new CircuitBreaker(policy);
+
+        record(circuit, [true, true, true]);
+        vi.advanceTimersByTime(60_000);
+        record(circuit, [true]);
+
+        expect(circuit.state).toBe('closed');
+        expect(circuit.getSnapshot().requests).toBe(1);
+    });
+
+    it('should let a single probe through once the open period has passed', () => {
+        const circuit = new CircuitBreaker(policy);
+        record(circuit, [true, true, true, true]);
+
+        vi.advanceTimersByTime(30_000);
+
+        expect(circuit.state).toBe('half-open');
+        expect(circuit.allowRequest()).toEqual({ probe: true });
+        expect(circuit.allowRequest()).toBeNull();
+    });
+
+    it('should close when the probe succeeds', () => {
+        const circuit = new CircuitBreaker(policy);
+        record(circuit, [true, true, true, true]);
+        vi.advanceTimersByTime(30_000);
+
+        circuit.recordSuccess(circuit.allowRequest()!);
+
+        expect(circuit.getSnapshot()).toEqual({ state: 'closed', requests: 0, failures: 0, failureRate: 0 });
+        expect(circuit.allowRequest()).toEqual({ probe: false });
+    });
+
+    it('should open again when the probe fails', () => {
+        const circuit = new CircuitBreaker(policy);
+        record(circuit, [true, true, true, true]);
+        vi.advanceTimersByTime(30_000);
+
+        circuit.recordFailure(circuit.allowRequest()!);
+
+        expect(circuit.state).toBe('open');
+        expect(circuit.retryAfterMs).toBe(30_000);
+    });
+
+    it('should let another probe through when the previous one was released without an outcome', () => {
+        const circuit = new CircuitBreaker(policy);
+        record(circuit, [true, true, true, true]);
+        vi.advanceTimersByTime(30_000);
+
+        circuit.release(circuit.allowRequest()!);
+
+        expect(circuit.state).toBe('half-open');
+        expect(circuit.allowRequest()).toEqual({ probe: true });
+    });
+
+    it('should leave the probe alone when a request admitted before the circuit opened ends', () => {
+        const circuit = new CircuitBreaker(policy);
+        const earlier = circuit.allowRequest()!;
+        record(circuit, [true, true, true, true]);
+        vi.advanceTimersByTime(30_000);
+        const probe = circuit.allowRequest()!;
+
+        circuit.recordSuccess(earlier);
+        circuit.release(earlier);
+
+        expect(circuit.state).toBe('half-open');
+        expect(circuit.allowRequest()).toBeNull();
+
+        circuit.release(probe);
+        expect(circuit.allowRequest()).toEqual({ probe: true });
+    });
+
+    it('should describe the open circuit in CircuitOpenError', () => {
+        expect(new CircuitOpenError('gemini', 1500).message).toBe('Circuit open for gemini after repeated failures; retry in 2s');
+        expect(new CircuitOpenError('gemini', 1500, 'gemini-2.5-pro').message).toContain('gemini model gemini-2.5-pro');
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * @file circuit-breaker.ts
+ * @description Circuit breakers that stop sending requests to a provider, or to one of its
+ * models, while most recent requests fail. An open circuit fails fast instead of trying
+ * every key, and lets a single probe request through once its open period has passed.
+ */
+
+/**
+ * closed: requests flow; open: requests fail fast; half-open: one probe request decides
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * When circuits open and for how long
+ */
+export interface CircuitBreakerPolicy {
+    /** Whether requests are guarded by circuits at all */
+    enabled: boolean;
+    /** Fraction of failed requests within the window that opens the circuit, between 0 and 1 */
+    failureRateThreshold: number;
+    /** Requests within the window before the failure rate is considered */
+    minimumRequests: number;
+    /** Length of the sliding window of recorded requests, in milliseconds */
+    windowMs: number;
+    /** How long an open circuit fails fast before letting a probe through, in milliseconds */
+    openMs: number;
+    /** Keep a circuit per model rather than one per provider */
+    perModel: boolean;
+}
+
+/**
+ * State of a circuit as reported by CircuitBreaker.getSnapshot
+ */
+export interface CircuitSnapshot {
+    state: CircuitState;
+    /** Requests recorded within the window */
+    requests: number;
+    /** Failed requests recorded within the window */
+    failures: number;
+    /** Failures divided by requests; 0 without requests */
+    failureRate: number;
+    /** Epoch milliseconds when the circuit last opened; absent while closed */
+    openedAt?: number;
+    /** Epoch milliseconds when an open circuit lets a probe through; absent unless open */
+    retryAt?: number;
+}
+
+/**
+ * Admission of one request, returned by CircuitBreaker.allowRequest and passed back with its outcome
+ */
+export interface CircuitPermit {
+    /** Whether the request is the single probe of a half-open circuit */
+    readonly probe: boolean;
+}
+
+/**
+ * Raised instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+    /**
+     * @param provider - Provider whose circuit is open
+     * @param retryAfterMs - Milliseconds until a probe request is let through
+     * @param model - Model of the circuit, for per-model circuits
+     */
+    constructor(readonly provider: string, readonly retryAfterMs: number, readonly model?: string) {
+        super(`Circuit open for ${model ? `${provider} model ${model}` : provider} after repeated failures; retry in ${Math.max(1, Math.ceil(retryAfterMs / 1000))}s`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * A single circuit with a sliding window of request outcomes
+ */
+export class CircuitBreaker {
+    private _state: CircuitState = 'closed';
+    /** Finish times and results of recent requests, oldest first */
+    private outcomes: Array<{ time: number; failed: boolean }> = [];
+    private openedAt?: number;
+    /** Permit of the probe request of a half-open circuit while it runs */
+    private probe: CircuitPermit | null = null;
+
+    constructor(private readonly policy: CircuitBreakerPolicy) {}
+
+    get state(): CircuitState {
+        this.refresh(Date.now());
+        return this._state;
+    }
+
+    /**
+     * Milliseconds until an open circuit lets a probe through; 0 unless open
+     */
+    get retryAfterMs(): number {
+        return this.state === 'open' ? this.openedAt! + this.policy.openMs - Date.now() : 0;
+    }
+
+    /**
+     * Whether a request may be sent. In the half-open state only one probe is let through;
+     * its caller must record the outcome or call release() with the permit.
+     * @returns A permit for the request, or null when it must fail fast
+     */
+    allowRequest(): CircuitPermit | null {
+        const state = this.state;
+        if (state === 'closed') {
+            return { probe: false };
+        }
+        if (state === 'half-open' && !this.probe) {
+            this.probe = { probe: true };
+            return this.probe;
+        }
+        return null;
+    }
+
+    /**
+     * Record a successful request. Only the probe's outcome decides a half-open circuit.
+     */
+    recordSuccess(permit: CircuitPermit): void {
+        const now = Date.now();
+        this.refresh(now);
+        if (this._state === 'half-open') {
+            if (permit === this.probe) this.close();
+        } else if (this._state === 'closed') {
+            this.outcomes.push({ time: now, failed: false });
+        }
+    }
+
+    /**
+     * Record a failed request. Only the probe's outcome decides a half-open circuit.
+     */
+    recordFailure(permit: CircuitPermit): void {
+        const now = Date.now();
+        this.refresh(now);
+        if (this._state === 'half-open') {
+            if (permit === this.probe) this.open(now);
+        } else if (this._state === 'closed') {
+            this.outcomes.push({ time: now, failed: true });
+            const { requests, failureRate } = this.getSnapshot();
+            if (requests >= this.policy.minimumRequests && failureRate >= this.policy.failureRateThreshold) {
+                this.open(now);
+            }
+        }
+    }
+
+    /**
+     * End a request that has no outcome, such as a cancelled one. When it was the probe, another probe can start.
+     */
+    release(permit: CircuitPermit): void {
+        if (permit === this.probe) {
+            this.probe = null;
+        }
+    }
+
+    getSnapshot(): CircuitSnapshot {
+        const state = this.state;
+        const failures = this.outcomes.filter(outcome => outcome.failed).length;
+        return {
+            state,
+            requests: this.outcomes.length,
+            failures,
+            failureRate: this.outcomes.length > 0 ? failures / this.outcomes.length : 0,
+            ...(this.openedAt !== undefined && { openedAt: this.openedAt }),
+            ...(state === 'open' && { retryAt: this.openedAt! + this.policy.openMs })
+        };
+    }
+
+    private open(now: number): void {
+        this._state = 'open';
+        this.openedAt = now;
+        this.outcomes = [];
+        this.probe = null;
+    }
+
+    private close(): void {
+        this._state = 'closed';
+        this.openedAt = undefined;
+        this.outcomes = [];
+        this.probe = null;
+    }
+
+    /**
+     * Drop outcomes that left the window and move an open circuit to half-open once its time is up
+     */
+    private refresh(now: number): void {
+        while (this.outcomes.length > 0 && this.outcomes[0].time <= now - this.policy.windowMs) {
+            this.outcomes.shift();
+        }
+        if (this._state === 'open' && now >= this.openedAt! + this.policy.openMs) {
+            this._state = 'half-open';
+            this.probe = null;
+        }
+    }
+}
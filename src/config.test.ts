@@ -5,13 +5,25 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
 import {
     parseApiKeys,
+    parseFallbackConfig,
+    parseCooldownPolicy,
+    parseRetryPolicy,
+    parseCircuitBreakerPolicy,
+    parseLogLevel,
+    parseTracingConfig,
+    parseImageFetchPolicy,
+    parseCustomProviders,
     loadConfiguration,
     validateConfiguration,
     getConfigSummary,
     createTestConfig
 } from './config';
+import { LlmManager, registerProvider } from './llm_rotation';
 import type { ServerConfig } from './types';
 
 describe('Configuration Management', () => {
@@ -42,6 +54,28 @@ describe('Configuration Management', () => {
         delete process.env.NODE_ENV;
         delete process.env.ENABLE_LOGGING;
         delete process.env.REQUEST_TIMEOUT;
+        delete process.env.ENABLE_PROVIDER_FALLBACK;
+        delete process.env.PROVIDER_FALLBACK_CHAINS;
+        delete process.env.KEY_COOLDOWN_RATE_LIMITED_MS;
+        delete process.env.KEY_COOLDOWN_FAILED_MS;
+        delete process.env.KEY_COOLDOWN_MULTIPLIER;
+        delete process.env.KEY_COOLDOWN_MAX_MS;
+        delete process.env.KEY_STATE_FILE;
+        delete process.env.CUSTOM_PROVIDERS_FILE;
+        delete process.env.STRUCTURED_OUTPUT_ATTEMPTS;
+        delete process.env.VIRTUAL_KEYS_FILE;
+        delete process.env.ADMIN_API_KEY;
+        delete process.env.RATE_LIMIT_REQUESTS_PER_MINUTE;
+        delete process.env.RATE_LIMIT_TOKENS_PER_DAY;
+        delete process.env.RATE_LIMIT_CONCURRENT_REQUESTS;
+        delete process.env.RESPONSE_CACHE;
+        delete process.env.RESPONSE_CACHE_TTL_SECONDS;
+        delete process.env.RESPONSE_CACHE_MAX_ENTRIES;
+        delete process.env.RESPONSE_CACHE_DIR;
+        delete process.env.TRACING_EXPORTER;
+        delete process.env.TRACING_OTLP_ENDPOINT;
+        delete process.env.TRACING_SAMPLE_RATIO;
+        delete process.env.TRACING_SERVICE_NAME;
     });
 
     afterEach(() => {
@@ -65,6 +99,17 @@ describe('Configuration Management', () => {
             });
         });
 
+        it('should parse keys for providers added with registerProvider', () => {
+            registerProvider({ name: 'in-house', generate: async () => '' });
+            process.env.IN_HOUSE_API_KEY = 'key1,key2';
+
+            const result = parseApiKeys();
+
+            expect(result).toEqual({
+                'in-house': ['key1', 'key2']
+            });
+        });
+
         it('should parse comma-separated API keys correctly', () => {
             process.env.OPENROUTER_API_KEY = 'key1,key2,key3';
             
@@ -134,6 +179,276 @@ describe('Configuration Management', () => {
         });
     });
 
+    describe('parseFallbackConfig', () => {
+        it('should be disabled with no chains by default', () => {
+            expect(parseFallbackConfig()).toEqual({ enabled: false, chains: {} });
+        });
+
+        it('should parse enabled flag and explicit chains', () => {
+            process.env.ENABLE_PROVIDER_FALLBACK = 'true';
+            process.env.PROVIDER_FALLBACK_CHAINS = 'chutes:openrouter, nvidia; huggingface:nvidia';
+            
+            expect(parseFallbackConfig()).toEqual({
+                enabled: true,
+                chains: {
+                    chutes: ['openrouter', 'nvidia'],
+                    huggingface: ['nvidia']
+                }
+            });
+        });
+
+        it('should throw error for unknown providers in chains', () => {
+            process.env.PROVIDER_FALLBACK_CHAINS = 'chutes:openai';
+            
+            expect(() => parseFallbackConfig()).toThrow('Unknown provider: openai');
+        });
+    });
+
+    describe('parseCooldownPolicy', () => {
+        it('should return no overrides when nothing is set', () => {
+            expect(parseCooldownPolicy()).toEqual({});
+        });
+
+        it('should parse configured cooldown overrides', () => {
+            process.env.KEY_COOLDOWN_RATE_LIMITED_MS = '30000';
+            process.env.KEY_COOLDOWN_MULTIPLIER = '3';
+            
+            expect(parseCooldownPolicy()).toEqual({
+                rateLimitedMs: 30000,
+                multiplier: 3
+            });
+        });
+
+        it('should throw error for invalid values', () => {
+            process.env.KEY_COOLDOWN_FAILED_MS = 'soon';
+            expect(() => parseCooldownPolicy()).toThrow('Invalid KEY_COOLDOWN_FAILED_MS: soon');
+            
+            delete process.env.KEY_COOLDOWN_FAILED_MS;
+            process.env.KEY_COOLDOWN_MULTIPLIER = '0.5';
+            expect(() => parseCooldownPolicy()).toThrow('Invalid KEY_COOLDOWN_MULTIPLIER: 0.5');
+        });
+    });
+
+    describe('parseRetryPolicy', () => {
+        it('should return no overrides when nothing is set', () => {
+            expect(parseRetryPolicy()).toEqual({});
+        });
+
+        it('should parse configured retry overrides', () => {
+            process.env.RETRY_MAX_ATTEMPTS = '3';
+            process.env.RETRY_MAX_DELAY_MS = '5000';
+            process.env.RETRY_JITTER = '0.5';
+            process.env.RETRY_ON = 'rate_limit, Timeout';
+            
+            expect(parseRetryPolicy()).toEqual({
+                maxAttempts: 3,
+                maxDelayMs: 5000,
+                jitter: 0.5,
+                retryOn: ['rate_limit', 'timeout']
+            });
+        });
+
+        it('should read variables with the given prefix', () => {
+            process.env.GEMINI_RETRY_MAX_ATTEMPTS = '5';
+            
+            expect(parseRetryPolicy('GEMINI_RETRY_')).toEqual({ maxAttempts: 5 });
+            expect(parseRetryPolicy()).toEqual({});
+        });
+
+        it('should throw error for invalid values', () => {
+            process.env.RETRY_MAX_ATTEMPTS = '0';
+            expect(() => parseRetryPolicy()).toThrow('Invalid RETRY_MAX_ATTEMPTS: 0');
+            
+            delete process.env.RETRY_MAX_ATTEMPTS;
+            process.env.RETRY_JITTER = '2';
+            expect(() => parseRetryPolicy()).toThrow('Invalid RETRY_JITTER: 2');
+            
+            delete process.env.RETRY_JITTER;
+            process.env.RETRY_ON = 'rate_limit,auth';
+            expect(() => parseRetryPolicy()).toThrow('Invalid RETRY_ON: auth');
+        });
+    });
+
+    describe('parseCircuitBreakerPolicy', () => {
+        it('should return no overrides when nothing is set', () => {
+            expect(parseCircuitBreakerPolicy()).toEqual({});
+        });
+
+        it('should parse configured circuit breaker overrides', () => {
+            process.env.CIRCUIT_BREAKER_ENABLED = 'TRUE';
+            process.env.CIRCUIT_BREAKER_PER_MODEL = 'true';
+            process.env.CIRCUIT_BREAKER_FAILURE_RATE = '0.8';
+            process.env.CIRCUIT_BREAKER_MIN_REQUESTS = '20';
+            process.env.CIRCUIT_BREAKER_WINDOW_MS = '120000';
+            process.env.CIRCUIT_BREAKER_OPEN_MS = '10000';
+            
+            expect(parseCircuitBreakerPolicy()).toEqual({
+                enabled: true,
+                perModel: true,
+                failureRateThreshold: 0.8,
+                minimumRequests: 20,
+                windowMs: 120000,
+                openMs: 10000
+            });
+        });
+
+        it('should throw error for invalid values', () => {
+            process.env.CIRCUIT_BREAKER_ENABLED = 'yes';
+            expect(() => parseCircuitBreakerPolicy()).toThrow('Invalid CIRCUIT_BREAKER_ENABLED: yes');
+            
+            delete process.env.CIRCUIT_BREAKER_ENABLED;
+            process.env.CIRCUIT_BREAKER_FAILURE_RATE = '0';
+            expect(() => parseCircuitBreakerPolicy()).toThrow('Invalid CIRCUIT_BREAKER_FAILURE_RATE: 0');
+            
+            delete process.env.CIRCUIT_BREAKER_FAILURE_RATE;
+            process.env.CIRCUIT_BREAKER_OPEN_MS = '-5';
+            expect(() => parseCircuitBreakerPolicy()).toThrow('Invalid CIRCUIT_BREAKER_OPEN_MS: -5');
+        });
+    });
+
+    describe('parseLogLevel', () => {
+        it('should default to info, or debug when request logging is enabled', () => {
+            expect(parseLogLevel()).toBe('info');
+            expect(parseLogLevel(true)).toBe('debug');
+        });
+
+        it('should parse LOG_LEVEL case-insensitively', () => {
+            process.env.LOG_LEVEL = 'WARN';
+            expect(parseLogLevel(true)).toBe('warn');
+            
+            process.env.LOG_LEVEL = 'silent';
+            expect(parseLogLevel()).toBe('silent');
+        });
+
+        it('should throw error for unknown levels', () => {
+            process.env.LOG_LEVEL = 'verbose';
+            expect(() => parseLogLevel()).toThrow('Invalid LOG_LEVEL: verbose. Must be one of debug, info, warn, error, silent.');
+        });
+    });
+
+    describe('parseTracingConfig', () => {
+        it('should return undefined when tracing is not enabled', () => {
+            expect(parseTracingConfig()).toBeUndefined();
+            
+            process.env.TRACING_EXPORTER = 'none';
+            expect(parseTracingConfig()).toBeUndefined();
+        });
+
+        it('should parse the log exporter with defaults', () => {
+            process.env.TRACING_EXPORTER = 'Log';
+            expect(parseTracingConfig()).toEqual({ exporter: 'log', sampleRatio: 1, serviceName: 'llm-rotation-server' });
+        });
+
+        it('should parse the OTLP exporter with its endpoint, sample ratio and service name', () => {
+            process.env.TRACING_EXPORTER = 'otlp';
+            expect(parseTracingConfig()?.otlpEndpoint).toBe('http://localhost:4318/v1/traces');
+            
+            process.env.TRACING_OTLP_ENDPOINT = 'http://collector:4318/v1/traces';
+            process.env.TRACING_SAMPLE_RATIO = '0.25';
+            process.env.TRACING_SERVICE_NAME = 'llm-gateway';
+            expect(parseTracingConfig()).toEqual({
+                exporter: 'otlp',
+                otlpEndpoint: 'http://collector:4318/v1/traces',
+                sampleRatio: 0.25,
+                serviceName: 'llm-gateway'
+            });
+        });
+
+        it('should throw error for an unknown exporter or invalid sample ratio', () => {
+            process.env.TRACING_EXPORTER = 'jaeger';
+            expect(() => parseTracingConfig()).toThrow('Invalid TRACING_EXPORTER: jaeger. Must be "log", "otlp" or "none".');
+            
+            process.env.TRACING_EXPORTER = 'log';
+            process.env.TRACING_SAMPLE_RATIO = '1.5';
+            expect(() => parseTracingConfig()).toThrow('Invalid TRACING_SAMPLE_RATIO: 1.5. Must be between 0 and 1.');
+        });
+    });
+
+    describe('parseImageFetchPolicy', () => {
+        it('should return no overrides when nothing is set', () => {
+            expect(parseImageFetchPolicy()).toEqual({});
+        });
+
+        it('should parse allowed hosts, size and timeout', () => {
+            process.env.IMAGE_FETCH_ALLOWED_HOSTS = 'Images.Example.com, cdn.example.com,';
+            process.env.IMAGE_FETCH_MAX_BYTES = '1048576';
+            process.env.IMAGE_FETCH_TIMEOUT_MS = '5000';
+            expect(parseImageFetchPolicy()).toEqual({ allowedHosts: ['images.example.com', 'cdn.example.com'], maxBytes: 1048576, timeoutMs: 5000 });
+        });
+
+        it('should throw error for an invalid size', () => {
+            process.env.IMAGE_FETCH_MAX_BYTES = '0';
+            expect(() => parseImageFetchPolicy()).toThrow('Invalid IMAGE_FETCH_MAX_BYTES: 0. Must be a positive integer.');
+        });
+    });
+
+    describe('parseCustomProviders', () => {
+        let dir: string;
+
+        function writeProviders(providers: unknown): void {
+            const filePath = path.join(dir, 'providers.json');
+            writeFileSync(filePath, JSON.stringify(providers));
+            process.env.CUSTOM_PROVIDERS_FILE = filePath;
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'custom-providers-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should return no providers when no file is configured', () => {
+            expect(parseCustomProviders()).toEqual([]);
+        });
+
+        it('should parse provider declarations', () => {
+            writeProviders([{
+                name: 'vllm',
+                baseUrl: 'http://localhost:8000/v1',
+                apiKeyEnv: 'VLLM_TOKEN',
+                headers: { 'X-Team': 'research' },
+                models: [{ id: 'qwen2.5-7b-instruct', name: 'Qwen 2.5 7B' }, { id: 'llama-3.1-8b' }]
+            }]);
+
+            expect(parseCustomProviders()).toEqual([{
+                name: 'vllm',
+                baseUrl: 'http://localhost:8000/v1',
+                apiKeyEnv: 'VLLM_TOKEN',
+                headers: { 'X-Team': 'research' },
+                models: [{ id: 'qwen2.5-7b-instruct', name: 'Qwen 2.5 7B' }, { id: 'llama-3.1-8b', name: 'llama-3.1-8b' }],
+                patterns: undefined
+            }]);
+        });
+
+        it('should throw error for invalid declarations', () => {
+            writeProviders({ name: 'vllm' });
+            expect(() => parseCustomProviders()).toThrow('Expected a JSON array of providers');
+
+            writeProviders([{ name: 'openrouter', baseUrl: 'http://localhost:8000/v1', models: [] }]);
+            expect(() => parseCustomProviders()).toThrow('provider openrouter is already defined');
+
+            writeProviders([{ name: 'vllm', baseUrl: 'localhost:8000', models: [] }]);
+            expect(() => parseCustomProviders()).toThrow('baseUrl must use http or https');
+
+            writeProviders([{ name: 'vllm', baseUrl: 'http://localhost:8000/v1' }]);
+            expect(() => parseCustomProviders()).toThrow('models must be an array');
+        });
+
+        it('should register declared providers when loading configuration', () => {
+            writeProviders([{ name: 'lmstudio', baseUrl: 'http://localhost:1234/v1', models: [{ id: 'local-model', name: 'Local Model' }] }]);
+            process.env.LMSTUDIO_API_KEY = 'not-needed';
+
+            const config = loadConfiguration();
+
+            expect(config.customProviders?.map(p => p.name)).toEqual(['lmstudio']);
+            expect(config.apiKeys).toEqual({ lmstudio: 'not-needed' });
+            expect(LlmManager.getProviderAdapter('lmstudio')).toBeDefined();
+            expect(LlmManager.modelConfigurations.lmstudio).toEqual([{ id: 'local-model', name: 'Local Model' }]);
+        });
+    });
+
     describe('loadConfiguration', () => {
         it('should load configuration with default values', () => {
             process.env.OPENROUTER_API_KEY = 'test-key';
@@ -152,10 +467,100 @@ describe('Configuration Management', () => {
                 },
                 environment: 'development',
                 enableLogging: true,
-                requestTimeout: 30000
+                logLevel: 'debug',
+                requestTimeout: 30000,
+                providerFallback: {
+                    enabled: false,
+                    chains: {}
+                },
+                keyCooldown: {},
+                keyStateFile: undefined,
+                customProviders: [],
+                structuredOutputAttempts: 2,
+                virtualKeysFile: undefined,
+                adminApiKey: undefined,
+                rateLimits: {},
+                responseCache: undefined,
+                retry: {},
+                providerRetry: {},
+                circuitBreaker: {},
+                imageFetch: {}
             });
         });
 
+        it('should parse structured output attempts', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.STRUCTURED_OUTPUT_ATTEMPTS = '4';
+            
+            expect(loadConfiguration().structuredOutputAttempts).toBe(4);
+            
+            process.env.STRUCTURED_OUTPUT_ATTEMPTS = '0';
+            expect(() => loadConfiguration()).toThrow('Invalid STRUCTURED_OUTPUT_ATTEMPTS: 0');
+        });
+
+        it('should parse virtual key settings', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.VIRTUAL_KEYS_FILE = ' /data/virtual-keys.json ';
+            process.env.ADMIN_API_KEY = 'admin-secret';
+            
+            const config = loadConfiguration();
+            
+            expect(config.virtualKeysFile).toBe('/data/virtual-keys.json');
+            expect(config.adminApiKey).toBe('admin-secret');
+            expect(getConfigSummary(config)).toMatchObject({ virtualKeys: '[CONFIGURED]', adminApi: '[CONFIGURED]' });
+        });
+
+        it('should parse per-client rate limits', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.RATE_LIMIT_REQUESTS_PER_MINUTE = '60';
+            process.env.RATE_LIMIT_TOKENS_PER_DAY = '0';
+            process.env.RATE_LIMIT_CONCURRENT_REQUESTS = '4';
+            
+            expect(loadConfiguration().rateLimits).toEqual({ requestsPerMinute: 60, maxConcurrentRequests: 4 });
+            
+            process.env.RATE_LIMIT_TOKENS_PER_DAY = '1.5';
+            expect(() => loadConfiguration()).toThrow('Invalid RATE_LIMIT_TOKENS_PER_DAY: 1.5');
+        });
+
+        it('should parse response cache settings', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.RESPONSE_CACHE = 'memory';
+            
+            expect(loadConfiguration().responseCache).toEqual({ backend: 'memory', ttlMs: 3600000, maxEntries: 1000 });
+            
+            process.env.RESPONSE_CACHE = 'Disk';
+            process.env.RESPONSE_CACHE_DIR = '/data/cache';
+            process.env.RESPONSE_CACHE_TTL_SECONDS = '60';
+            expect(loadConfiguration().responseCache).toEqual({ backend: 'disk', ttlMs: 60000, maxEntries: 1000, directory: '/data/cache' });
+            
+            delete process.env.RESPONSE_CACHE_DIR;
+            expect(() => loadConfiguration()).toThrow('RESPONSE_CACHE_DIR must be set');
+            
+            process.env.RESPONSE_CACHE = 'redis';
+            expect(() => loadConfiguration()).toThrow('Invalid RESPONSE_CACHE: redis');
+        });
+
+        it('should parse global and per-provider retry policies', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.RETRY_MAX_ATTEMPTS = '2';
+            process.env.MISTRAL_RETRY_MAX_ATTEMPTS = '4';
+            process.env.MISTRAL_RETRY_ON = 'server_error';
+            
+            const config = loadConfiguration();
+            
+            expect(config.retry).toEqual({ maxAttempts: 2 });
+            expect(config.providerRetry).toEqual({ mistral: { maxAttempts: 4, retryOn: ['server_error'] } });
+        });
+
+        it('should parse key state file path', () => {
+            process.env.GEMINI_API_KEY = 'test-key';
+            process.env.KEY_STATE_FILE = '/data/key-state.json';
+            
+            const config = loadConfiguration();
+            
+            expect(config.keyStateFile).toBe('/data/key-state.json');
+        });
+
         it('should parse custom port correctly', () => {
             process.env.PORT = '8080';
             process.env.GEMINI_API_KEY = 'test-key';
@@ -373,6 +778,14 @@ describe('Configuration Management', () => {
                 environment: 'production',
                 enableLogging: true,
                 requestTimeout: 45000,
+                providerFallback: false,
+                keyStatePersistence: '[NOT SET]',
+                virtualKeys: '[NOT SET]',
+                adminApi: '[NOT SET]',
+                responseCache: 'off',
+                circuitBreaker: 'per-provider',
+                tracing: 'off',
+                customProviders: [],
                 providersConfigured: ['openrouter', 'gemini'],
                 providerKeyCounts: {
                     openrouter: 2,
@@ -5,34 +5,32 @@
  * and default configuration handling with support for comma-separated keys
  */
 
+import { readFileSync } from 'fs';
+import { LlmManager } from './llm_rotation';
+import { builtInProviderAdapters, createOpenAiCompatibleAdapter } from './provider-adapters';
 import type { ApiKeys, Provider } from './llm_rotation';
-import type { ServerConfig, DefaultLlmSettings } from './types';
-
-/**
- * List of supported providers for API key parsing
- */
-const SUPPORTED_PROVIDERS: Provider[] = [
-    'gemini',
-    'openrouter', 
-    'huggingface',
-    'mistral',
-    'cohere',
-    'nvidia',
-    'chutes',
-    'requesty'
-];
+import type { ServerConfig, DefaultLlmSettings, ProviderFallbackConfig, CooldownPolicy, CustomProviderConfig, ResponseCacheConfig, TracingConfig } from './types';
+import type { ClientRateLimits } from './rate-limiter';
+import { RETRY_ERROR_CLASSES } from './retry-policy';
+import type { RetryPolicy, RetryErrorClass } from './retry-policy';
+import type { CircuitBreakerPolicy } from './circuit-breaker';
+import type { ImageFetchPolicy } from './image-fetch';
+import { LOG_LEVELS } from './logger';
+import type { LogLevel } from './logger';
 
 /**
  * Parse API keys from environment variables with support for comma-separated keys
  * Supports both single keys and arrays: OPENROUTER_API_KEY=key1,key2,key3
+ * Every registered provider is read, including adapters added with registerProvider()
  * 
  * @returns ApiKeys object with parsed keys for each provider
  */
 export function parseApiKeys(): ApiKeys {
     const keys: ApiKeys = {};
     
-    SUPPORTED_PROVIDERS.forEach(provider => {
-        const envKey = `${provider.toUpperCase()}_API_KEY`;
+    LlmManager.getRegisteredProviders().forEach(provider => {
+        const envKey = LlmManager.getProviderAdapter(provider)?.apiKeyEnv
+            ?? `${provider.toUpperCase().replace(/-/g, '_')}_API_KEY`;
         const envValue = process.env[envKey];
         
         if (envValue) {
@@ -50,6 +48,437 @@ export function parseApiKeys(): ApiKeys {
     return keys;
 }
 
+/**
+ * Parse OpenAI-compatible providers declared in the JSON file named by CUSTOM_PROVIDERS_FILE
+ * Each entry has a name, baseUrl and models, plus optional apiKeyEnv, headers and patterns
+ * 
+ * @returns Validated provider declarations, or an empty array if the variable is not set
+ * @throws Error if the file cannot be read or an entry is invalid
+ */
+export function parseCustomProviders(): CustomProviderConfig[] {
+    const filePath = process.env.CUSTOM_PROVIDERS_FILE?.trim();
+    if (!filePath) {
+        return [];
+    }
+    
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Invalid CUSTOM_PROVIDERS_FILE: ${filePath}. ${(error as Error).message}`);
+    }
+    
+    if (!Array.isArray(parsed)) {
+        throw new Error(`Invalid CUSTOM_PROVIDERS_FILE: ${filePath}. Expected a JSON array of providers.`);
+    }
+    
+    const builtInNames = builtInProviderAdapters.map(adapter => adapter.name);
+    const seen = new Set<string>();
+    
+    return parsed.map((entry: any, index: number) => {
+        const label = `custom provider #${index + 1}`;
+        
+        if (!entry || typeof entry.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(entry.name)) {
+            throw new Error(`Invalid ${label}: name must be lowercase letters, digits, '-' or '_'.`);
+        }
+        if (builtInNames.includes(entry.name) || seen.has(entry.name)) {
+            throw new Error(`Invalid ${label}: provider ${entry.name} is already defined.`);
+        }
+        seen.add(entry.name);
+        
+        let url: URL;
+        try {
+            url = new URL(entry.baseUrl);
+        } catch {
+            throw new Error(`Invalid ${label} (${entry.name}): baseUrl must be a valid URL.`);
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`Invalid ${label} (${entry.name}): baseUrl must use http or https.`);
+        }
+        
+        if (entry.apiKeyEnv !== undefined && (typeof entry.apiKeyEnv !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(entry.apiKeyEnv))) {
+            throw new Error(`Invalid ${label} (${entry.name}): apiKeyEnv must be an environment variable name.`);
+        }
+        if (entry.headers !== undefined && (typeof entry.headers !== 'object' || Array.isArray(entry.headers) || Object.values(entry.headers).some(v => typeof v !== 'string'))) {
+            throw new Error(`Invalid ${label} (${entry.name}): headers must map header names to strings.`);
+        }
+        if (!Array.isArray(entry.models) || entry.models.some((m: any) => !m || typeof m.id !== 'string' || !m.id)) {
+            throw new Error(`Invalid ${label} (${entry.name}): models must be an array of objects with an id.`);
+        }
+        if (entry.patterns !== undefined && (!Array.isArray(entry.patterns) || entry.patterns.some((p: any) => typeof p !== 'string'))) {
+            throw new Error(`Invalid ${label} (${entry.name}): patterns must be an array of strings.`);
+        }
+        
+        return {
+            name: entry.name,
+            baseUrl: entry.baseUrl,
+            apiKeyEnv: entry.apiKeyEnv,
+            headers: entry.headers,
+            models: entry.models.map((m: any) => ({ id: m.id, name: typeof m.name === 'string' ? m.name : m.id, ...(m.free !== undefined && { free: !!m.free }) })),
+            patterns: entry.patterns
+        };
+    });
+}
+
+/**
+ * Register configured OpenAI-compatible providers with LlmManager so they
+ * rotate keys and appear in model listings like the built-in providers
+ * 
+ * @param providers - Provider declarations from parseCustomProviders()
+ */
+export function registerCustomProviders(providers: CustomProviderConfig[]): void {
+    providers.forEach(provider => {
+        LlmManager.registerProvider(createOpenAiCompatibleAdapter({
+            name: provider.name,
+            baseUrl: provider.baseUrl,
+            apiKeyEnv: provider.apiKeyEnv,
+            headers: provider.headers,
+            models: provider.models,
+            detection: provider.patterns ? { patterns: provider.patterns, confidence: 0.8, alternatives: [] } : undefined
+        }));
+    });
+}
+
+/**
+ * Parse cross-provider fallback settings from environment variables
+ * Chains use the format PROVIDER_FALLBACK_CHAINS=chutes:openrouter,nvidia;huggingface:nvidia
+ * 
+ * @returns ProviderFallbackConfig with the enabled flag and explicit chains
+ * @throws Error if a chain references an unsupported provider
+ */
+export function parseFallbackConfig(): ProviderFallbackConfig {
+    const enabled = process.env.ENABLE_PROVIDER_FALLBACK?.toLowerCase() === 'true';
+    const chains: Partial<Record<Provider, Provider[]>> = {};
+    const chainsValue = process.env.PROVIDER_FALLBACK_CHAINS?.trim();
+    
+    if (chainsValue) {
+        for (const entry of chainsValue.split(';').map(e => e.trim()).filter(e => e.length > 0)) {
+            const [source, targets = ''] = entry.split(':').map(part => part.trim().toLowerCase());
+            const chain = targets.split(',').map(t => t.trim()).filter(t => t.length > 0);
+            
+            for (const provider of [source, ...chain]) {
+                if (!LlmManager.getProviderAdapter(provider)) {
+                    throw new Error(`Invalid PROVIDER_FALLBACK_CHAINS entry: ${entry}. Unknown provider: ${provider}`);
+                }
+            }
+            
+            chains[source as Provider] = chain as Provider[];
+        }
+    }
+    
+    return { enabled, chains };
+}
+
+/**
+ * Parse key cooldown overrides from environment variables
+ * Only variables that are set are returned; LlmManager fills in the rest from its defaults
+ * 
+ * @returns Partial CooldownPolicy with the configured overrides
+ * @throws Error if a value is not a valid number
+ */
+export function parseCooldownPolicy(): Partial<CooldownPolicy> {
+    const policy: Partial<CooldownPolicy> = {};
+    const envMapping: Array<[keyof CooldownPolicy, string]> = [
+        ['rateLimitedMs', 'KEY_COOLDOWN_RATE_LIMITED_MS'],
+        ['failedMs', 'KEY_COOLDOWN_FAILED_MS'],
+        ['multiplier', 'KEY_COOLDOWN_MULTIPLIER'],
+        ['maxMs', 'KEY_COOLDOWN_MAX_MS']
+    ];
+    
+    for (const [field, envKey] of envMapping) {
+        const envValue = process.env[envKey];
+        if (envValue === undefined || envValue.trim() === '') {
+            continue;
+        }
+        
+        const value = parseFloat(envValue);
+        const minimum = field === 'multiplier' ? 1 : 0;
+        if (isNaN(value) || value < minimum) {
+            throw new Error(`Invalid ${envKey}: ${envValue}. Must be a number >= ${minimum}.`);
+        }
+        
+        policy[field] = value;
+    }
+    
+    return policy;
+}
+
+/**
+ * Parse per-client rate limits from environment variables
+ * Unset or zero values leave the corresponding limit disabled
+ * 
+ * @returns Client rate limits
+ * @throws Error if a value is not a non-negative integer
+ */
+export function parseRateLimits(): ClientRateLimits {
+    const limits: ClientRateLimits = {};
+    const envMapping: Array<[keyof ClientRateLimits, string]> = [
+        ['requestsPerMinute', 'RATE_LIMIT_REQUESTS_PER_MINUTE'],
+        ['tokensPerDay', 'RATE_LIMIT_TOKENS_PER_DAY'],
+        ['maxConcurrentRequests', 'RATE_LIMIT_CONCURRENT_REQUESTS']
+    ];
+    
+    for (const [field, envKey] of envMapping) {
+        const envValue = process.env[envKey];
+        if (envValue === undefined || envValue.trim() === '') {
+            continue;
+        }
+        
+        const value = Number(envValue);
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`Invalid ${envKey}: ${envValue}. Must be a non-negative integer.`);
+        }
+        
+        if (value > 0) {
+            limits[field] = value;
+        }
+    }
+    
+    return limits;
+}
+
+/**
+ * Parse retry policy overrides from environment variables
+ * Reads <prefix>MAX_ATTEMPTS, <prefix>MAX_DELAY_MS, <prefix>JITTER and <prefix>ON,
+ * where RETRY_ON is a comma-separated list of error classes
+ * 
+ * @param prefix - Variable name prefix, e.g. "RETRY_" or "GEMINI_RETRY_"
+ * @returns Partial RetryPolicy with the configured overrides
+ * @throws Error if a value is invalid
+ */
+export function parseRetryPolicy(prefix: string = 'RETRY_'): Partial<RetryPolicy> {
+    const policy: Partial<RetryPolicy> = {};
+    const read = (name: string): string | undefined => process.env[`${prefix}${name}`]?.trim() || undefined;
+    
+    const maxAttemptsStr = read('MAX_ATTEMPTS');
+    if (maxAttemptsStr !== undefined) {
+        const maxAttempts = Number(maxAttemptsStr);
+        if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+            throw new Error(`Invalid ${prefix}MAX_ATTEMPTS: ${maxAttemptsStr}. Must be a positive integer.`);
+        }
+        policy.maxAttempts = maxAttempts;
+    }
+    
+    const maxDelayStr = read('MAX_DELAY_MS');
+    if (maxDelayStr !== undefined) {
+        const maxDelayMs = Number(maxDelayStr);
+        if (isNaN(maxDelayMs) || maxDelayMs < 0) {
+            throw new Error(`Invalid ${prefix}MAX_DELAY_MS: ${maxDelayStr}. Must be a number >= 0.`);
+        }
+        policy.maxDelayMs = maxDelayMs;
+    }
+    
+    const jitterStr = read('JITTER');
+    if (jitterStr !== undefined) {
+        const jitter = Number(jitterStr);
+        if (isNaN(jitter) || jitter < 0 || jitter > 1) {
+            throw new Error(`Invalid ${prefix}JITTER: ${jitterStr}. Must be between 0 and 1.`);
+        }
+        policy.jitter = jitter;
+    }
+    
+    const retryOnStr = read('ON');
+    if (retryOnStr !== undefined) {
+        const retryOn = retryOnStr.split(',').map(value => value.trim().toLowerCase()).filter(value => value.length > 0);
+        const unknown = retryOn.find(value => !RETRY_ERROR_CLASSES.includes(value as RetryErrorClass));
+        if (unknown) {
+            throw new Error(`Invalid ${prefix}ON: ${unknown}. Must be a list of ${RETRY_ERROR_CLASSES.join(', ')}.`);
+        }
+        policy.retryOn = retryOn as RetryErrorClass[];
+    }
+    
+    return policy;
+}
+
+/**
+ * Parse per-provider retry policy overrides, e.g. GEMINI_RETRY_MAX_ATTEMPTS=5
+ * Every registered provider is read, including adapters added with registerProvider()
+ * 
+ * @returns Overrides by provider, for providers that have any
+ */
+export function parseProviderRetryPolicies(): Record<string, Partial<RetryPolicy>> {
+    const policies: Record<string, Partial<RetryPolicy>> = {};
+    
+    LlmManager.getRegisteredProviders().forEach(provider => {
+        const policy = parseRetryPolicy(`${provider.toUpperCase().replace(/-/g, '_')}_RETRY_`);
+        if (Object.keys(policy).length > 0) {
+            policies[provider] = policy;
+        }
+    });
+    
+    return policies;
+}
+
+/**
+ * Parse circuit breaker overrides from environment variables
+ * CIRCUIT_BREAKER_ENABLED=false turns the breakers off; CIRCUIT_BREAKER_PER_MODEL=true keeps one per model
+ * 
+ * @returns Partial CircuitBreakerPolicy with the configured overrides
+ * @throws Error if a value is invalid
+ */
+export function parseCircuitBreakerPolicy(): Partial<CircuitBreakerPolicy> {
+    const policy: Partial<CircuitBreakerPolicy> = {};
+    
+    const booleanMapping: Array<['enabled' | 'perModel', string]> = [
+        ['enabled', 'CIRCUIT_BREAKER_ENABLED'],
+        ['perModel', 'CIRCUIT_BREAKER_PER_MODEL']
+    ];
+    for (const [field, envKey] of booleanMapping) {
+        const envValue = process.env[envKey]?.trim().toLowerCase();
+        if (!envValue) {
+            continue;
+        }
+        if (envValue !== 'true' && envValue !== 'false') {
+            throw new Error(`Invalid ${envKey}: ${process.env[envKey]}. Must be "true" or "false".`);
+        }
+        policy[field] = envValue === 'true';
+    }
+    
+    const failureRateStr = process.env.CIRCUIT_BREAKER_FAILURE_RATE?.trim();
+    if (failureRateStr) {
+        const failureRate = Number(failureRateStr);
+        if (isNaN(failureRate) || failureRate <= 0 || failureRate > 1) {
+            throw new Error(`Invalid CIRCUIT_BREAKER_FAILURE_RATE: ${failureRateStr}. Must be greater than 0 and at most 1.`);
+        }
+        policy.failureRateThreshold = failureRate;
+    }
+    
+    const numberMapping: Array<['minimumRequests' | 'windowMs' | 'openMs', string]> = [
+        ['minimumRequests', 'CIRCUIT_BREAKER_MIN_REQUESTS'],
+        ['windowMs', 'CIRCUIT_BREAKER_WINDOW_MS'],
+        ['openMs', 'CIRCUIT_BREAKER_OPEN_MS']
+    ];
+    for (const [field, envKey] of numberMapping) {
+        const envValue = process.env[envKey]?.trim();
+        if (!envValue) {
+            continue;
+        }
+        const value = Number(envValue);
+        if (!Number.isInteger(value) || value < 1) {
+            throw new Error(`Invalid ${envKey}: ${envValue}. Must be a positive integer.`);
+        }
+        policy[field] = value;
+    }
+    
+    return policy;
+}
+
+/**
+ * Parse the log level from LOG_LEVEL
+ * 
+ * @param enableLogging - Whether request logging is enabled, which makes 'debug' the default
+ * @returns debug, info, warn, error or silent
+ * @throws Error if the level is unknown
+ */
+export function parseLogLevel(enableLogging: boolean = false): LogLevel | 'silent' {
+    const level = process.env.LOG_LEVEL?.trim().toLowerCase();
+    if (!level) {
+        return enableLogging ? 'debug' : 'info';
+    }
+    if (level !== 'silent' && !LOG_LEVELS.includes(level as LogLevel)) {
+        throw new Error(`Invalid LOG_LEVEL: ${process.env.LOG_LEVEL}. Must be one of ${[...LOG_LEVELS, 'silent'].join(', ')}.`);
+    }
+    return level as LogLevel | 'silent';
+}
+
+/**
+ * Parse response cache settings from environment variables
+ * RESPONSE_CACHE=memory|disk enables the cache; it is disabled when unset or "off"
+ * 
+ * @returns ResponseCacheConfig, or undefined when the cache is disabled
+ * @throws Error if the backend, TTL or size is invalid
+ */
+export function parseResponseCacheConfig(): ResponseCacheConfig | undefined {
+    const backend = process.env.RESPONSE_CACHE?.trim().toLowerCase();
+    if (!backend || backend === 'off') {
+        return undefined;
+    }
+    if (backend !== 'memory' && backend !== 'disk') {
+        throw new Error(`Invalid RESPONSE_CACHE: ${process.env.RESPONSE_CACHE}. Must be "memory", "disk" or "off".`);
+    }
+    
+    const ttlStr = process.env.RESPONSE_CACHE_TTL_SECONDS || '3600';
+    const ttlSeconds = Number(ttlStr);
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+        throw new Error(`Invalid RESPONSE_CACHE_TTL_SECONDS: ${ttlStr}. Must be a positive integer.`);
+    }
+    
+    const maxEntriesStr = process.env.RESPONSE_CACHE_MAX_ENTRIES || '1000';
+    const maxEntries = Number(maxEntriesStr);
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+        throw new Error(`Invalid RESPONSE_CACHE_MAX_ENTRIES: ${maxEntriesStr}. Must be a positive integer.`);
+    }
+    
+    const directory = process.env.RESPONSE_CACHE_DIR?.trim() || undefined;
+    if (backend === 'disk' && !directory) {
+        throw new Error('RESPONSE_CACHE_DIR must be set when RESPONSE_CACHE is "disk".');
+    }
+    
+    return { backend, ttlMs: ttlSeconds * 1000, maxEntries, ...(backend === 'disk' && { directory }) };
+}
+
+/**
+ * Parse trace export settings from environment variables
+ * TRACING_EXPORTER=log|otlp enables export; spans are discarded when unset or "none"
+ * 
+ * @returns TracingConfig, or undefined when tracing is disabled
+ * @throws Error if the exporter or sample ratio is invalid
+ */
+export function parseTracingConfig(): TracingConfig | undefined {
+    const exporter = process.env.TRACING_EXPORTER?.trim().toLowerCase();
+    if (!exporter || exporter === 'none') {
+        return undefined;
+    }
+    if (exporter !== 'log' && exporter !== 'otlp') {
+        throw new Error(`Invalid TRACING_EXPORTER: ${process.env.TRACING_EXPORTER}. Must be "log", "otlp" or "none".`);
+    }
+    
+    const sampleRatioStr = process.env.TRACING_SAMPLE_RATIO?.trim() || '1';
+    const sampleRatio = Number(sampleRatioStr);
+    if (isNaN(sampleRatio) || sampleRatio < 0 || sampleRatio > 1) {
+        throw new Error(`Invalid TRACING_SAMPLE_RATIO: ${sampleRatioStr}. Must be between 0 and 1.`);
+    }
+    
+    const serviceName = process.env.TRACING_SERVICE_NAME?.trim() || 'llm-rotation-server';
+    const otlpEndpoint = process.env.TRACING_OTLP_ENDPOINT?.trim() || 'http://localhost:4318/v1/traces';
+    
+    return { exporter, sampleRatio, serviceName, ...(exporter === 'otlp' && { otlpEndpoint }) };
+}
+
+/**
+ * Parse limits on image downloads from environment variables
+ * Only variables that are set are returned; LlmManager fills in the rest from its defaults
+ * 
+ * @returns Partial ImageFetchPolicy with the configured overrides
+ * @throws Error if a size or timeout is not a positive integer
+ */
+export function parseImageFetchPolicy(): Partial<ImageFetchPolicy> {
+    const policy: Partial<ImageFetchPolicy> = {};
+    
+    const allowedHosts = process.env.IMAGE_FETCH_ALLOWED_HOSTS?.split(',').map(host => host.trim().toLowerCase()).filter(host => host.length > 0);
+    if (allowedHosts?.length) {
+        policy.allowedHosts = allowedHosts;
+    }
+    
+    const numberMapping: Array<['maxBytes' | 'timeoutMs', string]> = [
+        ['maxBytes', 'IMAGE_FETCH_MAX_BYTES'],
+        ['timeoutMs', 'IMAGE_FETCH_TIMEOUT_MS']
+    ];
+    for (const [field, envKey] of numberMapping) {
+        const envValue = process.env[envKey]?.trim();
+        if (!envValue) {
+            continue;
+        }
+        const value = Number(envValue);
+        if (!Number.isInteger(value) || value < 1) {
+            throw new Error(`Invalid ${envKey}: ${envValue}. Must be a positive integer.`);
+        }
+        policy[field] = value;
+    }
+    
+    return policy;
+}
+
 /**
  * Load complete server configuration from environment variables
  * Provides type-safe parsing with sensible defaults
@@ -65,6 +494,10 @@ export function loadConfiguration(): ServerConfig {
         throw new Error(`Invalid PORT value: ${portStr}. Must be a number between 1 and 65535.`);
     }
     
+    // Register configured providers first so their keys and fallback chains are recognised
+    const customProviders = parseCustomProviders();
+    registerCustomProviders(customProviders);
+    
     // Parse API keys
     const apiKeys = parseApiKeys();
     
@@ -93,6 +526,7 @@ export function loadConfiguration(): ServerConfig {
     // Parse optional settings
     const environment = process.env.NODE_ENV || 'development';
     const enableLogging = process.env.ENABLE_LOGGING?.toLowerCase() === 'true' || environment === 'development';
+    const logLevel = parseLogLevel(enableLogging);
     
     const requestTimeoutStr = process.env.REQUEST_TIMEOUT || '30000';
     const requestTimeout = parseInt(requestTimeoutStr, 10);
@@ -101,13 +535,49 @@ export function loadConfiguration(): ServerConfig {
         throw new Error(`Invalid REQUEST_TIMEOUT: ${requestTimeoutStr}. Must be at least 1000ms.`);
     }
     
+    const providerFallback = parseFallbackConfig();
+    const keyCooldown = parseCooldownPolicy();
+    const keyStateFile = process.env.KEY_STATE_FILE?.trim() || undefined;
+    
+    const structuredOutputAttemptsStr = process.env.STRUCTURED_OUTPUT_ATTEMPTS || '2';
+    const structuredOutputAttempts = parseInt(structuredOutputAttemptsStr, 10);
+    
+    if (isNaN(structuredOutputAttempts) || structuredOutputAttempts < 1) {
+        throw new Error(`Invalid STRUCTURED_OUTPUT_ATTEMPTS: ${structuredOutputAttemptsStr}. Must be a positive integer.`);
+    }
+    
+    const virtualKeysFile = process.env.VIRTUAL_KEYS_FILE?.trim() || undefined;
+    const adminApiKey = process.env.ADMIN_API_KEY?.trim() || undefined;
+    const rateLimits = parseRateLimits();
+    const responseCache = parseResponseCacheConfig();
+    const retry = parseRetryPolicy();
+    const providerRetry = parseProviderRetryPolicies();
+    const circuitBreaker = parseCircuitBreakerPolicy();
+    const tracing = parseTracingConfig();
+    const imageFetch = parseImageFetchPolicy();
+    
     return {
         port,
         apiKeys,
         defaultSettings,
         environment,
         enableLogging,
-        requestTimeout
+        logLevel,
+        requestTimeout,
+        providerFallback,
+        keyCooldown,
+        keyStateFile,
+        customProviders,
+        structuredOutputAttempts,
+        virtualKeysFile,
+        adminApiKey,
+        rateLimits,
+        responseCache,
+        retry,
+        providerRetry,
+        circuitBreaker,
+        tracing,
+        imageFetch
     };
 }
 
@@ -162,7 +632,21 @@ export function getConfigSummary(config: ServerConfig): Record<string, any> {
         port: config.port,
         environment: config.environment,
         enableLogging: config.enableLogging,
+        logLevel: config.logLevel,
         requestTimeout: config.requestTimeout,
+        providerFallback: config.providerFallback?.enabled ?? false,
+        keyStatePersistence: config.keyStateFile ? '[CONFIGURED]' : '[NOT SET]',
+        structuredOutputAttempts: config.structuredOutputAttempts,
+        virtualKeys: config.virtualKeysFile ? '[CONFIGURED]' : '[NOT SET]',
+        adminApi: config.adminApiKey ? '[CONFIGURED]' : '[NOT SET]',
+        rateLimits: config.rateLimits,
+        responseCache: config.responseCache?.backend ?? 'off',
+        retry: config.retry,
+        providerRetry: config.providerRetry,
+        circuitBreaker: config.circuitBreaker?.enabled === false ? 'off' : config.circuitBreaker?.perModel ? 'per-model' : 'per-provider',
+        tracing: config.tracing?.exporter ?? 'off',
+        imageFetch: config.imageFetch,
+        customProviders: config.customProviders?.map(provider => provider.name) ?? [],
         providersConfigured: Object.keys(config.apiKeys),
         providerKeyCounts,
         defaultSettings: {
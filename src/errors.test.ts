@@ -10,10 +10,14 @@ import {
     ErrorResponseFormatter,
     ValidationErrorHandler,
     extractErrorMessage,
+    isKeyExhaustionError,
     isRetryableError,
     getRetryDelay
 } from './errors';
 import { ApiError } from './types';
+import { ContentFilteredError } from './finish-reason';
+import { StructuredOutputError } from './structured-output';
+import { CircuitOpenError } from './circuit-breaker';
 import LlmManager from './llm_rotation';
 
 describe('ErrorTransformer', () => {
@@ -67,6 +71,34 @@ describe('ErrorTransformer', () => {
             expect(apiError.details?.provider).toBe('openai');
         });
         
+        it('should transform open circuits into a service unavailable error', () => {
+            const apiError = ErrorTransformer.fromGenericError(new CircuitOpenError('gemini', 12_500), { provider: 'gemini' });
+            
+            expect(apiError.type).toBe('api_error');
+            expect(apiError.code).toBe('circuit_open');
+            expect(apiError.statusCode).toBe(503);
+            expect(apiError.message).toContain('Retry after 13 seconds');
+            expect(apiError.details?.provider).toBe('gemini');
+        });
+        
+        it('should transform content filter blocks into a distinct error', () => {
+            const apiError = ErrorTransformer.fromGenericError(new ContentFilteredError('gemini', 'SAFETY'), { provider: 'gemini' });
+            
+            expect(apiError.type).toBe('invalid_request_error');
+            expect(apiError.code).toBe('content_filter');
+            expect(apiError.statusCode).toBe(400);
+            expect(apiError.details?.provider).toBe('gemini');
+        });
+        
+        it('should transform exhausted structured output attempts into json_validation_failed', () => {
+            const apiError = ErrorTransformer.fromGenericError(new StructuredOutputError(3, 'invalid JSON'), { provider: 'openrouter' });
+            
+            expect(apiError.type).toBe('api_error');
+            expect(apiError.code).toBe('json_validation_failed');
+            expect(apiError.statusCode).toBe(502);
+            expect(apiError.message).toContain('after 3 attempts: invalid JSON');
+        });
+        
         it('should default to server error for unknown errors', () => {
             const error = new Error('Something went wrong');
             const apiError = ErrorTransformer.fromGenericError(error);
@@ -275,14 +307,16 @@ describe('ErrorResponseFormatter', () => {
     
     describe('logAndFormatError', () => {
         it('should log error and return safe response', () => {
-            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn() };
             
-            const apiError = new ApiError('Test error', 'api_error', 'provider_error', 502);
-            const response = ErrorResponseFormatter.logAndFormatError(apiError, 'req-123');
+            const apiError = new ApiError('Test error', 'api_error', 'provider_error', 502, { provider: 'gemini' });
+            const response = ErrorResponseFormatter.logAndFormatError(apiError, 'req-123', false, logger);
             
-            expect(consoleSpy).toHaveBeenCalledWith(
-                '[req-123] API Error:',
+            expect(logger.error).toHaveBeenCalledWith(
+                'API error',
                 expect.objectContaining({
+                    requestId: 'req-123',
+                    provider: 'gemini',
                     message: 'Test error',
                     type: 'api_error',
                     code: 'provider_error',
@@ -291,8 +325,6 @@ describe('ErrorResponseFormatter', () => {
             );
             
             expect(response.error.message).toBe('Test error');
-            
-            consoleSpy.mockRestore();
         });
     });
 });
@@ -414,6 +446,158 @@ describe('ValidationErrorHandler', () => {
             expect(error?.details?.fieldErrors?.['messages[0].role']).toContain('must be one of');
             expect(error?.details?.fieldErrors?.['messages[1].content']).toContain('non-empty string');
         });
+        
+        it('should accept tool call and tool result messages', () => {
+            const messages = [
+                { role: 'user', content: 'Weather in Paris?' },
+                { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }] },
+                { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":21}' }
+            ];
+            expect(ValidationErrorHandler.validateMessages(messages)).toBeNull();
+        });
+        
+        it('should return error for tool messages without tool_call_id', () => {
+            const error = ValidationErrorHandler.validateMessages([{ role: 'tool', content: '21' }]);
+            expect(error?.details?.fieldErrors?.['messages[0].tool_call_id']).toBeDefined();
+        });
+        
+        it('should accept text and image content parts', () => {
+            const messages = [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'What is this?' },
+                    { type: 'image_url', image_url: { url: 'https://example.com/cat.png', detail: 'high' } }
+                ]
+            }];
+            expect(ValidationErrorHandler.validateMessages(messages)).toBeNull();
+        });
+        
+        it('should return error for malformed content parts', () => {
+            const error = ValidationErrorHandler.validateMessages([
+                { role: 'user', content: [{ type: 'image_url', image_url: { url: 'ftp://example.com/cat.png' } }] },
+                { role: 'user', content: [] }
+            ]);
+            expect(error?.details?.fieldErrors?.['messages[0].content']).toBeDefined();
+            expect(error?.details?.fieldErrors?.['messages[1].content']).toBeDefined();
+        });
+    });
+    
+    describe('validateEmbeddingOptions', () => {
+        it('should accept a string or an array of strings', () => {
+            expect(ValidationErrorHandler.validateEmbeddingOptions('hello')).toBeNull();
+            expect(ValidationErrorHandler.validateEmbeddingOptions(['a', 'b'], 256, 'base64')).toBeNull();
+        });
+        
+        it('should reject empty inputs and token arrays', () => {
+            expect(ValidationErrorHandler.validateEmbeddingOptions('')?.details?.fieldErrors?.input).toBeDefined();
+            expect(ValidationErrorHandler.validateEmbeddingOptions([])?.details?.fieldErrors?.input).toBeDefined();
+            expect(ValidationErrorHandler.validateEmbeddingOptions([[1, 2, 3]])?.details?.fieldErrors?.input).toContain('token arrays');
+        });
+        
+        it('should reject invalid dimensions and encoding formats', () => {
+            const error = ValidationErrorHandler.validateEmbeddingOptions('hello', 0, 'int8');
+            expect(error?.details?.fieldErrors).toEqual({
+                dimensions: 'dimensions must be a positive integer',
+                encoding_format: "encoding_format must be 'float' or 'base64'"
+            });
+        });
+    });
+    
+    describe('validateGenerationOptions', () => {
+        it('should accept valid generation parameters', () => {
+            expect(ValidationErrorHandler.validateGenerationOptions({
+                stop: ['END', '###'],
+                frequency_penalty: -2,
+                presence_penalty: 2,
+                seed: 42,
+                n: 3,
+                response_format: { type: 'json_object' },
+                logit_bias: { '50256': -100 },
+                user: 'user-1'
+            })).toBeNull();
+            expect(ValidationErrorHandler.validateGenerationOptions({ stop: 'END', n: 1, stream: true })).toBeNull();
+        });
+        
+        it('should report each invalid parameter', () => {
+            const error = ValidationErrorHandler.validateGenerationOptions({
+                stop: ['a', 'b', 'c', 'd', 'e'],
+                presence_penalty: 2.5,
+                seed: 1.5,
+                response_format: { type: 'xml' },
+                logit_bias: { hello: 5 },
+                user: 42
+            });
+            
+            expect(Object.keys(error?.details?.fieldErrors ?? {})).toEqual(['stop', 'presence_penalty', 'seed', 'response_format', 'logit_bias', 'user']);
+        });
+        
+        it('should validate json_schema response formats', () => {
+            expect(ValidationErrorHandler.validateGenerationOptions({
+                response_format: { type: 'json_schema', json_schema: { name: 'person', schema: { type: 'object' } } }
+            })).toBeNull();
+            
+            const error = ValidationErrorHandler.validateGenerationOptions({
+                response_format: { type: 'json_schema', json_schema: { name: 'a person', schema: { type: 'banana' } } }
+            });
+            
+            expect(Object.keys(error?.details?.fieldErrors ?? {})).toEqual(['response_format.json_schema.name', 'response_format.json_schema.schema']);
+        });
+        
+        it('should reject multiple choices when streaming', () => {
+            const error = ValidationErrorHandler.validateGenerationOptions({ n: 2, stream: true });
+            
+            expect(error?.details?.fieldErrors?.n).toBe('n greater than 1 is not supported when streaming');
+        });
+    });
+    
+    describe('validateVirtualKeyOptions', () => {
+        it('should accept valid key settings', () => {
+            expect(ValidationErrorHandler.validateVirtualKeyOptions({
+                label: 'team-a',
+                allowed_models: ['gpt-4o', 'gemini-*'],
+                allowed_providers: ['openai'],
+                expires_at: '2030-01-01T00:00:00Z'
+            })).toBeNull();
+            expect(ValidationErrorHandler.validateVirtualKeyOptions({ expires_at: null }, true)).toBeNull();
+        });
+        
+        it('should require a label unless updating', () => {
+            expect(ValidationErrorHandler.validateVirtualKeyOptions({})?.details?.fieldErrors?.label).toBe('label must be a non-empty string');
+            expect(ValidationErrorHandler.validateVirtualKeyOptions({ label: ' ' }, true)?.details?.fieldErrors?.label).toBeDefined();
+        });
+        
+        it('should report each invalid field', () => {
+            const error = ValidationErrorHandler.validateVirtualKeyOptions({
+                label: 'team-a',
+                allowed_models: 'gpt-4o',
+                allowed_providers: [''],
+                expires_at: 'tomorrow'
+            });
+            
+            expect(Object.keys(error?.details?.fieldErrors ?? {})).toEqual(['allowed_models', 'allowed_providers', 'expires_at']);
+        });
+    });
+    
+    describe('validateTools', () => {
+        const tools = [{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }];
+        
+        it('should return null for valid tools and tool_choice', () => {
+            expect(ValidationErrorHandler.validateTools(undefined, undefined)).toBeNull();
+            expect(ValidationErrorHandler.validateTools(tools, 'auto')).toBeNull();
+            expect(ValidationErrorHandler.validateTools(tools, { type: 'function', function: { name: 'get_weather' } })).toBeNull();
+        });
+        
+        it('should return error for malformed tools', () => {
+            const error = ValidationErrorHandler.validateTools([{ type: 'function', function: { name: 'get weather' } }]);
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error?.details?.fieldErrors?.['tools[0]']).toBeDefined();
+        });
+        
+        it('should return error for invalid tool_choice', () => {
+            expect(ValidationErrorHandler.validateTools(tools, 'always')?.details?.fieldErrors?.tool_choice).toBeDefined();
+            expect(ValidationErrorHandler.validateTools(tools, { type: 'function', function: { name: 'get_time' } })?.details?.fieldErrors?.tool_choice)
+                .toContain('unknown function');
+        });
     });
 });
 
@@ -440,6 +624,21 @@ describe('Utility Functions', () => {
         });
     });
     
+    describe('isKeyExhaustionError', () => {
+        it('should detect keys_exhausted ApiErrors', () => {
+            expect(isKeyExhaustionError(ApiError.keysExhausted('openrouter', ['failed', 'rate-limited']))).toBe(true);
+            expect(isKeyExhaustionError(ApiError.keysExhausted('My-llm', ['failed']))).toBe(true);
+            expect(isKeyExhaustionError(ApiError.noApiKeys('nvidia'))).toBe(true);
+        });
+        
+        it('should return false for other errors', () => {
+            expect(isKeyExhaustionError(new Error('All Chutes API keys failed. Last error: 429'))).toBe(false);
+            expect(isKeyExhaustionError(new Error('Unsupported LLM provider specified: foo'))).toBe(false);
+            expect(isKeyExhaustionError(ApiError.validation('bad request'))).toBe(false);
+            expect(isKeyExhaustionError('something else')).toBe(false);
+        });
+    });
+    
     describe('isRetryableError', () => {
         it('should identify retryable errors', () => {
             const rateLimitError = new ApiError('Rate limited', 'rate_limit_error', 'rate_limited', 429);
@@ -8,6 +8,12 @@
 import { ApiError, ApiErrorType, ApiErrorCode, ErrorResponse, ErrorDetails } from './types';
 import { Provider, ApiKeyStatus } from './llm_rotation';
 import LlmManager from './llm_rotation';
+import { isValidContentPart } from './transformations';
+import { ContentFilteredError } from './finish-reason';
+import { StructuredOutputError, checkJsonSchema } from './structured-output';
+import { CircuitOpenError } from './circuit-breaker';
+import { defaultLogger } from './logger';
+import type { Logger } from './logger';
 
 /**
  * Transform generic errors into structured ApiError instances
@@ -17,6 +23,18 @@ export class ErrorTransformer {
      * Transform a generic error into an ApiError with appropriate type and code
      */
     static fromGenericError(error: Error, context?: { provider?: string; model?: string }): ApiError {
+        if (error instanceof ContentFilteredError) {
+            return ApiError.contentFiltered(error.provider, error.reason);
+        }
+        
+        if (error instanceof StructuredOutputError) {
+            return ApiError.jsonValidationFailed(error.attempts, error.reason, context?.provider);
+        }
+        
+        if (error instanceof CircuitOpenError) {
+            return ApiError.circuitOpen(error.provider, Math.max(1, Math.ceil(error.retryAfterMs / 1000)));
+        }
+        
         const message = error.message || 'Unknown error occurred';
         
         // Check for specific error patterns
@@ -277,10 +295,13 @@ export class ErrorResponseFormatter {
     static logAndFormatError(
         error: ApiError, 
         requestId?: string,
-        includeDetailsInResponse: boolean = false
+        includeDetailsInResponse: boolean = false,
+        logger: Logger = defaultLogger
     ): ErrorResponse {
-        // Log full error details for debugging
-        console.error(`[${requestId || 'unknown'}] API Error:`, {
+        // Log full error details for debugging; the logger redacts keys from them
+        logger.error('API error', {
+            requestId: requestId || 'unknown',
+            provider: error.details?.provider,
             message: error.message,
             type: error.type,
             code: error.code,
@@ -407,6 +428,196 @@ export class ValidationErrorHandler {
         return null;
     }
     
+    /**
+     * Validate the input, dimensions and encoding_format of an embeddings request
+     */
+    static validateEmbeddingOptions(input: any, dimensions?: any, encodingFormat?: any): ApiError | null {
+        const fieldErrors: Record<string, string> = {};
+
+        if (Array.isArray(input)) {
+            if (input.length === 0) {
+                fieldErrors.input = 'Input array cannot be empty';
+            } else if (input.length > 2048) {
+                fieldErrors.input = 'Input array must contain at most 2048 texts';
+            } else if (!input.every(text => typeof text === 'string' && text.length > 0)) {
+                fieldErrors.input = 'Input must be a non-empty string or an array of non-empty strings; token arrays are not supported';
+            }
+        } else if (typeof input !== 'string' || input.length === 0) {
+            fieldErrors.input = 'Input must be a non-empty string or an array of non-empty strings';
+        }
+
+        if (dimensions !== undefined && (typeof dimensions !== 'number' || !Number.isInteger(dimensions) || dimensions < 1)) {
+            fieldErrors.dimensions = 'dimensions must be a positive integer';
+        }
+
+        if (encodingFormat !== undefined && !['float', 'base64'].includes(encodingFormat)) {
+            fieldErrors.encoding_format = "encoding_format must be 'float' or 'base64'";
+        }
+
+        if (Object.keys(fieldErrors).length > 0) {
+            return ApiError.validation('Invalid embeddings request', fieldErrors);
+        }
+
+        return null;
+    }
+
+    /**
+     * Validate tools and tool_choice parameters
+     */
+    static validateTools(tools?: any, toolChoice?: any): ApiError | null {
+        const fieldErrors: Record<string, string> = {};
+        
+        if (tools !== undefined) {
+            if (!Array.isArray(tools)) {
+                fieldErrors.tools = 'tools must be an array';
+            } else {
+                tools.forEach((tool: any, i: number) => {
+                    if (!tool || tool.type !== 'function' || typeof tool.function?.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.function.name)) {
+                        fieldErrors[`tools[${i}]`] = "Tools must have type 'function' and a function.name of up to 64 letters, digits, '_' or '-'";
+                    } else if (tool.function.parameters !== undefined && (typeof tool.function.parameters !== 'object' || tool.function.parameters === null)) {
+                        fieldErrors[`tools[${i}].function.parameters`] = 'parameters must be a JSON Schema object';
+                    }
+                });
+            }
+        }
+        
+        if (toolChoice !== undefined) {
+            const names = Array.isArray(tools) ? tools.map((tool: any) => tool?.function?.name) : [];
+            if (typeof toolChoice === 'string') {
+                if (!['none', 'auto', 'required'].includes(toolChoice)) {
+                    fieldErrors.tool_choice = "tool_choice must be 'none', 'auto', 'required' or a function selection";
+                }
+            } else if (toolChoice?.type !== 'function' || typeof toolChoice.function?.name !== 'string') {
+                fieldErrors.tool_choice = "tool_choice must be 'none', 'auto', 'required' or a function selection";
+            } else if (!names.includes(toolChoice.function.name)) {
+                fieldErrors.tool_choice = `tool_choice references unknown function: ${toolChoice.function.name}`;
+            }
+        }
+        
+        if (Object.keys(fieldErrors).length > 0) {
+            return ApiError.validation('Invalid tools configuration', fieldErrors);
+        }
+        
+        return null;
+    }
+    
+    /**
+     * Validate the optional generation parameters of a chat completion request
+     * (stop, penalties, seed, n, response_format, logit_bias and user)
+     */
+    static validateGenerationOptions(request: any): ApiError | null {
+        const fieldErrors: Record<string, string> = {};
+        const { stop, frequency_penalty, presence_penalty, seed, n, response_format, logit_bias, user, stream } = request ?? {};
+        
+        if (stop !== undefined) {
+            const sequences = typeof stop === 'string' ? [stop] : stop;
+            if (!Array.isArray(sequences) || sequences.length > 4 || !sequences.every(sequence => typeof sequence === 'string' && sequence.length > 0)) {
+                fieldErrors.stop = 'stop must be a non-empty string or an array of up to 4 non-empty strings';
+            }
+        }
+        
+        for (const [field, value] of [['frequency_penalty', frequency_penalty], ['presence_penalty', presence_penalty]] as const) {
+            if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value < -2 || value > 2)) {
+                fieldErrors[field] = `${field} must be a number between -2 and 2`;
+            }
+        }
+        
+        if (seed !== undefined && !Number.isSafeInteger(seed)) {
+            fieldErrors.seed = 'seed must be an integer';
+        }
+        
+        if (n !== undefined) {
+            if (!Number.isInteger(n) || n < 1 || n > 8) {
+                fieldErrors.n = 'n must be an integer between 1 and 8';
+            } else if (n > 1 && stream) {
+                fieldErrors.n = 'n greater than 1 is not supported when streaming';
+            }
+        }
+        
+        if (response_format !== undefined) {
+            if (!['text', 'json_object', 'json_schema'].includes(response_format?.type)) {
+                fieldErrors.response_format = "response_format.type must be 'text', 'json_object' or 'json_schema'";
+            } else if (response_format.type === 'json_schema') {
+                const { name, schema } = response_format.json_schema ?? {};
+                if (typeof name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+                    fieldErrors['response_format.json_schema.name'] = "json_schema.name must be up to 64 letters, digits, '_' or '-'";
+                }
+                const schemaError = schema === undefined ? null : checkJsonSchema(schema);
+                if (schemaError) {
+                    fieldErrors['response_format.json_schema.schema'] = schemaError;
+                }
+            }
+        }
+        
+        if (logit_bias !== undefined) {
+            const entries = logit_bias && typeof logit_bias === 'object' && !Array.isArray(logit_bias) ? Object.entries(logit_bias) : null;
+            if (!entries || !entries.every(([token, bias]) => /^\d+$/.test(token) && typeof bias === 'number' && bias >= -100 && bias <= 100)) {
+                fieldErrors.logit_bias = 'logit_bias must map token ids to numbers between -100 and 100';
+            }
+        }
+        
+        if (user !== undefined && typeof user !== 'string') {
+            fieldErrors.user = 'user must be a string';
+        }
+        
+        if (Object.keys(fieldErrors).length > 0) {
+            return ApiError.validation('Invalid generation parameters', fieldErrors);
+        }
+        
+        return null;
+    }
+    
+    /**
+     * Validate the body of a request adding a provider API key
+     */
+    static validateProviderKey(body: any): ApiError | null {
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return ApiError.validation('Request body must be a JSON object');
+        }
+        
+        if (typeof body.key !== 'string' || body.key.trim().length === 0) {
+            return ApiError.validation('Invalid provider key', { key: 'key must be a non-empty string' });
+        }
+        
+        if (/[\s,]/.test(body.key.trim())) {
+            return ApiError.validation('Invalid provider key', { key: 'key must be a single key without whitespace or commas' });
+        }
+        
+        return null;
+    }
+    
+    /**
+     * Validate the body of a request creating a virtual key, or updating one when partial
+     */
+    static validateVirtualKeyOptions(body: any, partial: boolean = false): ApiError | null {
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return ApiError.validation('Request body must be a JSON object');
+        }
+        
+        const fieldErrors: Record<string, string> = {};
+        const { label, allowed_models, allowed_providers, expires_at } = body;
+        
+        if ((label !== undefined || !partial) && (typeof label !== 'string' || label.trim().length === 0)) {
+            fieldErrors.label = 'label must be a non-empty string';
+        }
+        
+        for (const [field, value] of [['allowed_models', allowed_models], ['allowed_providers', allowed_providers]] as const) {
+            if (value !== undefined && value !== null && (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.length > 0))) {
+                fieldErrors[field] = `${field} must be an array of non-empty strings or null`;
+            }
+        }
+        
+        if (expires_at !== undefined && expires_at !== null && (typeof expires_at !== 'string' || isNaN(Date.parse(expires_at)))) {
+            fieldErrors.expires_at = 'expires_at must be an ISO 8601 timestamp or null';
+        }
+        
+        if (Object.keys(fieldErrors).length > 0) {
+            return ApiError.validation('Invalid virtual key', fieldErrors);
+        }
+        
+        return null;
+    }
+    
     /**
      * Validate messages array
      */
@@ -428,12 +639,31 @@ export class ValidationErrorHandler {
         for (let i = 0; i < messages.length; i++) {
             const message = messages[i];
             
-            if (!message.role || !['user', 'assistant', 'system'].includes(message.role)) {
-                fieldErrors[`messages[${i}].role`] = 'Role must be one of: user, assistant, system';
+            if (!message.role || !['user', 'assistant', 'system', 'tool'].includes(message.role)) {
+                fieldErrors[`messages[${i}].role`] = 'Role must be one of: user, assistant, system, tool';
             }
             
-            if (!message.content || typeof message.content !== 'string') {
-                fieldErrors[`messages[${i}].content`] = 'Content must be a non-empty string';
+            // Assistant messages that only request tool calls may have null content
+            const hasToolCalls = Array.isArray(message.tool_calls) && message.tool_calls.length > 0;
+            if (message.role === 'assistant' && hasToolCalls) {
+                if (message.content !== null && message.content !== undefined && typeof message.content !== 'string') {
+                    fieldErrors[`messages[${i}].content`] = 'Content must be a string or null';
+                }
+                message.tool_calls.forEach((call: any, j: number) => {
+                    if (!call || typeof call.id !== 'string' || typeof call.function?.name !== 'string' || typeof call.function?.arguments !== 'string') {
+                        fieldErrors[`messages[${i}].tool_calls[${j}]`] = 'Tool calls need an id, function.name and JSON string function.arguments';
+                    }
+                });
+            } else if (Array.isArray(message.content)) {
+                if (message.content.length === 0 || !message.content.every(isValidContentPart)) {
+                    fieldErrors[`messages[${i}].content`] = 'Content parts must be text parts or image_url parts with an http(s) or data:image URL';
+                }
+            } else if (!message.content || typeof message.content !== 'string') {
+                fieldErrors[`messages[${i}].content`] = 'Content must be a non-empty string or an array of content parts';
+            }
+            
+            if (message.role === 'tool' && (!message.tool_call_id || typeof message.tool_call_id !== 'string')) {
+                fieldErrors[`messages[${i}].tool_call_id`] = 'Tool messages must reference the tool_call_id they answer';
             }
         }
         
@@ -464,6 +694,14 @@ export function extractErrorMessage(error: unknown): string {
     return 'Unknown error occurred';
 }
 
+/**
+ * Utility function to determine if an error means a provider has no usable keys left,
+ * either because every key failed or because none are configured
+ */
+export function isKeyExhaustionError(error: unknown): boolean {
+    return error instanceof ApiError && error.code === 'keys_exhausted';
+}
+
 /**
  * Utility function to determine if an error is retryable
  */
@@ -0,0 +1,128 @@
+/**
+ * @file fallback.test.ts
+ * @description Unit tests for cross-provider fallback
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { resolveFallbackCandidates, executeWithFallback } from './fallback';
+import type { FallbackCandidate } from './fallback';
+import { StructuredOutputError } from './structured-output';
+import { CircuitOpenError } from './circuit-breaker';
+import { ApiError } from './types';
+import type { ApiKeys, ProviderFallbackConfig } from './types';
+
+describe('resolveFallbackCandidates', () => {
+    const apiKeys: ApiKeys = {
+        chutes: 'chutes-key',
+        openrouter: ['or-key-1', 'or-key-2'],
+        nvidia: 'nvidia-key'
+    };
+    const enabled: ProviderFallbackConfig = { enabled: true, chains: {} };
+
+    it('should return only the primary candidate when fallback is disabled', () => {
+        const candidates = resolveFallbackCandidates('deepseek-ai/DeepSeek-R1', 'chutes', { enabled: false, chains: {} }, apiKeys);
+
+        expect(candidates).toEqual([{ provider: 'chutes', model: 'deepseek-ai/DeepSeek-R1' }]);
+        expect(resolveFallbackCandidates('deepseek-ai/DeepSeek-R1', 'chutes', undefined, apiKeys)).toEqual(candidates);
+    });
+
+    it('should use detected alternatives that serve the model', () => {
+        const candidates = resolveFallbackCandidates('deepseek-ai/DeepSeek-R1', 'chutes', enabled, apiKeys);
+
+        expect(candidates).toEqual([
+            { provider: 'chutes', model: 'deepseek-ai/DeepSeek-R1' },
+            { provider: 'openrouter', model: 'deepseek/deepseek-r1:free' },
+            { provider: 'nvidia', model: 'deepseek-ai/deepseek-r1' }
+        ]);
+    });
+
+    it('should prefer explicit chains over detected alternatives', () => {
+        const config: ProviderFallbackConfig = { enabled: true, chains: { chutes: ['nvidia'] } };
+
+        const candidates = resolveFallbackCandidates('deepseek-ai/DeepSeek-R1', 'chutes', config, apiKeys);
+
+        expect(candidates.map(c => c.provider)).toEqual(['chutes', 'nvidia']);
+    });
+
+    it('should skip alternatives without configured keys', () => {
+        const candidates = resolveFallbackCandidates('deepseek-ai/DeepSeek-R1', 'chutes', enabled, { chutes: 'key', nvidia: 'key' });
+
+        expect(candidates.map(c => c.provider)).toEqual(['chutes', 'nvidia']);
+    });
+
+    it('should skip alternatives that do not serve the model', () => {
+        const candidates = resolveFallbackCandidates('moonshotai/Kimi-K2-Instruct', 'chutes', enabled, apiKeys);
+
+        expect(candidates).toEqual([{ provider: 'chutes', model: 'moonshotai/Kimi-K2-Instruct' }]);
+    });
+});
+
+describe('executeWithFallback', () => {
+    const candidates: FallbackCandidate[] = [
+        { provider: 'chutes', model: 'deepseek-ai/DeepSeek-R1' },
+        { provider: 'nvidia', model: 'deepseek-ai/deepseek-r1' }
+    ];
+
+    it('should return the first successful result', async () => {
+        const attempt = vi.fn().mockResolvedValue('ok');
+
+        const outcome = await executeWithFallback(candidates, attempt);
+
+        expect(outcome.result).toBe('ok');
+        expect(outcome.candidate).toEqual(candidates[0]);
+        expect(outcome.exhausted).toEqual([]);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move to the next candidate when keys are exhausted', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(ApiError.keysExhausted('Chutes', ['rate-limited'], '429'))
+            .mockResolvedValueOnce('from nvidia');
+        const onFallback = vi.fn();
+
+        const outcome = await executeWithFallback(candidates, attempt, onFallback);
+
+        expect(outcome.result).toBe('from nvidia');
+        expect(outcome.candidate).toEqual(candidates[1]);
+        expect(outcome.exhausted).toEqual([candidates[0]]);
+        expect(attempt).toHaveBeenLastCalledWith(candidates[1]);
+        expect(onFallback).toHaveBeenCalledWith(candidates[0], candidates[1], expect.any(Error));
+    });
+
+    it('should move to the next candidate when structured output stays invalid', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new StructuredOutputError(2, 'invalid JSON'))
+            .mockResolvedValueOnce('{"ok":true}');
+
+        const outcome = await executeWithFallback(candidates, attempt);
+
+        expect(outcome.result).toBe('{"ok":true}');
+        expect(outcome.exhausted).toEqual([candidates[0]]);
+    });
+
+    it('should move to the next candidate when the circuit is open', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new CircuitOpenError('chutes', 30000))
+            .mockResolvedValueOnce('from nvidia');
+
+        const outcome = await executeWithFallback(candidates, attempt);
+
+        expect(outcome.result).toBe('from nvidia');
+        expect(outcome.exhausted).toEqual([candidates[0]]);
+    });
+
+    it('should rethrow errors that are not key exhaustion', async () => {
+        const attempt = vi.fn().mockRejectedValue(new Error('Unsupported LLM provider specified: chutes'));
+
+        await expect(executeWithFallback(candidates, attempt)).rejects.toThrow('Unsupported LLM provider');
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow the last exhaustion error when every candidate fails', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(ApiError.keysExhausted('Chutes', ['failed'], '401'))
+            .mockRejectedValueOnce(ApiError.keysExhausted('Nvidia', ['failed'], '503'));
+
+        await expect(executeWithFallback(candidates, attempt)).rejects.toThrow('All Nvidia API keys failed');
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file fallback.ts
+ * @description Cross-provider fallback for the LLM Rotation Server
+ * Resolves which alternative providers can serve a model and retries a request
+ * on them in order when every key of the current provider is exhausted, its circuit
+ * breaker is open, or it keeps returning output that does not match the requested JSON format
+ */
+
+import { getProviderAlternatives, resolveModelForProvider } from './provider-detection';
+import { isKeyExhaustionError } from './errors';
+import { StructuredOutputError } from './structured-output';
+import { CircuitOpenError } from './circuit-breaker';
+import type { ApiKeys, Provider, ProviderFallbackConfig } from './types';
+
+/**
+ * A provider/model pair that a request can be attempted on
+ */
+export interface FallbackCandidate {
+    /** Provider to send the request to */
+    provider: Provider;
+    /** Model identifier as that provider names it */
+    model: string;
+}
+
+/**
+ * Result of a request executed with fallback
+ */
+export interface FallbackResult<T> {
+    /** Value returned by the successful attempt */
+    result: T;
+    /** Candidate that served the request */
+    candidate: FallbackCandidate;
+    /** Candidates that were tried and exhausted before the successful one */
+    exhausted: FallbackCandidate[];
+}
+
+/**
+ * Build the ordered list of candidates for a request, starting with the detected provider
+ * @param model - The requested model identifier
+ * @param provider - The detected primary provider
+ * @param fallback - Fallback configuration; when disabled only the primary candidate is returned
+ * @param apiKeys - Configured API keys, used to skip providers that have none
+ * @returns Ordered candidates, primary first
+ */
+export function resolveFallbackCandidates(
+    model: string,
+    provider: Provider,
+    fallback: ProviderFallbackConfig | undefined,
+    apiKeys: ApiKeys
+): FallbackCandidate[] {
+    const candidates: FallbackCandidate[] = [{ provider, model }];
+    
+    if (!fallback?.enabled) {
+        return candidates;
+    }
+    
+    const chain = fallback.chains[provider] ?? getProviderAlternatives(provider);
+    
+    for (const alternative of chain) {
+        if (alternative === provider || !apiKeys[alternative]) {
+            continue;
+        }
+        
+        const alternativeModel = resolveModelForProvider(model, alternative);
+        if (alternativeModel && !candidates.some(c => c.provider === alternative)) {
+            candidates.push({ provider: alternative, model: alternativeModel });
+        }
+    }
+    
+    return candidates;
+}
+
+/**
+ * Run an attempt against each candidate in order until one succeeds.
+ * Only key exhaustion, an open circuit and invalid structured output move on to the next candidate; any
+ * other error is rethrown immediately, and the last such error is rethrown when every candidate fails.
+ * @param candidates - Ordered candidates from resolveFallbackCandidates
+ * @param attempt - Function performing the request for one candidate
+ * @param onFallback - Optional callback invoked before moving to the next candidate
+ * @returns The successful result together with the candidate that served it
+ */
+export async function executeWithFallback<T>(
+    candidates: FallbackCandidate[],
+    attempt: (candidate: FallbackCandidate) => Promise<T>,
+    onFallback?: (from: FallbackCandidate, to: FallbackCandidate, error: Error) => void
+): Promise<FallbackResult<T>> {
+    const exhausted: FallbackCandidate[] = [];
+    
+    for (let i = 0; i < candidates.length; i++) {
+        const candidate = candidates[i];
+        try {
+            const result = await attempt(candidate);
+            return { result, candidate, exhausted };
+        } catch (error) {
+            const next = candidates[i + 1];
+            if (!next || !(isKeyExhaustionError(error) || error instanceof CircuitOpenError || error instanceof StructuredOutputError)) {
+                throw error;
+            }
+            
+            exhausted.push(candidate);
+            onFallback?.(candidate, next, error as Error);
+        }
+    }
+    
+    throw new Error('No fallback candidates available');
+}
@@ -0,0 +1,69 @@
+/**
+ * @file finish-reason.ts
+ * @description Mapping of provider stop reasons to OpenAI finish_reason values, and the
+ * error raised when a provider's safety filter blocks a response outright
+ */
+
+/**
+ * OpenAI finish_reason values reported for a completion
+ */
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls';
+
+/**
+ * Provider stop reasons by lowercase name. Covers OpenAI-compatible APIs, Gemini
+ * (`MAX_TOKENS`, `SAFETY`, ...), Mistral (`model_length`) and Cohere (`COMPLETE`, `TOOL_CALL`, ...).
+ */
+const FINISH_REASON_ALIASES: Record<string, FinishReason> = {
+    stop: 'stop',
+    complete: 'stop',
+    stop_sequence: 'stop',
+    end_turn: 'stop',
+    eos: 'stop',
+    length: 'length',
+    max_tokens: 'length',
+    model_length: 'length',
+    tool_calls: 'tool_calls',
+    tool_call: 'tool_calls',
+    function_call: 'tool_calls',
+    content_filter: 'content_filter',
+    safety: 'content_filter',
+    recitation: 'content_filter',
+    blocklist: 'content_filter',
+    prohibited_content: 'content_filter',
+    spii: 'content_filter',
+    image_safety: 'content_filter'
+};
+
+/**
+ * Map a provider stop reason to an OpenAI finish_reason
+ * @param reason - The provider's stop reason, in any case
+ * @param hasToolCalls - Whether the completion requested tool calls
+ * @returns 'tool_calls' for a normal stop with tool calls, the mapped reason otherwise; unknown reasons count as 'stop'
+ */
+export function normalizeFinishReason(reason: string | undefined, hasToolCalls: boolean = false): FinishReason {
+    const mapped = reason ? FINISH_REASON_ALIASES[reason.toLowerCase()] : undefined;
+    if (hasToolCalls && (!mapped || mapped === 'stop')) {
+        return 'tool_calls';
+    }
+    return mapped ?? 'stop';
+}
+
+/**
+ * Check whether a provider stop reason means its safety filter stopped the output
+ * @param reason - The provider's stop reason
+ * @returns True for content filter and safety reasons
+ */
+export function isContentFilterReason(reason: string | undefined): boolean {
+    return normalizeFinishReason(reason) === 'content_filter';
+}
+
+/**
+ * Raised when a provider's safety filter blocks a prompt or withholds the whole response.
+ * It says nothing about the API key, so LlmManager rethrows it without rotating keys.
+ */
+export class ContentFilteredError extends Error {
+    constructor(public readonly provider: string, public readonly reason: string) {
+        super(`Response from ${provider} was blocked by its content filter (${reason})`);
+        this.name = 'ContentFilteredError';
+    }
+}
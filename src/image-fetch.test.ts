@@ -0,0 +1,139 @@
+/**
+ * @file image-fetch.test.ts
+ * @description Unit tests for image downloads: internal address checks, redirects, size and time limits
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { isPrivateAddress, downloadImage, inlineRemoteImages, defaultImageFetchPolicy } from './image-fetch';
+import { RequestCancelledError } from './cancellation';
+import type { Message } from './llm_rotation';
+
+const fetchMock = vi.hoisted(() => vi.fn());
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+/**
+ * Build a minimal node-fetch style response with a streamed body
+ */
+function imageResponse(status: number, headers: Record<string, string>, chunks: string[] = []) {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        headers: new Headers(headers),
+        body: (async function* () {
+            for (const chunk of chunks) yield Buffer.from(chunk);
+        })()
+    };
+}
+
+describe('image fetch', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+    });
+
+    describe('isPrivateAddress', () => {
+        it('should flag loopback, private, link-local and reserved addresses', () => {
+            for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+                expect(isPrivateAddress(address), address).toBe(true);
+            }
+        });
+
+        it('should accept public addresses', () => {
+            for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:93.184.216.34']) {
+                expect(isPrivateAddress(address), address).toBe(false);
+            }
+        });
+    });
+
+    describe('downloadImage', () => {
+        it('should return the image as a data URL', async () => {
+            fetchMock.mockResolvedValue(imageResponse(200, { 'content-type': 'image/png; charset=binary' }, ['png-', 'bytes']));
+
+            const dataUrl = await downloadImage('https://example.com/cat.png');
+
+            expect(dataUrl).toBe(`data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}`);
+            expect(fetchMock).toHaveBeenCalledWith('https://example.com/cat.png', expect.objectContaining({ redirect: 'manual', signal: expect.any(AbortSignal) }));
+        });
+
+        it('should refuse internal and non-http targets without fetching them', async () => {
+            for (const url of ['http://127.0.0.1/a.png', 'http://169.254.169.254/latest/meta-data', 'http://localhost:8080/a.png', 'http://[::1]/a.png', 'http://[::ffff:127.0.0.1]/a.png', 'file:///etc/passwd']) {
+                await expect(downloadImage(url), url).rejects.toMatchObject({ code: 'invalid_image_url', statusCode: 400 });
+            }
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should check every redirect target', async () => {
+            fetchMock
+                .mockResolvedValueOnce(imageResponse(302, { location: 'https://cdn.example.com/cat.png' }))
+                .mockResolvedValueOnce(imageResponse(301, { location: 'http://10.0.0.5/cat.png' }));
+
+            await expect(downloadImage('https://example.com/cat.png')).rejects.toThrow('host 10.0.0.5 is an internal address');
+            expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['https://example.com/cat.png', 'https://cdn.example.com/cat.png']);
+        });
+
+        it('should only fetch from allowed hosts when some are configured', async () => {
+            const policy = { ...defaultImageFetchPolicy, allowedHosts: ['images.example.com'] };
+
+            await expect(downloadImage('https://example.com/cat.png', policy)).rejects.toThrow('host example.com is not allowed');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should refuse oversized images and other content types', async () => {
+            const policy = { ...defaultImageFetchPolicy, maxBytes: 8 };
+
+            fetchMock.mockResolvedValueOnce(imageResponse(200, { 'content-type': 'image/png', 'content-length': '9' }));
+            await expect(downloadImage('https://example.com/a.png', policy)).rejects.toThrow('image exceeds 8 bytes');
+
+            fetchMock.mockResolvedValueOnce(imageResponse(200, { 'content-type': 'image/png' }, ['12345', '6789']));
+            await expect(downloadImage('https://example.com/a.png', policy)).rejects.toThrow('image exceeds 8 bytes');
+
+            fetchMock.mockResolvedValueOnce(imageResponse(200, { 'content-type': 'text/html' }, ['<html>']));
+            await expect(downloadImage('https://example.com/a.png', policy)).rejects.toThrow('content type text/html is not an image');
+
+            fetchMock.mockResolvedValueOnce(imageResponse(404, {}));
+            await expect(downloadImage('https://example.com/a.png', policy)).rejects.toThrow('download failed with status 404');
+        });
+
+        it('should give up after the timeout, and report cancellation by the caller as such', async () => {
+            fetchMock.mockImplementation((_url: string, init: any) => new Promise((_resolve, reject) => {
+                if (init.signal.aborted) reject(new Error('The operation was aborted'));
+                init.signal.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+            }));
+
+            await expect(downloadImage('https://example.com/slow.png', { ...defaultImageFetchPolicy, timeoutMs: 10 }))
+                .rejects.toMatchObject({ code: 'invalid_image_url', message: expect.stringContaining('download timed out after 10ms') });
+
+            const controller = new AbortController();
+            const pending = downloadImage('https://example.com/slow.png', defaultImageFetchPolicy, controller.signal);
+            controller.abort(new RequestCancelledError('Client closed the connection'));
+            await expect(pending).rejects.toThrow('Client closed the connection');
+        });
+    });
+
+    describe('inlineRemoteImages', () => {
+        it('should download each remote image once and keep data URLs', async () => {
+            fetchMock.mockImplementation(async () => imageResponse(200, { 'content-type': 'image/jpeg' }, ['jpeg']));
+            const remote = { type: 'image_url' as const, image_url: { url: 'https://example.com/cat.jpg', detail: 'low' as const } };
+            const inline = { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } };
+            const prompt: Message[] = [
+                { role: 'user', content: [{ type: 'text', text: 'Compare' }, remote, inline] },
+                { role: 'user', content: [remote] }
+            ];
+
+            const resolved = await inlineRemoteImages(prompt);
+
+            const dataUrl = `data:image/jpeg;base64,${Buffer.from('jpeg').toString('base64')}`;
+            expect(resolved).toEqual([
+                { role: 'user', content: [{ type: 'text', text: 'Compare' }, { type: 'image_url', image_url: { url: dataUrl, detail: 'low' } }, inline] },
+                { role: 'user', content: [{ type: 'image_url', image_url: { url: dataUrl, detail: 'low' } }] }
+            ]);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should return prompts without remote images unchanged', async () => {
+            const prompt: Message[] = [{ role: 'user', content: 'Hello' }];
+
+            expect(await inlineRemoteImages(prompt)).toBe(prompt);
+        });
+    });
+});
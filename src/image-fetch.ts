@@ -0,0 +1,248 @@
+/**
+ * @file image-fetch.ts
+ * @description Download of remote images for providers that only accept inline image
+ * bytes. Images are fetched once per request, before any API key is tried, and only from
+ * public addresses: loopback, private, link-local and other internal targets are refused,
+ * also when a hostname resolves to one or a redirect points to one.
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { ApiError } from './types';
+import { combineSignals, getCancellationError } from './cancellation';
+import type { Message } from './llm_rotation';
+
+/**
+ * Limits applied to image downloads
+ */
+export interface ImageFetchPolicy {
+    /** Hosts images may be downloaded from; any public host when empty */
+    allowedHosts: string[];
+    /** Largest image accepted, in bytes */
+    maxBytes: number;
+    /** Time allowed for one download, redirects included, in milliseconds */
+    timeoutMs: number;
+}
+
+export const defaultImageFetchPolicy: ImageFetchPolicy = {
+    allowedHosts: [],
+    maxBytes: 10 * 1024 * 1024,
+    timeoutMs: 10_000
+};
+
+const MAX_REDIRECTS = 3;
+
+/**
+ * IPv4 ranges that must not be reached on behalf of a client: "this" network, private,
+ * carrier-grade NAT, loopback, link-local (cloud metadata endpoints), benchmarking,
+ * multicast and reserved
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+];
+
+function ipv4ToNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * @param address - IPv4 or IPv6 address
+ */
+export function isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        const value = ipv4ToNumber(address);
+        return BLOCKED_IPV4_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(ipv4ToNumber(base) / 2 ** (32 - bits)));
+    }
+    if (!net.isIPv6(address)) {
+        return true;
+    }
+    const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+    // IPv4-mapped and IPv4-compatible addresses reach the embedded IPv4 address
+    const embedded = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+    if (embedded) {
+        return isPrivateAddress(embedded[1]);
+    }
+    // The same in hex, as URLs normalize them, e.g. ::ffff:7f00:1
+    const embeddedHex = normalized.match(/^::(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (embeddedHex) {
+        const [high, low] = [parseInt(embeddedHex[1], 16), parseInt(embeddedHex[2], 16)];
+        return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    if (normalized === '::' || normalized === '::1') {
+        return true;
+    }
+    // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    return /^(f[cd]|fe[89ab]|ff)/.test(normalized);
+}
+
+/**
+ * DNS lookup for outgoing image requests that fails for hostnames resolving to an internal
+ * address, so that the check also holds for the address actually connected to
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '', 0);
+            return;
+        }
+        const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+        if (blocked || addresses.length === 0) {
+            callback(new Error(`${hostname} resolves to the internal address ${blocked?.address}`), '', 0);
+            return;
+        }
+        if (options.all) {
+            (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Reason a URL may not be fetched, or undefined when it may
+ */
+function getBlockReason(url: URL, policy: ImageFetchPolicy): string | undefined {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'only http and https URLs are supported';
+    }
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (policy.allowedHosts.length > 0 && !policy.allowedHosts.includes(hostname)) {
+        return `host ${hostname} is not allowed`;
+    }
+    // Connections to IP literals skip the DNS lookup, so they are checked here
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || (net.isIP(hostname) && isPrivateAddress(hostname))) {
+        return `host ${hostname} is an internal address`;
+    }
+    return undefined;
+}
+
+/**
+ * Download an image and return it as a base64 data URL
+ * @param url - http(s) URL sent by the client
+ * @param policy - Hosts, size and time limits
+ * @param signal - Signal of the request; aborting it cancels the download
+ * @throws ApiError (400) if the URL is refused or the download fails, RequestCancelledError if the request was cancelled
+ */
+export async function downloadImage(url: string, policy: ImageFetchPolicy = defaultImageFetchPolicy, signal?: AbortSignal): Promise<string> {
+    const fetch = (await import('node-fetch')).default;
+    const downloadSignal = combineSignals(signal, policy.timeoutMs);
+    let target: URL;
+    try {
+        target = new URL(url);
+    } catch {
+        throw ApiError.invalidImageUrl(url, 'invalid URL');
+    }
+
+    try {
+        for (let redirects = 0; ; redirects++) {
+            const blockReason = getBlockReason(target, policy);
+            if (blockReason) {
+                throw ApiError.invalidImageUrl(url, blockReason);
+            }
+
+            // Redirects are followed here, so that every hop is checked
+            const response = await fetch(target.href, {
+                redirect: 'manual',
+                signal: downloadSignal,
+                agent: parsed => (parsed.protocol === 'http:' ? httpAgent : httpsAgent)
+            });
+            const location = response.headers.get('location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                if (redirects >= MAX_REDIRECTS) {
+                    throw ApiError.invalidImageUrl(url, 'too many redirects');
+                }
+                target = new URL(location, target);
+                continue;
+            }
+            if (!response.ok) {
+                throw ApiError.invalidImageUrl(url, `download failed with status ${response.status}`);
+            }
+
+            const mimeType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+            if (!mimeType?.startsWith('image/')) {
+                throw ApiError.invalidImageUrl(url, `content type ${mimeType ?? 'unknown'} is not an image`);
+            }
+            if (Number(response.headers.get('content-length')) > policy.maxBytes) {
+                throw ApiError.invalidImageUrl(url, `image exceeds ${policy.maxBytes} bytes`);
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            for await (const chunk of response.body as AsyncIterable<Buffer>) {
+                size += chunk.length;
+                if (size > policy.maxBytes) {
+                    throw ApiError.invalidImageUrl(url, `image exceeds ${policy.maxBytes} bytes`);
+                }
+                chunks.push(chunk);
+            }
+            return `data:${mimeType};base64,${Buffer.concat(chunks).toString('base64')}`;
+        }
+    } catch (error) {
+        if (signal?.aborted) {
+            throw getCancellationError(signal);
+        }
+        if (error instanceof ApiError) {
+            throw error;
+        }
+        if (downloadSignal?.aborted) {
+            throw ApiError.invalidImageUrl(url, `download timed out after ${policy.timeoutMs}ms`);
+        }
+        throw ApiError.invalidImageUrl(url, (error as Error).message);
+    }
+}
+
+/**
+ * Replace remote image URLs in a prompt with data URLs. Each distinct URL is downloaded
+ * once; data URLs and messages without images are returned unchanged.
+ * @param prompt - Messages of the request
+ * @param policy - Hosts, size and time limits
+ * @param signal - Signal of the request
+ * @returns The prompt with only data URL images
+ */
+export async function inlineRemoteImages(prompt: Message[], policy: ImageFetchPolicy = defaultImageFetchPolicy, signal?: AbortSignal): Promise<Message[]> {
+    const downloads = new Map<string, Promise<string>>();
+    for (const message of prompt) {
+        if (!Array.isArray(message.content)) continue;
+        for (const part of message.content) {
+            if (part.type === 'image_url' && !part.image_url.url.startsWith('data:') && !downloads.has(part.image_url.url)) {
+                downloads.set(part.image_url.url, downloadImage(part.image_url.url, policy, signal));
+            }
+        }
+    }
+    if (downloads.size === 0) {
+        return prompt;
+    }
+
+    // Settle every download before failing, so that none is left running unobserved
+    const results = await Promise.allSettled(downloads.values());
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+        throw failed.reason;
+    }
+    const dataUrls = new Map([...downloads.keys()].map((url, index) => [url, (results[index] as PromiseFulfilledResult<string>).value]));
+
+    return prompt.map(message => Array.isArray(message.content)
+        ? {
+            ...message,
+            content: message.content.map(part => part.type === 'image_url' && dataUrls.has(part.image_url.url)
+                ? { ...part, image_url: { ...part.image_url, url: dataUrls.get(part.image_url.url)! } }
+                : part)
+        }
+        : message);
+}
@@ -0,0 +1,101 @@
+/**
+ * @file key-state-store.test.ts
+ * @description Unit tests for key state persistence stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+    fingerprintApiKey,
+    MemoryKeyStateStore,
+    JsonFileKeyStateStore
+} from './key-state-store';
+import type { KeyStateSnapshot } from './key-state-store';
+
+const snapshot: KeyStateSnapshot = {
+    version: 1,
+    updatedAt: '2025-07-14T00:00:00.000Z',
+    providers: {
+        gemini: {
+            currentIndex: 1,
+            lastRotation: 1752451200000,
+            keys: {
+                [fingerprintApiKey('gemini-key')]: {
+                    status: 'rate-limited',
+                    cooldownUntil: 1752451260000,
+                    consecutiveFailures: 1,
+                    successCount: 4,
+                    failureCount: 1,
+                    lastError: 'quota exceeded'
+                }
+            }
+        }
+    }
+};
+
+describe('fingerprintApiKey', () => {
+    it('should produce a stable fingerprint', () => {
+        expect(fingerprintApiKey('AIzaSyExample')).toBe(fingerprintApiKey('AIzaSyExample'));
+        expect(fingerprintApiKey('AIzaSyExample')).toMatch(/^sha256:[0-9a-f]{16}$/);
+    });
+
+    it('should distinguish different keys and never contain the key', () => {
+        const fingerprint = fingerprintApiKey('sk-secret-key');
+
+        expect(fingerprint).not.toBe(fingerprintApiKey('sk-secret-kez'));
+        expect(fingerprint).not.toContain('secret');
+    });
+});
+
+describe('MemoryKeyStateStore', () => {
+    it('should return null before anything is saved', async () => {
+        expect(await new MemoryKeyStateStore().load()).toBe(null);
+    });
+
+    it('should return copies of the saved snapshot', async () => {
+        const store = new MemoryKeyStateStore();
+        await store.save(snapshot);
+
+        const loaded = await store.load();
+
+        expect(loaded).toEqual(snapshot);
+        expect(loaded).not.toBe(snapshot);
+    });
+});
+
+describe('JsonFileKeyStateStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'key-state-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return null when the file does not exist', async () => {
+        const store = new JsonFileKeyStateStore(path.join(dir, 'missing.json'));
+
+        expect(await store.load()).toBe(null);
+    });
+
+    it('should round-trip a snapshot through the file', async () => {
+        const filePath = path.join(dir, 'nested', 'state.json');
+        const store = new JsonFileKeyStateStore(filePath);
+
+        await store.save(snapshot);
+
+        expect(await new JsonFileKeyStateStore(filePath).load()).toEqual(snapshot);
+        expect(readFileSync(filePath, 'utf8')).not.toContain('gemini-key');
+    });
+
+    it('should reject files in an unknown format', async () => {
+        const filePath = path.join(dir, 'state.json');
+        writeFileSync(filePath, JSON.stringify({ version: 99 }));
+
+        await expect(new JsonFileKeyStateStore(filePath).load()).rejects.toThrow('Unsupported key state file format');
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * @file key-state-store.ts
+ * @description Persistence for API key health state so that rotation indices,
+ * statuses, cooldowns and usage counters survive restarts. Keys are always
+ * identified by a one-way fingerprint and never stored in plain text.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ApiKeyStatus, Provider } from './llm_rotation';
+
+/**
+ * Persisted state of a single API key
+ */
+export interface PersistedKeyState {
+    /** Last known status of the key */
+    status: ApiKeyStatus;
+    /** Epoch milliseconds until which the key is cooling down; 0 when available */
+    cooldownUntil: number;
+    /** Failures since the key last succeeded */
+    consecutiveFailures: number;
+    /** Epoch milliseconds of the last request made with the key */
+    lastUsed?: number;
+    /** Message of the most recent failure */
+    lastError?: string;
+    /** Number of successful requests with this key */
+    successCount: number;
+    /** Number of failed requests with this key */
+    failureCount: number;
+}
+
+/**
+ * Persisted rotation state of a provider
+ */
+export interface PersistedProviderState {
+    /** Index of the key to try next */
+    currentIndex: number;
+    /** Epoch milliseconds of the last key rotation */
+    lastRotation?: number;
+    /** Key states indexed by key fingerprint */
+    keys: Record<string, PersistedKeyState>;
+}
+
+/**
+ * Complete persisted key state
+ */
+export interface KeyStateSnapshot {
+    /** Format version of the snapshot */
+    version: 1;
+    /** ISO timestamp of when the snapshot was taken */
+    updatedAt: string;
+    /** State for each provider that has been used */
+    providers: Partial<Record<Provider, PersistedProviderState>>;
+}
+
+/**
+ * Storage backend for key state snapshots
+ */
+export interface KeyStateStore {
+    /** Load the last saved snapshot, or null if none exists */
+    load(): Promise<KeyStateSnapshot | null>;
+    /** Replace the saved snapshot */
+    save(snapshot: KeyStateSnapshot): Promise<void>;
+}
+
+/**
+ * Compute a stable, non-reversible fingerprint for an API key
+ * @param apiKey - The raw API key
+ * @returns Fingerprint in the form `sha256:<16 hex chars>`
+ */
+export function fingerprintApiKey(apiKey: string): string {
+    return `sha256:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * In-memory store, mainly useful for tests and for sharing state between managers in one process
+ */
+export class MemoryKeyStateStore implements KeyStateStore {
+    private snapshot: KeyStateSnapshot | null;
+
+    constructor(initial: KeyStateSnapshot | null = null) {
+        this.snapshot = initial;
+    }
+
+    async load(): Promise<KeyStateSnapshot | null> {
+        return this.snapshot ? structuredClone(this.snapshot) : null;
+    }
+
+    async save(snapshot: KeyStateSnapshot): Promise<void> {
+        this.snapshot = structuredClone(snapshot);
+    }
+}
+
+/**
+ * Store that keeps the snapshot in a JSON file.
+ * Writes go to a temporary file that is renamed over the target, so a crash
+ * mid-write never leaves a truncated state file behind.
+ */
+export class JsonFileKeyStateStore implements KeyStateStore {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<KeyStateSnapshot | null> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+
+        const parsed = JSON.parse(raw);
+        if (!parsed || parsed.version !== 1 || typeof parsed.providers !== 'object') {
+            throw new Error(`Unsupported key state file format: ${this.filePath}`);
+        }
+        return parsed as KeyStateSnapshot;
+    }
+
+    async save(snapshot: KeyStateSnapshot): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+    }
+}
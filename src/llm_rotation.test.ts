@@ -0,0 +1,1018 @@
+/**
+ * @file llm_rotation.test.ts
+ * @description Unit tests for LlmManager key rotation, exercised through the
+ * OpenRouter provider with node-fetch mocked
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LlmManager, registerProvider } from './llm_rotation';
+import type { LlmSettings, Message, ProviderAdapter } from './llm_rotation';
+import { MemoryKeyStateStore, fingerprintApiKey } from './key-state-store';
+import { createOpenAiCompatibleAdapter } from './provider-adapters';
+import { ContentFilteredError } from './finish-reason';
+import { RequestCancelledError } from './cancellation';
+import { ProviderRequestError } from './retry-policy';
+import { CircuitOpenError } from './circuit-breaker';
+import { Tracer, InMemorySpanExporter } from './tracing';
+import { executeWithFallback } from './fallback';
+
+const fetchMock = vi.hoisted(() => vi.fn());
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+/**
+ * Build a minimal node-fetch style response
+ */
+function jsonResponse(status: number, body: any) {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: String(status),
+        headers: new Headers(),
+        json: async () => body
+    };
+}
+
+function completion(content: string) {
+    return jsonResponse(200, { choices: [{ message: { content } }] });
+}
+
+/**
+ * Route mocked fetch calls by the bearer key they were made with
+ */
+function respondByKey(responses: Record<string, () => any>) {
+    fetchMock.mockImplementation(async (_url: string, init: any) => {
+        const key = init.headers.Authorization.replace('Bearer ', '');
+        return responses[key]();
+    });
+}
+
+describe('LlmManager', () => {
+    const prompt: Message[] = [{ role: 'user', content: 'Hello' }];
+    const settings: LlmSettings = {
+        provider: 'openrouter',
+        model: 'deepseek/deepseek-r1:free',
+        apiKeys: { openrouter: ['key-a', 'key-b'] }
+    };
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-07-14T00:00:00Z'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('key rotation', () => {
+        it('should rotate to the next key after a success', async () => {
+            fetchMock.mockResolvedValue(completion('ok'));
+            const manager = new LlmManager();
+
+            await manager.generateResponse(prompt, settings);
+            await manager.generateResponse(prompt, settings);
+
+            const usedKeys = fetchMock.mock.calls.map(call => call[1].headers.Authorization);
+            expect(usedKeys).toEqual(['Bearer key-a', 'Bearer key-b']);
+            expect(manager.apiKeyStatus.openrouter).toEqual(['working', 'working']);
+        });
+
+        it('should fall through to the next key when one fails', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(401, { error: 'unauthorized' }),
+                'key-b': () => completion('from b')
+            });
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, settings)).resolves.toMatchObject({ content: 'from b' });
+            expect(manager.apiKeyStatus.openrouter).toEqual(['failed', 'working']);
+        });
+    });
+
+    describe('generation parameters', () => {
+        it('should reject parameters the provider adapter does not support', async () => {
+            registerProvider({ name: 'plain', generate: async () => 'ok' });
+            const manager = new LlmManager();
+            const plainSettings: LlmSettings = { provider: 'plain', model: 'plain-1', apiKeys: { plain: 'key' } };
+
+            await expect(manager.generateResponse(prompt, { ...plainSettings, seed: 1, stop: ['END'] }))
+                .rejects.toThrow('Provider plain does not support stop, seed');
+            await expect(manager.generateResponse(prompt, { ...plainSettings, n: 1, responseFormat: { type: 'text' } }))
+                .resolves.toMatchObject({ content: 'ok' });
+        });
+
+        it('should describe JSON response formats in a system message for providers without native support', async () => {
+            const generate = vi.fn(async () => '{"ok":true}');
+            registerProvider({ name: 'plain-json', generate });
+            const manager = new LlmManager();
+
+            await manager.generateResponse(prompt, {
+                provider: 'plain-json',
+                model: 'plain-1',
+                apiKeys: { 'plain-json': 'key' },
+                responseFormat: { type: 'json_schema', json_schema: { name: 'flag', schema: { type: 'object' } } }
+            });
+
+            const [, sentSettings, sentPrompt] = generate.mock.calls[0] as any[];
+            expect(sentSettings.responseFormat).toBeUndefined();
+            expect(sentPrompt[0].role).toBe('system');
+            expect(sentPrompt[0].content).toContain('JSON Schema "flag"');
+            expect(sentPrompt[1]).toEqual(prompt[0]);
+        });
+
+        it('should send JSON response formats natively when the adapter supports them', async () => {
+            fetchMock.mockResolvedValue(completion('{}'));
+            const manager = new LlmManager();
+
+            await manager.generateResponse(prompt, { ...settings, responseFormat: { type: 'json_object' } });
+
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body.response_format).toEqual({ type: 'json_object' });
+            expect(body.messages).toEqual(prompt);
+        });
+
+        it('should reject multiple choices when streaming', async () => {
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponseStream(prompt, { ...settings, n: 2 }).next())
+                .rejects.toThrow('Multiple choices (n > 1) are not supported when streaming');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('content filtering', () => {
+        it('should raise ContentFilteredError without failing the key', async () => {
+            fetchMock.mockResolvedValue(jsonResponse(200, { choices: [{ message: { content: null }, finish_reason: 'content_filter' }] }));
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, settings)).rejects.toBeInstanceOf(ContentFilteredError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(manager.apiKeyStatus.openrouter).toEqual(['working', 'untested']);
+        });
+
+        it('should return partial content cut off by the filter', async () => {
+            fetchMock.mockResolvedValue(jsonResponse(200, { choices: [{ message: { content: 'Partial' }, finish_reason: 'content_filter' }] }));
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, settings)).resolves.toMatchObject({
+                content: 'Partial',
+                finishReason: 'content_filter'
+            });
+        });
+    });
+
+    describe('cancellation', () => {
+        /**
+         * Make fetch wait until its signal aborts, like node-fetch does
+         */
+        function hangUntilAborted() {
+            fetchMock.mockImplementation((_url: string, init: any) => new Promise((_resolve, reject) => {
+                init.signal.addEventListener('abort', () => reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' })));
+            }));
+        }
+
+        it('should stop without failing the key or trying the next one when the caller aborts', async () => {
+            hangUntilAborted();
+            const controller = new AbortController();
+            const manager = new LlmManager();
+
+            const response = manager.generateResponse(prompt, { ...settings, signal: controller.signal });
+            await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+            controller.abort(new RequestCancelledError('Client closed the connection'));
+
+            await expect(response).rejects.toThrow(new RequestCancelledError('Client closed the connection'));
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(manager.apiKeyStatus.openrouter).toEqual(['untested', 'untested']);
+            expect(manager.getKeyStats('openrouter')[0].failureCount).toBe(0);
+        });
+
+        it('should not call the provider when the signal is already aborted', async () => {
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, { ...settings, signal: AbortSignal.abort() })).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should cancel requests that exceed the timeout setting', async () => {
+            vi.useRealTimers();
+            hangUntilAborted();
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, { ...settings, timeout: 20 })).rejects.toThrow('Request timed out');
+            expect(manager.apiKeyStatus.openrouter).toEqual(['untested', 'untested']);
+        });
+    });
+
+    describe('key usage statistics', () => {
+        it('should count successes and failures per key', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(401, { error: 'unauthorized' }),
+                'key-b': () => completion('from b')
+            });
+            const manager = new LlmManager();
+
+            await manager.generateResponse(prompt, settings);
+
+            const [statsA, statsB] = manager.getKeyStats('openrouter');
+            expect(statsA).toMatchObject({ successCount: 0, failureCount: 1, lastUsed: new Date(Date.now()) });
+            expect(statsA.lastError).toContain('401');
+            expect(statsA.latencyMs).toBeUndefined();
+            expect(statsB).toMatchObject({ successCount: 1, failureCount: 0 });
+            expect(statsB.lastError).toBeUndefined();
+        });
+
+        it('should report latency percentiles over successful calls', async () => {
+            const single: LlmSettings = { ...settings, apiKeys: { openrouter: 'key-a' } };
+            let latency = 0;
+            fetchMock.mockImplementation(async () => {
+                vi.advanceTimersByTime(latency);
+                return completion('ok');
+            });
+            const manager = new LlmManager();
+
+            for (latency = 10; latency <= 100; latency += 10) {
+                await manager.generateResponse(prompt, single);
+            }
+
+            expect(manager.getKeyStats('openrouter')[0].latencyMs).toEqual({ p50: 50, p90: 90, p99: 100 });
+        });
+
+        it('should record when the active key rotates', async () => {
+            fetchMock.mockResolvedValue(completion('ok'));
+            const manager = new LlmManager();
+
+            expect(manager.getLastRotation('openrouter')).toBeUndefined();
+            await manager.generateResponse(prompt, settings);
+
+            expect(manager.getLastRotation('openrouter')).toEqual(new Date(Date.now()));
+            expect(manager.getRotationCount('openrouter')).toBe(1);
+        });
+    });
+
+    describe('key cooldowns', () => {
+        it('should skip keys that are cooling down', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => completion('from b')
+            });
+            const manager = new LlmManager();
+
+            await manager.generateResponse(prompt, settings);
+            fetchMock.mockClear();
+            await manager.generateResponse(prompt, settings);
+            await manager.generateResponse(prompt, settings);
+
+            const usedKeys = fetchMock.mock.calls.map(call => call[1].headers.Authorization);
+            expect(usedKeys).toEqual(['Bearer key-b', 'Bearer key-b']);
+            expect(manager.apiKeyStatus.openrouter[0]).toBe('rate-limited');
+        });
+
+        it('should use the status-specific cooldown window', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => jsonResponse(500, { error: 'internal' })
+            });
+            const manager = new LlmManager({ cooldown: { rateLimitedMs: 1000, failedMs: 5000 } });
+
+            await expect(manager.generateResponse(prompt, settings)).rejects.toThrow('All Openrouter API keys failed');
+
+            const now = Date.now();
+            const [rateLimited, failed] = manager.getKeyCooldowns('openrouter');
+            expect(rateLimited).toEqual({ until: now + 1000, consecutiveFailures: 1 });
+            expect(failed).toEqual({ until: now + 5000, consecutiveFailures: 1 });
+        });
+
+        it('should return keys to untested once the window expires', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => completion('from b')
+            });
+            const manager = new LlmManager({ cooldown: { rateLimitedMs: 1000 } });
+
+            await manager.generateResponse(prompt, settings);
+            vi.advanceTimersByTime(1000);
+
+            expect(manager.getKeyCooldowns('openrouter')[0].until).toBe(0);
+            expect(manager.apiKeyStatus.openrouter[0]).toBe('untested');
+        });
+
+        it('should extend the window exponentially on repeated failures', async () => {
+            const single: LlmSettings = { ...settings, apiKeys: { openrouter: 'key-a' } };
+            fetchMock.mockResolvedValue(jsonResponse(429, { error: 'rate limit exceeded' }));
+            const manager = new LlmManager({ cooldown: { rateLimitedMs: 1000, multiplier: 2, maxMs: 3000 } });
+
+            const windows: number[] = [];
+            for (let i = 0; i < 3; i++) {
+                await expect(manager.generateResponse(prompt, single)).rejects.toThrow();
+                const cooldown = manager.getKeyCooldowns('openrouter')[0];
+                windows.push(cooldown.until - Date.now());
+                vi.advanceTimersByTime(cooldown.until - Date.now());
+            }
+
+            expect(windows).toEqual([1000, 2000, 3000]);
+        });
+
+        it('should reset the failure streak after a success', async () => {
+            const single: LlmSettings = { ...settings, apiKeys: { openrouter: 'key-a' } };
+            fetchMock.mockResolvedValueOnce(jsonResponse(429, { error: 'rate limit exceeded' }));
+            fetchMock.mockResolvedValueOnce(completion('ok'));
+            const manager = new LlmManager({ cooldown: { rateLimitedMs: 1000 } });
+
+            await expect(manager.generateResponse(prompt, single)).rejects.toThrow();
+            vi.advanceTimersByTime(1000);
+            await manager.generateResponse(prompt, single);
+
+            expect(manager.getKeyCooldowns('openrouter')[0]).toEqual({ until: 0, consecutiveFailures: 0 });
+        });
+
+        it('should fail fast without calling the provider when every key is cooling down', async () => {
+            fetchMock.mockResolvedValue(jsonResponse(429, { error: 'rate limit exceeded' }));
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, settings)).rejects.toThrow();
+            fetchMock.mockClear();
+
+            await expect(manager.generateResponse(prompt, settings)).rejects.toThrow(/All Openrouter API keys failed.*cooling down/);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('retries', () => {
+        const flakySettings: LlmSettings = { provider: 'flaky', model: 'flaky-chat', apiKeys: { flaky: 'key-a' } };
+
+        /**
+         * Register a provider whose calls are answered by `generate`
+         */
+        function registerFlaky(generate: ProviderAdapter['generate']) {
+            const adapter: ProviderAdapter = { name: 'flaky', models: [{ id: 'flaky-chat', name: 'Flaky Chat' }], generate: vi.fn(generate) };
+            registerProvider(adapter);
+            return adapter;
+        }
+
+        beforeEach(() => {
+            vi.spyOn(console, 'log').mockImplementation(() => {});
+        });
+
+        it('should retry after a backoff delay without cooling the key down', async () => {
+            let calls = 0;
+            const adapter = registerFlaky(async () => {
+                if (calls++ === 0) throw new ProviderRequestError('API request failed: 500', 500);
+                return 'ok';
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 2, jitter: 0 } });
+
+            const response = manager.generateResponse(prompt, flakySettings);
+            await vi.advanceTimersByTimeAsync(999);
+            expect(adapter.generate).toHaveBeenCalledTimes(1);
+            await vi.advanceTimersByTimeAsync(1);
+
+            expect((await response).content).toBe('ok');
+            expect(adapter.generate).toHaveBeenCalledTimes(2);
+            expect(manager.getKeyCooldowns('flaky')[0]).toEqual({ until: 0, consecutiveFailures: 0 });
+        });
+
+        it('should wait as long as the Retry-After header asks', async () => {
+            let calls = 0;
+            const adapter = registerFlaky(async () => {
+                if (calls++ === 0) throw new ProviderRequestError('API request failed: 429', 429, 3000);
+                return 'ok';
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 2, jitter: 0 } });
+
+            const response = manager.generateResponse(prompt, flakySettings);
+            await vi.advanceTimersByTimeAsync(2999);
+            expect(adapter.generate).toHaveBeenCalledTimes(1);
+            await vi.advanceTimersByTimeAsync(1);
+
+            expect((await response).content).toBe('ok');
+        });
+
+        it('should only retry the keys that failed with a retryable error', async () => {
+            const adapter = registerFlaky(async apiKey => {
+                throw apiKey === 'key-a'
+                    ? new ProviderRequestError('API request failed: 401', 401)
+                    : new ProviderRequestError('API request failed: 503', 503);
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 3, jitter: 0 } });
+
+            const response = expect(manager.generateResponse(prompt, { ...flakySettings, apiKeys: { flaky: ['key-a', 'key-b'] } }))
+                .rejects.toThrow('All Flaky API keys failed');
+            await vi.advanceTimersByTimeAsync(3000);
+            await response;
+
+            const usedKeys = vi.mocked(adapter.generate).mock.calls.map(call => call[0]);
+            expect(usedKeys).toEqual(['key-a', 'key-b', 'key-b', 'key-b']);
+            expect(manager.getKeyCooldowns('flaky').map(cooldown => cooldown.consecutiveFailures)).toEqual([1, 1]);
+        });
+
+        it('should not retry error classes left out of the policy', async () => {
+            const adapter = registerFlaky(async () => {
+                throw new ProviderRequestError('API request failed: 500', 500);
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 3, retryOn: ['rate_limit'] } });
+
+            await expect(manager.generateResponse(prompt, flakySettings)).rejects.toThrow('All Flaky API keys failed');
+            expect(adapter.generate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should give up when the provider asks for a longer wait than allowed', async () => {
+            const adapter = registerFlaky(async () => {
+                throw new ProviderRequestError('API request failed: 429', 429, 120_000);
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 3, maxDelayMs: 10_000 } });
+
+            await expect(manager.generateResponse(prompt, flakySettings)).rejects.toThrow('All Flaky API keys failed');
+            expect(adapter.generate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop waiting when the request is cancelled', async () => {
+            const adapter = registerFlaky(async () => {
+                throw new ProviderRequestError('API request failed: 500', 500);
+            });
+            const manager = new LlmManager({ retry: { maxAttempts: 3, jitter: 0 } });
+            const controller = new AbortController();
+
+            const response = expect(manager.generateResponse(prompt, { ...flakySettings, signal: controller.signal }))
+                .rejects.toBeInstanceOf(RequestCancelledError);
+            await vi.advanceTimersByTimeAsync(500);
+            controller.abort(new RequestCancelledError());
+            await response;
+
+            expect(adapter.generate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should apply per-provider overrides over the global policy', () => {
+            const manager = new LlmManager({ retry: { maxAttempts: 2 }, providerRetry: { gemini: { maxAttempts: 4, jitter: 0 } } });
+
+            expect(manager.getRetryPolicy('openrouter')).toEqual({ ...LlmManager.defaultRetryPolicy, maxAttempts: 2 });
+            expect(manager.getRetryPolicy('gemini')).toEqual({ ...LlmManager.defaultRetryPolicy, maxAttempts: 4, jitter: 0 });
+        });
+    });
+
+    describe('circuit breaker', () => {
+        const breakerSettings: LlmSettings = { provider: 'breaker', model: 'breaker-chat', apiKeys: { breaker: ['key-a', 'key-b'] } };
+        const circuitBreaker = { minimumRequests: 2, failureRateThreshold: 0.5, openMs: 30_000 };
+
+        function registerBreaker(generate: ProviderAdapter['generate']) {
+            const adapter: ProviderAdapter = { name: 'breaker', models: [{ id: 'breaker-chat', name: 'Breaker Chat' }], generate: vi.fn(generate) };
+            registerProvider(adapter);
+            return adapter;
+        }
+
+        const failing = async () => {
+            throw new ProviderRequestError('API request failed: 503', 503);
+        };
+
+        it('should fail fast without calling the provider once the circuit opens', async () => {
+            const adapter = registerBreaker(failing);
+            const manager = new LlmManager({ circuitBreaker, cooldown: { failedMs: 0 } });
+
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow('All Breaker API keys failed');
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow('All Breaker API keys failed');
+            expect(adapter.generate).toHaveBeenCalledTimes(4);
+
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toBeInstanceOf(CircuitOpenError);
+            expect(adapter.generate).toHaveBeenCalledTimes(4);
+            expect(manager.getCircuitStates('breaker')).toEqual([
+                { state: 'open', requests: 0, failures: 0, failureRate: 0, openedAt: Date.now(), retryAt: Date.now() + 30_000 }
+            ]);
+        });
+
+        it('should leave keys and circuit alone when the provider rejects the request', async () => {
+            const adapter = registerBreaker(async () => {
+                throw new ProviderRequestError('API request failed: 400 unknown model', 400);
+            });
+            const manager = new LlmManager({ circuitBreaker });
+
+            for (let i = 0; i < 3; i++) {
+                await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toMatchObject({ type: 'invalid_request_error', statusCode: 400 });
+            }
+
+            expect(adapter.generate).toHaveBeenCalledTimes(3);
+            expect(manager.apiKeyStatus.breaker).toEqual(['untested', 'untested']);
+            expect(manager.getKeyCooldowns('breaker')).toEqual([{ until: 0, consecutiveFailures: 0 }, { until: 0, consecutiveFailures: 0 }]);
+            expect(manager.getCircuitStates('breaker')[0]).toMatchObject({ state: 'closed', failures: 0 });
+        });
+
+        it('should close again after a successful probe', async () => {
+            let down = true;
+            const adapter = registerBreaker(async () => {
+                if (down) throw new ProviderRequestError('API request failed: 503', 503);
+                return 'back up';
+            });
+            const manager = new LlmManager({ circuitBreaker, cooldown: { failedMs: 0 } });
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow();
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow();
+
+            down = false;
+            vi.advanceTimersByTime(30_000);
+            expect(manager.getCircuitStates('breaker')[0].state).toBe('half-open');
+
+            await expect(manager.generateResponse(prompt, breakerSettings)).resolves.toMatchObject({ content: 'back up' });
+            expect(adapter.generate).toHaveBeenCalledTimes(5);
+            expect(manager.getCircuitStates('breaker')[0].state).toBe('closed');
+        });
+
+        it('should not count requests refused because every key is cooling down', async () => {
+            registerBreaker(failing);
+            const manager = new LlmManager({ circuitBreaker });
+
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow('All Breaker API keys failed');
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow(/cooling down/);
+
+            expect(manager.getCircuitStates('breaker')[0]).toMatchObject({ state: 'closed', requests: 1 });
+        });
+
+        it('should keep separate circuits per model when configured', async () => {
+            registerBreaker(failing);
+            const manager = new LlmManager({ circuitBreaker: { ...circuitBreaker, perModel: true }, cooldown: { failedMs: 0 } });
+
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow();
+            await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow();
+            await expect(manager.generateResponse(prompt, { ...breakerSettings, model: 'breaker-mini' })).rejects.toThrow('All Breaker API keys failed');
+
+            expect(manager.getCircuitStates('breaker').map(circuit => [circuit.model, circuit.state])).toEqual([
+                ['breaker-chat', 'open'],
+                ['breaker-mini', 'closed']
+            ]);
+        });
+
+        it('should not track circuits when disabled', async () => {
+            const adapter = registerBreaker(failing);
+            const manager = new LlmManager({ circuitBreaker: { ...circuitBreaker, enabled: false }, cooldown: { failedMs: 0 } });
+
+            for (let i = 0; i < 3; i++) {
+                await expect(manager.generateResponse(prompt, breakerSettings)).rejects.toThrow('All Breaker API keys failed');
+            }
+
+            expect(adapter.generate).toHaveBeenCalledTimes(6);
+            expect(manager.getCircuitStates('breaker')).toEqual([]);
+        });
+    });
+
+    describe('logging', () => {
+        const leakySettings: LlmSettings = { provider: 'leaky', model: 'leaky-chat', apiKeys: { leaky: ['leaky-key-a', 'leaky-key-b'] } };
+
+        /**
+         * Logger whose methods record their calls
+         */
+        function createLogger() {
+            return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn() };
+        }
+
+        beforeEach(() => {
+            // Provider error bodies that echo the request, key included
+            registerProvider({
+                name: 'leaky',
+                models: [{ id: 'leaky-chat', name: 'Leaky Chat' }],
+                generate: async apiKey => {
+                    throw new ProviderRequestError(`API request failed: 401 {"error":"invalid key ${apiKey}"}`, 401);
+                }
+            });
+        });
+
+        it('should log key failures through the injected logger with the key fingerprint', async () => {
+            const logger = createLogger();
+            const manager = new LlmManager({ logger });
+
+            await expect(manager.generateResponse(prompt, leakySettings)).rejects.toThrow();
+
+            expect(logger.warn).toHaveBeenCalledTimes(2);
+            expect(logger.warn).toHaveBeenCalledWith('Leaky API key 1 failed', {
+                provider: 'leaky',
+                model: 'leaky-chat',
+                keyFingerprint: fingerprintApiKey('leaky-key-a'),
+                error: 'API request failed: 401 {"error":"invalid key [REDACTED]"}'
+            });
+            expect(console.error).not.toHaveBeenCalled();
+        });
+
+        it('should prefer the logger passed with the request', async () => {
+            const managerLogger = createLogger();
+            const requestLogger = createLogger();
+            const manager = new LlmManager({ logger: managerLogger });
+
+            await expect(manager.generateResponse(prompt, { ...leakySettings, logger: requestLogger })).rejects.toThrow();
+
+            expect(requestLogger.warn).toHaveBeenCalledTimes(2);
+            expect(managerLogger.warn).not.toHaveBeenCalled();
+        });
+
+        it('should keep keys out of errors and key statistics', async () => {
+            const manager = new LlmManager({ logger: createLogger() });
+
+            const error = await manager.generateResponse(prompt, leakySettings).catch(error => error as Error);
+
+            expect(error.message).toBe('All Leaky API keys failed. Last error: API request failed: 401 {"error":"invalid key [REDACTED]"}');
+            expect(manager.getKeyStats('leaky').map(stats => stats.lastError)).toEqual([
+                'API request failed: 401 {"error":"invalid key [REDACTED]"}',
+                'API request failed: 401 {"error":"invalid key [REDACTED]"}'
+            ]);
+        });
+    });
+
+    describe('tracing', () => {
+        const parent = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true };
+        let exporter: InMemorySpanExporter;
+        let manager: LlmManager;
+
+        beforeEach(() => {
+            exporter = new InMemorySpanExporter();
+            manager = new LlmManager({ tracer: new Tracer({ exporters: [exporter] }) });
+        });
+
+        it('should record a span for every key attempt and its upstream call under the given parent', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => jsonResponse(200, {
+                    choices: [{ message: { content: 'ok' } }],
+                    usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+                })
+            });
+
+            await manager.generateResponse(prompt, { ...settings, traceContext: parent });
+
+            const spans = exporter.getFinishedSpans();
+            expect(spans.map(span => span.name)).toEqual(['chat deepseek/deepseek-r1:free', 'key attempt', 'chat deepseek/deepseek-r1:free', 'key attempt']);
+            expect(spans.every(span => span.traceId === parent.traceId)).toBe(true);
+
+            const [failedCall, failedAttempt, call, attempt] = spans;
+            expect(failedAttempt).toMatchObject({
+                parentSpanId: parent.spanId,
+                status: { code: 'error' },
+                attributes: {
+                    'llm.provider': 'openrouter',
+                    'llm.key_index': 0,
+                    'llm.key_fingerprint': fingerprintApiKey('key-a'),
+                    'llm.attempt': 1,
+                    'llm.key_status': 'rate-limited'
+                }
+            });
+            expect(failedCall).toMatchObject({ kind: 'client', parentSpanId: failedAttempt.spanId, status: { code: 'error' }, attributes: { 'http.response.status_code': 429 } });
+            expect(attempt).toMatchObject({ parentSpanId: parent.spanId, status: { code: 'ok' }, attributes: { 'llm.key_index': 1, 'llm.key_status': 'working' } });
+            expect(call).toMatchObject({
+                parentSpanId: attempt.spanId,
+                attributes: { 'gen_ai.system': 'openrouter', 'gen_ai.request.model': 'deepseek/deepseek-r1:free', 'gen_ai.usage.input_tokens': 12, 'gen_ai.usage.output_tokens': 3 }
+            });
+        });
+
+        it('should start a new trace without a parent', async () => {
+            fetchMock.mockResolvedValue(completion('ok'));
+
+            await manager.generateResponse(prompt, settings);
+
+            const [call, attempt] = exporter.getFinishedSpans();
+            expect(attempt.parentSpanId).toBeUndefined();
+            expect(call).toMatchObject({ traceId: attempt.traceId, parentSpanId: attempt.spanId });
+        });
+
+        it('should keep keys out of recorded errors', async () => {
+            registerProvider({
+                name: 'leaky',
+                models: [{ id: 'leaky-chat', name: 'Leaky Chat' }],
+                generate: async apiKey => {
+                    throw new ProviderRequestError(`API request failed: 401 {"error":"invalid key ${apiKey}"}`, 401);
+                }
+            });
+
+            await expect(manager.generateResponse(prompt, { provider: 'leaky', model: 'leaky-chat', apiKeys: { leaky: ['leaky-key-a'] } })).rejects.toThrow();
+
+            const spans = exporter.getFinishedSpans();
+            expect(spans).toHaveLength(2);
+            expect(JSON.stringify(spans)).not.toContain('leaky-key-a');
+        });
+    });
+
+    describe('image downloads', () => {
+        const imageSettings: LlmSettings = { provider: 'inline', model: 'inline-vision', apiKeys: { inline: ['key-a', 'key-b'] } };
+        const imagePrompt: Message[] = [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }] }];
+
+        function registerInline(generate: ProviderAdapter['generate']) {
+            const adapter: ProviderAdapter = { name: 'inline', inlineImages: true, models: [{ id: 'inline-vision', name: 'Inline Vision' }], generate: vi.fn(generate) };
+            registerProvider(adapter);
+            return adapter;
+        }
+
+        it('should download remote images once before trying the keys', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                headers: new Headers({ 'content-type': 'image/png' }),
+                body: (async function* () { yield Buffer.from('png'); })()
+            });
+            const adapter = registerInline(async apiKey => {
+                if (apiKey === 'key-a') throw new ProviderRequestError('API request failed: 503', 503);
+                return 'a cat';
+            });
+
+            await new LlmManager().generateResponse(imagePrompt, imageSettings);
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(adapter.generate).toHaveBeenCalledTimes(2);
+            const sentPrompt = vi.mocked(adapter.generate).mock.calls[1][2];
+            expect(sentPrompt[0].content).toEqual([{ type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}` } }]);
+        });
+
+        it('should reject images it may not fetch without trying any key', async () => {
+            const adapter = registerInline(async () => 'unused');
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse([{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'http://169.254.169.254/latest/meta-data' } }] }], imageSettings))
+                .rejects.toMatchObject({ code: 'invalid_image_url', statusCode: 400 });
+            expect(fetchMock).not.toHaveBeenCalled();
+            expect(adapter.generate).not.toHaveBeenCalled();
+            expect(manager.apiKeyStatus.inline).toEqual([]);
+        });
+    });
+
+    describe('runtime key management', () => {
+        const fingerprintA = fingerprintApiKey('key-a');
+        const fingerprintB = fingerprintApiKey('key-b');
+
+        it('should skip disabled keys until they are enabled again', async () => {
+            fetchMock.mockResolvedValue(completion('ok'));
+            const manager = new LlmManager();
+            manager.syncApiKeys('openrouter', settings.apiKeys);
+
+            expect(manager.disableApiKey('openrouter', fingerprintA)).toBe(true);
+            await manager.generateResponse(prompt, settings);
+            await manager.generateResponse(prompt, settings);
+            expect(manager.enableApiKey('openrouter', fingerprintA)).toBe(true);
+            expect(manager.apiKeyStatus.openrouter[0]).toBe('untested');
+            await manager.generateResponse(prompt, settings);
+
+            const usedKeys = fetchMock.mock.calls.map(call => call[1].headers.Authorization);
+            expect(usedKeys).toEqual(['Bearer key-b', 'Bearer key-b', 'Bearer key-a']);
+        });
+
+        it('should refuse requests without calling the provider when every key is disabled', async () => {
+            const manager = new LlmManager();
+            manager.syncApiKeys('openrouter', settings.apiKeys);
+            manager.getKeyFingerprints('openrouter').forEach(fingerprint => manager.disableApiKey('openrouter', fingerprint));
+
+            await expect(manager.generateResponse(prompt, settings)).rejects.toThrow('All Openrouter API keys failed. Last error: all keys are disabled');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should clear statuses and cooldowns on reset but keep disabled keys disabled', async () => {
+            fetchMock.mockResolvedValue(jsonResponse(429, { error: 'rate limit exceeded' }));
+            const manager = new LlmManager();
+            await expect(manager.generateResponse(prompt, settings)).rejects.toThrow();
+            manager.disableApiKey('openrouter', fingerprintB);
+
+            manager.resetApiKeys('openrouter');
+
+            expect(manager.apiKeyStatus.openrouter).toEqual(['untested', 'disabled']);
+            expect(manager.getKeyCooldowns('openrouter')[0]).toEqual({ until: 0, consecutiveFailures: 0 });
+            expect(manager.getKeyStats('openrouter')[0].failureCount).toBe(1);
+            expect(manager.resetApiKey('openrouter', fingerprintApiKey('unknown'))).toBe(false);
+        });
+
+        it('should keep the state of remaining keys when keys are added or removed', async () => {
+            respondByKey({
+                'key-a': () => completion('from a'),
+                'key-b': () => jsonResponse(429, { error: 'rate limit exceeded' })
+            });
+            const manager = new LlmManager();
+            await manager.generateResponse(prompt, settings);
+            await expect(manager.generateResponse(prompt, settings)).resolves.toMatchObject({ content: 'from a' });
+
+            manager.syncApiKeys('openrouter', { openrouter: ['key-b', 'key-c'] });
+
+            expect(manager.getKeyFingerprints('openrouter')).toEqual([fingerprintB, fingerprintApiKey('key-c')]);
+            expect(manager.apiKeyStatus.openrouter).toEqual(['rate-limited', 'untested']);
+        });
+
+        it('should let a call in flight finish when its key is removed', async () => {
+            let respond: (response: any) => void = () => {};
+            fetchMock.mockImplementation(() => new Promise(resolve => { respond = resolve; }));
+            const manager = new LlmManager();
+
+            const pending = manager.generateResponse(prompt, settings);
+            await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+            manager.syncApiKeys('openrouter', { openrouter: ['key-b'] });
+            respond(completion('ok'));
+
+            await expect(pending).resolves.toMatchObject({ content: 'ok' });
+            expect(manager.apiKeyStatus.openrouter).toEqual(['untested']);
+            expect(manager.getKeyStats('openrouter')[0].successCount).toBe(0);
+        });
+    });
+
+    describe('state persistence', () => {
+        it('should save key state by fingerprint after changes', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => completion('from b')
+            });
+            const store = new MemoryKeyStateStore();
+            const manager = new LlmManager({ stateStore: store });
+
+            await manager.generateResponse(prompt, settings);
+            await manager.flushState();
+
+            const saved = await store.load();
+            const providerState = saved!.providers.openrouter!;
+            expect(Object.keys(providerState.keys)).toEqual([fingerprintApiKey('key-a'), fingerprintApiKey('key-b')]);
+            expect(providerState.keys[fingerprintApiKey('key-a')]).toMatchObject({ status: 'rate-limited', consecutiveFailures: 1, failureCount: 1 });
+            expect(providerState.keys[fingerprintApiKey('key-b')]).toMatchObject({ status: 'working', successCount: 1 });
+            expect(providerState.currentIndex).toBe(0);
+            expect(JSON.stringify(saved)).not.toContain('key-a');
+        });
+
+        it('should restore saved state in a new manager, matching keys by fingerprint', async () => {
+            respondByKey({
+                'key-a': () => jsonResponse(429, { error: 'rate limit exceeded' }),
+                'key-b': () => completion('from b')
+            });
+            const store = new MemoryKeyStateStore();
+            const first = new LlmManager({ stateStore: store });
+            await first.generateResponse(prompt, settings);
+            await first.flushState();
+
+            fetchMock.mockClear();
+            const restarted = new LlmManager({ stateStore: store });
+            await restarted.loadState();
+            // Keys supplied in a different order must still map to their own state
+            await restarted.generateResponse(prompt, { ...settings, apiKeys: { openrouter: ['key-b', 'key-a'] } });
+
+            expect(restarted.apiKeyStatus.openrouter).toEqual(['working', 'rate-limited']);
+            expect(restarted.getKeyStats('openrouter')[0].successCount).toBe(2);
+            expect(fetchMock.mock.calls.map(call => call[1].headers.Authorization)).toEqual(['Bearer key-b']);
+        });
+
+        it('should keep saved state of providers not used since the restart', async () => {
+            fetchMock.mockResolvedValue(completion('ok'));
+            const store = new MemoryKeyStateStore({
+                version: 1,
+                updatedAt: '2025-07-14T00:00:00.000Z',
+                providers: {
+                    gemini: { currentIndex: 0, keys: { [fingerprintApiKey('gemini-key')]: { status: 'failed', cooldownUntil: 0, consecutiveFailures: 3, successCount: 0, failureCount: 3 } } }
+                }
+            });
+            const manager = new LlmManager({ stateStore: store });
+            await manager.loadState();
+
+            await manager.generateResponse(prompt, settings);
+            await manager.flushState();
+
+            const saved = await store.load();
+            expect(saved!.providers.gemini!.keys[fingerprintApiKey('gemini-key')].consecutiveFailures).toBe(3);
+            expect(saved!.providers.openrouter).toBeDefined();
+        });
+    });
+
+    describe('provider registry', () => {
+        const customSettings: LlmSettings = { provider: 'inhouse', model: 'inhouse-chat', apiKeys: { inhouse: ['key-a', 'key-b'] } };
+
+        function registerInhouse(overrides: Partial<ProviderAdapter> = {}) {
+            const adapter: ProviderAdapter = {
+                name: 'inhouse',
+                models: [{ id: 'inhouse-chat', name: 'In-house Chat' }],
+                generate: vi.fn().mockResolvedValue('from inhouse'),
+                ...overrides
+            };
+            registerProvider(adapter);
+            return adapter;
+        }
+
+        it('should register the built-in providers', () => {
+            expect(LlmManager.getRegisteredProviders()).toEqual(
+                expect.arrayContaining(['gemini', 'openrouter', 'huggingface', 'mistral', 'cohere', 'nvidia', 'chutes', 'requesty'])
+            );
+        });
+
+        it('should route requests to a registered adapter with key rotation', async () => {
+            const adapter = registerInhouse({
+                generate: vi.fn()
+                    .mockRejectedValueOnce(new Error('API request failed: 401'))
+                    .mockResolvedValue('from inhouse')
+            });
+            const manager = new LlmManager();
+
+            await expect(manager.generateResponse(prompt, customSettings)).resolves.toMatchObject({ content: 'from inhouse' });
+            expect(adapter.generate).toHaveBeenNthCalledWith(1, 'key-a', customSettings, prompt);
+            expect(adapter.generate).toHaveBeenNthCalledWith(2, 'key-b', customSettings, prompt);
+            expect(manager.apiKeyStatus.inhouse).toEqual(['failed', 'working']);
+        });
+
+        it('should fall back from a hyphenated provider whose keys are exhausted', async () => {
+            registerProvider({
+                name: 'my-llm',
+                models: [{ id: 'my-chat', name: 'My Chat' }],
+                generate: vi.fn().mockRejectedValue(new ProviderRequestError('API request failed: 503', 503))
+            });
+            registerInhouse();
+            const manager = new LlmManager();
+            const candidates = [
+                { provider: 'my-llm', model: 'my-chat' },
+                { provider: 'inhouse', model: 'inhouse-chat' }
+            ];
+
+            const outcome = await executeWithFallback(candidates, candidate =>
+                manager.generateResponse(prompt, { ...candidate, apiKeys: { 'my-llm': 'key-m', inhouse: 'key-a' } }));
+
+            expect(outcome.result.content).toBe('from inhouse');
+            expect(outcome.exhausted).toEqual([candidates[0]]);
+            await expect(manager.generateResponse(prompt, { provider: 'my-llm', model: 'my-chat', apiKeys: { 'my-llm': 'key-m' } }))
+                .rejects.toMatchObject({ code: 'keys_exhausted', message: expect.stringMatching(/^All My-llm API keys failed/) });
+        });
+
+        it('should list the adapter models in modelConfigurations', () => {
+            registerInhouse();
+            expect(LlmManager.modelConfigurations.inhouse).toEqual([{ id: 'inhouse-chat', name: 'In-house Chat' }]);
+        });
+
+        it('should stream adapters without stream() as a single chunk', async () => {
+            registerInhouse();
+            const manager = new LlmManager();
+
+            const chunks: string[] = [];
+            for await (const chunk of manager.generateResponseStream(prompt, customSettings)) chunks.push(chunk);
+
+            expect(chunks).toEqual(['from inhouse']);
+        });
+
+        it('should return the stop reason at the end of the stream', async () => {
+            registerInhouse({ generate: vi.fn().mockResolvedValue({ content: 'from inhouse', finishReason: 'length' }) });
+            const manager = new LlmManager();
+
+            const stream = manager.generateResponseStream(prompt, customSettings);
+
+            expect(await stream.next()).toEqual({ done: false, value: 'from inhouse' });
+            expect(await stream.next()).toEqual({ done: true, value: 'length' });
+        });
+
+        it('should call OpenAI-compatible endpoints with the configured base URL and headers', async () => {
+            registerProvider(createOpenAiCompatibleAdapter({
+                name: 'vllm',
+                baseUrl: 'http://localhost:8000/v1/',
+                headers: { 'X-Team': 'research' }
+            }));
+            fetchMock.mockResolvedValue(completion('from vllm'));
+            const manager = new LlmManager();
+
+            const result = await manager.generateResponse(prompt, { provider: 'vllm', model: 'qwen2.5-7b', apiKeys: { vllm: 'local-key' } });
+
+            expect(result.content).toBe('from vllm');
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('http://localhost:8000/v1/chat/completions');
+            expect(init.headers).toMatchObject({ 'Authorization': 'Bearer local-key', 'X-Team': 'research' });
+            expect(JSON.parse(init.body)).toMatchObject({ model: 'qwen2.5-7b', messages: prompt });
+        });
+
+        it('should embed in batches of the provider limit, rotating keys per batch', async () => {
+            const embed = vi.fn()
+                .mockRejectedValueOnce(new Error('API request failed: 429'))
+                .mockImplementation(async (_key: string, _settings: unknown, input: string[]) => ({
+                    embeddings: input.map(text => [text.length]),
+                    promptTokens: input.length
+                }));
+            registerInhouse({
+                embeddings: { models: [{ id: 'inhouse-embed', name: 'In-house Embed' }], embed, maxBatchSize: 2 }
+            });
+            const manager = new LlmManager();
+            const embeddingSettings = { provider: 'inhouse', model: 'inhouse-embed', apiKeys: customSettings.apiKeys };
+
+            const result = await manager.generateEmbeddings(['a', 'bb', 'ccc'], embeddingSettings);
+
+            expect(result).toEqual({ embeddings: [[1], [2], [3]], promptTokens: 3 });
+            expect(embed.mock.calls.map(call => [call[0], call[2]])).toEqual([
+                ['key-a', ['a', 'bb']],
+                ['key-b', ['a', 'bb']],
+                ['key-b', ['ccc']]
+            ]);
+            expect(manager.apiKeyStatus.inhouse).toEqual(['rate-limited', 'working']);
+            expect(LlmManager.embeddingModelConfigurations.inhouse).toEqual([{ id: 'inhouse-embed', name: 'In-house Embed' }]);
+        });
+
+        it('should reject embeddings for providers without embedding support or dimensions', async () => {
+            registerInhouse({
+                embeddings: { models: [], embed: vi.fn() }
+            });
+            const manager = new LlmManager();
+
+            await expect(manager.generateEmbeddings('hi', { provider: 'inhouse', model: 'inhouse-embed', apiKeys: customSettings.apiKeys, dimensions: 256 }))
+                .rejects.toThrow('does not support custom embedding dimensions');
+
+            registerInhouse();
+            await expect(manager.generateEmbeddings('hi', { provider: 'inhouse', model: 'inhouse-embed', apiKeys: customSettings.apiKeys }))
+                .rejects.toThrow('Provider inhouse does not support embeddings');
+            expect(LlmManager.embeddingModelConfigurations.inhouse).toBeUndefined();
+        });
+
+        it('should reject adapters with an invalid name or no generate()', () => {
+            expect(() => registerProvider({ name: 'In House!', generate: vi.fn() })).toThrow('Invalid provider name');
+            expect(() => registerProvider({ name: 'broken' } as ProviderAdapter)).toThrow('must implement generate()');
+        });
+
+        it('should reject providers that are not registered', async () => {
+            const manager = new LlmManager();
+            await expect(manager.generateResponse(prompt, { ...customSettings, provider: 'unknown' }))
+                .rejects.toThrow('Unsupported LLM provider specified: unknown');
+        });
+    });
+});
@@ -22,10 +22,81 @@
  * ---
  */
 
+import { fingerprintApiKey } from './key-state-store';
+import { builtInProviderAdapters } from './provider-adapters';
+import { ContentFilteredError, isContentFilterReason } from './finish-reason';
+import { getCancellationError, combineSignals } from './cancellation';
+import { applyJsonInstruction } from './structured-output';
+import { getRetryDecision, waitForRetry, RETRY_ERROR_CLASSES, ProviderRequestError, isRequestError, classifyProviderError, getErrorStatus } from './retry-policy';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+import { defaultLogger, redactSecrets } from './logger';
+import { Tracer } from './tracing';
+import { ApiError } from './types';
+import { defaultImageFetchPolicy, inlineRemoteImages } from './image-fetch';
+import type { KeyStateStore, KeyStateSnapshot, PersistedProviderState } from './key-state-store';
+import type { RetryPolicy } from './retry-policy';
+import type { CircuitBreakerPolicy, CircuitSnapshot } from './circuit-breaker';
+import type { Logger } from './logger';
+import type { SpanContext, SpanAttributeValue } from './tracing';
+import type { ImageFetchPolicy } from './image-fetch';
+
 // Type definitions
+interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        /** JSON-encoded arguments, as produced by the model */
+        arguments: string;
+    };
+}
+
+interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        /** JSON Schema of the function arguments */
+        parameters?: Record<string, unknown>;
+    };
+}
+
+type ToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+
+/**
+ * Output format requested from the model. 'json_object' asks for a single valid JSON object;
+ * 'json_schema' asks for JSON matching the given schema.
+ */
+type ResponseFormat =
+    | { type: 'text' }
+    | { type: 'json_object' }
+    | {
+        type: 'json_schema';
+        json_schema: {
+            /** Name of the schema, up to 64 letters, digits, '_' or '-' */
+            name: string;
+            description?: string;
+            /** JSON Schema the output must match */
+            schema?: Record<string, unknown>;
+            /** Ask providers that support it to enforce the schema strictly */
+            strict?: boolean;
+        };
+    };
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
 interface Message {
-    role: 'user' | 'assistant' | 'system';
-    content: string;
+    role: 'user' | 'assistant' | 'system' | 'tool';
+    /** Message text or text/image parts; null for assistant messages that only carry tool calls */
+    content: string | ContentPart[] | null;
+    /** Tool calls requested by the assistant */
+    tool_calls?: ToolCall[];
+    /** For role 'tool': the id of the call this message answers */
+    tool_call_id?: string;
+    /** For role 'tool': the name of the function that was called */
+    name?: string;
 }
 
 interface ModelConfiguration {
@@ -33,6 +104,10 @@ interface ModelConfiguration {
     name: string;
     free?: boolean;
     provider?: string;
+    /** Accepts image content parts */
+    vision?: boolean;
+    /** Maximum prompt plus completion tokens the model accepts */
+    contextWindow?: number;
 }
 
 interface ApiKeys {
@@ -49,24 +124,323 @@ interface LlmSettings {
     siteUrl?: string;
     siteName?: string;
     providerOverride?: string;
+    /** Functions the model may call */
+    tools?: ToolDefinition[];
+    /** Controls whether and which tool the model must call */
+    toolChoice?: ToolChoice;
+    /** Sequences at which generation stops */
+    stop?: string[];
+    /** Penalizes tokens by how often they already appear, between -2 and 2 */
+    frequencyPenalty?: number;
+    /** Penalizes tokens that already appear at all, between -2 and 2 */
+    presencePenalty?: number;
+    /** Seed for best-effort deterministic sampling */
+    seed?: number;
+    /** Number of replies to generate */
+    n?: number;
+    /** Output format, e.g. JSON mode */
+    responseFormat?: ResponseFormat;
+    /** Bias added to the logits of the given token ids, between -100 and 100 */
+    logitBias?: Record<string, number>;
+    /** End-user identifier forwarded for abuse monitoring */
+    user?: string;
+    /** Cancels the request, e.g. when the client disconnects; the key in use is not marked failed */
+    signal?: AbortSignal;
+    /** Milliseconds after which the request is cancelled, across all keys tried */
+    timeout?: number;
+    /** Logger for this request, e.g. one carrying its requestId; defaults to the manager's */
+    logger?: Logger;
+    /** Span that key attempts and upstream calls are recorded under, e.g. the span of the inbound request */
+    traceContext?: SpanContext;
 }
 
-type ApiKeyStatus = 'untested' | 'working' | 'failed' | 'rate-limited';
+/**
+ * Optional LlmSettings fields that only some providers honour
+ */
+type GenerationParameter = 'stop' | 'frequencyPenalty' | 'presencePenalty' | 'seed' | 'n' | 'responseFormat' | 'logitBias' | 'user';
 
-type Provider = 'gemini' | 'openrouter' | 'huggingface' | 'mistral' | 'cohere' | 'nvidia' | 'chutes' | 'requesty';
+const GENERATION_PARAMETERS: GenerationParameter[] = ['stop', 'frequencyPenalty', 'presencePenalty', 'seed', 'n', 'responseFormat', 'logitBias', 'user'];
+
+/**
+ * Token counts reported by a provider for one completion
+ */
+interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * One reply generated by a provider
+ */
+interface CompletionChoice {
+    /** Response text; null when the model only requested tool calls */
+    content: string | null;
+    /** Tool calls requested by the model */
+    toolCalls?: ToolCall[];
+    /** The provider's own stop reason, e.g. 'length', 'MAX_TOKENS' or 'SAFETY' */
+    finishReason?: string;
+}
+
+/**
+ * Assistant reply produced by a provider
+ */
+interface CompletionResult extends CompletionChoice {
+    /** Token counts, when the provider reports them; they cover every choice */
+    usage?: TokenUsage;
+    /** Response id assigned by the provider */
+    id?: string;
+    /** Further replies when `n` > 1 was requested, in provider order */
+    alternatives?: CompletionChoice[];
+}
+
+interface EmbeddingSettings {
+    provider: string;
+    model: string;
+    apiKeys: ApiKeys;
+    /** Requested vector size, for models that can shorten their output */
+    dimensions?: number;
+    providerOverride?: string;
+    /** Cancels the request; the key in use is not marked failed */
+    signal?: AbortSignal;
+    /** Milliseconds after which the request is cancelled, across all batches and keys */
+    timeout?: number;
+    /** Logger for this request, e.g. one carrying its requestId; defaults to the manager's */
+    logger?: Logger;
+    /** Span that key attempts and upstream calls are recorded under, e.g. the span of the inbound request */
+    traceContext?: SpanContext;
+}
+
+/**
+ * Vectors produced for a batch of inputs, in input order
+ */
+interface EmbeddingResult {
+    embeddings: number[][];
+    /** Input tokens billed by the provider, when it reports them */
+    promptTokens?: number;
+}
+
+/** Health of a key; 'disabled' keys were taken out of rotation with disableApiKey() */
+type ApiKeyStatus = 'untested' | 'working' | 'failed' | 'rate-limited' | 'disabled';
+
+export const API_KEY_STATUSES: ApiKeyStatus[] = ['untested', 'working', 'failed', 'rate-limited', 'disabled'];
+
+type BuiltInProvider = 'gemini' | 'openrouter' | 'huggingface' | 'mistral' | 'cohere' | 'nvidia' | 'chutes' | 'requesty';
+
+/** A built-in provider name, or the name of any provider added with registerProvider() */
+type Provider = BuiltInProvider | (string & {});
 
 interface ApiKeyInfo {
     keys: string[];
+    /** Fingerprints of `keys`, used to find their state after the key list changed */
+    fingerprints: string[];
     currentIndex: number;
     currentKey: string;
 }
 
-type ApiCall = (apiKey: string, settings: LlmSettings, prompt: Message[]) => Promise<string>;
+interface CooldownPolicy {
+    /** Base cooldown for a key marked 'rate-limited', in milliseconds */
+    rateLimitedMs: number;
+    /** Base cooldown for a key marked 'failed', in milliseconds */
+    failedMs: number;
+    /** Factor applied to the window on each consecutive failure */
+    multiplier: number;
+    /** Upper bound for any single cooldown window, in milliseconds */
+    maxMs: number;
+}
+
+interface KeyCooldown {
+    /** Epoch milliseconds until which the key is skipped; 0 when not cooling down */
+    until: number;
+    /** Failures since the key last succeeded */
+    consecutiveFailures: number;
+}
+
+interface KeyUsageStats {
+    /** Epoch milliseconds of the last request made with the key */
+    lastUsed?: number;
+    /** Message of the most recent failure */
+    lastError?: string;
+    successCount: number;
+    failureCount: number;
+    /** Latencies of the most recent successful calls, oldest first */
+    latencies: number[];
+}
+
+interface CircuitStatus extends CircuitSnapshot {
+    /** Model the circuit covers; absent for a circuit covering the whole provider */
+    model?: string;
+}
+
+interface LatencyPercentiles {
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+interface KeyStatsSnapshot {
+    lastUsed?: Date;
+    lastError?: string;
+    successCount: number;
+    failureCount: number;
+    /** Latency percentiles in milliseconds over the recent window; absent until a call succeeds */
+    latencyMs?: LatencyPercentiles;
+}
+
+interface LlmManagerOptions {
+    cooldown?: Partial<CooldownPolicy>;
+    /** Overrides for the retry policy of every provider */
+    retry?: Partial<RetryPolicy>;
+    /** Overrides for the retry policy of single providers, applied over `retry` */
+    providerRetry?: Partial<Record<Provider, Partial<RetryPolicy>>>;
+    /** Overrides for the circuit breaker policy */
+    circuitBreaker?: Partial<CircuitBreakerPolicy>;
+    /** Store used to persist key health across restarts; call loadState() before serving requests */
+    stateStore?: KeyStateStore;
+    /** Receives key failures, retries and persistence errors; defaults to JSON lines on the console */
+    logger?: Logger;
+    /** Records a span for every key attempt and upstream call; without it spans are discarded */
+    tracer?: Tracer;
+    /** Overrides for the limits on images downloaded for providers that need inline image data */
+    imageFetch?: Partial<ImageFetchPolicy>;
+}
+
+/**
+ * Settings read by the key rotation around every call
+ */
+type CallSettings = { model: string; apiKeys: ApiKeys; signal?: AbortSignal; logger?: Logger; traceContext?: SpanContext };
+
+type ApiCall<T = string> = (apiKey: string, settings: LlmSettings, prompt: Message[]) => Promise<T>;
+
+type StreamingApiCall = (apiKey: string, settings: LlmSettings, prompt: Message[]) => Promise<AsyncIterable<string, string | undefined | void>>;
+
+type EmbeddingApiCall = (apiKey: string, settings: EmbeddingSettings, input: string[]) => Promise<EmbeddingResult>;
+
+interface EmbeddingSupport {
+    /** Embedding models served by the provider, used to route /v1/embeddings requests */
+    models: ModelConfiguration[];
+    /** Embeds a batch of texts */
+    embed: EmbeddingApiCall;
+    /** Largest batch accepted in one request; larger inputs are split across requests */
+    maxBatchSize?: number;
+    /** Whether embed() honours `dimensions` */
+    supportsDimensions?: boolean;
+}
+
+interface ProviderDetection {
+    /** Lowercase substrings that identify the provider's models */
+    patterns: string[];
+    /** Confidence reported for a pattern match, between 0 and 1 (default 0.8) */
+    confidence?: number;
+    /** Providers known to serve similar model families, used for fallback */
+    alternatives?: Provider[];
+}
+
+/**
+ * Implementation of a single LLM provider. Adapters make one request with one API key;
+ * key rotation, cooldowns and usage statistics are applied by LlmManager around them.
+ */
+interface ProviderAdapter {
+    /** Provider name used in settings and API key maps */
+    name: string;
+    /** Environment variable holding the provider's API key(s); defaults to `<NAME>_API_KEY` */
+    apiKeyEnv?: string;
+    /** Models listed by /v1/models and used for exact-match provider detection */
+    models?: ModelConfiguration[];
+    /** Patterns used to detect the provider for models not listed in `models` */
+    detection?: ProviderDetection;
+    /** Performs a chat completion; simple adapters may return just the response text */
+    generate: ApiCall<string | CompletionResult>;
+    /** Streams a chat completion as text deltas, returning the provider's stop reason when known; without it the full response is sent as one chunk */
+    stream?: StreamingApiCall;
+    /** Whether generate() honours `tools` and `toolChoice` and returns tool calls */
+    supportsTools?: boolean;
+    /** Optional generation parameters the adapter maps to the provider; requests setting any other are rejected */
+    supportedParameters?: GenerationParameter[];
+    /** Whether a json_schema response format is passed to the provider rather than described in a system instruction */
+    supportsJsonSchema?: boolean;
+    /** Text embeddings, for providers that offer them */
+    embeddings?: EmbeddingSupport;
+    /** Whether images must be sent as data URLs; remote images are then downloaded once, before the first key is tried */
+    inlineImages?: boolean;
+}
+
+/**
+ * Nearest-rank percentiles over a set of latency samples.
+ */
+function computeLatencyPercentiles(samples: number[]): LatencyPercentiles {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+    return { p50: rank(50), p90: rank(90), p99: rank(99) };
+}
 
 export class LlmManager {
-    private _apiKeyIndices: Record<Provider, number>;
-    public apiKeyStatus: Record<Provider, ApiKeyStatus[]>;
-    private _hfModelProviderMap: Record<string, string>;
+    private _apiKeyIndices: Record<string, number>;
+    public apiKeyStatus: Record<string, ApiKeyStatus[]>;
+    private _keyCooldowns: Record<string, KeyCooldown[]>;
+    private _cooldownPolicy: CooldownPolicy;
+    private _retryPolicy: RetryPolicy;
+    private _providerRetry: Partial<Record<Provider, Partial<RetryPolicy>>>;
+    private _circuitPolicy: CircuitBreakerPolicy;
+    /** Circuits by provider, and by model within a provider for per-model circuits */
+    private _circuits: Map<Provider, Map<string, CircuitBreaker>>;
+    private _keyStats: Record<string, KeyUsageStats[]>;
+    private _lastRotation: Partial<Record<Provider, number>>;
+    private _rotationCounts: Partial<Record<Provider, number>>;
+    private _keyFingerprints: Record<string, string[]>;
+    private _stateStore?: KeyStateStore;
+    private _persistedState: KeyStateSnapshot | null;
+    private _pendingStateSave: Promise<void> | null;
+    private _stateSaveRequested: boolean;
+    private _logger: Logger;
+    private _tracer: Tracer;
+    private _imageFetchPolicy: ImageFetchPolicy;
+
+    /** Registered provider adapters by name, in registration order */
+    private static _adapters = new Map<Provider, ProviderAdapter>();
+
+    /**
+     * Default cooldown windows. Free-tier rate limits usually reset within a minute,
+     * while hard failures (revoked key, exhausted daily quota) warrant a longer pause.
+     */
+    static defaultCooldownPolicy: CooldownPolicy = {
+        rateLimitedMs: 60_000,
+        failedMs: 300_000,
+        multiplier: 2,
+        maxMs: 3_600_000
+    };
+
+    /**
+     * Default retry policy. Retries are off until maxAttempts is raised, since a failed key
+     * already moves the request on to the next one.
+     */
+    static defaultRetryPolicy: RetryPolicy = {
+        maxAttempts: 1,
+        maxDelayMs: 10_000,
+        jitter: 0.2,
+        retryOn: [...RETRY_ERROR_CLASSES]
+    };
+
+    /**
+     * Default circuit breaker policy: a provider failing at least half of 10 or more requests
+     * within a minute is skipped for 30 seconds.
+     */
+    static defaultCircuitBreakerPolicy: CircuitBreakerPolicy = {
+        enabled: true,
+        failureRateThreshold: 0.5,
+        minimumRequests: 10,
+        windowMs: 60_000,
+        openMs: 30_000,
+        perModel: false
+    };
+
+    /** Number of recent latency samples kept per key for percentile reporting */
+    static latencyWindowSize = 100;
+
+    /**
+     * Embedding models by provider, filled from the `embeddings` of registered adapters.
+     */
+    static embeddingModelConfigurations: Record<string, ModelConfiguration[]> = {};
 
     /**
      * A static property containing detailed model configurations for various providers.
@@ -98,32 +472,32 @@ export class LlmManager {
             { id: "Sao10K/L3-8B-Lunaris-v1", name: "L3 8B Lunaris v1", provider: "novita" }
         ],
         gemini: [
-            { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro" },
-            { id: "gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro Preview" },
-            { id: "gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash Preview 05-20" },
-            { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash" },
-            { id: "gemini-2.5-flash-lite-preview-06-17", name: "Gemini 2.5 Flash Lite Preview 06-17" },
-            { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash" },
-            { id: "gemini-2.0-flash-lite", name: "Gemini 2.0 Flash Lite" },
-            { id: "gemini-2.0-flash-thinking-exp-01-21", name: "Gemini 2.0 Flash Thinking Exp 01-21" },
-            { id: "gemini-exp-1206", name: "Gemini Exp 1206" },
-            { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro" },
+            { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro Preview", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash Preview 05-20", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.5-flash-lite-preview-06-17", name: "Gemini 2.5 Flash Lite Preview 06-17", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.0-flash-lite", name: "Gemini 2.0 Flash Lite", vision: true, contextWindow: 1_048_576 },
+            { id: "gemini-2.0-flash-thinking-exp-01-21", name: "Gemini 2.0 Flash Thinking Exp 01-21", vision: true },
+            { id: "gemini-exp-1206", name: "Gemini Exp 1206", vision: true },
+            { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro", vision: true, contextWindow: 2_097_152 },
             { id: "learnlm-2.0-flash-experimental", name: "LearnLM 2.0 Flash Experimental" },
-            { id: "gemini-1.5-flash", name: "Gemini 1.5 Flash" }
+            { id: "gemini-1.5-flash", name: "Gemini 1.5 Flash", vision: true, contextWindow: 1_048_576 }
         ],
         mistral: [
-            { id: "mistral-large-latest", name: "Mistral Large" },
-            { id: "mistral-medium-latest", name: "Mistral Medium" },
-            { id: "mistral-small-latest", name: "Mistral Small" },
+            { id: "mistral-large-latest", name: "Mistral Large", contextWindow: 131_072 },
+            { id: "mistral-medium-latest", name: "Mistral Medium", vision: true, contextWindow: 131_072 },
+            { id: "mistral-small-latest", name: "Mistral Small", vision: true, contextWindow: 131_072 },
             { id: "magistral-medium-latest", name: "Magistral Medium" },
             { id: "magistral-small-latest", name: "Magistral Small" },
-            { id: "open-mistral-nemo", name: "Open Mistral Nemo" }
+            { id: "open-mistral-nemo", name: "Open Mistral Nemo", contextWindow: 131_072 }
         ],
         cohere: [
-            { id: "command-a-03-2025", name: "Command A 03-2025" },
-            { id: "command-r7b-12-2024", name: "Command R7B 12-2024" },
-            { id: "command-r-plus-08-2024", name: "Command R Plus 08-2024" },
-            { id: "command-r-08-2024", name: "Command R 08-2024" },
+            { id: "command-a-03-2025", name: "Command A 03-2025", contextWindow: 256_000 },
+            { id: "command-r7b-12-2024", name: "Command R7B 12-2024", contextWindow: 128_000 },
+            { id: "command-r-plus-08-2024", name: "Command R Plus 08-2024", contextWindow: 128_000 },
+            { id: "command-r-08-2024", name: "Command R 08-2024", contextWindow: 128_000 },
             { id: "command-nightly", name: "Command Nightly" }
         ],
         chutes: [
@@ -137,16 +511,16 @@ export class LlmManager {
             { id: "tngtech/DeepSeek-TNG-R1T2-Chimera", name: "DeepSeek TNG R1T2 Chimera" },
             { id: "tencent/Hunyuan-A13B-Instruct", name: "Hunyuan A13B Instruct" },
             { id: "Qwen/Qwen3-235B-A22B", name: "Qwen3-235B-A22B" },
-            { id: "chutesai/Llama-4-Maverick-17B-128E-Instruct-FP8", name: "Llama 4 Maverick 17B 128E Instruct FP8" },
+            { id: "chutesai/Llama-4-Maverick-17B-128E-Instruct-FP8", name: "Llama 4 Maverick 17B 128E Instruct FP8", vision: true },
             { id: "MiniMaxAI/MiniMax-M1-80k", name: "MiniMax M1 80k" },
-            { id: "mrfakename/mistral-Small-3.1-24B-Instruct-2503-hf", name: "Mistral Small 3.1 24B Instruct 2503 HF" },
+            { id: "mrfakename/mistral-Small-3.1-24B-Instruct-2503-hf", name: "Mistral Small 3.1 24B Instruct 2503 HF", vision: true },
             { id: "moonshotai/Kimi-K2-Instruct", name: "Kimi K2 Instruct" }
         ],
         nvidia: [
             { id: "nvidia/llama-3.3-nemotron-super-49b-v1", name: "Llama 3.3 Nemotron Super 49B" },
             { id: "nvidia/llama-3.1-nemotron-ultra-253b-v1", name: "Llama 3.1 Nemotron Ultra 253B" },
-            { id: "meta/llama-4-scout-17b-16e-instruct", name: "Llama 4 Scout 17B 16E Instruct" },
-            { id: "meta/llama-4-maverick-17b-128e-instruct", name: "Llama 4 Maverick 17B 128E Instruct" },
+            { id: "meta/llama-4-scout-17b-16e-instruct", name: "Llama 4 Scout 17B 16E Instruct", vision: true },
+            { id: "meta/llama-4-maverick-17b-128e-instruct", name: "Llama 4 Maverick 17B 128E Instruct", vision: true },
             { id: "writer/palmyra-creative-122b", name: "Palmyra Creative 122B" },
             { id: "qwen/qwq-32b", name: "Qwen QWQ 32B" },
             { id: "meta/llama-3.3-70b-instruct", name: "Llama 3.3 70B Instruct" },
@@ -160,40 +534,327 @@ export class LlmManager {
 
     /**
      * Initializes the LlmManager.
+     * @param options - Optional overrides for the key cooldown, retry and circuit breaker policies
      */
-    constructor() {
-        this._apiKeyIndices = { gemini: 0, openrouter: 0, huggingface: 0, mistral: 0, cohere: 0, nvidia: 0, chutes: 0, requesty: 0 };
-        this.apiKeyStatus = { gemini: [], openrouter: [], huggingface: [], mistral: [], cohere: [], nvidia: [], chutes: [], requesty: [] };
-        this._hfModelProviderMap = {
-            "meta-llama/Llama-3.3-70B-Instruct": "nebius",
-            "deepseek-ai/DeepSeek-V3-0324": "sambanova",
-            "alpindale/WizardLM-2-8x22B": "novita",
-            "cognitivecomputations/dolphin-2.9.2-mixtral-8x22b": "nebius",
-            "HuggingFaceH4/zephyr-7b-beta": "hf-inference",
-            "Sao10K/L3-8B-Stheno-v3.2": "novita",
-            "Sao10K/L3-8B-Lunaris-v1": "novita"
-        };
+    constructor(options: LlmManagerOptions = {}) {
+        this._apiKeyIndices = {};
+        this.apiKeyStatus = {};
+        this._keyCooldowns = {};
+        this._cooldownPolicy = { ...LlmManager.defaultCooldownPolicy, ...options.cooldown };
+        this._retryPolicy = { ...LlmManager.defaultRetryPolicy, ...options.retry };
+        this._providerRetry = options.providerRetry ?? {};
+        this._circuitPolicy = { ...LlmManager.defaultCircuitBreakerPolicy, ...options.circuitBreaker };
+        this._circuits = new Map();
+        this._keyStats = {};
+        this._lastRotation = {};
+        this._rotationCounts = {};
+        this._keyFingerprints = {};
+        this._stateStore = options.stateStore;
+        this._persistedState = null;
+        this._pendingStateSave = null;
+        this._stateSaveRequested = false;
+        this._logger = options.logger ?? defaultLogger;
+        this._tracer = options.tracer ?? new Tracer();
+        this._imageFetchPolicy = { ...defaultImageFetchPolicy, ...options.imageFetch };
+        LlmManager.getRegisteredProviders().forEach(provider => this._initProviderState(provider));
+    }
+
+    // --- PROVIDER REGISTRY ---
+
+    /**
+     * Registers a provider adapter, replacing any adapter already registered under the same name.
+     * Its models are added to modelConfigurations, and config parsing and provider detection pick it up.
+     * @param adapter - The provider implementation
+     */
+    static registerProvider(adapter: ProviderAdapter): void {
+        const name = adapter?.name?.trim().toLowerCase();
+        if (!name || !/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+            throw new Error(`Invalid provider name: ${adapter?.name}`);
+        }
+        if (typeof adapter.generate !== 'function') {
+            throw new Error(`Provider ${name} must implement generate()`);
+        }
+
+        LlmManager._adapters.set(name, { ...adapter, name });
+        if (adapter.models) {
+            LlmManager.modelConfigurations[name] = adapter.models;
+        }
+        if (adapter.embeddings) {
+            LlmManager.embeddingModelConfigurations[name] = adapter.embeddings.models;
+        } else {
+            delete LlmManager.embeddingModelConfigurations[name];
+        }
+    }
+
+    /**
+     * Returns the adapter registered for a provider, if any.
+     */
+    static getProviderAdapter(provider: Provider): ProviderAdapter | undefined {
+        return LlmManager._adapters.get(provider?.toLowerCase());
+    }
+
+    /**
+     * Returns the names of all registered providers, built-in ones first.
+     */
+    static getRegisteredProviders(): Provider[] {
+        return [...LlmManager._adapters.keys()];
     }
 
     // --- PUBLIC API ---
 
     /**
      * Generates a response from the configured LLM provider. This is the main entry point for the module.
+     * The result carries the text, any tool calls, and the usage, stop reason and response id reported
+     * by the provider. Requests with `tools`, or with generation parameters such as `seed` or `stop`, are
+     * rejected for providers whose adapter does not support them.
      */
-    async generateResponse(prompt: Message[], settings: LlmSettings): Promise<string> {
-        const provider = settings.provider?.toLowerCase() as Provider;
-        const providerMethodName = `_call${this._capitalize(provider)}` as keyof this;
+    async generateResponse(prompt: Message[], settings: LlmSettings): Promise<CompletionResult> {
+        const adapter = this._resolveAdapter(settings);
+        if (settings.tools?.length && !adapter.supportsTools) {
+            throw new Error(`Provider ${adapter.name} does not support tool calling`);
+        }
+        this._assertSupportedParameters(adapter, settings);
+        ({ settings, prompt } = this._applyResponseFormat(adapter, settings, prompt));
+        settings = { ...settings, signal: combineSignals(settings.signal, settings.timeout) };
+        if (adapter.inlineImages) prompt = await inlineRemoteImages(prompt, this._imageFetchPolicy, settings.signal);
 
-        if (!provider || typeof this[providerMethodName] !== 'function') {
-            throw new Error(`Unsupported LLM provider specified: ${settings.provider}`);
+        const result = await this._executeApiCall('chat', adapter.name, settings, prompt, adapter.generate.bind(adapter));
+        const completion = typeof result === 'string' ? { content: result } : result;
+        if (isContentFilterReason(completion.finishReason) && !completion.content && !completion.toolCalls?.length) {
+            throw new ContentFilteredError(adapter.name, completion.finishReason!);
+        }
+        return completion;
+    }
+
+    /**
+     * Streams a response from the configured LLM provider as a sequence of text deltas.
+     * The generator returns the provider's stop reason, when it reports one.
+     * Key rotation applies until the first chunk arrives; errors after that point are thrown to the consumer.
+     */
+    async *generateResponseStream(prompt: Message[], settings: LlmSettings): AsyncGenerator<string, string | undefined> {
+        const adapter = this._resolveAdapter(settings);
+        if (settings.tools?.length) {
+            throw new Error('Tool calling is not supported when streaming; use generateResponse()');
+        }
+        if ((settings.n ?? 1) > 1) {
+            throw new Error('Multiple choices (n > 1) are not supported when streaming; use generateResponse()');
+        }
+        this._assertSupportedParameters(adapter, settings);
+        ({ settings, prompt } = this._applyResponseFormat(adapter, settings, prompt));
+        settings = { ...settings, signal: combineSignals(settings.signal, settings.timeout) };
+        if (adapter.inlineImages) prompt = await inlineRemoteImages(prompt, this._imageFetchPolicy, settings.signal);
+        const streamCall: StreamingApiCall = adapter.stream
+            ? adapter.stream.bind(adapter)
+            : async (apiKey, settings, prompt) => {
+                const result = await adapter.generate(apiKey, settings, prompt);
+                return (async function* () {
+                    yield typeof result === 'string' ? result : result.content ?? "";
+                    return typeof result === 'string' ? undefined : result.finishReason;
+                })();
+            };
+        return yield* this._executeStreamingApiCall(adapter.name, settings, prompt, streamCall);
+    }
+
+    /**
+     * Embeds one or more texts with the configured provider. Inputs beyond the provider's
+     * batch limit are sent as several requests, each rotating keys like a chat request.
+     */
+    async generateEmbeddings(input: string | string[], settings: EmbeddingSettings): Promise<EmbeddingResult> {
+        const adapter = this._resolveAdapter(settings);
+        const support = adapter.embeddings;
+        if (!support) {
+            throw new Error(`Provider ${adapter.name} does not support embeddings`);
+        }
+        if (settings.dimensions !== undefined && !support.supportsDimensions) {
+            throw new Error(`Provider ${adapter.name} does not support custom embedding dimensions`);
+        }
+
+        settings = { ...settings, signal: combineSignals(settings.signal, settings.timeout) };
+        const inputs = Array.isArray(input) ? input : [input];
+        const batchSize = support.maxBatchSize ?? inputs.length;
+        const embed = support.embed.bind(support);
+        const result: EmbeddingResult = { embeddings: [] };
+        for (let start = 0; start < inputs.length; start += batchSize) {
+            const batch = await this._executeApiCall('embeddings', adapter.name, settings, inputs.slice(start, start + batchSize), embed);
+            result.embeddings.push(...batch.embeddings);
+            if (batch.promptTokens !== undefined) {
+                result.promptTokens = (result.promptTokens ?? 0) + batch.promptTokens;
+            }
         }
+        return result;
+    }
+
+    /**
+     * Returns the retry policy applied to a provider's calls.
+     */
+    getRetryPolicy(provider: Provider): RetryPolicy {
+        return { ...this._retryPolicy, ...this._providerRetry[provider] };
+    }
+
+    /**
+     * Returns the circuits of a provider that have seen requests: one for the provider,
+     * or one per model when circuits are kept per model.
+     */
+    getCircuitStates(provider: Provider): CircuitStatus[] {
+        const circuits = this._circuits.get(provider) ?? new Map<string, CircuitBreaker>();
+        return [...circuits].map(([model, circuit]) => ({
+            ...(this._circuitPolicy.perModel && { model }),
+            ...circuit.getSnapshot()
+        }));
+    }
+
+    /**
+     * Returns the cooldown state of each key for a provider. Expired cooldowns are
+     * cleared first, so keys whose window has passed report as 'untested' again.
+     */
+    getKeyCooldowns(provider: Provider): KeyCooldown[] {
+        this._expireCooldowns(provider);
+        return (this._keyCooldowns[provider] || []).map(cooldown => ({ ...cooldown }));
+    }
+
+    /**
+     * Returns usage statistics for each key of a provider, indexed like apiKeyStatus.
+     */
+    getKeyStats(provider: Provider): KeyStatsSnapshot[] {
+        return (this._keyStats[provider] || []).map(stats => ({
+            lastUsed: stats.lastUsed !== undefined ? new Date(stats.lastUsed) : undefined,
+            lastError: stats.lastError,
+            successCount: stats.successCount,
+            failureCount: stats.failureCount,
+            latencyMs: stats.latencies.length > 0 ? computeLatencyPercentiles(stats.latencies) : undefined
+        }));
+    }
 
-        const providerMethod = this[providerMethodName] as (prompt: Message[], settings: LlmSettings) => Promise<string>;
-        return await providerMethod.call(this, prompt, settings);
+    /**
+     * Returns when the active key of a provider last changed, if it has.
+     */
+    getLastRotation(provider: Provider): Date | undefined {
+        const timestamp = this._lastRotation[provider];
+        return timestamp !== undefined ? new Date(timestamp) : undefined;
+    }
+
+    /**
+     * Returns how often the active key of a provider changed since the manager was created.
+     */
+    getRotationCount(provider: Provider): number {
+        return this._rotationCounts[provider] ?? 0;
+    }
+
+    // --- RUNTIME KEY MANAGEMENT ---
+
+    /**
+     * Aligns key state with the given keys ahead of the next call, e.g. after keys were added
+     * or removed at runtime. Keys are matched by fingerprint, so kept keys keep their state.
+     * Calls in flight finish with the key they started with.
+     */
+    syncApiKeys(provider: Provider, apiKeys: ApiKeys): void {
+        this._initProviderState(provider);
+        this._syncKeyState(provider, this._normalizeApiKeys(apiKeys, provider));
+    }
+
+    /**
+     * Returns the fingerprints of a provider's keys, indexed like apiKeyStatus.
+     */
+    getKeyFingerprints(provider: Provider): string[] {
+        return [...(this._keyFingerprints[provider] || [])];
+    }
+
+    /**
+     * Takes a key out of rotation until it is enabled again. A call already using the key finishes.
+     * @returns false if the provider has no key with this fingerprint
+     */
+    disableApiKey(provider: Provider, fingerprint: string): boolean {
+        return this._updateKeyState(provider, fingerprint, index => {
+            this.apiKeyStatus[provider][index] = 'disabled';
+            this._keyCooldowns[provider][index].until = 0;
+        });
+    }
+
+    /**
+     * Puts a disabled key back into rotation as untested.
+     * @returns false if the provider has no key with this fingerprint
+     */
+    enableApiKey(provider: Provider, fingerprint: string): boolean {
+        return this._updateKeyState(provider, fingerprint, index => {
+            if (this.apiKeyStatus[provider][index] === 'disabled') this._resetKeyState(provider, index);
+        });
+    }
+
+    /**
+     * Clears the status and cooldown of a key, e.g. once its quota was raised, so that it is tried
+     * again right away. Disabled keys stay disabled, and usage counters are kept.
+     * @returns false if the provider has no key with this fingerprint
+     */
+    resetApiKey(provider: Provider, fingerprint: string): boolean {
+        return this._updateKeyState(provider, fingerprint, index => {
+            if (this.apiKeyStatus[provider][index] !== 'disabled') this._resetKeyState(provider, index);
+        });
+    }
+
+    /**
+     * Resets every key of a provider as resetApiKey() does.
+     */
+    resetApiKeys(provider: Provider): void {
+        this.getKeyFingerprints(provider).forEach(fingerprint => this.resetApiKey(provider, fingerprint));
+    }
+
+    /**
+     * Loads persisted key state from the configured store. Saved state is matched to
+     * keys by fingerprint when each provider is first used, so reordering keys is safe.
+     */
+    async loadState(): Promise<void> {
+        if (!this._stateStore) return;
+        this._persistedState = await this._stateStore.load();
+    }
+
+    /**
+     * Resolves once any pending state writes have completed.
+     */
+    async flushState(): Promise<void> {
+        while (this._pendingStateSave) await this._pendingStateSave;
     }
 
     // --- INTERNAL HELPER METHODS ---
 
+    private _resolveAdapter(settings: { provider: string }): ProviderAdapter {
+        const adapter = settings.provider ? LlmManager.getProviderAdapter(settings.provider) : undefined;
+        if (!adapter) {
+            throw new Error(`Unsupported LLM provider specified: ${settings.provider}`);
+        }
+        return adapter;
+    }
+
+    private _assertSupportedParameters(adapter: ProviderAdapter, settings: LlmSettings): void {
+        const unsupported = getUnsupportedParameters(adapter, settings);
+        if (unsupported.length) {
+            throw new Error(`Provider ${adapter.name} does not support ${unsupported.join(', ')}`);
+        }
+    }
+
+    /**
+     * Providers without native JSON mode, or without native JSON Schema support, get the
+     * response format as a system instruction instead.
+     */
+    private _applyResponseFormat(adapter: ProviderAdapter, settings: LlmSettings, prompt: Message[]): { settings: LlmSettings; prompt: Message[] } {
+        const format = settings.responseFormat;
+        if (!format || format.type === 'text') {
+            return { settings, prompt };
+        }
+        const native = format.type === 'json_schema' ? adapter.supportsJsonSchema : adapter.supportedParameters?.includes('responseFormat');
+        if (native) {
+            return { settings, prompt };
+        }
+        return { settings: { ...settings, responseFormat: undefined }, prompt: applyJsonInstruction(prompt, format) };
+    }
+
+    private _initProviderState(provider: Provider): void {
+        this._apiKeyIndices[provider] ??= 0;
+        this.apiKeyStatus[provider] ??= [];
+        this._keyCooldowns[provider] ??= [];
+        this._keyStats[provider] ??= [];
+        this._keyFingerprints[provider] ??= [];
+    }
+
     private _capitalize(s: string): string {
         return s ? s.charAt(0).toUpperCase() + s.slice(1) : '';
     }
@@ -206,250 +867,438 @@ export class LlmManager {
 
     private _getNextApiKey(provider: Provider, apiKeys: ApiKeys): ApiKeyInfo {
         const normalizedKeys = this._normalizeApiKeys(apiKeys, provider);
-        if (normalizedKeys.length === 0) throw new Error(`No API key(s) found for ${provider}.`);
+        if (normalizedKeys.length === 0) throw ApiError.noApiKeys(provider);
 
-        if (this.apiKeyStatus[provider]?.length !== normalizedKeys.length) {
-            this.apiKeyStatus[provider] = new Array(normalizedKeys.length).fill('untested' as ApiKeyStatus);
-        }
+        // Adapters registered after construction get their state on first use
+        this._initProviderState(provider);
+        this._syncKeyState(provider, normalizedKeys);
+        this._expireCooldowns(provider);
 
         if (this._apiKeyIndices[provider] >= normalizedKeys.length) this._apiKeyIndices[provider] = 0;
 
         const currentIndex = this._apiKeyIndices[provider];
-        return { keys: normalizedKeys, currentIndex, currentKey: normalizedKeys[currentIndex] };
+        return { keys: normalizedKeys, fingerprints: [...this._keyFingerprints[provider]], currentIndex, currentKey: normalizedKeys[currentIndex] };
     }
 
-    private _markApiKeySuccess(provider: Provider, keyIndex: number, totalKeys: number): void {
-        if (this.apiKeyStatus[provider]) this.apiKeyStatus[provider][keyIndex] = 'working';
-        this._apiKeyIndices[provider] = (keyIndex + 1) % totalKeys;
+    /**
+     * Aligns per-key state with the given keys. Keys seen before keep their state, keys
+     * unknown to this process are restored from the persisted snapshot, others start fresh.
+     */
+    private _syncKeyState(provider: Provider, keys: string[]): void {
+        const fingerprints = keys.map(fingerprintApiKey);
+        const previous = this._keyFingerprints[provider] || [];
+        if (previous.length === fingerprints.length && previous.every((fp, i) => fp === fingerprints[i])) return;
+
+        const persisted: PersistedProviderState | undefined = previous.length === 0 ? this._persistedState?.providers[provider] : undefined;
+        const statuses: ApiKeyStatus[] = [];
+        const cooldowns: KeyCooldown[] = [];
+        const stats: KeyUsageStats[] = [];
+
+        fingerprints.forEach(fingerprint => {
+            const previousIndex = previous.indexOf(fingerprint);
+            const saved = persisted?.keys[fingerprint];
+            if (previousIndex !== -1) {
+                statuses.push(this.apiKeyStatus[provider][previousIndex]);
+                cooldowns.push(this._keyCooldowns[provider][previousIndex]);
+                stats.push(this._keyStats[provider][previousIndex]);
+            } else if (saved) {
+                statuses.push(saved.status);
+                cooldowns.push({ until: saved.cooldownUntil, consecutiveFailures: saved.consecutiveFailures });
+                stats.push({ lastUsed: saved.lastUsed, lastError: saved.lastError, successCount: saved.successCount, failureCount: saved.failureCount, latencies: [] });
+            } else {
+                statuses.push('untested');
+                cooldowns.push({ until: 0, consecutiveFailures: 0 });
+                stats.push({ successCount: 0, failureCount: 0, latencies: [] });
+            }
+        });
+
+        this._keyFingerprints[provider] = fingerprints;
+        this.apiKeyStatus[provider] = statuses;
+        this._keyCooldowns[provider] = cooldowns;
+        this._keyStats[provider] = stats;
+
+        if (persisted) {
+            if (persisted.currentIndex < keys.length) this._apiKeyIndices[provider] = persisted.currentIndex;
+            if (persisted.lastRotation !== undefined) this._lastRotation[provider] = persisted.lastRotation;
+        }
     }
 
-    private _markApiKeyFailure(provider: Provider, keyIndex: number, error: Error): void {
-        if (this.apiKeyStatus[provider]) {
-            const isRateLimit = error.message && (error.message.includes('rate') || error.message.includes('quota') || error.message.includes('429'));
-            this.apiKeyStatus[provider][keyIndex] = isRateLimit ? 'rate-limited' : 'failed';
+    private _buildStateSnapshot(): KeyStateSnapshot {
+        // Start from the loaded snapshot so providers not used yet in this process keep their saved state
+        const providers: KeyStateSnapshot['providers'] = { ...this._persistedState?.providers };
+
+        for (const provider of Object.keys(this._keyFingerprints) as Provider[]) {
+            const fingerprints = this._keyFingerprints[provider];
+            if (fingerprints.length === 0) continue;
+
+            const keys: PersistedProviderState['keys'] = {};
+            fingerprints.forEach((fingerprint, index) => {
+                const cooldown = this._keyCooldowns[provider][index];
+                const stats = this._keyStats[provider][index];
+                keys[fingerprint] = {
+                    status: this.apiKeyStatus[provider][index],
+                    cooldownUntil: cooldown.until,
+                    consecutiveFailures: cooldown.consecutiveFailures,
+                    lastUsed: stats.lastUsed,
+                    lastError: stats.lastError,
+                    successCount: stats.successCount,
+                    failureCount: stats.failureCount
+                };
+            });
+            providers[provider] = { currentIndex: this._apiKeyIndices[provider], lastRotation: this._lastRotation[provider], keys };
         }
+
+        return { version: 1, updatedAt: new Date().toISOString(), providers };
     }
 
-    private async _executeApiCall(providerName: Provider, settings: LlmSettings, prompt: Message[], apiCall: ApiCall): Promise<string> {
-        const keyInfo = this._getNextApiKey(providerName, settings.apiKeys);
-        let currentIndex = keyInfo.currentIndex;
-        let attemptCount = 0;
-        let lastError: Error | null = null;
-
-        while (attemptCount < keyInfo.keys.length) {
-            const apiKey = keyInfo.keys[currentIndex];
-            try {
-                const responseText = await apiCall(apiKey, settings, prompt);
-                this._markApiKeySuccess(providerName, currentIndex, keyInfo.keys.length);
-                return responseText;
-            } catch (error) {
-                const err = error as Error;
-                console.error(`${this._capitalize(providerName)} API key ${currentIndex + 1} failed:`, err.message);
-                this._markApiKeyFailure(providerName, currentIndex, err);
-                lastError = err;
-                currentIndex = (currentIndex + 1) % keyInfo.keys.length;
-                attemptCount++;
+    /**
+     * Writes the current state to the store. Changes made while a write is in flight
+     * are coalesced into one follow-up write rather than queueing a write per change.
+     */
+    private _scheduleStateSave(): void {
+        if (!this._stateStore) return;
+        this._stateSaveRequested = true;
+        if (this._pendingStateSave) return;
+
+        const store = this._stateStore;
+        this._pendingStateSave = (async () => {
+            while (this._stateSaveRequested) {
+                this._stateSaveRequested = false;
+                try {
+                    await store.save(this._buildStateSnapshot());
+                } catch (error) {
+                    this._logger.error('Failed to persist API key state', { error: (error as Error).message });
+                }
             }
+        })().finally(() => {
+            this._pendingStateSave = null;
+        });
+    }
+
+    /**
+     * Index of a key in the provider's current key list, or -1 once it was removed
+     */
+    private _indexOfKey(provider: Provider, fingerprint: string): number {
+        return (this._keyFingerprints[provider] || []).indexOf(fingerprint);
+    }
+
+    private _updateKeyState(provider: Provider, fingerprint: string, update: (keyIndex: number) => void): boolean {
+        const keyIndex = this._indexOfKey(provider, fingerprint);
+        if (keyIndex === -1) return false;
+        update(keyIndex);
+        this._scheduleStateSave();
+        return true;
+    }
+
+    private _resetKeyState(provider: Provider, keyIndex: number): void {
+        this.apiKeyStatus[provider][keyIndex] = 'untested';
+        this._keyCooldowns[provider][keyIndex] = { until: 0, consecutiveFailures: 0 };
+    }
+
+    /**
+     * Records a successful call. Keys removed while the call was in flight are skipped.
+     */
+    private _markApiKeySuccess(provider: Provider, fingerprint: string, latencyMs: number): void {
+        const keyIndex = this._indexOfKey(provider, fingerprint);
+        if (keyIndex === -1) return;
+        if (this.apiKeyStatus[provider][keyIndex] !== 'disabled') this.apiKeyStatus[provider][keyIndex] = 'working';
+        this._keyCooldowns[provider][keyIndex] = { until: 0, consecutiveFailures: 0 };
+
+        const stats = this._keyStats[provider][keyIndex];
+        stats.lastUsed = Date.now();
+        stats.successCount++;
+        stats.latencies.push(latencyMs);
+        if (stats.latencies.length > LlmManager.latencyWindowSize) stats.latencies.shift();
+
+        const nextIndex = (keyIndex + 1) % this._keyFingerprints[provider].length;
+        if (nextIndex !== this._apiKeyIndices[provider]) {
+            this._lastRotation[provider] = Date.now();
+            this._rotationCounts[provider] = (this._rotationCounts[provider] ?? 0) + 1;
         }
-        throw new Error(`All ${this._capitalize(providerName)} API keys failed. Last error: ${lastError?.message || 'Unknown error'}`);
-    }
-
-    // --- PROVIDER IMPLEMENTATIONS ---
-
-    private async _callGemini(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('gemini', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const { GoogleGenAI } = await import("@google/genai");
-            const ai = new GoogleGenAI({ apiKey });
-            const contents = prompt.map(msg => ({ role: msg.role === 'assistant' ? 'model' : 'user', parts: [{ text: msg.content }] }));
-            const modelsWithThinkingBudget = ["gemini-2.5-pro", "gemini-2.5-pro-preview-05-06", "gemini-2.5-flash-preview-04-17"];
-            const useThinkingBudget = modelsWithThinkingBudget.includes(settings.model);
-
-            const request: any = {
-                model: settings.model,
-                contents: contents,
-                generationConfig: {
-                    temperature: settings.temperature ?? 0.7,
-                    topP: settings.topP ?? 0.9,
-                    maxOutputTokens: settings.maxTokens ?? 2048
-                },
-            };
+        this._apiKeyIndices[provider] = nextIndex;
+        this._scheduleStateSave();
+    }
 
-            if (useThinkingBudget) {
-                request.thinkingConfig = { thinkingBudget: 24576 };
-            }
+    /**
+     * Records a failed call. The cooldown is left out while the retry policy will try the key again.
+     * Keys removed while the call was in flight are skipped, and disabled keys keep their status.
+     */
+    private _markApiKeyFailure(provider: Provider, fingerprint: string, message: string, startCooldown: boolean = true): void {
+        const keyIndex = this._indexOfKey(provider, fingerprint);
+        if (keyIndex === -1) return;
+        const stats = this._keyStats[provider][keyIndex];
+        stats.lastUsed = Date.now();
+        stats.failureCount++;
+        stats.lastError = message;
 
-            const response = await ai.models.generateContent(request);
-            return response?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        });
+        if (this.apiKeyStatus[provider][keyIndex] !== 'disabled') {
+            const isRateLimit = message && (message.includes('rate') || message.includes('quota') || message.includes('429'));
+            const status: ApiKeyStatus = isRateLimit ? 'rate-limited' : 'failed';
+            this.apiKeyStatus[provider][keyIndex] = status;
+            if (startCooldown) this._startCooldown(provider, keyIndex, status);
+        }
+        this._scheduleStateSave();
     }
 
-    private async _callOpenrouter(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('openrouter', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const fetch = (await import('node-fetch')).default;
-            const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${apiKey}`,
-                    "HTTP-Referer": settings.siteUrl || "http://localhost:3000",
-                    "X-Title": settings.siteName || "Axiom LLM Module",
-                    "Content-Type": "application/json"
-                },
-                body: JSON.stringify({
-                    model: settings.model,
-                    messages: prompt,
-                    temperature: settings.temperature ?? 0.7,
-                    max_tokens: settings.maxTokens ?? 2048,
-                    top_p: settings.topP ?? 0.9
-                })
-            });
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ message: response.statusText }));
-                throw new Error(`API request failed: ${response.status} ${JSON.stringify(errorData)}`);
-            }
-            const data = await response.json() as any;
-            return data.choices[0].message.content;
-        });
+    private _startCooldown(provider: Provider, keyIndex: number, status: ApiKeyStatus): void {
+        const cooldown = this._keyCooldowns[provider]?.[keyIndex];
+        if (!cooldown) return;
+
+        const policy = this._cooldownPolicy;
+        const baseMs = status === 'rate-limited' ? policy.rateLimitedMs : policy.failedMs;
+        cooldown.consecutiveFailures++;
+        const windowMs = Math.min(baseMs * Math.pow(policy.multiplier, cooldown.consecutiveFailures - 1), policy.maxMs);
+        cooldown.until = Date.now() + windowMs;
     }
 
-    private async _callRequesty(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('requesty', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const fetch = (await import('node-fetch')).default;
-            const response = await fetch("https://router.requesty.ai/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${apiKey}`,
-                    "Content-Type": "application/json",
-                    "HTTP-Referer": settings.siteUrl || "http://localhost:3000",
-                    "X-Title": settings.siteName || "Axiom LLM Module"
-                },
-                body: JSON.stringify({
-                    model: settings.model,
-                    messages: prompt,
-                    temperature: settings.temperature ?? 0.7,
-                    max_tokens: settings.maxTokens ?? 2048,
-                    top_p: settings.topP ?? 0.9
-                })
-            });
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ message: response.statusText }));
-                throw new Error(`API request failed: ${response.status} ${JSON.stringify(errorData)}`);
+    private _expireCooldowns(provider: Provider): void {
+        const cooldowns = this._keyCooldowns[provider] || [];
+        const now = Date.now();
+        let changed = false;
+        cooldowns.forEach((cooldown, index) => {
+            if (cooldown.until !== 0 && cooldown.until <= now) {
+                // Keep consecutiveFailures so a key that fails again right away gets a longer window
+                cooldown.until = 0;
+                this.apiKeyStatus[provider][index] = 'untested';
+                changed = true;
             }
-            const data = await response.json() as any;
-            return data.choices[0].message.content;
         });
+        if (changed) this._scheduleStateSave();
     }
 
-    private async _callHuggingface(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('huggingface', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const { HfInference } = await import("@huggingface/inference");
-            const client = new HfInference(apiKey);
-            const provider = settings.providerOverride || this._hfModelProviderMap[settings.model] || "nebius";
-
-            let output = "";
-            const stream = client.chatCompletionStream({
-                model: settings.model,
-                messages: prompt as any,
-                temperature: settings.temperature ?? 0.7,
-                max_tokens: settings.maxTokens ?? 2048,
-                top_p: settings.topP ?? 0.9,
-                provider: provider as any
-            });
+    private _getKeyStatus(provider: Provider, fingerprint: string): ApiKeyStatus | undefined {
+        return this.apiKeyStatus[provider][this._indexOfKey(provider, fingerprint)];
+    }
 
-            for await (const chunk of stream) {
-                if (chunk.choices?.[0]?.delta?.content) {
-                    output += chunk.choices[0].delta.content;
-                }
-            }
-            return output;
-        });
+    private _isInCooldown(provider: Provider, keyIndex: number): boolean {
+        const cooldown = this._keyCooldowns[provider]?.[keyIndex];
+        return !!cooldown && cooldown.until > Date.now();
     }
 
-    private async _callMistral(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('mistral', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const MistralClient = await import('@mistralai/mistralai');
-            const client = new (MistralClient as any)({ apiKey });
-            const chatResponse = await client.chat.complete({
-                model: settings.model,
-                messages: prompt,
-                temperature: settings.temperature ?? 0.7,
-                maxTokens: settings.maxTokens ?? 2048,
-                topP: settings.topP ?? 0.9
-            });
-            return chatResponse.choices[0].message.content;
-        });
+    private _keysExhaustedError(provider: Provider, lastError: string): ApiError {
+        return ApiError.keysExhausted(this._capitalize(provider), [...this.apiKeyStatus[provider]], lastError);
     }
 
-    private async _callCohere(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('cohere', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const { CohereClientV2 } = await import('cohere-ai');
-            const cohere = new CohereClientV2({ token: apiKey });
-            const cohereMessages = prompt.map(msg => ({
-                role: msg.role,
-                content: typeof msg.content === 'string' ? msg.content : String(msg.content)
-            }));
-            const response = await cohere.chat({
-                model: settings.model,
-                messages: cohereMessages,
-                temperature: settings.temperature ?? 0.7,
-                max_tokens: settings.maxTokens ?? 2048
-            } as any);
-            return response?.message?.content?.map((c: any) => c.text).join('\n') || "";
-        });
+    private _cooldownExhaustedError(provider: Provider): ApiError {
+        const cooldowns = (this._keyCooldowns[provider] || []).filter((_, index) => this.apiKeyStatus[provider][index] !== 'disabled');
+        if (cooldowns.length === 0) {
+            return this._keysExhaustedError(provider, 'all keys are disabled');
+        }
+        const nextAvailable = Math.min(...cooldowns.map(c => c.until));
+        const waitSeconds = Math.max(1, Math.ceil((nextAvailable - Date.now()) / 1000));
+        return this._keysExhaustedError(provider, `all keys are cooling down, next available in ${waitSeconds}s`);
     }
 
-    private async _callNvidia(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('nvidia', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const { default: OpenAI } = await import('openai');
-            const openai = new OpenAI({ apiKey, baseURL: 'https://integrate.api.nvidia.com/v1' });
+    private async _executeApiCall<T, S extends CallSettings = LlmSettings, I = Message[]>(
+        operation: 'chat' | 'embeddings',
+        providerName: Provider,
+        settings: S,
+        prompt: I,
+        apiCall: (apiKey: string, settings: S, prompt: I) => Promise<T>
+    ): Promise<T> {
+        return this._callWithRetries(providerName, settings, (apiKey, traceContext) =>
+            this._traceUpstreamCall(operation, providerName, settings.model, apiKey, traceContext, () => apiCall(apiKey, settings, prompt)));
+    }
 
-            let patchedMessages: Message[] = prompt;
-            const nemotronModels = ['nvidia/llama-3.1-nemotron-ultra-253b-v1', 'nvidia/llama-3.3-nemotron-super-49b-v1'];
-            if (nemotronModels.includes(settings.model)) {
-                patchedMessages = [{ role: 'system', content: 'detailed thinking on' }, ...prompt];
-            }
+    private async *_executeStreamingApiCall(providerName: Provider, settings: LlmSettings, prompt: Message[], apiCall: StreamingApiCall): AsyncGenerator<string, string | undefined> {
+        // Pull the first chunk before committing to a key so auth and quota errors still rotate.
+        // Streaming latency is measured to the first chunk.
+        const { iterator, firstChunk } = await this._callWithRetries(providerName, settings, (apiKey, traceContext) =>
+            this._traceUpstreamCall('chat', providerName, settings.model, apiKey, traceContext, async () => {
+                const stream = await apiCall(apiKey, settings, prompt);
+                const iterator = stream[Symbol.asyncIterator]();
+                return { iterator, firstChunk: await iterator.next() };
+            }, { 'llm.streaming': true }));
+        if (firstChunk.done) return firstChunk.value || undefined;
+        yield firstChunk.value;
+        return (yield* { [Symbol.asyncIterator]: () => iterator }) || undefined;
+    }
+
+    /**
+     * Tries each available key in rotation order until one succeeds. When every key failed,
+     * the keys whose error the retry policy allows are tried again after a backoff delay;
+     * their cooldown only starts once they are no longer retried. Requests are refused
+     * without calling the provider while its circuit is open. Requests the provider rejects as
+     * invalid fail right away with an ApiError, leaving keys and circuit untouched.
+     */
+    private async _callWithRetries<T>(
+        providerName: Provider,
+        settings: CallSettings,
+        call: (apiKey: string, traceContext: SpanContext) => Promise<T>
+    ): Promise<T> {
+        const keyInfo = this._getNextApiKey(providerName, settings.apiKeys);
+        const policy = this.getRetryPolicy(providerName);
+        const { signal, model } = settings;
+        const logger = settings.logger ?? this._logger;
+        const circuit = this._getCircuit(providerName, model);
+        // Present whenever a circuit is; a half-open circuit only listens to the request holding its probe permit
+        const permit = circuit?.allowRequest();
+        if (circuit && !permit) {
+            throw new CircuitOpenError(providerName, circuit.retryAfterMs, this._circuitPolicy.perModel ? model : undefined);
+        }
+
+        try {
+            let candidates = keyInfo.keys.map((_, offset) => (keyInfo.currentIndex + offset) % keyInfo.keys.length);
+            let lastError: Error | null = null;
 
-            let extraParams: any = {};
-            if (settings.model?.toLowerCase() === 'qwen/qwen3-235b-a22b') {
-                extraParams = { chat_template_kwargs: { thinking: true } };
+            for (let attempt = 1; candidates.length > 0; attempt++) {
+                const retryKeys: number[] = [];
+                let delayMs = 0;
+                for (const candidate of candidates) {
+                    const fingerprint = keyInfo.fingerprints[candidate];
+                    // Keys may have been removed or disabled since the call started
+                    const keyIndex = this._indexOfKey(providerName, fingerprint);
+                    if (keyIndex === -1 || this.apiKeyStatus[providerName][keyIndex] === 'disabled') continue;
+                    if (this._isInCooldown(providerName, keyIndex)) continue;
+                    if (signal?.aborted) throw getCancellationError(signal);
+                    const span = this._tracer.startSpan('key attempt', {
+                        parent: settings.traceContext,
+                        attributes: {
+                            'llm.provider': providerName,
+                            'llm.model': model,
+                            'llm.key_index': keyIndex,
+                            'llm.key_fingerprint': fingerprint,
+                            'llm.attempt': attempt
+                        }
+                    });
+                    const startTime = Date.now();
+                    try {
+                        const result = await call(keyInfo.keys[candidate], span.context);
+                        this._markApiKeySuccess(providerName, fingerprint, Date.now() - startTime);
+                        circuit?.recordSuccess(permit!);
+                        span.setAttribute('llm.key_status', this._getKeyStatus(providerName, fingerprint)).setStatus('ok');
+                        return result;
+                    } catch (error) {
+                        const err = error as Error;
+                        // Provider error bodies may echo the request, key included
+                        const message = redactSecrets(err.message, keyInfo.keys);
+                        span.recordException(err, message);
+                        // A filtered response still means the provider is up
+                        if (error instanceof ContentFilteredError) {
+                            circuit?.recordSuccess(permit!);
+                            throw error;
+                        }
+                        // Cancellation by the caller says nothing about the key
+                        if (signal?.aborted) throw getCancellationError(signal);
+                        // Nor does a request the provider rejects as invalid; it goes back to the caller as a 4xx
+                        if (isRequestError(err)) {
+                            throw classifyProviderError(new ProviderRequestError(message, getErrorStatus(err)!), providerName);
+                        }
+                        logger.warn(`${this._capitalize(providerName)} API key ${keyIndex + 1} failed`, {
+                            provider: providerName,
+                            model,
+                            keyFingerprint: fingerprint,
+                            error: message
+                        });
+                        const retryDelayMs = getRetryDecision(policy, err, providerName, attempt);
+                        this._markApiKeyFailure(providerName, fingerprint, message, retryDelayMs === undefined);
+                        span.setAttributes({ 'llm.key_status': this._getKeyStatus(providerName, fingerprint), 'llm.retry_delay_ms': retryDelayMs });
+                        if (retryDelayMs !== undefined) {
+                            retryKeys.push(candidate);
+                            delayMs = Math.max(delayMs, retryDelayMs);
+                        }
+                        lastError = err;
+                    } finally {
+                        span.end();
+                    }
+                }
+                if (retryKeys.length > 0) {
+                    logger.info(`Retrying ${this._capitalize(providerName)} in ${delayMs}ms`, { provider: providerName, model, attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs });
+                    await waitForRetry(delayMs, signal);
+                }
+                candidates = retryKeys;
             }
+            if (!lastError) throw this._cooldownExhaustedError(providerName);
+            circuit?.recordFailure(permit!);
+            throw this._keysExhaustedError(providerName, redactSecrets(lastError.message || 'Unknown error', keyInfo.keys));
+        } finally {
+            circuit?.release(permit!);
+        }
+    }
 
-            const completion = await openai.chat.completions.create({
-                model: settings.model,
-                messages: patchedMessages as any,
-                temperature: settings.temperature ?? 0.7,
-                top_p: settings.topP ?? 0.9,
-                max_tokens: settings.maxTokens ?? 2048,
-                stream: false,
-                ...extraParams
-            });
-            return completion.choices[0].message.content || "";
+    /**
+     * Makes one upstream call within a client span carrying the provider, model, token usage
+     * and, for failed HTTP calls, the response status.
+     * @param apiKey - Key used for the call, redacted from recorded errors
+     */
+    private async _traceUpstreamCall<T>(
+        operation: 'chat' | 'embeddings',
+        providerName: Provider,
+        model: string,
+        apiKey: string,
+        parent: SpanContext,
+        call: () => Promise<T>,
+        attributes: Record<string, SpanAttributeValue> = {}
+    ): Promise<T> {
+        const span = this._tracer.startSpan(`${operation} ${model}`, {
+            kind: 'client',
+            parent,
+            attributes: { 'gen_ai.operation.name': operation, 'gen_ai.system': providerName, 'gen_ai.request.model': model, ...attributes }
         });
+        try {
+            const result = await call();
+            const usage = result as Partial<CompletionResult & EmbeddingResult> | undefined;
+            span.setAttributes({
+                'gen_ai.usage.input_tokens': usage?.usage?.promptTokens ?? usage?.promptTokens,
+                'gen_ai.usage.output_tokens': usage?.usage?.completionTokens
+            }).setStatus('ok');
+            return result;
+        } catch (error) {
+            const err = error as Error;
+            if (err instanceof ProviderRequestError) {
+                span.setAttribute('http.response.status_code', err.status);
+            }
+            span.recordException(err, redactSecrets(err.message, [apiKey]));
+            throw error;
+        } finally {
+            span.end();
+        }
     }
 
-    private async _callChutes(prompt: Message[], settings: LlmSettings): Promise<string> {
-        return this._executeApiCall('chutes', settings, prompt, async (apiKey: string, settings: LlmSettings, prompt: Message[]) => {
-            const fetch = (await import('node-fetch')).default;
-            const response = await fetch("https://llm.chutes.ai/v1/chat/completions", {
-                method: "POST",
-                headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    model: settings.model,
-                    messages: prompt,
-                    stream: false,
-                    max_tokens: settings.maxTokens ?? 1024,
-                    temperature: settings.temperature ?? 0.7
-                })
-            });
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ message: response.statusText }));
-                throw new Error(`API request failed: ${response.status} ${JSON.stringify(errorData)}`);
-            }
-            const data = await response.json() as any;
-            return data.choices[0].message.content;
-        });
+    /**
+     * Returns the circuit guarding requests for a provider and model, or undefined when circuits are disabled.
+     */
+    private _getCircuit(provider: Provider, model: string): CircuitBreaker | undefined {
+        if (!this._circuitPolicy.enabled) return undefined;
+        let circuits = this._circuits.get(provider);
+        if (!circuits) {
+            circuits = new Map();
+            this._circuits.set(provider, circuits);
+        }
+        // Model names are matched case-insensitively elsewhere
+        const name = this._circuitPolicy.perModel ? model.toLowerCase() : provider;
+        let circuit = circuits.get(name);
+        if (!circuit) {
+            circuit = new CircuitBreaker(this._circuitPolicy);
+            circuits.set(name, circuit);
+        }
+        return circuit;
     }
 }
 
+builtInProviderAdapters.forEach(adapter => LlmManager.registerProvider(adapter));
+
+/**
+ * Registers a provider adapter with LlmManager. See LlmManager.registerProvider.
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+    LlmManager.registerProvider(adapter);
+}
+
+/**
+ * Returns the generation parameters set in `settings` that an adapter does not honour.
+ * `n` of 1 is the default everywhere and never counts; neither does `responseFormat`,
+ * which providers without native JSON mode receive as a system instruction.
+ */
+export function getUnsupportedParameters(adapter: ProviderAdapter, settings: LlmSettings): GenerationParameter[] {
+    const supported = adapter.supportedParameters ?? [];
+    return GENERATION_PARAMETERS.filter(parameter => {
+        if (settings[parameter] === undefined || supported.includes(parameter) || parameter === 'responseFormat') return false;
+        if (parameter === 'n') return settings.n! > 1;
+        return true;
+    });
+}
+
 // --- USAGE EXAMPLE ---
 /*
 
@@ -482,7 +1331,7 @@ async function main() {
         console.log(`Sending request to ${settings.provider} with model ${settings.model}...`);
         const response = await llmManager.generateResponse(prompt, settings);
         console.log("\n--- LLM Response ---");
-        console.log(response);
+        console.log(response.content);
         console.log("--------------------\n");
 
         // 5. Inspect the status of your API keys
@@ -502,7 +1351,7 @@ async function main() {
 */
 
 // Export types for external use
-export type { Message, ModelConfiguration, ApiKeys, LlmSettings, ApiKeyStatus, Provider };
+export type { Message, ContentPart, ToolCall, ToolDefinition, ToolChoice, ResponseFormat, GenerationParameter, CompletionChoice, CompletionResult, TokenUsage, EmbeddingSettings, EmbeddingResult, EmbeddingSupport, ModelConfiguration, ApiKeys, LlmSettings, ApiKeyStatus, Provider, BuiltInProvider, ProviderAdapter, ProviderDetection, CooldownPolicy, KeyCooldown, KeyStatsSnapshot, LatencyPercentiles, LlmManagerOptions, CircuitStatus };
 
 // Export the class for use in other modules
 export default LlmManager;
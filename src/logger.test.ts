@@ -0,0 +1,138 @@
+/**
+ * @file logger.test.ts
+ * @description Unit tests for JSON log lines, levels and secret redaction
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JsonLogger, redactSecrets, redactValue, silentLogger } from './logger';
+import type { LogLevel } from './logger';
+
+describe('logger', () => {
+    describe('redactSecrets', () => {
+        it('should redact bearer tokens and recognizable API keys', () => {
+            expect(redactSecrets('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer [REDACTED]');
+            expect(redactSecrets('invalid key sk-or-v1-0123456789abcdef0123')).toBe('invalid key [REDACTED]');
+            expect(redactSecrets('key AIzaSyA1234567890abcdefghijklmnopqrstu rejected')).toBe('key [REDACTED] rejected');
+            expect(redactSecrets('token hf_abcdefghijklmnopqrstuvwx')).toBe('token [REDACTED]');
+        });
+
+        it('should redact keys in query strings and echoed headers', () => {
+            expect(redactSecrets('GET /v1beta/models?key=secret123&alt=sse')).toBe('GET /v1beta/models?key=[REDACTED]&alt=sse');
+            expect(redactSecrets('{"x-api-key": "secret123", "accept": "json"}')).toBe('{"x-api-key": "[REDACTED]", "accept": "json"}');
+        });
+
+        it('should redact configured secrets of any shape', () => {
+            expect(redactSecrets('Upstream rejected my-custom-key-1 and my-custom-key-12', ['my-custom-key-1', 'my-custom-key-12']))
+                .toBe('Upstream rejected [REDACTED] and [REDACTED]');
+        });
+
+        it('should leave other text alone', () => {
+            expect(redactSecrets('API request failed: 429 Too Many Requests')).toBe('API request failed: 429 Too Many Requests');
+        });
+    });
+
+    describe('redactValue', () => {
+        it('should redact nested fields by name and by value', () => {
+            expect(redactValue({
+                headers: { Authorization: 'Bearer abc', accept: 'application/json' },
+                apiKeys: ['one', 'two'],
+                details: [{ lastError: 'rejected secret-value' }]
+            }, ['secret-value'])).toEqual({
+                headers: { Authorization: '[REDACTED]', accept: 'application/json' },
+                apiKeys: '[REDACTED]',
+                details: [{ lastError: 'rejected [REDACTED]' }]
+            });
+        });
+
+        it('should reduce errors to their name, message and stack', () => {
+            const error = new Error('bad key sk-0123456789abcdefghij');
+
+            expect(redactValue(error)).toMatchObject({ name: 'Error', message: 'bad key [REDACTED]' });
+            expect((redactValue(error) as { stack: string }).stack).not.toContain('sk-0123456789abcdefghij');
+        });
+
+        it('should mark circular references but keep repeated ones', () => {
+            const shared = { provider: 'gemini' };
+            const circular: Record<string, unknown> = { shared, again: shared };
+            circular.self = circular;
+
+            expect(redactValue(circular)).toEqual({ shared, again: shared, self: '[Circular]' });
+        });
+    });
+
+    describe('JsonLogger', () => {
+        let lines: Array<{ level: LogLevel; entry: Record<string, unknown> }>;
+        const write = (line: string, level: LogLevel) => lines.push({ level, entry: JSON.parse(line) });
+
+        beforeEach(() => {
+            lines = [];
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2025-07-14T12:00:00Z'));
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.restoreAllMocks();
+        });
+
+        it('should write one JSON object per entry with time, level, message and fields', () => {
+            new JsonLogger({ write }).info('Request completed', { requestId: 'req_1', status: 200 });
+
+            expect(lines).toEqual([{
+                level: 'info',
+                entry: { time: '2025-07-14T12:00:00.000Z', level: 'info', msg: 'Request completed', requestId: 'req_1', status: 200 }
+            }]);
+        });
+
+        it('should skip entries below the configured level', () => {
+            const logger = new JsonLogger({ level: 'warn', write });
+
+            logger.debug('debug');
+            logger.info('info');
+            logger.warn('warn');
+            logger.error('error');
+            new JsonLogger({ level: 'silent', write }).error('dropped');
+
+            expect(lines.map(line => line.level)).toEqual(['warn', 'error']);
+        });
+
+        it('should add the fields of child loggers to every entry', () => {
+            const logger = new JsonLogger({ level: 'debug', write }).child({ requestId: 'req_1' }).child({ provider: 'gemini' });
+
+            logger.debug('Routing chat completion', { model: 'gemini-2.5-pro' });
+
+            expect(lines[0].entry).toMatchObject({ requestId: 'req_1', provider: 'gemini', model: 'gemini-2.5-pro' });
+        });
+
+        it('should redact secrets from messages and fields', () => {
+            const logger = new JsonLogger({ secrets: ['configured-key'], write });
+
+            logger.error('Provider echoed configured-key', { error: 'Authorization: Bearer configured-key', token: 'abc' });
+
+            expect(lines[0].entry).toMatchObject({ msg: 'Provider echoed [REDACTED]', error: 'Authorization: Bearer [REDACTED]', token: '[REDACTED]' });
+        });
+
+        it('should write warnings and errors to console.error and the rest to console.log', () => {
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+            const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const logger = new JsonLogger();
+
+            logger.info('started');
+            logger.warn('slow');
+
+            expect(log).toHaveBeenCalledWith(expect.stringContaining('"msg":"started"'));
+            expect(error).toHaveBeenCalledWith(expect.stringContaining('"msg":"slow"'));
+        });
+    });
+
+    describe('silentLogger', () => {
+        it('should discard entries, also from its children', () => {
+            const log = vi.spyOn(console, 'log');
+
+            silentLogger.child({ requestId: 'req_1' }).info('ignored');
+
+            expect(log).not.toHaveBeenCalled();
+            log.mockRestore();
+        });
+    });
+});
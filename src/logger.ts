@@ -0,0 +1,187 @@
+/**
+ * @file logger.ts
+ * @description Leveled logging with one JSON object per line. Entries carry fields such as
+ * requestId, provider, model and keyFingerprint; API keys and bearer tokens are redacted
+ * from messages and fields before anything is written.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Structured fields of a log entry
+ */
+export interface LogFields {
+    requestId?: string;
+    provider?: string;
+    model?: string;
+    /** Fingerprint of the API key involved, as computed by fingerprintApiKey */
+    keyFingerprint?: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Destination of log entries. LlmManager and the server only log through this interface,
+ * so any logging library can be plugged in.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /** Logger that adds `fields` to every entry */
+    child(fields: LogFields): Logger;
+}
+
+export interface JsonLoggerOptions {
+    /** Least severe level that is written; 'silent' writes nothing (default 'info') */
+    level?: LogLevel | 'silent';
+    /** Values redacted wherever they appear, such as the configured API keys */
+    secrets?: string[];
+    /** Receives each line; defaults to console.log, and console.error for warnings and errors */
+    write?: (line: string, level: LogLevel) => void;
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Credentials recognizable by their shape, for keys the logger was not told about
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+    [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+    [/\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, REDACTED],
+    [/\bAIza[0-9A-Za-z_-]{30,}/g, REDACTED],
+    [/\bhf_[A-Za-z0-9]{20,}/g, REDACTED],
+    [/\bnvapi-[A-Za-z0-9_-]{20,}/g, REDACTED],
+    [/([?&](?:key|api_key|apikey|access_token|token)=)[^&\s"']+/gi, `$1${REDACTED}`],
+    [/((?:x-api-key|api-key|x-goog-api-key)["']?\s*[:=]\s*["']?)[^"'\s,;}]+/gi, `$1${REDACTED}`]
+];
+
+/**
+ * Field names whose values are always redacted
+ */
+const SECRET_FIELD_NAME = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|api[-_]?keys?|token|access[-_]?token|secret|password)$/i;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace credentials in a text with [REDACTED]
+ * @param text - Text that may contain credentials, e.g. a provider error body
+ * @param secrets - Exact values to redact in addition to the recognized credential shapes
+ */
+export function redactSecrets(text: string, secrets: string[] = []): string {
+    let redacted = text;
+    // Longest first, so that a key containing another key is replaced whole
+    for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+        if (secret) {
+            redacted = redacted.replace(new RegExp(escapeRegExp(secret), 'g'), REDACTED);
+        }
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+        redacted = redacted.replace(pattern, replacement);
+    }
+    return redacted;
+}
+
+/**
+ * Redact credentials anywhere in a value that is about to be logged. Errors are reduced
+ * to their name, message and stack.
+ */
+export function redactValue(value: unknown, secrets: string[] = [], seen: WeakSet<object> = new WeakSet()): unknown {
+    if (typeof value === 'string') {
+        return redactSecrets(value, secrets);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (seen.has(value)) {
+        return '[Circular]';
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redactSecrets(value.message, secrets), stack: value.stack && redactSecrets(value.stack, secrets) };
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    seen.add(value);
+    const redacted = Array.isArray(value)
+        ? value.map(item => redactValue(item, secrets, seen))
+        : Object.fromEntries(Object.entries(value).map(([name, field]) => [
+            name,
+            SECRET_FIELD_NAME.test(name) && field !== undefined && field !== null ? REDACTED : redactValue(field, secrets, seen)
+        ]));
+    seen.delete(value);
+    return redacted;
+}
+
+/**
+ * Writes entries as single-line JSON: `{"time":...,"level":...,"msg":...,...fields}`
+ */
+export class JsonLogger implements Logger {
+    private readonly minLevel: number;
+    private readonly secrets: string[];
+    private readonly write: (line: string, level: LogLevel) => void;
+
+    /**
+     * @param fields - Fields added to every entry
+     */
+    constructor(private readonly options: JsonLoggerOptions = {}, private readonly fields: LogFields = {}) {
+        const level = options.level ?? 'info';
+        this.minLevel = level === 'silent' ? Infinity : LOG_LEVELS.indexOf(level);
+        this.secrets = options.secrets ?? [];
+        this.write = options.write ?? ((line, level) => (level === 'warn' || level === 'error' ? console.error(line) : console.log(line)));
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.log('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.log('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.log('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.log('error', message, fields);
+    }
+
+    child(fields: LogFields): Logger {
+        return new JsonLogger(this.options, { ...this.fields, ...fields });
+    }
+
+    private log(level: LogLevel, message: string, fields?: LogFields): void {
+        if (LOG_LEVELS.indexOf(level) < this.minLevel) {
+            return;
+        }
+        const entry = redactValue({ ...this.fields, ...fields }, this.secrets) as Record<string, unknown>;
+        this.write(JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            msg: redactSecrets(message, this.secrets),
+            ...entry
+        }), level);
+    }
+}
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => silentLogger
+};
+
+/**
+ * Logger used where none is injected: JSON at info level on the console
+ */
+export const defaultLogger: Logger = new JsonLogger();
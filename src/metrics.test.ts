@@ -0,0 +1,89 @@
+/**
+ * @file metrics.test.ts
+ * @description Unit tests for the metrics registry and the text exposition format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry, Counter, Histogram } from './metrics';
+
+describe('metrics', () => {
+    describe('Counter', () => {
+        it('should add up values per combination of labels', () => {
+            const counter = new Counter('requests_total', 'Requests');
+
+            counter.inc({ route: '/a', status: '200' });
+            counter.inc({ status: '200', route: '/a' }, 2);
+            counter.inc({ route: '/b', status: '200' });
+
+            expect(counter.get({ route: '/a', status: '200' })).toBe(3);
+            expect(counter.get({ route: '/b', status: '200' })).toBe(1);
+            expect(counter.get({ route: '/c', status: '200' })).toBe(0);
+        });
+
+        it('should refuse to decrease', () => {
+            expect(() => new Counter('requests_total', 'Requests').inc({}, -1)).toThrow('Counter requests_total cannot decrease');
+        });
+    });
+
+    describe('Histogram', () => {
+        it('should count observations into cumulative buckets with a sum and count', () => {
+            const histogram = new Histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+            histogram.observe({ route: '/a' }, 0.05);
+            histogram.observe({ route: '/a' }, 0.5);
+            histogram.observe({ route: '/a' }, 3);
+
+            expect(histogram.render()).toEqual([
+                'latency_seconds_bucket{route="/a",le="0.1"} 1',
+                'latency_seconds_bucket{route="/a",le="1"} 2',
+                'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+                'latency_seconds_sum{route="/a"} 3.55',
+                'latency_seconds_count{route="/a"} 3'
+            ]);
+        });
+    });
+
+    describe('MetricsRegistry', () => {
+        it('should render every family with HELP and TYPE lines', () => {
+            const registry = new MetricsRegistry();
+            registry.counter('requests_total', 'Requests').inc({ route: '/a' });
+            registry.collect('keys', 'Keys by status', 'gauge', () => [{ labels: { status: 'working' }, value: 2 }]);
+
+            expect(registry.render()).toBe([
+                '# HELP requests_total Requests',
+                '# TYPE requests_total counter',
+                'requests_total{route="/a"} 1',
+                '# HELP keys Keys by status',
+                '# TYPE keys gauge',
+                'keys{status="working"} 2',
+                ''
+            ].join('\n'));
+        });
+
+        it('should read collected series on every render', () => {
+            const registry = new MetricsRegistry();
+            let working = 1;
+            registry.collect('keys', 'Keys', 'gauge', () => [{ labels: {}, value: working }]);
+
+            expect(registry.render()).toContain('keys 1\n');
+            working = 0;
+            expect(registry.render()).toContain('keys 0\n');
+        });
+
+        it('should escape label values and help text', () => {
+            const registry = new MetricsRegistry();
+            registry.counter('errors_total', 'Errors\nby "message" \\ code').inc({ message: 'bad "input"\n\\' });
+
+            const text = registry.render();
+            expect(text).toContain('# HELP errors_total Errors\\nby "message" \\\\ code');
+            expect(text).toContain('errors_total{message="bad \\"input\\"\\n\\\\"} 1');
+        });
+
+        it('should refuse to register a name twice', () => {
+            const registry = new MetricsRegistry();
+            registry.counter('requests_total', 'Requests');
+
+            expect(() => registry.histogram('requests_total', 'Requests')).toThrow('Metric requests_total is already registered');
+        });
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * @file metrics.ts
+ * @description Prometheus metrics in the text exposition format. Counters and histograms
+ * are updated as requests finish; values kept elsewhere, such as key statuses held by
+ * LlmManager, are read by collectors each time the registry is rendered.
+ */
+
+/**
+ * Label names and values of a series
+ */
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * A value of a series, as returned by collectors
+ */
+export interface MetricSample {
+    labels: MetricLabels;
+    value: number;
+}
+
+/**
+ * Content type of the text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Histogram buckets for request latency, in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+/**
+ * Series key that does not depend on the order labels were given in
+ */
+function getSeriesKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * A metric family with its HELP and TYPE lines
+ */
+interface Metric {
+    readonly name: string;
+    readonly help: string;
+    readonly type: MetricType;
+    /** Sample lines, without HELP and TYPE */
+    render(): string[];
+}
+
+/**
+ * A value that only goes up, per combination of labels
+ */
+export class Counter implements Metric {
+    readonly type = 'counter';
+    private series = new Map<string, MetricSample>();
+
+    constructor(readonly name: string, readonly help: string) {}
+
+    inc(labels: MetricLabels = {}, value: number = 1): void {
+        if (value < 0) {
+            throw new Error(`Counter ${this.name} cannot decrease`);
+        }
+        const key = getSeriesKey(labels);
+        const sample = this.series.get(key);
+        if (sample) {
+            sample.value += value;
+        } else {
+            this.series.set(key, { labels: { ...labels }, value });
+        }
+    }
+
+    get(labels: MetricLabels = {}): number {
+        return this.series.get(getSeriesKey(labels))?.value ?? 0;
+    }
+
+    render(): string[] {
+        return [...this.series.values()].map(sample => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+}
+
+/**
+ * Observations counted into cumulative buckets, per combination of labels
+ */
+export class Histogram implements Metric {
+    readonly type = 'histogram';
+    private series = new Map<string, { labels: MetricLabels; buckets: number[]; sum: number; count: number }>();
+
+    /**
+     * @param buckets - Upper bounds of the buckets in ascending order; +Inf is added implicitly
+     */
+    constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS) {}
+
+    observe(labels: MetricLabels, value: number): void {
+        const key = getSeriesKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels: { ...labels }, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) series!.buckets[index]++;
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    render(): string[] {
+        return [...this.series.values()].flatMap(series => [
+            ...this.buckets.map((bound, index) =>
+                `${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.buckets[index]}`),
+            `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`,
+            `${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`,
+            `${this.name}_count${formatLabels(series.labels)} ${series.count}`
+        ]);
+    }
+}
+
+/**
+ * Series read from elsewhere each time the registry is rendered
+ */
+class CollectedMetric implements Metric {
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly type: MetricType,
+        private readonly collect: () => MetricSample[]
+    ) {}
+
+    render(): string[] {
+        return this.collect().map(sample => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+}
+
+/**
+ * The metric families exposed by /metrics
+ */
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric>();
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    /**
+     * Register series whose values are kept elsewhere
+     * @param collect - Called on every render; returns the current value of each series
+     */
+    collect(name: string, help: string, type: Exclude<MetricType, 'histogram'>, collect: () => MetricSample[]): void {
+        this.register(new CollectedMetric(name, help, type, collect));
+    }
+
+    /**
+     * Render every metric family in the text exposition format
+     */
+    render(): string {
+        const lines = [...this.metrics.values()].flatMap(metric => [
+            `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+            `# TYPE ${metric.name} ${metric.type}`,
+            ...metric.render()
+        ]);
+        return `${lines.join('\n')}\n`;
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        if (this.metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+}
@@ -0,0 +1,544 @@
+/**
+ * @file provider-adapters.test.ts
+ * @description Unit tests for the request and response mapping of built-in provider adapters,
+ * with the provider SDKs and node-fetch mocked
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { builtInProviderAdapters } from './provider-adapters';
+import type { LlmSettings, Message, ProviderAdapter, ToolDefinition } from './llm_rotation';
+import { ContentFilteredError } from './finish-reason';
+import { ProviderRequestError } from './retry-policy';
+
+const { fetchMock, geminiGenerateContent, geminiGenerateContentStream, geminiEmbedContent, cohereChat, cohereEmbed } = vi.hoisted(() => ({
+    fetchMock: vi.fn(),
+    geminiGenerateContent: vi.fn(),
+    geminiGenerateContentStream: vi.fn(),
+    geminiEmbedContent: vi.fn(),
+    cohereChat: vi.fn(),
+    cohereEmbed: vi.fn()
+}));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+vi.mock('@google/genai', () => ({
+    GoogleGenAI: class {
+        models = { generateContent: geminiGenerateContent, generateContentStream: geminiGenerateContentStream, embedContent: geminiEmbedContent };
+    }
+}));
+
+vi.mock('cohere-ai', () => ({
+    CohereClientV2: class {
+        chat = cohereChat;
+        embed = cohereEmbed;
+    }
+}));
+
+function getAdapter(name: string): ProviderAdapter {
+    return builtInProviderAdapters.find(adapter => adapter.name === name)!;
+}
+
+const weatherTool: ToolDefinition = {
+    type: 'function',
+    function: {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } } }
+    }
+};
+
+const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{"city":"Paris"}' } };
+
+const conversation: Message[] = [
+    { role: 'user', content: 'Weather in Paris?' },
+    { role: 'assistant', content: null, tool_calls: [toolCall] },
+    { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":21}' }
+];
+
+function settingsFor(provider: string, model: string): LlmSettings {
+    return { provider, model, apiKeys: {}, tools: [weatherTool], toolChoice: 'required' };
+}
+
+describe('Provider adapters', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+        geminiGenerateContent.mockReset();
+        geminiGenerateContentStream.mockReset();
+        geminiEmbedContent.mockReset();
+        cohereChat.mockReset();
+        cohereEmbed.mockReset();
+    });
+
+    describe('usage and response metadata', () => {
+        const plainSettings = (provider: string, model: string): LlmSettings => ({ provider, model, apiKeys: {} });
+        const hello: Message[] = [{ role: 'user', content: 'Hi' }];
+
+        it('should return OpenAI-style usage, finish reason and id', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    id: 'gen-123',
+                    choices: [{ message: { content: 'Hello' }, finish_reason: 'length' }],
+                    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+                })
+            });
+
+            const result = await getAdapter('openrouter').generate('key', plainSettings('openrouter', 'gpt-4'), hello);
+
+            expect(result).toMatchObject({
+                content: 'Hello',
+                usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+                finishReason: 'length',
+                id: 'gen-123'
+            });
+        });
+
+        it('should count Gemini thinking tokens as completion tokens', async () => {
+            geminiGenerateContent.mockResolvedValue({
+                responseId: 'resp-1',
+                candidates: [{ content: { parts: [{ text: 'Hello' }] }, finishReason: 'STOP' }],
+                usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, thoughtsTokenCount: 10, totalTokenCount: 16 }
+            });
+
+            const result = await getAdapter('gemini').generate('key', plainSettings('gemini', 'gemini-2.5-flash'), hello);
+
+            expect(result).toMatchObject({
+                usage: { promptTokens: 4, completionTokens: 12, totalTokens: 16 },
+                finishReason: 'STOP',
+                id: 'resp-1'
+            });
+        });
+
+        it('should read Cohere token usage', async () => {
+            cohereChat.mockResolvedValue({
+                id: 'co-1',
+                finishReason: 'COMPLETE',
+                message: { role: 'assistant', content: [{ type: 'text', text: 'Hello' }] },
+                usage: { tokens: { inputTokens: 5, outputTokens: 1 } }
+            });
+
+            const result = await getAdapter('cohere').generate('key', plainSettings('cohere', 'command-r-08-2024'), hello);
+
+            expect(result).toEqual({
+                content: 'Hello',
+                toolCalls: undefined,
+                usage: { promptTokens: 5, completionTokens: 1, totalTokens: 6 },
+                finishReason: 'COMPLETE',
+                id: 'co-1'
+            });
+        });
+
+        it('should raise ContentFilteredError when Gemini blocks the prompt', async () => {
+            geminiGenerateContent.mockResolvedValue({ promptFeedback: { blockReason: 'SAFETY' } });
+
+            const request = getAdapter('gemini').generate('key', plainSettings('gemini', 'gemini-2.5-flash'), hello);
+
+            await expect(request).rejects.toBeInstanceOf(ContentFilteredError);
+            await expect(request).rejects.toThrow('prompt blocked: SAFETY');
+        });
+
+        it('should leave usage undefined when the provider omits it', async () => {
+            geminiGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Hello' }] } }] });
+
+            const result = await getAdapter('gemini').generate('key', plainSettings('gemini', 'gemini-2.0-flash'), hello);
+
+            expect(result).toMatchObject({ content: 'Hello' });
+            expect((result as any).usage).toBeUndefined();
+        });
+    });
+
+    describe('generation parameters', () => {
+        const tunedSettings = (provider: string, model: string): LlmSettings => ({
+            provider,
+            model,
+            apiKeys: {},
+            stop: ['END'],
+            frequencyPenalty: 0.5,
+            presencePenalty: -0.5,
+            seed: 42,
+            responseFormat: { type: 'json_object' }
+        });
+        const hello: Message[] = [{ role: 'user', content: 'Hi' }];
+
+        it('should send OpenAI parameters unchanged and return every choice', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    choices: [
+                        { message: { content: '{"a":1}' }, finish_reason: 'stop' },
+                        { message: { content: '{"a":2}' }, finish_reason: 'length' }
+                    ]
+                })
+            });
+
+            const settings = { ...tunedSettings('openrouter', 'gpt-4'), n: 2, logitBias: { '50256': -100 }, user: 'user-1' };
+            const result = await getAdapter('openrouter').generate('key', settings, hello);
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+                stop: ['END'],
+                frequency_penalty: 0.5,
+                presence_penalty: -0.5,
+                seed: 42,
+                n: 2,
+                response_format: { type: 'json_object' },
+                logit_bias: { '50256': -100 },
+                user: 'user-1'
+            });
+            expect(result).toMatchObject({ content: '{"a":1}', alternatives: [{ content: '{"a":2}', finishReason: 'length' }] });
+        });
+
+        it('should omit unset parameters from OpenAI-compatible bodies', async () => {
+            fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ choices: [{ message: { content: 'Hi' } }] }) });
+
+            await getAdapter('openrouter').generate('key', { provider: 'openrouter', model: 'gpt-4', apiKeys: {} }, hello);
+
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(Object.keys(body)).toEqual(['model', 'messages', 'temperature', 'max_tokens', 'top_p']);
+        });
+
+        it('should map parameters to the Gemini generation config', async () => {
+            geminiGenerateContent.mockResolvedValue({
+                candidates: [{ content: { parts: [{ text: '{}' }] } }, { content: { parts: [{ text: '[]' }] } }]
+            });
+
+            const result = await getAdapter('gemini').generate('key', { ...tunedSettings('gemini', 'gemini-2.0-flash'), n: 2 }, hello);
+
+            expect(geminiGenerateContent.mock.calls[0][0].config).toMatchObject({
+                stopSequences: ['END'],
+                frequencyPenalty: 0.5,
+                presencePenalty: -0.5,
+                seed: 42,
+                candidateCount: 2,
+                responseMimeType: 'application/json'
+            });
+            expect(result).toMatchObject({ content: '{}', alternatives: [{ content: '[]' }] });
+        });
+
+        it('should map parameters to Cohere chat options', async () => {
+            cohereChat.mockResolvedValue({ message: { role: 'assistant', content: [{ type: 'text', text: '{}' }] } });
+
+            await getAdapter('cohere').generate('key', tunedSettings('cohere', 'command-r-08-2024'), hello);
+
+            expect(cohereChat.mock.calls[0][0]).toMatchObject({
+                stopSequences: ['END'],
+                frequencyPenalty: 0.5,
+                presencePenalty: -0.5,
+                seed: 42,
+                responseFormat: { type: 'json_object' }
+            });
+        });
+    });
+
+    describe('streaming', () => {
+        const hello: Message[] = [{ role: 'user', content: 'Hi' }];
+
+        /**
+         * Read a stream to its end, keeping the deltas and the returned stop reason
+         */
+        async function drain(stream: AsyncIterable<string, string | undefined | void>) {
+            const iterator = stream[Symbol.asyncIterator]();
+            const deltas: string[] = [];
+            for (let next = await iterator.next(); ; next = await iterator.next()) {
+                if (next.done) return { deltas, finishReason: next.value };
+                deltas.push(next.value);
+            }
+        }
+
+        it('should end OpenAI-compatible streams with their finish_reason', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                body: [
+                    'data: {"choices":[{"delta":{"content":"Once"},"finish_reason":null}]}\n\n',
+                    'data: {"choices":[{"delta":{"content":" upon"},"finish_reason":"length"}]}\n\n',
+                    'data: [DONE]\n\n'
+                ]
+            });
+
+            const stream = await getAdapter('openrouter').stream!('key', { provider: 'openrouter', model: 'gpt-4', apiKeys: {} }, hello);
+
+            expect(await drain(stream)).toEqual({ deltas: ['Once', ' upon'], finishReason: 'length' });
+        });
+
+        it('should end Gemini streams with the candidate finishReason', async () => {
+            geminiGenerateContentStream.mockResolvedValue((async function* () {
+                yield { candidates: [{ content: { parts: [{ text: 'Once' }] } }] };
+                yield { candidates: [{ content: { parts: [{ text: ' upon' }] }, finishReason: 'MAX_TOKENS' }] };
+            })());
+
+            const stream = await getAdapter('gemini').stream!('key', { provider: 'gemini', model: 'gemini-2.0-flash', apiKeys: {} }, hello);
+
+            expect(await drain(stream)).toEqual({ deltas: ['Once', ' upon'], finishReason: 'MAX_TOKENS' });
+        });
+
+        it('should stream the text of every part of a Gemini chunk, without thoughts', async () => {
+            geminiGenerateContentStream.mockResolvedValue((async function* () {
+                yield { candidates: [{ content: { parts: [{ text: 'Planning', thought: true }, { text: 'Once' }, { text: ' upon' }] } }] };
+                yield { candidates: [{ content: { parts: [{ text: ' a' }, { functionCall: { name: 'noop', args: {} } }, { text: ' time' }] }, finishReason: 'STOP' }] };
+            })());
+
+            const stream = await getAdapter('gemini').stream!('key', { provider: 'gemini', model: 'gemini-2.0-flash', apiKeys: {} }, hello);
+
+            expect(await drain(stream)).toEqual({ deltas: ['Once upon', ' a time'], finishReason: 'STOP' });
+        });
+    });
+
+    describe('cancellation', () => {
+        const hello: Message[] = [{ role: 'user', content: 'Hi' }];
+
+        it('should pass the abort signal to fetch and the provider SDKs', async () => {
+            const signal = new AbortController().signal;
+            fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ choices: [{ message: { content: 'Hi' } }] }) });
+            geminiGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] });
+            cohereChat.mockResolvedValue({ message: { role: 'assistant', content: [{ type: 'text', text: 'Hi' }] } });
+
+            await getAdapter('openrouter').generate('key', { provider: 'openrouter', model: 'gpt-4', apiKeys: {}, signal }, hello);
+            await getAdapter('gemini').generate('key', { provider: 'gemini', model: 'gemini-2.0-flash', apiKeys: {}, signal }, hello);
+            await getAdapter('cohere').generate('key', { provider: 'cohere', model: 'command-r-08-2024', apiKeys: {}, signal }, hello);
+
+            expect(fetchMock.mock.calls[0][1].signal).toBe(signal);
+            expect(geminiGenerateContent.mock.calls[0][0].config.abortSignal).toBe(signal);
+            expect(cohereChat.mock.calls[0][1]).toEqual({ abortSignal: signal });
+        });
+    });
+
+    describe('request errors', () => {
+        it('should keep the status and Retry-After header of failed responses', async () => {
+            fetchMock.mockResolvedValue({
+                ok: false,
+                status: 429,
+                statusText: 'Too Many Requests',
+                headers: new Headers({ 'Retry-After': '7' }),
+                json: async () => ({ error: 'rate limit exceeded' })
+            });
+
+            const error = await getAdapter('openrouter')
+                .generate('key', { provider: 'openrouter', model: 'gpt-4', apiKeys: {} }, [{ role: 'user', content: 'Hi' }])
+                .catch(error => error);
+
+            expect(error).toBeInstanceOf(ProviderRequestError);
+            expect(error).toMatchObject({ status: 429, retryAfterMs: 7000, message: 'API request failed: 429 {"error":"rate limit exceeded"}' });
+        });
+    });
+
+    describe('structured output', () => {
+        const schemaFormat = {
+            type: 'json_schema' as const,
+            json_schema: { name: 'person', schema: { type: 'object', properties: { name: { type: 'string' } } }, strict: true }
+        };
+        const hello: Message[] = [{ role: 'user', content: 'Who wrote the first program?' }];
+
+        it('should pass json_schema through to OpenAI-compatible providers', async () => {
+            fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ choices: [{ message: { content: '{}' } }] }) });
+
+            await getAdapter('openrouter').generate('key', { provider: 'openrouter', model: 'gpt-4', apiKeys: {}, responseFormat: schemaFormat }, hello);
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body).response_format).toEqual(schemaFormat);
+        });
+
+        it('should map json_schema to the Gemini response schema', async () => {
+            geminiGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: '{}' }] } }] });
+
+            await getAdapter('gemini').generate('key', { provider: 'gemini', model: 'gemini-2.0-flash', apiKeys: {}, responseFormat: schemaFormat }, hello);
+
+            expect(geminiGenerateContent.mock.calls[0][0].config).toMatchObject({
+                responseMimeType: 'application/json',
+                responseJsonSchema: schemaFormat.json_schema.schema
+            });
+        });
+
+        it('should map json_schema to the Cohere JSON response format', async () => {
+            cohereChat.mockResolvedValue({ message: { role: 'assistant', content: [{ type: 'text', text: '{}' }] } });
+
+            await getAdapter('cohere').generate('key', { provider: 'cohere', model: 'command-r-08-2024', apiKeys: {}, responseFormat: schemaFormat }, hello);
+
+            expect(cohereChat.mock.calls[0][0].responseFormat).toEqual({ type: 'json_object', jsonSchema: schemaFormat.json_schema.schema });
+        });
+
+        it('should only declare native JSON Schema support where the provider has it', () => {
+            expect(getAdapter('nvidia').supportsJsonSchema).toBe(false);
+            expect(getAdapter('huggingface').supportsJsonSchema).toBeUndefined();
+            expect(getAdapter('mistral').supportsJsonSchema).toBe(true);
+        });
+    });
+
+    describe('embeddings', () => {
+        const embeddingSettings = (provider: string, model: string, dimensions?: number) => ({ provider, model, apiKeys: {}, dimensions });
+
+        it('should embed with Gemini, passing dimensions as outputDimensionality', async () => {
+            geminiEmbedContent.mockResolvedValue({ embeddings: [{ values: [0.1, 0.2] }, { values: [0.3, 0.4] }] });
+
+            const result = await getAdapter('gemini').embeddings!.embed('key', embeddingSettings('gemini', 'gemini-embedding-001', 2), ['a', 'b']);
+
+            expect(geminiEmbedContent).toHaveBeenCalledWith({
+                model: 'gemini-embedding-001',
+                contents: ['a', 'b'],
+                config: { outputDimensionality: 2 }
+            });
+            expect(result).toEqual({ embeddings: [[0.1, 0.2], [0.3, 0.4]] });
+        });
+
+        it('should embed with Cohere as search documents and report billed tokens', async () => {
+            cohereEmbed.mockResolvedValue({ embeddings: { float: [[0.5]] }, meta: { billedUnits: { inputTokens: 4 } } });
+
+            const result = await getAdapter('cohere').embeddings!.embed('key', embeddingSettings('cohere', 'embed-v4.0'), ['hello']);
+
+            expect(cohereEmbed).toHaveBeenCalledWith({
+                model: 'embed-v4.0',
+                texts: ['hello'],
+                inputType: 'search_document',
+                embeddingTypes: ['float']
+            }, undefined);
+            expect(result).toEqual({ embeddings: [[0.5]], promptTokens: 4 });
+        });
+
+        it('should embed with NVIDIA through the OpenAI-compatible endpoint, restoring input order', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }],
+                    usage: { prompt_tokens: 6, total_tokens: 6 }
+                })
+            });
+
+            const result = await getAdapter('nvidia').embeddings!.embed('key', embeddingSettings('nvidia', 'nvidia/nv-embedqa-e5-v5'), ['a', 'b']);
+
+            expect(fetchMock.mock.calls[0][0]).toBe('https://integrate.api.nvidia.com/v1/embeddings');
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+                model: 'nvidia/nv-embedqa-e5-v5',
+                input: ['a', 'b'],
+                input_type: 'query',
+                encoding_format: 'float'
+            });
+            expect(result).toEqual({ embeddings: [[1], [2]], promptTokens: 6 });
+        });
+
+        it('should only offer embeddings on providers that have them', () => {
+            expect(getAdapter('openrouter').embeddings).toBeUndefined();
+            expect(getAdapter('huggingface').embeddings?.supportsDimensions).toBeFalsy();
+        });
+    });
+
+    describe('image content', () => {
+        const imagePrompt: Message[] = [{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Describe this' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=', detail: 'low' } }
+            ]
+        }];
+        const plainSettings = (provider: string, model: string): LlmSettings => ({ provider, model, apiKeys: {} });
+
+        it('should send data URL images to Gemini as inlineData', async () => {
+            geminiGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'A pixel' }] } }] });
+
+            await getAdapter('gemini').generate('key', plainSettings('gemini', 'gemini-2.0-flash'), imagePrompt);
+
+            expect(geminiGenerateContent.mock.calls[0][0].contents).toEqual([{
+                role: 'user',
+                parts: [{ text: 'Describe this' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }]
+            }]);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should leave downloading remote images to LlmManager', async () => {
+            expect(getAdapter('gemini').inlineImages).toBe(true);
+
+            await expect(getAdapter('gemini').generate('key', plainSettings('gemini', 'gemini-2.0-flash'), [{
+                role: 'user',
+                content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } }]
+            }])).rejects.toThrow('Gemini needs images as base64 data URLs');
+            expect(fetchMock).not.toHaveBeenCalled();
+            expect(geminiGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should map image parts to Cohere V2 content', async () => {
+            cohereChat.mockResolvedValue({ message: { role: 'assistant', content: [{ type: 'text', text: 'A pixel' }] } });
+
+            await getAdapter('cohere').generate('key', plainSettings('cohere', 'command-a-vision-07-2025'), imagePrompt);
+
+            expect(cohereChat.mock.calls[0][0].messages[0].content).toEqual([
+                { type: 'text', text: 'Describe this' },
+                { type: 'image_url', imageUrl: { url: 'data:image/png;base64,iVBORw0KGgo=', detail: 'low' } }
+            ]);
+        });
+
+        it('should pass content parts unchanged to OpenAI-compatible providers', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: async () => ({ choices: [{ message: { content: 'A pixel' } }] })
+            });
+
+            await getAdapter('nvidia').generate('key', plainSettings('nvidia', 'meta/llama-4-scout-17b-16e-instruct'), imagePrompt);
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages).toEqual(imagePrompt);
+        });
+    });
+
+    describe('tool calling', () => {
+        it('should pass tools through to OpenAI-compatible providers', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: async () => ({ choices: [{ message: { content: null, tool_calls: [toolCall] } }] })
+            });
+
+            const result = await getAdapter('openrouter').generate('key', settingsFor('openrouter', 'gpt-4'), conversation);
+
+            expect(result).toEqual({ content: null, toolCalls: [toolCall] });
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body.tools).toEqual([weatherTool]);
+            expect(body.tool_choice).toBe('required');
+            expect(body.messages).toEqual(conversation);
+        });
+
+        it('should map tools and tool messages to Gemini function calling', async () => {
+            geminiGenerateContent.mockResolvedValue({
+                candidates: [{ content: { parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] } }]
+            });
+
+            const result = await getAdapter('gemini').generate('key', settingsFor('gemini', 'gemini-2.0-flash'), conversation);
+
+            const request = geminiGenerateContent.mock.calls[0][0];
+            expect(request.config.tools[0].functionDeclarations).toEqual([{
+                name: 'get_weather',
+                description: 'Current weather for a city',
+                parametersJsonSchema: weatherTool.function.parameters
+            }]);
+            expect(request.config.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY' } });
+            expect(request.contents[1]).toEqual({ role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] });
+            expect(request.contents[2]).toEqual({ role: 'user', parts: [{ functionResponse: { name: 'get_weather', response: { temperature: 21 } } }] });
+
+            expect(result).toEqual({
+                content: null,
+                toolCalls: [{ id: 'call_0', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+            });
+        });
+
+        it('should map tools and tool messages to Cohere V2 tool use', async () => {
+            cohereChat.mockResolvedValue({ message: { role: 'assistant', toolCalls: [toolCall] } });
+
+            const result = await getAdapter('cohere').generate('key', settingsFor('cohere', 'command-r-08-2024'), conversation);
+
+            const request = cohereChat.mock.calls[0][0];
+            expect(request.tools).toEqual([weatherTool]);
+            expect(request.toolChoice).toBe('REQUIRED');
+            expect(request.messages[1]).toEqual({ role: 'assistant', toolCalls: [toolCall] });
+            expect(request.messages[2]).toEqual({ role: 'tool', toolCallId: 'call_1', content: '{"temperature":21}' });
+            expect(result).toEqual({ content: null, toolCalls: [toolCall] });
+        });
+
+        it('should leave requests without tools unchanged', async () => {
+            geminiGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Sunny' }] } }] });
+
+            const result = await getAdapter('gemini').generate('key', { provider: 'gemini', model: 'gemini-2.0-flash', apiKeys: {} }, [{ role: 'user', content: 'Hi' }]);
+
+            expect(geminiGenerateContent.mock.calls[0][0].config).toEqual({ temperature: 0.7, topP: 0.9, maxOutputTokens: 2048 });
+            expect(result).toEqual({ content: 'Sunny', toolCalls: undefined });
+        });
+    });
+});
@@ -0,0 +1,895 @@
+/**
+ * @file provider-adapters.ts
+ * @description Built-in provider adapters for LlmManager. Each adapter performs a
+ * single request with one API key; key rotation, cooldowns and statistics are
+ * handled by LlmManager around it. Custom providers implement the same
+ * ProviderAdapter interface and are added with registerProvider().
+ */
+
+import { getTextContent } from './transformations';
+import { ContentFilteredError, isContentFilterReason } from './finish-reason';
+import { ProviderRequestError, parseRetryAfter } from './retry-policy';
+import type { Response as FetchResponse } from 'node-fetch';
+import type { Message, LlmSettings, ModelConfiguration, ProviderAdapter, ProviderDetection, CompletionChoice, CompletionResult, ToolCall, TokenUsage, EmbeddingResult, GenerationParameter } from './llm_rotation';
+
+/**
+ * Default backend used by Hugging Face Inference Providers for each model
+ */
+const HF_MODEL_PROVIDER_MAP: Record<string, string> = {
+    "meta-llama/Llama-3.3-70B-Instruct": "nebius",
+    "deepseek-ai/DeepSeek-V3-0324": "sambanova",
+    "alpindale/WizardLM-2-8x22B": "novita",
+    "cognitivecomputations/dolphin-2.9.2-mixtral-8x22b": "nebius",
+    "HuggingFaceH4/zephyr-7b-beta": "hf-inference",
+    "Sao10K/L3-8B-Stheno-v3.2": "novita",
+    "Sao10K/L3-8B-Lunaris-v1": "novita"
+};
+
+const GEMINI_THINKING_BUDGET_MODELS = ["gemini-2.5-pro", "gemini-2.5-pro-preview-05-06", "gemini-2.5-flash-preview-04-17"];
+
+const NVIDIA_NEMOTRON_MODELS = ['nvidia/llama-3.1-nemotron-ultra-253b-v1', 'nvidia/llama-3.3-nemotron-super-49b-v1'];
+
+/** Generation parameters accepted by OpenAI-compatible endpoints unless the adapter narrows them */
+const OPENAI_GENERATION_PARAMETERS: GenerationParameter[] = ['stop', 'frequencyPenalty', 'presencePenalty', 'seed', 'n', 'responseFormat', 'logitBias', 'user'];
+
+// --- SHARED HELPERS ---
+
+/**
+ * Build the error for an unsuccessful response, keeping its status and Retry-After header for the retry policy
+ */
+async function toProviderRequestError(response: FetchResponse): Promise<ProviderRequestError> {
+    const errorData = await response.json().catch(() => ({ message: response.statusText }));
+    return new ProviderRequestError(
+        `API request failed: ${response.status} ${JSON.stringify(errorData)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+    );
+}
+
+/**
+ * POST a chat completion to an OpenAI-compatible endpoint and return the assistant message
+ */
+export async function fetchOpenAiCompatibleCompletion(url: string, headers: Record<string, string>, body: Record<string, unknown>, signal?: AbortSignal): Promise<CompletionResult> {
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal
+    });
+    if (!response.ok) {
+        throw await toProviderRequestError(response);
+    }
+    const data = await response.json() as any;
+    const [first, ...alternatives] = data.choices.map((choice: any): CompletionChoice => ({
+        content: choice.message.content ?? null,
+        toolCalls: choice.message.tool_calls?.length ? choice.message.tool_calls : undefined,
+        finishReason: choice.finish_reason ?? undefined
+    }));
+    return {
+        ...first,
+        usage: toTokenUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens, data.usage?.total_tokens),
+        id: data.id,
+        ...(alternatives.length && { alternatives })
+    };
+}
+
+/**
+ * POST a streaming chat completion to an OpenAI-compatible endpoint and return its content deltas,
+ * ending with the stop reason
+ */
+export async function fetchOpenAiCompatibleStream(url: string, headers: Record<string, string>, body: Record<string, unknown>, signal?: AbortSignal): Promise<AsyncIterable<string, string | undefined>> {
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json", "Accept": "text/event-stream" },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal
+    });
+    if (!response.ok || !response.body) {
+        throw await toProviderRequestError(response);
+    }
+    return parseOpenAiSseStream(response.body as AsyncIterable<Buffer | string>);
+}
+
+/**
+ * POST a batch of texts to an OpenAI-compatible `/embeddings` endpoint and return the vectors in input order
+ */
+export async function fetchOpenAiCompatibleEmbeddings(url: string, headers: Record<string, string>, body: Record<string, unknown>, signal?: AbortSignal): Promise<EmbeddingResult> {
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, encoding_format: 'float' }),
+        signal
+    });
+    if (!response.ok) {
+        throw await toProviderRequestError(response);
+    }
+    const data = await response.json() as any;
+    const items = [...data.data].sort((a: any, b: any) => a.index - b.index);
+    return { embeddings: items.map((item: any) => item.embedding), promptTokens: data.usage?.prompt_tokens };
+}
+
+/**
+ * Parse an OpenAI-style SSE body into content deltas, stopping at `data: [DONE]`
+ * @returns The last `finish_reason` of the stream, if any
+ */
+export async function* parseOpenAiSseStream(body: AsyncIterable<Buffer | string>): AsyncGenerator<string, string | undefined> {
+    let buffer = "";
+    let finishReason: string | undefined;
+    for await (const raw of body) {
+        buffer += raw.toString();
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') return finishReason;
+            if (!data) continue;
+            const parsed = JSON.parse(data);
+            if (parsed.error) throw new Error(`API stream error: ${JSON.stringify(parsed.error)}`);
+            finishReason = parsed.choices?.[0]?.finish_reason ?? finishReason;
+            const content = parsed.choices?.[0]?.delta?.content;
+            if (content) yield content;
+        }
+    }
+    return finishReason;
+}
+
+/**
+ * Map an SDK stream of arbitrary events to text deltas
+ * @returns The last stop reason found by `extractFinishReason`, if any
+ */
+async function* mapStream<T>(
+    stream: AsyncIterable<T>,
+    extract: (event: T) => string | undefined | null,
+    extractFinishReason: (event: T) => string | undefined | null
+): AsyncGenerator<string, string | undefined> {
+    let finishReason: string | undefined;
+    for await (const event of stream) {
+        finishReason = extractFinishReason(event) || finishReason;
+        const text = extract(event);
+        if (typeof text === 'string' && text) yield text;
+    }
+    return finishReason;
+}
+
+/**
+ * Build token usage from provider counts; undefined unless both prompt and completion counts are present
+ */
+function toTokenUsage(promptTokens: number | undefined | null, completionTokens: number | undefined | null, totalTokens?: number | null): TokenUsage | undefined {
+    if (typeof promptTokens !== 'number' || typeof completionTokens !== 'number') {
+        return undefined;
+    }
+    return { promptTokens, completionTokens, totalTokens: totalTokens ?? promptTokens + completionTokens };
+}
+
+/**
+ * Drop undefined fields, so optional settings neither reach the provider nor override defaults
+ */
+function withoutUndefined(fields: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+function openRouterStyleHeaders(settings: LlmSettings): Record<string, string> {
+    return {
+        "HTTP-Referer": settings.siteUrl || "http://localhost:3000",
+        "X-Title": settings.siteName || "Axiom LLM Module"
+    };
+}
+
+function openAiSamplingBody(settings: LlmSettings, prompt: Message[]): Record<string, unknown> {
+    return {
+        model: settings.model,
+        messages: prompt,
+        temperature: settings.temperature ?? 0.7,
+        max_tokens: settings.maxTokens ?? 2048,
+        top_p: settings.topP ?? 0.9
+    };
+}
+
+/**
+ * Optional generation fields of an OpenAI-style request body, empty when none are set
+ */
+function openAiGenerationFields(settings: LlmSettings): Record<string, unknown> {
+    return withoutUndefined({
+        stop: settings.stop,
+        frequency_penalty: settings.frequencyPenalty,
+        presence_penalty: settings.presencePenalty,
+        seed: settings.seed,
+        n: settings.n,
+        response_format: settings.responseFormat,
+        logit_bias: settings.logitBias,
+        user: settings.user
+    });
+}
+
+/**
+ * Tool fields of an OpenAI-style request body, empty when no tools are requested
+ */
+function openAiToolFields(settings: LlmSettings): Record<string, unknown> {
+    if (!settings.tools?.length) return {};
+    return { tools: settings.tools, ...(settings.toolChoice !== undefined && { tool_choice: settings.toolChoice }) };
+}
+
+/**
+ * Normalize SDK tool calls, whose arguments may already be parsed objects, to the OpenAI shape
+ */
+function toOpenAiToolCalls(calls: any[] | undefined | null): ToolCall[] | undefined {
+    if (!calls?.length) return undefined;
+    return calls.map((call, index) => ({
+        id: call.id || `call_${index}`,
+        type: 'function' as const,
+        function: {
+            name: call.function?.name ?? call.name,
+            arguments: typeof call.function?.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function?.arguments ?? call.args ?? {})
+        }
+    }));
+}
+
+/**
+ * Parse tool arguments or results that are expected to be JSON, keeping the raw text otherwise
+ */
+function parseJsonOrText(text: string | null): any {
+    try {
+        return JSON.parse(text ?? '');
+    } catch {
+        return text ?? '';
+    }
+}
+
+/**
+ * Decode a base64 data URL. Gemini only accepts inline image bytes, so the adapter sets
+ * inlineImages and LlmManager downloads remote images before calling it.
+ */
+function toInlineData(url: string): { mimeType: string; data: string } {
+    const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (!dataUrl) {
+        throw new Error('Gemini needs images as base64 data URLs');
+    }
+    return { mimeType: dataUrl[1], data: dataUrl[2] };
+}
+
+function toGeminiParts(content: Message['content']): any[] {
+    if (!content) return [];
+    if (typeof content === 'string') return [{ text: content }];
+    return content.map(part => part.type === 'text' ? { text: part.text } : { inlineData: toInlineData(part.image_url.url) });
+}
+
+/**
+ * Convert OpenAI-style messages to Gemini contents. Assistant tool calls become
+ * functionCall parts and tool results become functionResponse parts; Gemini
+ * matches them by function name, so tool messages without a name take it from
+ * the call they answer.
+ */
+function toGeminiContents(prompt: Message[]): any[] {
+    const callNames = new Map<string, string>();
+    const contents: any[] = [];
+    for (const msg of prompt) {
+        if (msg.role === 'tool') {
+            const name = msg.name || callNames.get(msg.tool_call_id ?? '') || 'tool';
+            const result = parseJsonOrText(getTextContent(msg.content));
+            const response = result && typeof result === 'object' && !Array.isArray(result) ? result : { content: result };
+            contents.push({ role: 'user', parts: [{ functionResponse: { name, response } }] });
+            continue;
+        }
+
+        const parts = toGeminiParts(msg.content);
+        msg.tool_calls?.forEach(call => {
+            callNames.set(call.id, call.function.name);
+            parts.push({ functionCall: { name: call.function.name, args: parseJsonOrText(call.function.arguments) } });
+        });
+        contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts });
+    }
+    return contents;
+}
+
+function toGeminiToolConfig(settings: LlmSettings): any {
+    const choice = settings.toolChoice;
+    if (choice === undefined || choice === 'auto') return undefined;
+    if (choice === 'none') return { functionCallingConfig: { mode: 'NONE' } };
+    if (choice === 'required') return { functionCallingConfig: { mode: 'ANY' } };
+    return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.function.name] } };
+}
+
+/**
+ * Throw when Gemini blocked the prompt, or stopped a response for safety reasons
+ */
+function assertGeminiNotBlocked(response: any): void {
+    const blockReason = response?.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new ContentFilteredError('gemini', `prompt blocked: ${blockReason}`);
+    }
+}
+
+/**
+ * Text of a Gemini candidate, joined across its parts and leaving out thoughts
+ */
+function getGeminiText(candidate: any): string {
+    const parts: any[] = candidate?.content?.parts || [];
+    return parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join('');
+}
+
+function parseGeminiCandidate(candidate: any): CompletionChoice {
+    const parts: any[] = candidate?.content?.parts || [];
+    const text = getGeminiText(candidate);
+    const functionCalls = parts.filter(part => part.functionCall).map(part => part.functionCall);
+    return {
+        content: text || (functionCalls.length ? null : ""),
+        toolCalls: toOpenAiToolCalls(functionCalls),
+        finishReason: candidate?.finishReason
+    };
+}
+
+function parseGeminiResponse(response: any): CompletionResult {
+    assertGeminiNotBlocked(response);
+    const candidates: any[] = response?.candidates?.length ? response.candidates : [undefined];
+    const [first, ...alternatives] = candidates.map(parseGeminiCandidate);
+    const usage = response?.usageMetadata;
+    return {
+        ...first,
+        // Thinking tokens are billed as output, as OpenAI counts reasoning tokens
+        usage: toTokenUsage(
+            usage?.promptTokenCount,
+            usage?.candidatesTokenCount !== undefined ? usage.candidatesTokenCount + (usage.thoughtsTokenCount ?? 0) : undefined,
+            usage?.totalTokenCount
+        ),
+        id: response?.responseId,
+        ...(alternatives.length && { alternatives })
+    };
+}
+
+/**
+ * JSON mode fields of a Gemini config. responseJsonSchema takes JSON Schema as sent by
+ * OpenAI clients, while responseSchema only accepts Gemini's OpenAPI subset.
+ */
+function toGeminiResponseFormat(settings: LlmSettings): Record<string, unknown> {
+    const format = settings.responseFormat;
+    if (format?.type === 'json_object') {
+        return { responseMimeType: 'application/json' };
+    }
+    if (format?.type === 'json_schema') {
+        return { responseMimeType: 'application/json', ...(format.json_schema.schema && { responseJsonSchema: format.json_schema.schema }) };
+    }
+    return {};
+}
+
+function buildGeminiRequest(settings: LlmSettings, prompt: Message[]): any {
+    const contents = toGeminiContents(prompt);
+    // The SDK reads sampling, thinking and tool options from `config`
+    const config: any = withoutUndefined({
+        temperature: settings.temperature ?? 0.7,
+        topP: settings.topP ?? 0.9,
+        maxOutputTokens: settings.maxTokens ?? 2048,
+        stopSequences: settings.stop,
+        frequencyPenalty: settings.frequencyPenalty,
+        presencePenalty: settings.presencePenalty,
+        seed: settings.seed,
+        candidateCount: settings.n,
+        ...toGeminiResponseFormat(settings),
+        abortSignal: settings.signal
+    });
+
+    if (GEMINI_THINKING_BUDGET_MODELS.includes(settings.model)) {
+        config.thinkingConfig = { thinkingBudget: 24576 };
+    }
+
+    if (settings.tools?.length) {
+        config.tools = [{
+            functionDeclarations: settings.tools.map(tool => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                parametersJsonSchema: tool.function.parameters
+            }))
+        }];
+        config.toolConfig = toGeminiToolConfig(settings);
+    }
+    return { model: settings.model, contents, config };
+}
+
+async function createHfStream(apiKey: string, settings: LlmSettings, prompt: Message[]) {
+    const { HfInference } = await import("@huggingface/inference");
+    const client = new HfInference(apiKey);
+    const provider = settings.providerOverride || HF_MODEL_PROVIDER_MAP[settings.model] || "nebius";
+
+    return client.chatCompletionStream({
+        model: settings.model,
+        messages: prompt as any,
+        temperature: settings.temperature ?? 0.7,
+        max_tokens: settings.maxTokens ?? 2048,
+        top_p: settings.topP ?? 0.9,
+        ...withoutUndefined({
+            stop: settings.stop,
+            frequency_penalty: settings.frequencyPenalty,
+            presence_penalty: settings.presencePenalty,
+            seed: settings.seed
+        }),
+        provider: provider as any
+    }, { signal: settings.signal });
+}
+
+async function createMistralClient(apiKey: string): Promise<any> {
+    const MistralClient = await import('@mistralai/mistralai');
+    return new (MistralClient as any)({ apiKey });
+}
+
+/**
+ * Per-call options of the Mistral SDK, which cancels through the fetch signal
+ */
+function mistralRequestOptions(settings: { signal?: AbortSignal }): { fetchOptions: { signal: AbortSignal } } | undefined {
+    return settings.signal && { fetchOptions: { signal: settings.signal } };
+}
+
+function toMistralResponseFormat(settings: LlmSettings): any {
+    const format = settings.responseFormat;
+    if (format?.type !== 'json_schema') {
+        return format;
+    }
+    const { name, description, schema, strict } = format.json_schema;
+    return { type: 'json_schema', jsonSchema: { name, description, schemaDefinition: schema ?? {}, strict } };
+}
+
+function buildMistralRequest(settings: LlmSettings, prompt: Message[]): any {
+    // The Mistral SDK uses camelCase for tool fields
+    const messages = prompt.map(msg => {
+        if (msg.role === 'tool') {
+            return { role: 'tool', content: getTextContent(msg.content), toolCallId: msg.tool_call_id, name: msg.name };
+        }
+        if (msg.tool_calls?.length) {
+            return { role: 'assistant', content: getTextContent(msg.content), toolCalls: msg.tool_calls };
+        }
+        if (Array.isArray(msg.content)) {
+            const content = msg.content.map(part =>
+                part.type === 'text' ? part : { type: 'image_url', imageUrl: part.image_url.url }
+            );
+            return { role: msg.role, content };
+        }
+        return msg;
+    });
+
+    return {
+        model: settings.model,
+        messages,
+        temperature: settings.temperature ?? 0.7,
+        maxTokens: settings.maxTokens ?? 2048,
+        topP: settings.topP ?? 0.9,
+        ...withoutUndefined({
+            stop: settings.stop,
+            frequencyPenalty: settings.frequencyPenalty,
+            presencePenalty: settings.presencePenalty,
+            randomSeed: settings.seed,
+            n: settings.n,
+            responseFormat: toMistralResponseFormat(settings)
+        }),
+        ...(settings.tools?.length && { tools: settings.tools, toolChoice: settings.toolChoice })
+    };
+}
+
+async function createCohereClient(apiKey: string) {
+    const { CohereClientV2 } = await import('cohere-ai');
+    return new CohereClientV2({ token: apiKey });
+}
+
+/**
+ * Per-call options of the Cohere SDK
+ */
+function cohereRequestOptions(settings: { signal?: AbortSignal }): { abortSignal: AbortSignal } | undefined {
+    return settings.signal && { abortSignal: settings.signal };
+}
+
+function toCohereResponseFormat(settings: LlmSettings): any {
+    const format = settings.responseFormat;
+    if (format?.type === 'json_object') {
+        return { type: 'json_object' };
+    }
+    if (format?.type === 'json_schema') {
+        return { type: 'json_object', ...(format.json_schema.schema && { jsonSchema: format.json_schema.schema }) };
+    }
+    return undefined;
+}
+
+function buildCohereRequest(settings: LlmSettings, prompt: Message[]): any {
+    const cohereMessages = prompt.map(msg => {
+        if (msg.role === 'tool') {
+            return { role: 'tool', toolCallId: msg.tool_call_id, content: getTextContent(msg.content) };
+        }
+        if (msg.tool_calls?.length) {
+            // Cohere carries the assistant's text alongside tool calls as its tool plan
+            const toolPlan = getTextContent(msg.content);
+            return { role: 'assistant', toolCalls: msg.tool_calls, ...(toolPlan && { toolPlan }) };
+        }
+        if (Array.isArray(msg.content)) {
+            const content = msg.content.map(part =>
+                part.type === 'text' ? part : { type: 'image_url', imageUrl: { url: part.image_url.url, detail: part.image_url.detail } }
+            );
+            return { role: msg.role, content };
+        }
+        return {
+            role: msg.role,
+            content: typeof msg.content === 'string' ? msg.content : String(msg.content)
+        };
+    });
+
+    const request: any = {
+        model: settings.model,
+        messages: cohereMessages,
+        temperature: settings.temperature ?? 0.7,
+        max_tokens: settings.maxTokens ?? 2048,
+        ...withoutUndefined({
+            stopSequences: settings.stop,
+            frequencyPenalty: settings.frequencyPenalty,
+            presencePenalty: settings.presencePenalty,
+            seed: settings.seed,
+            responseFormat: toCohereResponseFormat(settings)
+        })
+    };
+
+    if (settings.tools?.length) {
+        const choice = settings.toolChoice;
+        // Cohere cannot force a specific tool, so only that tool is offered and a call is required
+        const forced = typeof choice === 'object' ? settings.tools.filter(tool => tool.function.name === choice.function.name) : undefined;
+        request.tools = forced ?? settings.tools;
+        if (choice === 'required' || forced) request.toolChoice = 'REQUIRED';
+        if (choice === 'none') request.toolChoice = 'NONE';
+    }
+    return request;
+}
+
+function buildNvidiaRequest(settings: LlmSettings, prompt: Message[]): Record<string, unknown> {
+    let patchedMessages: Message[] = prompt;
+    if (NVIDIA_NEMOTRON_MODELS.includes(settings.model)) {
+        patchedMessages = [{ role: 'system', content: 'detailed thinking on' }, ...prompt];
+    }
+
+    let extraParams: any = {};
+    if (settings.model?.toLowerCase() === 'qwen/qwen3-235b-a22b') {
+        extraParams = { chat_template_kwargs: { thinking: true } };
+    }
+
+    return {
+        model: settings.model,
+        messages: patchedMessages,
+        temperature: settings.temperature ?? 0.7,
+        top_p: settings.topP ?? 0.9,
+        max_tokens: settings.maxTokens ?? 2048,
+        ...extraParams
+    };
+}
+
+/**
+ * Options for an adapter that talks to an OpenAI-compatible `/chat/completions` endpoint
+ */
+export interface OpenAiCompatibleProviderOptions {
+    /** Provider name */
+    name: string;
+    /** API base URL, e.g. `http://localhost:8000/v1`; `/chat/completions` is appended */
+    baseUrl: string;
+    /** Environment variable holding the provider's API key(s) */
+    apiKeyEnv?: string;
+    /** Headers sent in addition to the bearer token, or a function deriving them from the request settings */
+    headers?: Record<string, string> | ((settings: LlmSettings) => Record<string, string>);
+    /** Models served by the endpoint */
+    models?: ModelConfiguration[];
+    /** Patterns used to detect the provider for unlisted models */
+    detection?: ProviderDetection;
+    /** Builds the request body; defaults to model, messages, temperature, max_tokens and top_p */
+    buildBody?: (settings: LlmSettings, prompt: Message[]) => Record<string, unknown>;
+    /** Optional OpenAI parameters (`stop`, `seed`, ...) the endpoint accepts; defaults to all of them */
+    supportedParameters?: GenerationParameter[];
+    /** Whether the endpoint accepts json_schema response formats; defaults to true when `responseFormat` is supported */
+    supportsJsonSchema?: boolean;
+    /** Embedding models served at `/embeddings`; the provider offers no embeddings when omitted */
+    embeddingModels?: ModelConfiguration[];
+    /** Extra fields sent with every embeddings request */
+    embeddingBody?: Record<string, unknown>;
+}
+
+/**
+ * Create an adapter for an OpenAI-compatible chat completions API
+ * @param options - Endpoint, headers and model catalogue of the provider
+ * @returns Adapter that can be passed to registerProvider()
+ */
+export function createOpenAiCompatibleAdapter(options: OpenAiCompatibleProviderOptions): ProviderAdapter {
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+    const url = `${baseUrl}/chat/completions`;
+    const buildBody = options.buildBody ?? openAiSamplingBody;
+    const supportedParameters = options.supportedParameters ?? OPENAI_GENERATION_PARAMETERS;
+    const buildHeaders = (apiKey: string, settings: LlmSettings): Record<string, string> => {
+        const extra = typeof options.headers === 'function' ? options.headers(settings) : options.headers;
+        return { "Authorization": `Bearer ${apiKey}`, ...extra };
+    };
+
+    return {
+        name: options.name,
+        apiKeyEnv: options.apiKeyEnv,
+        models: options.models,
+        detection: options.detection,
+        supportsTools: true,
+        supportedParameters,
+        supportsJsonSchema: options.supportsJsonSchema ?? supportedParameters.includes('responseFormat'),
+        generate(apiKey, settings, prompt) {
+            return fetchOpenAiCompatibleCompletion(url, buildHeaders(apiKey, settings), {
+                ...buildBody(settings, prompt),
+                ...openAiGenerationFields(settings),
+                ...openAiToolFields(settings)
+            }, settings.signal);
+        },
+        stream(apiKey, settings, prompt) {
+            return fetchOpenAiCompatibleStream(url, buildHeaders(apiKey, settings), { ...buildBody(settings, prompt), ...openAiGenerationFields(settings) }, settings.signal);
+        },
+        embeddings: options.embeddingModels && {
+            models: options.embeddingModels,
+            supportsDimensions: true,
+            embed(apiKey, settings, input) {
+                return fetchOpenAiCompatibleEmbeddings(`${baseUrl}/embeddings`, buildHeaders(apiKey, settings as LlmSettings), {
+                    model: settings.model,
+                    input,
+                    ...(settings.dimensions !== undefined && { dimensions: settings.dimensions }),
+                    ...options.embeddingBody
+                }, settings.signal);
+            }
+        }
+    };
+}
+
+// --- BUILT-IN ADAPTERS ---
+
+const geminiAdapter: ProviderAdapter = {
+    name: 'gemini',
+    supportsTools: true,
+    supportsJsonSchema: true,
+    supportedParameters: ['stop', 'frequencyPenalty', 'presencePenalty', 'seed', 'n', 'responseFormat'],
+    inlineImages: true,
+    detection: { patterns: ['gemini', 'google', 'bard', 'learnlm'], confidence: 0.9, alternatives: [] },
+    async generate(apiKey, settings, prompt) {
+        const { GoogleGenAI } = await import("@google/genai");
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent(buildGeminiRequest(settings, prompt));
+        return parseGeminiResponse(response);
+    },
+    async stream(apiKey, settings, prompt) {
+        const { GoogleGenAI } = await import("@google/genai");
+        const ai = new GoogleGenAI({ apiKey });
+        const stream = await ai.models.generateContentStream(buildGeminiRequest(settings, prompt));
+        return mapStream(stream, chunk => {
+            assertGeminiNotBlocked(chunk);
+            const finishReason = chunk?.candidates?.[0]?.finishReason;
+            if (isContentFilterReason(finishReason)) {
+                throw new ContentFilteredError('gemini', finishReason!);
+            }
+            return getGeminiText(chunk?.candidates?.[0]);
+        }, chunk => chunk?.candidates?.[0]?.finishReason);
+    },
+    embeddings: {
+        models: [
+            { id: "gemini-embedding-001", name: "Gemini Embedding 001" },
+            { id: "text-embedding-004", name: "Text Embedding 004" }
+        ],
+        maxBatchSize: 100,
+        supportsDimensions: true,
+        async embed(apiKey, settings, input) {
+            const { GoogleGenAI } = await import("@google/genai");
+            const ai = new GoogleGenAI({ apiKey });
+            const response = await ai.models.embedContent({
+                model: settings.model,
+                contents: input,
+                ...((settings.dimensions !== undefined || settings.signal) && {
+                    config: withoutUndefined({ outputDimensionality: settings.dimensions, abortSignal: settings.signal })
+                })
+            });
+            return { embeddings: (response.embeddings ?? []).map(embedding => embedding.values ?? []) };
+        }
+    }
+};
+
+const chutesAdapter = createOpenAiCompatibleAdapter({
+    name: 'chutes',
+    baseUrl: 'https://llm.chutes.ai/v1',
+    detection: {
+        patterns: ['deepseek-r1', 'deepseek-v3', 'deepseek', 'arli', 'microsoft/mai', 'tngtech', 'tencent/hunyuan', 'qwen3', 'chutesai', 'minimax', 'mrfakename', 'moonshotai/kimi'],
+        confidence: 0.85,
+        alternatives: ['openrouter', 'nvidia']
+    },
+    buildBody: (settings, prompt) => ({
+        model: settings.model,
+        messages: prompt,
+        stream: false,
+        max_tokens: settings.maxTokens ?? 1024,
+        temperature: settings.temperature ?? 0.7
+    })
+});
+
+const openrouterAdapter = createOpenAiCompatibleAdapter({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    headers: openRouterStyleHeaders,
+    detection: {
+        patterns: ['gpt', 'openai', 'claude', 'anthropic', 'mai-ds', 'qwq', 'deepseek-chat', 'hunyuan', 'reka', 'moonlight', 'dolphin'],
+        confidence: 0.8,
+        alternatives: ['chutes', 'nvidia']
+    }
+});
+
+const nvidiaAdapter = createOpenAiCompatibleAdapter({
+    name: 'nvidia',
+    baseUrl: 'https://integrate.api.nvidia.com/v1',
+    detection: {
+        patterns: ['nvidia', 'nemotron', 'meta/llama-4', 'writer/palmyra', 'qwen/qwq', 'meta/llama-3.3', '01-ai/yi', 'mistralai/mixtral', 'deepseek-ai/deepseek-r1', 'qwen/qwen3'],
+        confidence: 0.85,
+        alternatives: ['chutes', 'openrouter']
+    },
+    buildBody: buildNvidiaRequest,
+    supportedParameters: ['stop', 'frequencyPenalty', 'presencePenalty', 'seed'],
+    embeddingModels: [
+        { id: "nvidia/llama-3.2-nv-embedqa-1b-v2", name: "Llama 3.2 NV EmbedQA 1B v2" },
+        { id: "nvidia/nv-embedqa-e5-v5", name: "NV EmbedQA E5 v5" },
+        { id: "baai/bge-m3", name: "BGE M3" }
+    ],
+    // NVIDIA retrieval models embed queries and passages differently and require the type
+    embeddingBody: { input_type: 'query' }
+});
+
+const huggingfaceAdapter: ProviderAdapter = {
+    name: 'huggingface',
+    supportedParameters: ['stop', 'frequencyPenalty', 'presencePenalty', 'seed'],
+    detection: {
+        patterns: ['meta-llama', 'llama', 'alpindale', 'cognitivecomputations', 'huggingfaceh4', 'zephyr', 'sao10k'],
+        confidence: 0.7,
+        alternatives: ['openrouter', 'nvidia']
+    },
+    async generate(apiKey, settings, prompt) {
+        // Inference Providers are consumed as a stream and concatenated
+        const result: CompletionResult = { content: "" };
+        for await (const chunk of await createHfStream(apiKey, settings, prompt)) {
+            if (chunk.choices?.[0]?.delta?.content) {
+                result.content += chunk.choices[0].delta.content;
+            }
+            result.id ??= chunk.id;
+            result.finishReason = chunk.choices?.[0]?.finish_reason ?? result.finishReason;
+            // Backends that report usage send it with the final chunk
+            result.usage = toTokenUsage(chunk.usage?.prompt_tokens, chunk.usage?.completion_tokens, chunk.usage?.total_tokens) ?? result.usage;
+        }
+        return result;
+    },
+    async stream(apiKey, settings, prompt) {
+        return mapStream(await createHfStream(apiKey, settings, prompt), chunk => chunk.choices?.[0]?.delta?.content, chunk => chunk.choices?.[0]?.finish_reason);
+    },
+    embeddings: {
+        models: [
+            { id: "sentence-transformers/all-MiniLM-L6-v2", name: "all-MiniLM-L6-v2" },
+            { id: "BAAI/bge-large-en-v1.5", name: "BGE Large EN v1.5" },
+            { id: "intfloat/multilingual-e5-large", name: "Multilingual E5 Large" }
+        ],
+        async embed(apiKey, settings, input) {
+            const { HfInference } = await import("@huggingface/inference");
+            const client = new HfInference(apiKey);
+            const output = await client.featureExtraction({
+                model: settings.model,
+                inputs: input,
+                provider: (settings.providerOverride || "hf-inference") as any
+            }, { signal: settings.signal });
+            return { embeddings: output as number[][] };
+        }
+    }
+};
+
+const mistralAdapter: ProviderAdapter = {
+    name: 'mistral',
+    supportsTools: true,
+    supportsJsonSchema: true,
+    supportedParameters: ['stop', 'frequencyPenalty', 'presencePenalty', 'seed', 'n', 'responseFormat'],
+    detection: { patterns: ['mistral-large', 'mistral-medium', 'mistral-small', 'magistral', 'open-mistral'], confidence: 0.9, alternatives: [] },
+    async generate(apiKey, settings, prompt) {
+        const client = await createMistralClient(apiKey);
+        const chatResponse = await client.chat.complete(buildMistralRequest(settings, prompt), mistralRequestOptions(settings));
+        const [first, ...alternatives] = chatResponse.choices.map((choice: any): CompletionChoice => ({
+            content: choice.message.content ?? null,
+            toolCalls: toOpenAiToolCalls(choice.message.toolCalls),
+            finishReason: choice.finishReason
+        }));
+        return {
+            ...first,
+            usage: toTokenUsage(chatResponse.usage?.promptTokens, chatResponse.usage?.completionTokens, chatResponse.usage?.totalTokens),
+            id: chatResponse.id,
+            ...(alternatives.length && { alternatives })
+        };
+    },
+    async stream(apiKey, settings, prompt) {
+        const client = await createMistralClient(apiKey);
+        const stream = await client.chat.stream(buildMistralRequest(settings, prompt), mistralRequestOptions(settings));
+        return mapStream(stream as AsyncIterable<any>, event => event?.data?.choices?.[0]?.delta?.content, event => event?.data?.choices?.[0]?.finishReason);
+    },
+    embeddings: {
+        models: [
+            { id: "mistral-embed", name: "Mistral Embed" },
+            { id: "codestral-embed", name: "Codestral Embed" }
+        ],
+        supportsDimensions: true,
+        async embed(apiKey, settings, input) {
+            const client = await createMistralClient(apiKey);
+            const response = await client.embeddings.create({
+                model: settings.model,
+                inputs: input,
+                ...(settings.dimensions !== undefined && { outputDimension: settings.dimensions })
+            }, mistralRequestOptions(settings));
+            return {
+                embeddings: response.data.map((item: any) => item.embedding),
+                promptTokens: response.usage?.promptTokens
+            };
+        }
+    }
+};
+
+const cohereAdapter: ProviderAdapter = {
+    name: 'cohere',
+    supportsTools: true,
+    supportsJsonSchema: true,
+    supportedParameters: ['stop', 'frequencyPenalty', 'presencePenalty', 'seed', 'responseFormat'],
+    detection: { patterns: ['command-a', 'command-r', 'command-nightly'], confidence: 0.9, alternatives: [] },
+    async generate(apiKey, settings, prompt) {
+        const cohere = await createCohereClient(apiKey);
+        const response = await cohere.chat(buildCohereRequest(settings, prompt), cohereRequestOptions(settings));
+        const toolCalls = toOpenAiToolCalls(response?.message?.toolCalls);
+        const text = response?.message?.content?.map((c: any) => c.text).join('\n') || "";
+        return {
+            content: text || (toolCalls ? null : ""),
+            toolCalls,
+            usage: toTokenUsage(response?.usage?.tokens?.inputTokens, response?.usage?.tokens?.outputTokens),
+            finishReason: response?.finishReason,
+            id: response?.id
+        };
+    },
+    async stream(apiKey, settings, prompt) {
+        const cohere = await createCohereClient(apiKey);
+        const stream = await cohere.chatStream(buildCohereRequest(settings, prompt), cohereRequestOptions(settings));
+        return mapStream(stream as AsyncIterable<any>, event => event?.type === 'content-delta' ? event.delta?.message?.content?.text : undefined,
+            event => event?.type === 'message-end' ? event.delta?.finishReason : undefined);
+    },
+    embeddings: {
+        models: [
+            { id: "embed-v4.0", name: "Embed v4.0" },
+            { id: "embed-english-v3.0", name: "Embed English v3.0" },
+            { id: "embed-multilingual-v3.0", name: "Embed Multilingual v3.0" },
+            { id: "embed-english-light-v3.0", name: "Embed English Light v3.0" }
+        ],
+        maxBatchSize: 96,
+        supportsDimensions: true,
+        async embed(apiKey, settings, input) {
+            const cohere = await createCohereClient(apiKey);
+            const response = await cohere.embed({
+                model: settings.model,
+                texts: input,
+                inputType: 'search_document',
+                embeddingTypes: ['float'],
+                ...(settings.dimensions !== undefined && { outputDimension: settings.dimensions })
+            }, cohereRequestOptions(settings));
+            return {
+                embeddings: response.embeddings.float ?? [],
+                promptTokens: response.meta?.billedUnits?.inputTokens
+            };
+        }
+    }
+};
+
+const requestyAdapter = createOpenAiCompatibleAdapter({
+    name: 'requesty',
+    baseUrl: 'https://router.requesty.ai/v1',
+    headers: openRouterStyleHeaders,
+    detection: { patterns: ['requesty'], confidence: 0.8, alternatives: ['openrouter'] }
+});
+
+/**
+ * Built-in adapters in detection priority order: when two providers match a model
+ * name with equal confidence, the one listed first wins.
+ */
+export const builtInProviderAdapters: ProviderAdapter[] = [
+    geminiAdapter,
+    chutesAdapter,
+    openrouterAdapter,
+    nvidiaAdapter,
+    huggingfaceAdapter,
+    mistralAdapter,
+    cohereAdapter,
+    requestyAdapter
+];
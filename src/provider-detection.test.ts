@@ -11,9 +11,11 @@ import {
     getModelsForProvider,
     getAllProviders,
     getAlternativeProviders,
+    getProviderAlternatives,
+    resolveModelForProvider,
     providerSupportsModel
 } from './provider-detection';
-import { LlmManager } from './llm_rotation';
+import { LlmManager, registerProvider } from './llm_rotation';
 import type { Provider, ProviderDetectionResult } from './types';
 
 describe('Provider Detection Module', () => {
@@ -268,6 +270,36 @@ describe('Provider Detection Module', () => {
         });
     });
 
+    describe('getProviderAlternatives', () => {
+        it('should return alternatives for providers with shared model families', () => {
+            expect(getProviderAlternatives('chutes')).toEqual(['openrouter', 'nvidia']);
+            expect(getProviderAlternatives('nvidia')).toEqual(['chutes', 'openrouter']);
+        });
+
+        it('should return empty array for providers without alternatives', () => {
+            expect(getProviderAlternatives('gemini')).toEqual([]);
+            expect(getProviderAlternatives('cohere')).toEqual([]);
+        });
+    });
+
+    describe('resolveModelForProvider', () => {
+        it('should return exact model ids unchanged', () => {
+            expect(resolveModelForProvider('deepseek-ai/DeepSeek-R1', 'chutes')).toBe('deepseek-ai/DeepSeek-R1');
+        });
+
+        it('should resolve the same model under a provider-specific id', () => {
+            expect(resolveModelForProvider('deepseek-ai/DeepSeek-R1', 'nvidia')).toBe('deepseek-ai/deepseek-r1');
+            expect(resolveModelForProvider('deepseek-ai/DeepSeek-R1', 'openrouter')).toBe('deepseek/deepseek-r1:free');
+            expect(resolveModelForProvider('deepseek-ai/DeepSeek-R1-0528', 'openrouter')).toBe('deepseek/deepseek-r1-0528:free');
+        });
+
+        it('should return null when the provider does not serve the model', () => {
+            expect(resolveModelForProvider('deepseek-ai/DeepSeek-R1', 'gemini')).toBe(null);
+            expect(resolveModelForProvider('moonshotai/Kimi-K2-Instruct', 'nvidia')).toBe(null);
+            expect(resolveModelForProvider('', 'nvidia')).toBe(null);
+        });
+    });
+
     describe('Edge Cases', () => {
         it('should handle models with special characters', () => {
             expect(determineProvider('gemini-2.5-pro-experimental')).toBe('gemini');
@@ -297,4 +329,26 @@ describe('Provider Detection Module', () => {
             expect(result.confidence).toBe(1.0);
         });
     });
-});
\ No newline at end of file
+
+    describe('registered providers', () => {
+        beforeEach(() => {
+            registerProvider({
+                name: 'acme',
+                models: [{ id: 'acme-large', name: 'Acme Large' }],
+                detection: { patterns: ['acme-'], confidence: 0.95, alternatives: ['openrouter'] },
+                generate: async () => ''
+            });
+        });
+
+        it('should detect registered providers by exact match and pattern', () => {
+            expect(determineProvider('acme-large')).toBe('acme');
+            expect(determineProviderWithDetails('acme-small-v2')).toEqual({
+                provider: 'acme',
+                confidence: 0.95,
+                reason: 'pattern_match',
+                alternatives: ['openrouter']
+            });
+            expect(getProviderAlternatives('acme')).toEqual(['openrouter']);
+        });
+    });
+});
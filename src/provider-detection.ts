@@ -8,6 +8,30 @@
 import { LlmManager } from './llm_rotation';
 import type { Provider, ProviderDetectionResult } from './types';
 
+/**
+ * Pattern table used for fallback detection, built from the detection settings
+ * of registered provider adapters. Adapters registered earlier win ties.
+ */
+function getProviderPatterns(): Array<{
+    provider: Provider;
+    patterns: string[];
+    confidence: number;
+    alternatives?: Provider[];
+}> {
+    return LlmManager.getRegisteredProviders().flatMap(provider => {
+        const detection = LlmManager.getProviderAdapter(provider)?.detection;
+        if (!detection) {
+            return [];
+        }
+        return [{
+            provider,
+            patterns: detection.patterns.map(p => p.toLowerCase()),
+            confidence: detection.confidence ?? 0.8,
+            alternatives: detection.alternatives
+        }];
+    });
+}
+
 /**
  * Determines the appropriate provider for a given model name
  * @param model - The model identifier to detect provider for
@@ -18,6 +42,26 @@ export function determineProvider(model: string): Provider | null {
     return result.provider;
 }
 
+/**
+ * Determines the provider serving an embedding model. Embedding models are only
+ * matched exactly, since vectors from different models are not interchangeable.
+ * @param model - The embedding model identifier
+ * @returns The provider listing the model, or null if none does
+ */
+export function determineEmbeddingProvider(model: string): Provider | null {
+    if (!model || typeof model !== 'string') {
+        return null;
+    }
+
+    const normalizedModel = model.trim().toLowerCase();
+    for (const [provider, models] of Object.entries(LlmManager.embeddingModelConfigurations ?? {})) {
+        if (models.some(m => m.id.toLowerCase() === normalizedModel)) {
+            return provider as Provider;
+        }
+    }
+    return null;
+}
+
 /**
  * Determines the appropriate provider with detailed detection information
  * @param model - The model identifier to detect provider for
@@ -82,61 +126,6 @@ function findExactMatch(model: string): Provider | null {
  * @returns Provider detection result with pattern matching details
  */
 function findPatternMatch(normalizedModel: string): ProviderDetectionResult {
-    const patterns: Array<{
-        provider: Provider;
-        patterns: string[];
-        confidence: number;
-        alternatives?: Provider[];
-    }> = [
-        {
-            provider: 'gemini',
-            patterns: ['gemini', 'google', 'bard', 'learnlm'],
-            confidence: 0.9,
-            alternatives: []
-        },
-        {
-            provider: 'chutes',
-            patterns: ['deepseek-r1', 'deepseek-v3', 'deepseek', 'arli', 'microsoft/mai', 'tngtech', 'tencent/hunyuan', 'qwen3', 'chutesai', 'minimax', 'mrfakename', 'moonshotai/kimi'],
-            confidence: 0.85,
-            alternatives: ['openrouter', 'nvidia']
-        },
-        {
-            provider: 'openrouter',
-            patterns: ['gpt', 'openai', 'claude', 'anthropic', 'mai-ds', 'qwq', 'deepseek-chat', 'hunyuan', 'reka', 'moonlight', 'dolphin'],
-            confidence: 0.8,
-            alternatives: ['chutes', 'nvidia']
-        },
-        {
-            provider: 'nvidia',
-            patterns: ['nvidia', 'nemotron', 'meta/llama-4', 'writer/palmyra', 'qwen/qwq', 'meta/llama-3.3', '01-ai/yi', 'mistralai/mixtral', 'deepseek-ai/deepseek-r1', 'qwen/qwen3'],
-            confidence: 0.85,
-            alternatives: ['chutes', 'openrouter']
-        },
-        {
-            provider: 'huggingface',
-            patterns: ['meta-llama', 'llama', 'alpindale', 'cognitivecomputations', 'huggingfaceh4', 'zephyr', 'sao10k'],
-            confidence: 0.7,
-            alternatives: ['openrouter', 'nvidia']
-        },
-        {
-            provider: 'mistral',
-            patterns: ['mistral-large', 'mistral-medium', 'mistral-small', 'magistral', 'open-mistral'],
-            confidence: 0.9,
-            alternatives: []
-        },
-        {
-            provider: 'cohere',
-            patterns: ['command-a', 'command-r', 'command-nightly'],
-            confidence: 0.9,
-            alternatives: []
-        },
-        {
-            provider: 'requesty',
-            patterns: ['requesty'],
-            confidence: 0.8,
-            alternatives: ['openrouter']
-        }
-    ];
 
     // Find the best matching pattern
     let bestMatch: ProviderDetectionResult = {
@@ -146,7 +135,7 @@ function findPatternMatch(normalizedModel: string): ProviderDetectionResult {
         alternatives: []
     };
 
-    for (const patternGroup of patterns) {
+    for (const patternGroup of getProviderPatterns()) {
         for (const pattern of patternGroup.patterns) {
             if (normalizedModel.includes(pattern)) {
                 if (patternGroup.confidence > bestMatch.confidence) {
@@ -226,4 +215,70 @@ export function providerSupportsModel(provider: Provider, model: string): boolea
     }
     
     return models.some(m => m.id === model);
-}
\ No newline at end of file
+}
+
+/**
+ * Checks if a provider's model is marked as accepting image input
+ * @param provider - The provider serving the model
+ * @param model - The model identifier as the provider names it
+ * @returns True if the model's configuration has `vision` set
+ */
+export function modelSupportsVision(provider: Provider, model: string): boolean {
+    const models = LlmManager.modelConfigurations[provider];
+    return !!models?.some(m => m.id === model && m.vision);
+}
+
+/**
+ * Gets the context window of a provider's model
+ * @param provider - The provider serving the model
+ * @param model - The model identifier as the provider names it
+ * @returns The context window in tokens, or undefined when not configured
+ */
+export function getModelContextWindow(provider: Provider, model: string): number | undefined {
+    return LlmManager.modelConfigurations[provider]?.find(m => m.id === model)?.contextWindow;
+}
+
+/**
+ * Gets the alternative providers configured for a provider's model family
+ * @param provider - The primary provider
+ * @returns Array of providers that serve similar models
+ */
+export function getProviderAlternatives(provider: Provider): Provider[] {
+    const group = getProviderPatterns().find(p => p.provider === provider);
+    return group?.alternatives || [];
+}
+
+/**
+ * Resolves the model identifier a provider uses for the given model.
+ * Providers publish the same weights under different ids (e.g. `deepseek-ai/DeepSeek-R1`
+ * on Chutes and `deepseek/deepseek-r1:free` on OpenRouter), so ids are compared
+ * by their lowercase base name with organisation prefix and variant suffix removed.
+ * @param model - The requested model identifier
+ * @param provider - The provider to resolve the model on
+ * @returns The provider's model id, or null if the provider does not serve it
+ */
+export function resolveModelForProvider(model: string, provider: Provider): string | null {
+    const models = LlmManager.modelConfigurations[provider];
+    if (!model || !models) {
+        return null;
+    }
+
+    const exact = models.find(m => m.id === model);
+    if (exact) {
+        return exact.id;
+    }
+
+    const baseName = getModelBaseName(model);
+    const match = models.find(m => getModelBaseName(m.id) === baseName);
+    return match ? match.id : null;
+}
+
+/**
+ * Normalizes a model id to its base name for cross-provider comparison
+ * @param model - The model identifier
+ * @returns Lowercase model name without organisation prefix or `:variant` suffix
+ */
+function getModelBaseName(model: string): string {
+    const withoutVariant = model.trim().toLowerCase().split(':')[0];
+    return withoutVariant.slice(withoutVariant.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,87 @@
+/**
+ * @file rate-limiter.test.ts
+ * @description Unit tests for per-client request, token and concurrency limits
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ClientRateLimiter } from './rate-limiter';
+
+describe('ClientRateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-07-14T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should be disabled without limits', () => {
+        const limiter = new ClientRateLimiter();
+
+        expect(limiter.enabled).toBe(false);
+        expect(limiter.acquire('ip:1.2.3.4')).toMatchObject({ allowed: true, headers: {} });
+    });
+
+    it('should limit requests per minute with a sliding window', () => {
+        const limiter = new ClientRateLimiter({ requestsPerMinute: 2 });
+
+        expect(limiter.acquire('a')).toMatchObject({ allowed: true, headers: { 'x-ratelimit-remaining-requests': '1' } });
+        vi.advanceTimersByTime(20_000);
+        limiter.acquire('a');
+
+        const rejected = limiter.acquire('a');
+        expect(rejected).toMatchObject({
+            allowed: false,
+            limit: 'requests',
+            message: 'Rate limit of 2 requests per minute exceeded',
+            retryAfterMs: 40_000,
+            headers: { 'x-ratelimit-limit-requests': '2', 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '40s' }
+        });
+        expect(limiter.acquire('b').allowed).toBe(true);
+
+        vi.advanceTimersByTime(40_000);
+        expect(limiter.acquire('a').allowed).toBe(true);
+    });
+
+    it('should enforce the daily token quota until the next UTC day', () => {
+        const limiter = new ClientRateLimiter({ tokensPerDay: 1000 });
+
+        limiter.recordTokens('a', 600);
+        expect(limiter.acquire('a')).toMatchObject({ allowed: true, headers: { 'x-ratelimit-remaining-tokens': '400' } });
+        limiter.recordTokens('a', 500);
+
+        expect(limiter.acquire('a')).toMatchObject({ allowed: false, limit: 'tokens', retryAfterMs: 12 * 60 * 60 * 1000 });
+
+        vi.setSystemTime(new Date('2025-07-15T00:00:00Z'));
+        expect(limiter.acquire('a')).toMatchObject({ allowed: true, headers: { 'x-ratelimit-remaining-tokens': '1000' } });
+    });
+
+    it('should limit concurrent requests until they are released', () => {
+        const limiter = new ClientRateLimiter({ maxConcurrentRequests: 1 });
+
+        const first = limiter.acquire('a');
+        expect(limiter.acquire('a')).toMatchObject({ allowed: false, limit: 'concurrency', retryAfterMs: 1000 });
+
+        if (first.allowed) {
+            first.release();
+            first.release();
+        }
+        const second = limiter.acquire('a');
+        expect(second.allowed).toBe(true);
+        expect(limiter.acquire('a').allowed).toBe(false);
+    });
+
+    it('should forget idle clients', () => {
+        const limiter = new ClientRateLimiter({ requestsPerMinute: 1 });
+        const decision = limiter.acquire('a');
+        if (decision.allowed) {
+            decision.release();
+        }
+
+        vi.advanceTimersByTime(2 * 60_000);
+        limiter.acquire('b');
+
+        expect((limiter as any).clients.has('a')).toBe(false);
+    });
+});
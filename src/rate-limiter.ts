@@ -0,0 +1,181 @@
+/**
+ * @file rate-limiter.ts
+ * @description Per-client limits on requests per minute, tokens per day and concurrent
+ * requests, so that a single client cannot use up the shared provider keys
+ */
+
+/**
+ * Limits applied to every client; omitted limits are not enforced
+ */
+export interface ClientRateLimits {
+    /** Requests started within any 60 second window */
+    requestsPerMinute?: number;
+    /** Tokens used per UTC day, counted from provider-reported or estimated usage */
+    tokensPerDay?: number;
+    /** Requests in progress at the same time */
+    maxConcurrentRequests?: number;
+}
+
+/**
+ * The limit a rejected request ran into
+ */
+export type RateLimitKind = 'requests' | 'tokens' | 'concurrency';
+
+/**
+ * Outcome of ClientRateLimiter.acquire
+ */
+export type RateLimitDecision =
+    | {
+        allowed: true;
+        /** x-ratelimit-* response headers */
+        headers: Record<string, string>;
+        /** Ends the request for the concurrency limit; safe to call more than once */
+        release: () => void;
+    }
+    | {
+        allowed: false;
+        limit: RateLimitKind;
+        /** Human-readable description of the exceeded limit */
+        message: string;
+        /** Milliseconds until a retry can succeed */
+        retryAfterMs: number;
+        headers: Record<string, string>;
+    };
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Retry delay reported for the concurrency limit, which has no fixed reset time */
+const CONCURRENCY_RETRY_MS = 1000;
+
+interface ClientUsage {
+    /** Start times of the requests of the last minute, oldest first */
+    requestTimes: number[];
+    /** Start of the UTC day the token count belongs to */
+    tokenDay: number;
+    tokens: number;
+    inFlight: number;
+}
+
+/**
+ * Tracks the usage of each client in memory and decides whether new requests may start
+ */
+export class ClientRateLimiter {
+    private readonly clients = new Map<string, ClientUsage>();
+    private lastPrune = 0;
+
+    constructor(private readonly limits: ClientRateLimits = {}) {}
+
+    /**
+     * Whether any limit is configured
+     */
+    get enabled(): boolean {
+        return Boolean(this.limits.requestsPerMinute || this.limits.tokensPerDay || this.limits.maxConcurrentRequests);
+    }
+
+    /**
+     * Start a request for a client if none of its limits is exceeded
+     * @param clientId - Identity of the client, such as a key or an IP address
+     * @returns The decision, with headers describing the remaining allowance
+     */
+    acquire(clientId: string): RateLimitDecision {
+        const now = Date.now();
+        this.pruneIdleClients(now);
+        const usage = this.getUsage(clientId, now);
+        const { requestsPerMinute, tokensPerDay, maxConcurrentRequests } = this.limits;
+
+        if (tokensPerDay && usage.tokens >= tokensPerDay) {
+            return this.reject(usage, now, 'tokens', `Token quota of ${tokensPerDay} tokens per day exceeded`, usage.tokenDay + DAY_MS - now);
+        }
+        if (requestsPerMinute && usage.requestTimes.length >= requestsPerMinute) {
+            return this.reject(usage, now, 'requests', `Rate limit of ${requestsPerMinute} requests per minute exceeded`, usage.requestTimes[0] + MINUTE_MS - now);
+        }
+        if (maxConcurrentRequests && usage.inFlight >= maxConcurrentRequests) {
+            return this.reject(usage, now, 'concurrency', `Limit of ${maxConcurrentRequests} concurrent requests exceeded`, CONCURRENCY_RETRY_MS);
+        }
+
+        usage.requestTimes.push(now);
+        usage.inFlight++;
+        let released = false;
+        return {
+            allowed: true,
+            headers: this.buildHeaders(usage, now),
+            release: () => {
+                if (!released) {
+                    released = true;
+                    usage.inFlight--;
+                }
+            }
+        };
+    }
+
+    /**
+     * Count tokens used by a client towards its daily quota
+     * @param clientId - Identity of the client
+     * @param tokens - Prompt and completion tokens of a finished request
+     */
+    recordTokens(clientId: string, tokens: number): void {
+        if (tokens > 0) {
+            this.getUsage(clientId, Date.now()).tokens += tokens;
+        }
+    }
+
+    private getUsage(clientId: string, now: number): ClientUsage {
+        const day = now - (now % DAY_MS);
+        let usage = this.clients.get(clientId);
+        if (!usage) {
+            usage = { requestTimes: [], tokenDay: day, tokens: 0, inFlight: 0 };
+            this.clients.set(clientId, usage);
+        }
+
+        while (usage.requestTimes.length > 0 && usage.requestTimes[0] <= now - MINUTE_MS) {
+            usage.requestTimes.shift();
+        }
+        if (usage.tokenDay !== day) {
+            usage.tokenDay = day;
+            usage.tokens = 0;
+        }
+        return usage;
+    }
+
+    private reject(usage: ClientUsage, now: number, limit: RateLimitKind, message: string, retryAfterMs: number): RateLimitDecision {
+        return { allowed: false, limit, message, retryAfterMs: Math.max(retryAfterMs, 0), headers: this.buildHeaders(usage, now) };
+    }
+
+    /**
+     * Build x-ratelimit-* headers in the style of the OpenAI API, with reset times in seconds
+     */
+    private buildHeaders(usage: ClientUsage, now: number): Record<string, string> {
+        const headers: Record<string, string> = {};
+        const { requestsPerMinute, tokensPerDay } = this.limits;
+
+        if (requestsPerMinute) {
+            const resetMs = usage.requestTimes.length > 0 ? usage.requestTimes[0] + MINUTE_MS - now : 0;
+            headers['x-ratelimit-limit-requests'] = String(requestsPerMinute);
+            headers['x-ratelimit-remaining-requests'] = String(Math.max(requestsPerMinute - usage.requestTimes.length, 0));
+            headers['x-ratelimit-reset-requests'] = `${Math.ceil(resetMs / 1000)}s`;
+        }
+        if (tokensPerDay) {
+            headers['x-ratelimit-limit-tokens'] = String(tokensPerDay);
+            headers['x-ratelimit-remaining-tokens'] = String(Math.max(tokensPerDay - usage.tokens, 0));
+            headers['x-ratelimit-reset-tokens'] = `${Math.ceil((usage.tokenDay + DAY_MS - now) / 1000)}s`;
+        }
+        return headers;
+    }
+
+    /**
+     * Forget clients without recent requests, requests in progress or tokens used today
+     */
+    private pruneIdleClients(now: number): void {
+        if (now - this.lastPrune < MINUTE_MS) {
+            return;
+        }
+        this.lastPrune = now;
+        for (const [clientId, usage] of this.clients) {
+            const lastRequest = usage.requestTimes[usage.requestTimes.length - 1] ?? 0;
+            if (usage.inFlight === 0 && lastRequest <= now - MINUTE_MS && (usage.tokens === 0 || usage.tokenDay !== now - (now % DAY_MS))) {
+                this.clients.delete(clientId);
+            }
+        }
+    }
+}
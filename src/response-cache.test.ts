@@ -0,0 +1,185 @@
+/**
+ * @file response-cache.test.ts
+ * @description Unit tests for cache keys, the memory and disk backends and hit counting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync, promises as fsPromises } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { getCacheKey, MemoryCacheBackend, DiskCacheBackend, ResponseCache } from './response-cache';
+import type { ChatCompletionResponse } from './types';
+
+const response: ChatCompletionResponse = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1752451200,
+    model: 'gpt-4',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Paris' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 1, total_tokens: 13 }
+};
+
+describe('getCacheKey', () => {
+    const base = { model: 'gpt-4', messages: [{ role: 'user' as const, content: 'Capital of France?' }], temperature: 0 };
+
+    it('should ignore key order, model case and fields that do not change the reply', () => {
+        expect(getCacheKey({ temperature: 0, messages: base.messages, model: 'GPT-4', stream: false, user: 'u1' } as any))
+            .toBe(getCacheKey(base));
+        expect(getCacheKey({ ...base, stop: 'END', n: 1 })).toBe(getCacheKey({ ...base, stop: ['END'] }));
+    });
+
+    it('should change with messages and sampling parameters', () => {
+        const key = getCacheKey(base);
+
+        expect(getCacheKey({ ...base, temperature: 0.5 })).not.toBe(key);
+        expect(getCacheKey({ ...base, seed: 7 })).not.toBe(key);
+        expect(getCacheKey({ ...base, messages: [{ role: 'user', content: 'Capital of Spain?' }] })).not.toBe(key);
+    });
+});
+
+describe('MemoryCacheBackend', () => {
+    it('should evict the least recently used entry', async () => {
+        const backend = new MemoryCacheBackend(2);
+        await backend.set('a', { response, expiresAt: 1 });
+        await backend.set('b', { response, expiresAt: 1 });
+        await backend.get('a');
+        await backend.set('c', { response, expiresAt: 1 });
+
+        expect(await backend.get('a')).toBeDefined();
+        expect(await backend.get('b')).toBeUndefined();
+        expect(await backend.size()).toBe(2);
+    });
+
+    it('should remove expired entries', async () => {
+        const backend = new MemoryCacheBackend();
+        await backend.set('a', { response, expiresAt: 100 });
+        await backend.set('b', { response, expiresAt: 200 });
+
+        expect(await backend.removeExpired(100)).toBe(1);
+        expect(await backend.get('a')).toBeUndefined();
+        expect(await backend.get('b')).toBeDefined();
+    });
+});
+
+describe('DiskCacheBackend', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'response-cache-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should store entries as files that survive a new backend', async () => {
+        const cacheDirectory = path.join(directory, 'cache');
+        expect(await new DiskCacheBackend(cacheDirectory).size()).toBe(0);
+
+        await new DiskCacheBackend(cacheDirectory).set('abc', { response, expiresAt: 5 });
+        const backend = new DiskCacheBackend(cacheDirectory);
+
+        expect(await backend.get('abc')).toEqual({ response, expiresAt: 5 });
+        expect(await backend.size()).toBe(1);
+
+        await backend.delete('abc');
+        expect(await backend.get('abc')).toBeUndefined();
+    });
+
+    it('should treat corrupt files as misses', async () => {
+        writeFileSync(path.join(directory, 'abc.json'), '{"response":');
+
+        expect(await new DiskCacheBackend(directory).get('abc')).toBeUndefined();
+    });
+
+    it('should delete the oldest files down to 90% of maxEntries once the limit is crossed', async () => {
+        const backend = new DiskCacheBackend(directory, 10);
+        for (let i = 0; i < 10; i++) {
+            await backend.set(`key${i}`, { response, expiresAt: 5 });
+            utimesSync(path.join(directory, `key${i}.json`), 1000 + i, 1000 + i);
+        }
+
+        await backend.set('newest', { response, expiresAt: 5 });
+
+        expect(readdirSync(directory).sort()).toEqual([
+            'key2.json', 'key3.json', 'key4.json', 'key5.json', 'key6.json', 'key7.json', 'key8.json', 'key9.json', 'newest.json'
+        ]);
+    });
+
+    it('should only list the directory on writes that cross the limit', async () => {
+        const backend = new DiskCacheBackend(directory, 10);
+        await backend.set('first', { response, expiresAt: 5 });
+        const readdir = vi.spyOn(fsPromises, 'readdir');
+
+        for (let i = 0; i < 9; i++) {
+            await backend.set(`key${i}`, { response, expiresAt: 5 });
+        }
+        expect(readdir).not.toHaveBeenCalled();
+
+        await backend.set('over', { response, expiresAt: 5 });
+        expect(readdir).toHaveBeenCalledTimes(1);
+        readdir.mockRestore();
+    });
+
+    it('should stay within the limit under concurrent writes', async () => {
+        const backend = new DiskCacheBackend(directory, 10);
+
+        await Promise.all(Array.from({ length: 30 }, (_, i) => backend.set(`key${i}`, { response, expiresAt: 5 })));
+
+        expect(readdirSync(directory).length).toBeLessThanOrEqual(10);
+    });
+
+    it('should remove expired and corrupt files', async () => {
+        const backend = new DiskCacheBackend(directory);
+        await backend.set('old', { response, expiresAt: 100 });
+        await backend.set('new', { response, expiresAt: 200 });
+        writeFileSync(path.join(directory, 'corrupt.json'), '{"response":');
+
+        expect(await backend.removeExpired(100)).toBe(2);
+        expect(readdirSync(directory)).toEqual(['new.json']);
+    });
+});
+
+describe('ResponseCache', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should serve responses until they expire and count hits', async () => {
+        vi.useFakeTimers();
+        const backend = new MemoryCacheBackend();
+        const cache = new ResponseCache(backend, 60_000);
+
+        expect(await cache.get('key')).toBeUndefined();
+        await cache.set('key', response);
+        expect(await cache.get('key')).toEqual(response);
+
+        vi.advanceTimersByTime(60_000);
+        expect(await cache.get('key')).toBeUndefined();
+        expect(await backend.size()).toBe(0);
+
+        expect(await cache.getStats()).toEqual({ backend: 'memory', entries: 0, hits: 1, misses: 2, hitRate: 1 / 3 });
+    });
+
+    it('should sweep expired entries at start and on every interval', async () => {
+        vi.useFakeTimers();
+        const backend = new MemoryCacheBackend();
+        await backend.set('stale', { response, expiresAt: Date.now() });
+        const cache = new ResponseCache(backend, 60_000);
+        const onError = vi.fn();
+
+        cache.startSweeping(onError, 10_000);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(await backend.size()).toBe(0);
+
+        await cache.set('key', response);
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(await backend.size()).toBe(0);
+
+        cache.stopSweeping();
+        await cache.set('key', response);
+        await vi.advanceTimersByTimeAsync(120_000);
+        expect(await backend.size()).toBe(1);
+        expect(onError).not.toHaveBeenCalled();
+    });
+});
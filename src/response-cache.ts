@@ -0,0 +1,345 @@
+/**
+ * @file response-cache.ts
+ * @description Opt-in cache of chat completion responses, keyed on the normalized model,
+ * messages and sampling parameters of a request, with in-memory LRU and disk backends
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ChatCompletionRequest, ChatCompletionResponse } from './types';
+
+/**
+ * A cached response and the time it stops being served
+ */
+export interface CacheEntry {
+    response: ChatCompletionResponse;
+    /** Epoch milliseconds */
+    expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface ResponseCacheBackend {
+    readonly name: string;
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Number of stored entries, including expired ones not yet removed */
+    size(): Promise<number>;
+    /**
+     * Remove every entry that expired at or before a time
+     * @returns The number of entries removed
+     */
+    removeExpired(now: number): Promise<number>;
+}
+
+/**
+ * How often ResponseCache.startSweeping removes expired entries by default
+ */
+export const DEFAULT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Counters reported by ResponseCache.getStats
+ */
+export interface ResponseCacheStats {
+    backend: string;
+    entries: number;
+    hits: number;
+    misses: number;
+    /** Hits divided by lookups; 0 before the first lookup */
+    hitRate: number;
+}
+
+/**
+ * Request fields that change the response. Headers, `stream` and `user` do not.
+ */
+const CACHE_KEY_FIELDS: Array<keyof ChatCompletionRequest> = [
+    'model', 'messages', 'temperature', 'max_tokens', 'top_p', 'stop', 'frequency_penalty',
+    'presence_penalty', 'seed', 'n', 'response_format', 'logit_bias', 'tools', 'tool_choice'
+];
+
+/**
+ * Serialize a value with object keys sorted, so that key order does not change the result
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Build the cache key of a chat completion request
+ * @param request - The request body
+ * @returns Hex SHA-256 of the normalized model, messages and sampling parameters
+ */
+export function getCacheKey(request: ChatCompletionRequest): string {
+    const normalized: Record<string, unknown> = {};
+    for (const field of CACHE_KEY_FIELDS) {
+        normalized[field] = request[field];
+    }
+    // Model names are matched case-insensitively elsewhere, and a single stop string equals a one-item list
+    normalized.model = request.model?.toLowerCase();
+    if (typeof request.stop === 'string') {
+        normalized.stop = [request.stop];
+    }
+    if (request.n === 1) {
+        delete normalized.n;
+    }
+    return createHash('sha256').update(stableStringify(normalized)).digest('hex');
+}
+
+/**
+ * Least-recently-used cache in memory
+ */
+export class MemoryCacheBackend implements ResponseCacheBackend {
+    readonly name = 'memory';
+    // Map iteration follows insertion order, so the first key is the least recently used
+    private readonly entries = new Map<string, CacheEntry>();
+
+    constructor(private readonly maxEntries: number = 1000) {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async size(): Promise<number> {
+        return this.entries.size;
+    }
+
+    async removeExpired(now: number): Promise<number> {
+        let removed = 0;
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
+
+/**
+ * Cache that keeps one JSON file per entry in a directory, so entries survive restarts
+ * and can be shared by instances on the same volume. Files are written through a
+ * temporary file and a rename like the other JSON stores. Once a write takes the directory
+ * beyond maxEntries files, the oldest are deleted down to 90% of the limit, so that the
+ * directory is not listed on every write.
+ */
+export class DiskCacheBackend implements ResponseCacheBackend {
+    readonly name = 'disk';
+    /** Files in the directory as far as this process knows; recounted whenever it is listed */
+    private fileCount?: number;
+    private eviction?: Promise<void>;
+
+    constructor(
+        private readonly directory: string,
+        private readonly maxEntries: number = 1000
+    ) {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(key), 'utf8')) as CacheEntry;
+        } catch (error) {
+            // Missing files are misses; unreadable ones are replaced on the next store
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const filePath = this.filePath(key);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.mkdir(this.directory, { recursive: true });
+        if (this.fileCount === undefined) {
+            await this.listFiles();
+        }
+        await fs.writeFile(tempPath, JSON.stringify(entry), { encoding: 'utf8', mode: 0o600 });
+        await fs.rename(tempPath, filePath);
+
+        // Replacing an existing key is counted too; the next listing corrects it
+        this.fileCount = (this.fileCount ?? 0) + 1;
+        // An eviction that listed the directory before this file was written may not be enough
+        while (this.fileCount > this.maxEntries) {
+            await this.evictOldest();
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.filePath(key), { force: true });
+        if (this.fileCount) this.fileCount--;
+    }
+
+    async size(): Promise<number> {
+        return (await this.listFiles()).length;
+    }
+
+    async removeExpired(now: number): Promise<number> {
+        let removed = 0;
+        for (const file of await this.listFiles()) {
+            const key = file.slice(0, -'.json'.length);
+            // Corrupt files would only be replaced on a store of the same key, so they go too
+            const entry = await this.get(key).catch(() => undefined);
+            if (!entry || typeof entry.expiresAt !== 'number' || entry.expiresAt <= now) {
+                await this.delete(key);
+                removed++;
+            }
+        }
+        // The sweep also bounds files written by other instances sharing the directory
+        await this.evictOldest();
+        return removed;
+    }
+
+    /**
+     * Delete the oldest files down to 90% of maxEntries when the directory holds more than maxEntries.
+     * Concurrent callers share one run, so they neither delete the same files nor overshoot.
+     */
+    private evictOldest(): Promise<void> {
+        this.eviction ??= (async () => {
+            const files = await this.listFiles();
+            if (files.length <= this.maxEntries) {
+                return;
+            }
+            const ages = await Promise.all(files.map(async file => {
+                const stats = await fs.stat(path.join(this.directory, file)).catch(() => undefined);
+                return { file, modifiedAt: stats?.mtimeMs ?? 0 };
+            }));
+            ages.sort((a, b) => a.modifiedAt - b.modifiedAt);
+            const excess = ages.slice(0, ages.length - Math.floor(this.maxEntries * 0.9));
+            await Promise.all(excess.map(({ file }) => fs.rm(path.join(this.directory, file), { force: true })));
+            // Writes finished since the listing keep their increments
+            this.fileCount = this.fileCount! - excess.length;
+        })().finally(() => {
+            this.eviction = undefined;
+        });
+        return this.eviction;
+    }
+
+    private async listFiles(): Promise<string[]> {
+        try {
+            const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+            this.fileCount = files.length;
+            return files;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory, `${key}.json`);
+    }
+}
+
+/**
+ * Looks up and stores chat completion responses and counts hits and misses
+ */
+export class ResponseCache {
+    private hits = 0;
+    private misses = 0;
+    private sweepTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * @param backend - Where entries are stored
+     * @param ttlMs - How long a stored response is served
+     */
+    constructor(
+        private readonly backend: ResponseCacheBackend,
+        private readonly ttlMs: number
+    ) {}
+
+    /**
+     * Find a response that has not expired
+     * @param key - Key from getCacheKey
+     * @returns The cached response, or undefined on a miss
+     */
+    async get(key: string): Promise<ChatCompletionResponse | undefined> {
+        const entry = await this.backend.get(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            this.hits++;
+            return entry.response;
+        }
+        if (entry) {
+            await this.backend.delete(key);
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    /**
+     * Store a response for the configured TTL
+     * @param key - Key from getCacheKey
+     * @param response - The response sent to the client
+     */
+    async set(key: string, response: ChatCompletionResponse): Promise<void> {
+        await this.backend.set(key, { response, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    /**
+     * Remove expired entries, including ones that are never looked up again
+     * @returns The number of entries removed
+     */
+    async sweep(): Promise<number> {
+        return this.backend.removeExpired(Date.now());
+    }
+
+    /**
+     * Sweep now and then periodically until stopSweeping is called. The timer does not keep the process alive.
+     * @param onError - Called when a sweep fails; the next one still runs
+     * @param intervalMs - Time between sweeps
+     */
+    startSweeping(onError: (error: Error) => void, intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): void {
+        this.stopSweeping();
+        const run = () => { this.sweep().catch(onError); };
+        run();
+        this.sweepTimer = setInterval(run, intervalMs);
+        this.sweepTimer.unref();
+    }
+
+    stopSweeping(): void {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+    }
+
+    async getStats(): Promise<ResponseCacheStats> {
+        const lookups = this.hits + this.misses;
+        return {
+            backend: this.backend.name,
+            entries: await this.backend.size(),
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: lookups > 0 ? this.hits / lookups : 0
+        };
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * @file retry-policy.test.ts
+ * @description Unit tests for error classification, backoff delays and Retry-After handling
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    ProviderRequestError,
+    parseRetryAfter,
+    getRetryAfterMs,
+    classifyProviderError,
+    isRequestError,
+    getRetryErrorClass,
+    getRetryDecision,
+    waitForRetry
+} from './retry-policy';
+import type { RetryPolicy } from './retry-policy';
+import { RequestCancelledError } from './cancellation';
+
+describe('retry policy', () => {
+    const policy: RetryPolicy = { maxAttempts: 3, maxDelayMs: 10_000, jitter: 0, retryOn: ['rate_limit', 'timeout', 'server_error'] };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-07-14T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('parseRetryAfter', () => {
+        it('should parse delays in seconds', () => {
+            expect(parseRetryAfter('3')).toBe(3000);
+            expect(parseRetryAfter('0.5')).toBe(500);
+        });
+
+        it('should parse HTTP dates relative to now', () => {
+            expect(parseRetryAfter('Mon, 14 Jul 2025 12:00:30 GMT')).toBe(30_000);
+            expect(parseRetryAfter('Mon, 14 Jul 2025 11:00:00 GMT')).toBe(0);
+        });
+
+        it('should ignore missing and invalid values', () => {
+            expect(parseRetryAfter(null)).toBeUndefined();
+            expect(parseRetryAfter('')).toBeUndefined();
+            expect(parseRetryAfter('soon')).toBeUndefined();
+        });
+    });
+
+    describe('getRetryAfterMs', () => {
+        it('should read the wait of provider request errors and SDK responses', () => {
+            const sdkError = Object.assign(new Error('Too many requests'), { rawResponse: { headers: new Headers({ 'retry-after': '2' }) } });
+
+            expect(getRetryAfterMs(new ProviderRequestError('API request failed: 429', 429, 4000))).toBe(4000);
+            expect(getRetryAfterMs(sdkError)).toBe(2000);
+            expect(getRetryAfterMs(new Error('API request failed: 429'))).toBeUndefined();
+        });
+    });
+
+    describe('classifyProviderError', () => {
+        it('should classify errors by their HTTP status', () => {
+            expect(classifyProviderError(new ProviderRequestError('failed', 429), 'gemini')).toMatchObject({ type: 'rate_limit_error', statusCode: 429 });
+            expect(classifyProviderError(new ProviderRequestError('failed', 504), 'gemini')).toMatchObject({ code: 'timeout_error' });
+            expect(classifyProviderError(new ProviderRequestError('failed', 503), 'gemini')).toMatchObject({ type: 'server_error', statusCode: 503 });
+            expect(classifyProviderError(new ProviderRequestError('failed', 401), 'gemini')).toMatchObject({ type: 'authentication_error' });
+            expect(classifyProviderError(new ProviderRequestError('failed', 400), 'gemini')).toMatchObject({ type: 'invalid_request_error' });
+        });
+
+        it('should read the status codes of provider SDK errors', () => {
+            const sdkError = Object.assign(new Error('Service unavailable'), { statusCode: 503 });
+            expect(classifyProviderError(sdkError, 'mistral')).toMatchObject({ type: 'server_error', statusCode: 503 });
+        });
+
+        it('should fall back to the error message without a status', () => {
+            expect(classifyProviderError(new Error('Rate limit exceeded'), 'gemini')).toMatchObject({ type: 'rate_limit_error' });
+        });
+    });
+
+    describe('isRequestError', () => {
+        it('should only accept client errors that another key would get too', () => {
+            expect([400, 404, 413, 422].map(status => isRequestError(new ProviderRequestError('failed', status)))).toEqual([true, true, true, true]);
+            expect([401, 403, 408, 429, 500].map(status => isRequestError(new ProviderRequestError('failed', status)))).toEqual([false, false, false, false, false]);
+            expect(isRequestError(new Error('model not found'))).toBe(false);
+        });
+    });
+
+    describe('getRetryErrorClass', () => {
+        it('should only return a class for retryable errors', () => {
+            expect(getRetryErrorClass(classifyProviderError(new ProviderRequestError('failed', 429), 'gemini'))).toBe('rate_limit');
+            expect(getRetryErrorClass(classifyProviderError(new ProviderRequestError('failed', 408), 'gemini'))).toBe('timeout');
+            expect(getRetryErrorClass(classifyProviderError(new ProviderRequestError('failed', 502), 'gemini'))).toBe('server_error');
+            expect(getRetryErrorClass(classifyProviderError(new ProviderRequestError('failed', 403), 'gemini'))).toBeUndefined();
+        });
+    });
+
+    describe('getRetryDecision', () => {
+        const rateLimited = new ProviderRequestError('API request failed: 429', 429);
+
+        it('should back off exponentially with getRetryDelay', () => {
+            expect(getRetryDecision(policy, rateLimited, 'gemini', 1)).toBe(1000);
+            expect(getRetryDecision(policy, rateLimited, 'gemini', 2)).toBe(2000);
+        });
+
+        it('should cap backoff delays at maxDelayMs', () => {
+            expect(getRetryDecision({ ...policy, maxAttempts: 10 }, rateLimited, 'gemini', 6)).toBe(10_000);
+        });
+
+        it('should stop once maxAttempts is reached', () => {
+            expect(getRetryDecision(policy, rateLimited, 'gemini', 3)).toBeUndefined();
+        });
+
+        it('should only retry the configured error classes', () => {
+            const serverError = new ProviderRequestError('API request failed: 500', 500);
+
+            expect(getRetryDecision({ ...policy, retryOn: ['rate_limit'] }, serverError, 'gemini', 1)).toBeUndefined();
+            expect(getRetryDecision(policy, new ProviderRequestError('API request failed: 400', 400), 'gemini', 1)).toBeUndefined();
+        });
+
+        it('should shorten delays by up to the jitter fraction', () => {
+            expect(getRetryDecision({ ...policy, jitter: 0.5 }, rateLimited, 'gemini', 1, () => 0)).toBe(1000);
+            expect(getRetryDecision({ ...policy, jitter: 0.5 }, rateLimited, 'gemini', 1, () => 0.5)).toBe(750);
+        });
+
+        it('should wait at least as long as Retry-After asks', () => {
+            const withRetryAfter = new ProviderRequestError('API request failed: 429', 429, 4000);
+
+            expect(getRetryDecision(policy, withRetryAfter, 'gemini', 1)).toBe(4000);
+            expect(getRetryDecision({ ...policy, maxDelayMs: 3000 }, withRetryAfter, 'gemini', 1)).toBeUndefined();
+        });
+    });
+
+    describe('waitForRetry', () => {
+        it('should resolve after the delay', async () => {
+            const wait = vi.fn();
+            waitForRetry(1000).then(wait);
+
+            await vi.advanceTimersByTimeAsync(999);
+            expect(wait).not.toHaveBeenCalled();
+            await vi.advanceTimersByTimeAsync(1);
+            expect(wait).toHaveBeenCalled();
+        });
+
+        it('should reject with the cancellation error when the signal aborts', async () => {
+            const controller = new AbortController();
+            const wait = waitForRetry(1000, controller.signal);
+
+            controller.abort(new RequestCancelledError('Client closed the connection'));
+
+            await expect(wait).rejects.toThrow(new RequestCancelledError('Client closed the connection'));
+            await expect(waitForRetry(1000, controller.signal)).rejects.toBeInstanceOf(RequestCancelledError);
+        });
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * @file retry-policy.ts
+ * @description Retries of failed provider calls with backoff. Whether an error is worth
+ * retrying and how long to wait come from isRetryableError and getRetryDelay; the policy
+ * bounds the attempts and the wait, adds jitter, selects the retried error classes and
+ * defers to a provider's Retry-After header.
+ */
+
+import { ApiError } from './types';
+import { ErrorTransformer, isRetryableError, getRetryDelay } from './errors';
+import { getCancellationError } from './cancellation';
+
+/**
+ * Kinds of retryable errors, each of which can be switched on or off
+ */
+export type RetryErrorClass = 'rate_limit' | 'timeout' | 'server_error';
+
+export const RETRY_ERROR_CLASSES: RetryErrorClass[] = ['rate_limit', 'timeout', 'server_error'];
+
+/**
+ * How failed provider calls are retried. A retry is another pass over the keys that
+ * failed with a retryable error, after a delay.
+ */
+export interface RetryPolicy {
+    /** Passes over the provider's keys, including the first; 1 disables retries */
+    maxAttempts: number;
+    /** Upper bound of a backoff delay; a provider asking for a longer wait ends the retries */
+    maxDelayMs: number;
+    /** Fraction of each backoff delay that is randomized, between 0 and 1 */
+    jitter: number;
+    /** Error classes that are retried */
+    retryOn: RetryErrorClass[];
+}
+
+/**
+ * Raised for an unsuccessful HTTP response from a provider
+ */
+export class ProviderRequestError extends Error {
+    /**
+     * @param message - Description including the status and response body
+     * @param status - HTTP status code
+     * @param retryAfterMs - Wait requested by the provider's Retry-After header, if any
+     */
+    constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ProviderRequestError';
+    }
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Delay in seconds or an HTTP date
+ * @param now - Current epoch milliseconds, for HTTP dates
+ * @returns Milliseconds to wait, or undefined when the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value?.trim()) {
+        return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+        return Math.round(parseFloat(value) * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * HTTP status of a provider error, as reported by fetch helpers or provider SDKs
+ */
+export function getErrorStatus(error: any): number | undefined {
+    const status = error?.status ?? error?.statusCode ?? error?.httpResponse?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether the provider rejected the request itself, e.g. for an unknown model, invalid
+ * parameters or an oversized prompt. Any other key would be rejected the same way, so such
+ * errors say nothing about the key or the provider's health.
+ * @param error - Error thrown by a provider adapter
+ */
+export function isRequestError(error: unknown): boolean {
+    const status = getErrorStatus(error);
+    return status !== undefined && status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status);
+}
+
+/**
+ * Wait requested by the provider for a failed call
+ * @param error - Error thrown by a provider adapter
+ * @returns Milliseconds from the Retry-After header, or undefined when the provider sent none
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    const err = error as any;
+    if (typeof err?.retryAfterMs === 'number') {
+        return err.retryAfterMs;
+    }
+    // The Mistral and Cohere SDKs keep the HTTP response on their errors
+    const headers = err?.rawResponse?.headers;
+    return typeof headers?.get === 'function' ? parseRetryAfter(headers.get('retry-after')) : undefined;
+}
+
+/**
+ * Describe a provider error as an ApiError, using its HTTP status when known
+ * @param error - Error thrown by a provider adapter
+ * @param provider - Provider that was called
+ */
+export function classifyProviderError(error: Error, provider: string): ApiError {
+    const status = getErrorStatus(error);
+    if (status === undefined) {
+        return ErrorTransformer.fromGenericError(error, { provider });
+    }
+
+    const details = { provider, lastError: error.message, timestamp: new Date().toISOString() };
+    if (status === 429) {
+        return ApiError.rateLimit(provider);
+    }
+    if (status === 408 || status === 504) {
+        return new ApiError(error.message, 'api_error', 'timeout_error', status, details);
+    }
+    if (status === 401 || status === 403) {
+        return ApiError.authentication(error.message, provider);
+    }
+    if (status >= 500) {
+        return new ApiError(error.message, 'server_error', 'provider_error', status, details);
+    }
+    return new ApiError(error.message, 'invalid_request_error', 'provider_error', status, details);
+}
+
+/**
+ * Retryable class of an error
+ * @returns The class, or undefined when isRetryableError rejects the error
+ */
+export function getRetryErrorClass(error: ApiError): RetryErrorClass | undefined {
+    if (!isRetryableError(error)) {
+        return undefined;
+    }
+    if (error.type === 'rate_limit_error') {
+        return 'rate_limit';
+    }
+    return error.code === 'timeout_error' ? 'timeout' : 'server_error';
+}
+
+/**
+ * Decide whether a failed call is retried and after how long
+ * @param policy - Retry policy of the provider
+ * @param error - Error thrown by the provider adapter
+ * @param provider - Provider that was called
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param random - Source of jitter, returning values in [0, 1)
+ * @returns Milliseconds to wait before the next attempt, or undefined when the call is not retried
+ */
+export function getRetryDecision(
+    policy: RetryPolicy,
+    error: Error,
+    provider: string,
+    attempt: number,
+    random: () => number = Math.random
+): number | undefined {
+    if (attempt >= policy.maxAttempts) {
+        return undefined;
+    }
+    const apiError = classifyProviderError(error, provider);
+    const errorClass = getRetryErrorClass(apiError);
+    if (!errorClass || !policy.retryOn.includes(errorClass)) {
+        return undefined;
+    }
+
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+        return undefined;
+    }
+    const backoffMs = Math.min(getRetryDelay(apiError, attempt - 1), policy.maxDelayMs);
+    const jitteredMs = Math.round(backoffMs * (1 - policy.jitter * random()));
+    return Math.max(jitteredMs, retryAfterMs ?? 0);
+}
+
+/**
+ * Wait before a retry
+ * @param ms - Milliseconds to wait
+ * @param signal - Cancels the wait
+ * @throws RequestCancelledError when the signal aborts
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(getCancellationError(signal));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(getCancellationError(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -3,9 +3,10 @@
  * @description Integration tests for the actual Express server endpoints
  */
 
-import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import type { ChatCompletionRequest, ChatCompletionResponse } from './types';
+import { ApiError } from './types';
 
 // Set test environment before importing server
 process.env.NODE_ENV = 'test';
@@ -13,10 +14,33 @@ process.env.NODE_ENV = 'test';
 // Mock the LlmManager class and its static properties
 vi.mock('./llm_rotation', async () => {
     const actual = await vi.importActual('./llm_rotation') as any;
+    const { fingerprintApiKey } = await vi.importActual('./key-state-store') as any;
     
+    // Fingerprints of the keys last applied with syncApiKeys
+    const keyFingerprints: Record<string, string[]> = {};
     const mockGenerateResponse = vi.fn();
+    const mockGenerateResponseStream = vi.fn();
     const mockLlmManagerInstance = {
         generateResponse: mockGenerateResponse,
+        generateResponseStream: mockGenerateResponseStream,
+        generateEmbeddings: vi.fn(async (input: string | string[]) => ({
+            embeddings: (Array.isArray(input) ? input : [input]).map(() => [0.25, -0.5])
+        })),
+        getKeyCooldowns: vi.fn().mockReturnValue([]),
+        getCircuitStates: vi.fn().mockReturnValue([]),
+        getKeyStats: vi.fn().mockReturnValue([
+            { lastUsed: new Date('2025-07-14T00:00:00Z'), successCount: 3, failureCount: 1, lastError: 'API request failed: 429', latencyMs: { p50: 120, p90: 300, p99: 300 } }
+        ]),
+        getLastRotation: vi.fn().mockReturnValue(new Date('2025-07-14T00:00:00Z')),
+        getRotationCount: vi.fn().mockReturnValue(5),
+        syncApiKeys: vi.fn((provider: string, apiKeys: Record<string, string | string[]>) => {
+            keyFingerprints[provider] = [apiKeys[provider] ?? []].flat().map(fingerprintApiKey);
+        }),
+        getKeyFingerprints: vi.fn((provider: string) => keyFingerprints[provider] ?? []),
+        disableApiKey: vi.fn((provider: string, fingerprint: string) => keyFingerprints[provider]?.includes(fingerprint) ?? false),
+        enableApiKey: vi.fn((provider: string, fingerprint: string) => keyFingerprints[provider]?.includes(fingerprint) ?? false),
+        resetApiKey: vi.fn((provider: string, fingerprint: string) => keyFingerprints[provider]?.includes(fingerprint) ?? false),
+        resetApiKeys: vi.fn(),
         apiKeyStatus: {
             gemini: ['working'],
             openrouter: ['working']
@@ -30,35 +54,77 @@ vi.mock('./llm_rotation', async () => {
     const MockLlmManager = vi.fn().mockImplementation(() => mockLlmManagerInstance);
     MockLlmManager.modelConfigurations = {
         gemini: [
-            { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro' },
-            { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash' }
+            { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', vision: true },
+            { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', contextWindow: 64 }
         ],
         openrouter: [
             { id: 'gpt-4', name: 'GPT-4' },
             { id: 'claude-3-opus', name: 'Claude 3 Opus' }
         ]
     };
-    
+    // Provider detection and config parsing read the real adapter registry
+    MockLlmManager.embeddingModelConfigurations = {
+        gemini: [{ id: 'text-embedding-004', name: 'Text Embedding 004' }],
+        huggingface: [{ id: 'sentence-transformers/all-MiniLM-L6-v2', name: 'all-MiniLM-L6-v2' }]
+    };
+    MockLlmManager.getRegisteredProviders = () => actual.LlmManager.getRegisteredProviders();
+    MockLlmManager.getProviderAdapter = (provider: string) => actual.LlmManager.getProviderAdapter(provider);
+
     return {
         ...actual,
         LlmManager: MockLlmManager
     };
 });
 
+// Record the server's spans in memory
+vi.mock('./tracing', async () => {
+    const actual = await vi.importActual('./tracing') as any;
+    const spanExporter = new actual.InMemorySpanExporter();
+    class RecordingTracer extends actual.Tracer {
+        constructor(options: any) {
+            super({ ...options, exporters: [spanExporter] });
+        }
+    }
+    return { ...actual, Tracer: RecordingTracer, spanExporter };
+});
+
 // Import server after mocking
 import app from './server';
 import { LlmManager } from './llm_rotation';
+import * as tracing from './tracing';
+import type { InMemorySpanExporter } from './tracing';
+import { fingerprintApiKey } from './key-state-store';
+
+/**
+ * Read the value of one series from a /metrics response; 0 when the series is absent
+ */
+function getMetricValue(text: string, series: string): number {
+    const line = text.split('\n').find(line => line.startsWith(`${series} `));
+    return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+/**
+ * Parse an SSE response body into its data payloads
+ */
+function parseSseEvents(text: string): string[] {
+    return text
+        .split('\n\n')
+        .filter(event => event.startsWith('data: '))
+        .map(event => event.slice('data: '.length));
+}
 
 describe('Server Integration Tests', () => {
     let mockGenerateResponse: any;
+    let mockGenerateResponseStream: any;
 
     beforeAll(() => {
         // Get the mock function from the mocked LlmManager instance
         const mockInstance = new (LlmManager as any)();
         mockGenerateResponse = mockInstance.generateResponse;
+        mockGenerateResponseStream = mockInstance.generateResponseStream;
         
         // Setup default mock response
-        mockGenerateResponse.mockResolvedValue('This is a test response from the LlmManager.');
+        mockGenerateResponse.mockResolvedValue({ content: 'This is a test response from the LlmManager.' });
     });
 
     describe('POST /v1/chat/completions', () => {
@@ -90,6 +156,8 @@ describe('Server Integration Tests', () => {
                 expect(body.usage).toHaveProperty('prompt_tokens');
                 expect(body.usage).toHaveProperty('completion_tokens');
                 expect(body.usage).toHaveProperty('total_tokens');
+                expect(body.provider).toBe('gemini');
+                expect(response.headers['x-llm-provider']).toBe('gemini');
 
                 // Verify LlmManager was called correctly
                 expect(mockGenerateResponse).toHaveBeenCalledWith(
@@ -380,7 +448,7 @@ describe('Server Integration Tests', () => {
 
             it('should transform LlmManager response correctly', async () => {
                 const customResponse = 'Custom test response from LlmManager';
-                mockGenerateResponse.mockResolvedValueOnce(customResponse);
+                mockGenerateResponse.mockResolvedValueOnce({ content: customResponse });
 
                 const response = await request(app)
                     .post('/v1/chat/completions')
@@ -393,6 +461,668 @@ describe('Server Integration Tests', () => {
                 const body: ChatCompletionResponse = response.body;
                 expect(body.choices[0].message.content).toBe(customResponse);
             });
+
+            it('should report provider token usage instead of estimates', async () => {
+                mockGenerateResponse.mockResolvedValueOnce({
+                    content: 'Counted',
+                    usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 }
+                });
+
+                const response = await request(app)
+                    .post('/v1/chat/completions')
+                    .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Test message' }] })
+                    .expect(200);
+
+                expect(response.body.usage).toEqual({ prompt_tokens: 9, completion_tokens: 2, total_tokens: 11, estimated: false });
+            });
+        });
+    });
+
+    describe('Cancellation', () => {
+        it('should abort the upstream call when the client disconnects', async () => {
+            let upstreamSignal: AbortSignal | undefined;
+            mockGenerateResponse.mockImplementationOnce((_messages: any, settings: any) => new Promise((_resolve, reject) => {
+                upstreamSignal = settings.signal;
+                settings.signal.addEventListener('abort', () => reject(settings.signal.reason));
+            }));
+
+            await expect(request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Take your time' }] })
+                .timeout(100)).rejects.toThrow();
+
+            await vi.waitFor(() => expect(upstreamSignal?.aborted).toBe(true));
+            expect(upstreamSignal?.reason.message).toBe('Client closed the connection');
+        });
+    });
+
+    describe('Logging', () => {
+        it('should log errors as JSON lines with the requestId and without configured keys', async () => {
+            const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+            mockGenerateResponse.mockRejectedValueOnce(new Error('Upstream rejected test-gemini-key'));
+
+            try {
+                await request(app)
+                    .post('/v1/chat/completions')
+                    .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] });
+
+                const entry = JSON.parse(consoleError.mock.calls.at(-1)![0]);
+                expect(entry).toMatchObject({ level: 'error', msg: 'API error', requestId: expect.stringMatching(/^req_/) });
+                expect(consoleError.mock.calls.flat().join('\n')).not.toContain('test-gemini-key');
+            } finally {
+                consoleError.mockRestore();
+            }
+        });
+    });
+
+    describe('Tracing', () => {
+        const spanExporter = (tracing as any).spanExporter as InMemorySpanExporter;
+        const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+        beforeEach(() => {
+            spanExporter.reset();
+        });
+
+        it('should continue the trace of an incoming traceparent header', async () => {
+            await request(app)
+                .post('/v1/chat/completions')
+                .set('traceparent', traceparent)
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(200);
+
+            const requestSpan = spanExporter.getFinishedSpans().find(span => span.kind === 'server')!;
+            expect(requestSpan).toMatchObject({
+                name: 'POST /v1/chat/completions',
+                traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                parentSpanId: '00f067aa0ba902b7',
+                attributes: {
+                    'http.route': '/v1/chat/completions',
+                    'http.response.status_code': 200,
+                    'llm.provider': 'gemini',
+                    'gen_ai.usage.input_tokens': expect.any(Number)
+                }
+            });
+            expect(mockGenerateResponse).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+                traceContext: { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: requestSpan.spanId, sampled: true }
+            }));
+        });
+
+        it('should record validation and provider detection under the request span', async () => {
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(200);
+
+            const spans = spanExporter.getFinishedSpans();
+            const requestSpan = spans.find(span => span.kind === 'server')!;
+            expect(requestSpan.parentSpanId).toBeUndefined();
+            expect(spans.find(span => span.name === 'validate request')).toMatchObject({
+                parentSpanId: requestSpan.spanId,
+                status: { code: 'ok' },
+                attributes: { 'validation.error_count': 0 }
+            });
+            expect(spans.find(span => span.name === 'detect provider')).toMatchObject({
+                parentSpanId: requestSpan.spanId,
+                attributes: { 'llm.model': 'gemini-1.5-pro', 'llm.provider': 'gemini', 'llm.detection_reason': 'exact_match' }
+            });
+        });
+
+        it('should mark failed validation and server errors on their spans', async () => {
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro' })
+                .expect(400);
+            mockGenerateResponse.mockRejectedValueOnce(new Error('Internal failure'));
+            vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(500);
+
+            const spans = spanExporter.getFinishedSpans();
+            expect(spans.find(span => span.name === 'validate request')).toMatchObject({ status: { code: 'error' } });
+            expect(spans.filter(span => span.kind === 'server').map(span => span.status.code)).toEqual(['unset', 'error']);
+        });
+    });
+
+    describe('Streaming chat completions', () => {
+        it('should stream chunks as server-sent events ending with [DONE]', async () => {
+            mockGenerateResponseStream.mockImplementationOnce(async function* () {
+                yield 'Hello';
+                yield ', world';
+            });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-pro',
+                    messages: [{ role: 'user', content: 'Say hello' }],
+                    stream: true
+                })
+                .expect(200);
+
+            expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+
+            const events = parseSseEvents(response.text);
+            expect(events[events.length - 1]).toBe('[DONE]');
+
+            const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+            expect(chunks.every(chunk => chunk.object === 'chat.completion.chunk')).toBe(true);
+            expect(chunks.every(chunk => chunk.model === 'gemini-1.5-pro')).toBe(true);
+            expect(chunks[0].choices[0].delta.role).toBe('assistant');
+
+            const content = chunks.map(chunk => chunk.choices[0].delta.content || '').join('');
+            expect(content).toBe('Hello, world');
+            expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('stop');
+
+            expect(mockGenerateResponseStream).toHaveBeenCalledWith(
+                [{ role: 'user', content: 'Say hello' }],
+                expect.objectContaining({ provider: 'gemini', model: 'gemini-1.5-pro' })
+            );
+        });
+
+        it('should report the provider stop reason as the finish_reason of the last chunk', async () => {
+            mockGenerateResponseStream.mockImplementationOnce(async function* () {
+                yield 'Once upon';
+                return 'MAX_TOKENS';
+            });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-pro',
+                    messages: [{ role: 'user', content: 'Tell a story' }],
+                    stream: true
+                })
+                .expect(200);
+
+            const chunks = parseSseEvents(response.text).slice(0, -1).map(event => JSON.parse(event));
+            expect(chunks.map(chunk => chunk.choices[0].finish_reason)).toEqual([null, null, 'length']);
+        });
+
+        it('should return a JSON error when the stream fails before the first chunk', async () => {
+            mockGenerateResponseStream.mockImplementationOnce(async function* () {
+                throw new Error('All Gemini API keys failed. Last error: 401 unauthorized');
+            });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-pro',
+                    messages: [{ role: 'user', content: 'Say hello' }],
+                    stream: true
+                });
+
+            expect(response.status).toBeGreaterThanOrEqual(400);
+            expect(response.headers['content-type']).toMatch(/json/);
+        });
+
+        it('should report mid-stream failures in-band and still terminate the stream', async () => {
+            mockGenerateResponseStream.mockImplementationOnce(async function* () {
+                yield 'partial';
+                throw new Error('connection reset');
+            });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-pro',
+                    messages: [{ role: 'user', content: 'Say hello' }],
+                    stream: true
+                })
+                .expect(200);
+
+            const events = parseSseEvents(response.text);
+            expect(events[events.length - 1]).toBe('[DONE]');
+            const errorEvent = JSON.parse(events[events.length - 2]);
+            expect(errorEvent).toHaveProperty('error');
+        });
+
+        it('should cancel a stalled stream on timeout and report the timeout in-band', async () => {
+            let signal: AbortSignal | undefined;
+            mockGenerateResponseStream.mockImplementationOnce(async function* (_messages: unknown, options: { signal: AbortSignal }) {
+                signal = options.signal;
+                yield 'partial';
+                // The provider stalls until its call is cancelled, and the request times out meanwhile
+                const cancelled = new Promise((_resolve, reject) => {
+                    options.signal.addEventListener('abort', () => reject(options.signal.reason));
+                });
+                vi.advanceTimersByTime(30000);
+                await cancelled;
+            });
+
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            try {
+                const response = await request(app)
+                    .post('/v1/chat/completions')
+                    .send({
+                        model: 'gemini-1.5-pro',
+                        messages: [{ role: 'user', content: 'Say hello' }],
+                        stream: true
+                    })
+                    .expect(200);
+
+                expect(signal?.aborted).toBe(true);
+                const events = parseSseEvents(response.text);
+                expect(events[events.length - 1]).toBe('[DONE]');
+                const chunks = events.slice(0, -2).map(event => JSON.parse(event));
+                expect(chunks.map(chunk => chunk.choices[0].delta.content).join('')).toBe('partial');
+                expect(JSON.parse(events[events.length - 2]).error.code).toBe('timeout_error');
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('Tool calling', () => {
+        const weatherTool = {
+            type: 'function' as const,
+            function: {
+                name: 'get_weather',
+                description: 'Current weather for a city',
+                parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+            }
+        };
+        const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{"city":"Paris"}' } };
+
+        it('should pass tools to LlmManager and return tool calls', async () => {
+            mockGenerateResponse.mockResolvedValueOnce({ content: null, toolCalls: [toolCall] });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Weather in Paris?' }],
+                    tools: [weatherTool],
+                    tool_choice: 'auto'
+                })
+                .expect(200);
+
+            expect(response.body.choices[0].message).toEqual({ role: 'assistant', content: null, tool_calls: [toolCall] });
+            expect(response.body.choices[0].finish_reason).toBe('tool_calls');
+            expect(mockGenerateResponse).toHaveBeenCalledWith(
+                expect.any(Array),
+                expect.objectContaining({ provider: 'openrouter', tools: [weatherTool], toolChoice: 'auto' })
+            );
+        });
+
+        it('should accept assistant tool calls and tool results in the conversation', async () => {
+            const messages = [
+                { role: 'user', content: 'Weather in Paris?' },
+                { role: 'assistant', content: null, tool_calls: [toolCall] },
+                { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":21}' }
+            ];
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gpt-4', messages, tools: [weatherTool] })
+                .expect(200);
+
+            expect(response.body.choices[0].finish_reason).toBe('stop');
+            expect(mockGenerateResponse).toHaveBeenCalledWith(messages, expect.anything());
+        });
+
+        it('should stream tool calls as a tool_calls delta', async () => {
+            mockGenerateResponse.mockResolvedValueOnce({ content: null, toolCalls: [toolCall] });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Weather in Paris?' }],
+                    tools: [weatherTool],
+                    stream: true
+                })
+                .expect(200);
+
+            const events = parseSseEvents(response.text);
+            expect(events[events.length - 1]).toBe('[DONE]');
+            const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+            expect(chunks[1].choices[0].delta.tool_calls).toEqual([{ index: 0, ...toolCall }]);
+            expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('tool_calls');
+        });
+
+        it('should return 400 for tool_choice naming an unknown function', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Weather in Paris?' }],
+                    tools: [weatherTool],
+                    tool_choice: { type: 'function', function: { name: 'get_time' } }
+                })
+                .expect(400);
+
+            expect(response.body.error.message).toContain('Invalid tools configuration');
+        });
+
+        it('should return 400 when the provider does not support tools', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'meta-llama/Llama-3.3-70B-Instruct',
+                    messages: [{ role: 'user', content: 'Weather in Paris?' }],
+                    tools: [weatherTool]
+                })
+                .expect(400);
+
+            expect(response.body.error.message).toContain('does not support tool calling');
+        });
+    });
+
+    describe('Generation parameters', () => {
+        it('should pass generation parameters to LlmManager and return every choice', async () => {
+            mockGenerateResponse.mockResolvedValueOnce({ content: '{"a":1}', alternatives: [{ content: '{"a":2}', finishReason: 'length' }] });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Give me JSON' }],
+                    stop: 'END',
+                    presence_penalty: 0.5,
+                    seed: 7,
+                    n: 2,
+                    response_format: { type: 'json_object' },
+                    user: 'user-1'
+                })
+                .expect(200);
+
+            expect(response.body.choices.map((choice: any) => [choice.index, choice.message.content, choice.finish_reason])).toEqual([
+                [0, '{"a":1}', 'stop'],
+                [1, '{"a":2}', 'length']
+            ]);
+            expect(mockGenerateResponse).toHaveBeenLastCalledWith(
+                expect.any(Array),
+                expect.objectContaining({ stop: ['END'], presencePenalty: 0.5, seed: 7, n: 2, responseFormat: { type: 'json_object' }, user: 'user-1' })
+            );
+        });
+
+        it('should return 400 when the provider does not support a parameter', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'meta-llama/Llama-3.3-70B-Instruct',
+                    messages: [{ role: 'user', content: 'Hello' }],
+                    logit_bias: { '1234': -100 }
+                })
+                .expect(400);
+
+            expect(response.body.error.message).toBe('Provider huggingface does not support logit_bias');
+            expect(response.body.error.details.fieldErrors.logit_bias).toBeDefined();
+        });
+
+        it('should retry invalid JSON for a json_schema response format', async () => {
+            mockGenerateResponse
+                .mockResolvedValueOnce({ content: 'Here you go: {"name": "Ada"' })
+                .mockResolvedValueOnce({ content: '```json\n{"name":"Ada"}\n```' });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Who wrote the first program?' }],
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: { name: 'person', schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } }
+                    }
+                })
+                .expect(200);
+
+            expect(response.body.choices[0].message.content).toBe('{"name":"Ada"}');
+        });
+
+        it('should return json_validation_failed when every attempt is invalid', async () => {
+            mockGenerateResponse
+                .mockResolvedValueOnce({ content: '[]' })
+                .mockResolvedValueOnce({ content: 'no JSON here' });
+
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Give me JSON' }],
+                    response_format: { type: 'json_object' }
+                })
+                .expect(502);
+
+            expect(response.body.error.code).toBe('json_validation_failed');
+            expect(response.body.error.message).toContain('after 2 attempts');
+        });
+
+        it('should return 400 for invalid parameter values', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gpt-4',
+                    messages: [{ role: 'user', content: 'Hello' }],
+                    frequency_penalty: 3,
+                    n: 2,
+                    stream: true
+                })
+                .expect(400);
+
+            expect(response.body.error.message).toContain('Invalid generation parameters');
+        });
+    });
+
+    describe('Rate limiting', () => {
+        const admin = { Authorization: 'Bearer test-admin-key' };
+        const chat = { model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hi' }] };
+
+        /**
+         * Run a test with virtual keys issued for it, revoking them afterwards so that /v1 is open again
+         */
+        async function withVirtualKeys(labels: string[], run: (...keys: string[]) => Promise<void>): Promise<void> {
+            const created = await Promise.all(labels.map(label => request(app).post('/admin/keys').set(admin).send({ label }).expect(201)));
+            try {
+                await run(...created.map(response => response.body.key));
+            } finally {
+                await Promise.all(created.map(response => request(app).delete(`/admin/keys/${response.body.id}`).set(admin).expect(200)));
+            }
+        }
+
+        it('should report the remaining allowance', async () => {
+            await withVirtualKeys(['client-with-allowance'], async key => {
+                const response = await request(app)
+                    .post('/v1/chat/completions')
+                    .set('Authorization', `Bearer ${key}`)
+                    .send(chat)
+                    .expect(200);
+
+                expect(response.headers['x-ratelimit-limit-requests']).toBe('1000');
+                expect(response.headers['x-ratelimit-remaining-requests']).toBe('999');
+                expect(response.headers['x-ratelimit-reset-requests']).toBe('60s');
+                expect(Number(response.headers['x-ratelimit-remaining-tokens'])).toBe(1000000);
+            });
+        });
+
+        it('should reject clients that used up their daily tokens', async () => {
+            await withVirtualKeys(['client-over-quota', 'another-client'], async (overQuota, another) => {
+                mockGenerateResponse.mockResolvedValueOnce({
+                    content: 'A very long answer',
+                    usage: { promptTokens: 400000, completionTokens: 600000, totalTokens: 1000000 }
+                });
+                const send = () => request(app)
+                    .post('/v1/chat/completions')
+                    .set('Authorization', `Bearer ${overQuota}`)
+                    .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Write a book' }] });
+
+                await send().expect(200);
+                const response = await send().expect(429);
+
+                expect(response.body.error).toMatchObject({ type: 'rate_limit_error', code: 'insufficient_quota' });
+                expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+                expect(response.headers['x-ratelimit-remaining-tokens']).toBe('0');
+
+                // Other clients keep their own allowance
+                await request(app)
+                    .post('/v1/chat/completions')
+                    .set('Authorization', `Bearer ${another}`)
+                    .send(chat)
+                    .expect(200);
+            });
+        });
+
+        it('should count unauthenticated bearer tokens from one address as one client', async () => {
+            const send = (token: string) => request(app)
+                .post('/v1/chat/completions')
+                .set('Authorization', `Bearer ${token}`)
+                .send(chat)
+                .expect(200);
+
+            const first = await send('random-token-1');
+            const second = await send('random-token-2');
+
+            expect(Number(second.headers['x-ratelimit-remaining-requests']))
+                .toBe(Number(first.headers['x-ratelimit-remaining-requests']) - 1);
+        });
+    });
+
+    describe('Token counting', () => {
+        it('should tokenize input with the model family vocabulary', async () => {
+            const response = await request(app)
+                .post('/v1/tokenize')
+                .send({ model: 'gpt-4', input: 'Hello world' })
+                .expect(200);
+
+            expect(response.body).toEqual({
+                object: 'tokenize',
+                model: 'gpt-4',
+                encoding: 'cl100k_base',
+                count: 2,
+                tokens: [9906, 1917]
+            });
+        });
+
+        it('should count messages and report the context window', async () => {
+            const response = await request(app)
+                .post('/v1/tokenize')
+                .send({ model: 'gemini-1.5-flash', messages: [{ role: 'user', content: 'Hello!' }] })
+                .expect(200);
+
+            expect(response.body.count).toBe(3 + 1 + 2 + 3);
+            expect(response.body.context_window).toBe(64);
+            expect(response.body.tokens).toBeUndefined();
+        });
+
+        it('should require exactly one of input or messages', async () => {
+            const response = await request(app)
+                .post('/v1/tokenize')
+                .send({ model: 'gpt-4' })
+                .expect(400);
+
+            expect(response.body.error.type).toBe('invalid_request_error');
+        });
+
+        it('should reject prompts that exceed the context window', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-flash',
+                    messages: [{ role: 'user', content: 'Hello!' }],
+                    max_tokens: 100
+                })
+                .expect(400);
+
+            expect(response.body.error.code).toBe('context_length_exceeded');
+            expect(response.body.error.message).toContain('maximum context length is 64 tokens');
+        });
+    });
+
+    describe('POST /v1/embeddings', () => {
+        it('should embed a batch of inputs in OpenAI format', async () => {
+            const response = await request(app)
+                .post('/v1/embeddings')
+                .send({ model: 'text-embedding-004', input: ['first', 'second'], dimensions: 2 })
+                .expect(200);
+
+            expect(response.headers['x-llm-provider']).toBe('gemini');
+            expect(response.body.object).toBe('list');
+            expect(response.body.model).toBe('text-embedding-004');
+            expect(response.body.data).toEqual([
+                { object: 'embedding', index: 0, embedding: [0.25, -0.5] },
+                { object: 'embedding', index: 1, embedding: [0.25, -0.5] }
+            ]);
+            expect(response.body.usage.prompt_tokens).toBeGreaterThan(0);
+            expect(new (LlmManager as any)().generateEmbeddings).toHaveBeenCalledWith(
+                ['first', 'second'],
+                expect.objectContaining({ provider: 'gemini', model: 'text-embedding-004', dimensions: 2 })
+            );
+        });
+
+        it('should return base64 vectors when requested', async () => {
+            const response = await request(app)
+                .post('/v1/embeddings')
+                .send({ model: 'text-embedding-004', input: 'hello', encoding_format: 'base64' })
+                .expect(200);
+
+            const bytes = Buffer.from(response.body.data[0].embedding, 'base64');
+            expect(Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, 2))).toEqual([0.25, -0.5]);
+        });
+
+        it('should return 400 for models that are not embedding models', async () => {
+            const response = await request(app)
+                .post('/v1/embeddings')
+                .send({ model: 'gemini-1.5-pro', input: 'hello' })
+                .expect(400);
+
+            expect(response.body.error.code).toBe('model_not_found');
+        });
+
+        it('should return 400 for invalid input or unsupported dimensions', async () => {
+            const invalid = await request(app)
+                .post('/v1/embeddings')
+                .send({ model: 'text-embedding-004', input: [] })
+                .expect(400);
+            expect(invalid.body.error.type).toBe('invalid_request_error');
+
+            const dimensions = await request(app)
+                .post('/v1/embeddings')
+                .send({ model: 'sentence-transformers/all-MiniLM-L6-v2', input: 'hello', dimensions: 128 })
+                .expect(400);
+            expect(dimensions.body.error.message).toContain('does not support custom dimensions');
+        });
+    });
+
+    describe('Image input', () => {
+        const imageMessages = [{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'What is in this picture?' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+            ]
+        }];
+
+        it('should pass content parts through to vision-capable models', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: imageMessages })
+                .expect(200);
+
+            expect(response.body.choices[0].message.content).toBe('This is a test response from the LlmManager.');
+            expect(mockGenerateResponse).toHaveBeenCalledWith(imageMessages, expect.objectContaining({ provider: 'gemini' }));
+        });
+
+        it('should return 400 when the model is not vision-capable', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-flash', messages: imageMessages })
+                .expect(400);
+
+            expect(response.body.error.message).toContain('does not support image input');
+        });
+
+        it('should return 400 for malformed content parts', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({
+                    model: 'gemini-1.5-pro',
+                    messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'file:///etc/passwd' } }] }]
+                })
+                .expect(400);
+
+            expect(response.body.error.type).toBe('invalid_request_error');
         });
     });
 
@@ -474,6 +1204,172 @@ describe('Server Integration Tests', () => {
         });
     });
 
+    describe('Admin API', () => {
+        const admin = { Authorization: 'Bearer test-admin-key' };
+
+        it('should require the admin key', async () => {
+            const missing = await request(app).get('/admin/keys').expect(401);
+            expect(missing.body.error.type).toBe('authentication_error');
+
+            await request(app).get('/admin/keys').set('Authorization', 'Bearer wrong-key').expect(401);
+        });
+
+        it('should issue, list, update and revoke virtual keys', async () => {
+            const created = await request(app)
+                .post('/admin/keys')
+                .set(admin)
+                .send({ label: 'team-a', allowed_models: ['gemini-*'], expires_at: '2030-01-01T00:00:00Z' })
+                .expect(201);
+
+            expect(created.body).toMatchObject({
+                object: 'virtual_key',
+                label: 'team-a',
+                allowed_models: ['gemini-*'],
+                allowed_providers: null,
+                expires_at: '2030-01-01T00:00:00.000Z'
+            });
+            expect(created.body.key).toMatch(/^sk-llmr-/);
+            expect(created.body.key.startsWith(created.body.key_prefix)).toBe(true);
+
+            const listed = await request(app).get('/admin/keys').set(admin).expect(200);
+            expect(listed.body.data.map((key: any) => key.id)).toContain(created.body.id);
+            expect(JSON.stringify(listed.body)).not.toContain(created.body.key);
+
+            const updated = await request(app)
+                .patch(`/admin/keys/${created.body.id}`)
+                .set(admin)
+                .send({ expires_at: null, allowed_providers: ['gemini'] })
+                .expect(200);
+            expect(updated.body).toMatchObject({ label: 'team-a', allowed_providers: ['gemini'], expires_at: null });
+            expect(updated.body).not.toHaveProperty('key');
+
+            const deleted = await request(app).delete(`/admin/keys/${created.body.id}`).set(admin).expect(200);
+            expect(deleted.body).toEqual({ id: created.body.id, object: 'virtual_key', deleted: true });
+
+            const missing = await request(app).get(`/admin/keys/${created.body.id}`).set(admin).expect(404);
+            expect(missing.body.error.code).toBe('not_found');
+        });
+
+        it('should require the issued keys on /v1 even without a key file', async () => {
+            const chat = { model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hi' }] };
+            await request(app).post('/v1/chat/completions').send(chat).expect(200);
+
+            const created = await request(app).post('/admin/keys').set(admin).send({ label: 'in-memory' }).expect(201);
+            try {
+                const missing = await request(app).post('/v1/chat/completions').send(chat).expect(401);
+                expect(missing.body.error.type).toBe('authentication_error');
+                await request(app).post('/v1/chat/completions').set('Authorization', 'Bearer sk-llmr-made-up').send(chat).expect(401);
+                await request(app).post('/v1/chat/completions').set('Authorization', `Bearer ${created.body.key}`).send(chat).expect(200);
+            } finally {
+                await request(app).delete(`/admin/keys/${created.body.id}`).set(admin).expect(200);
+            }
+
+            await request(app).post('/v1/chat/completions').send(chat).expect(200);
+        });
+
+        it('should validate key settings', async () => {
+            const response = await request(app)
+                .post('/admin/keys')
+                .set(admin)
+                .send({ allowed_models: 'gpt-4' })
+                .expect(400);
+
+            expect(Object.keys(response.body.error.details.fieldErrors)).toEqual(['label', 'allowed_models']);
+        });
+
+        describe('Provider keys', () => {
+            const geminiFingerprint = fingerprintApiKey('test-gemini-key');
+
+            it('should list keys by fingerprint only', async () => {
+                const response = await request(app).get('/admin/providers/gemini/keys').set(admin).expect(200);
+
+                expect(response.body.data).toEqual([{
+                    id: geminiFingerprint,
+                    object: 'provider_key',
+                    provider: 'gemini',
+                    index: 0,
+                    status: 'working',
+                    cooldown_until: null,
+                    consecutive_failures: 0,
+                    success_count: 3,
+                    failure_count: 1,
+                    last_used: '2025-07-14T00:00:00.000Z',
+                    last_error: 'API request failed: 429'
+                }]);
+                expect(JSON.stringify(response.body)).not.toContain('test-gemini-key');
+            });
+
+            it('should add and remove keys on the live manager', async () => {
+                const mockInstance = new (LlmManager as any)();
+                const newFingerprint = fingerprintApiKey('new-gemini-key');
+
+                const created = await request(app).post('/admin/providers/gemini/keys').set(admin).send({ key: ' new-gemini-key ' }).expect(201);
+                expect(created.body).toMatchObject({ id: newFingerprint, object: 'provider_key', provider: 'gemini', index: 1 });
+                expect(JSON.stringify(created.body)).not.toContain('new-gemini-key');
+                expect(mockInstance.syncApiKeys).toHaveBeenCalledWith('gemini', expect.objectContaining({ gemini: ['test-gemini-key', 'new-gemini-key'] }));
+
+                const deleted = await request(app).delete(`/admin/providers/gemini/keys/${newFingerprint}`).set(admin).expect(200);
+                expect(deleted.body).toEqual({ id: newFingerprint, object: 'provider_key', deleted: true });
+                expect(mockInstance.getKeyFingerprints('gemini')).toEqual([geminiFingerprint]);
+
+                await request(app).delete(`/admin/providers/gemini/keys/${newFingerprint}`).set(admin).expect(404);
+            });
+
+            it('should reject duplicate, empty and unknown-provider keys', async () => {
+                const duplicate = await request(app).post('/admin/providers/gemini/keys').set(admin).send({ key: 'test-gemini-key' }).expect(400);
+                expect(duplicate.body.error.details.fieldErrors.key).toBe('key is already configured for gemini');
+
+                await request(app).post('/admin/providers/gemini/keys').set(admin).send({ key: '' }).expect(400);
+                await request(app).post('/admin/providers/gemini/keys').set(admin).send({ key: 'one,two' }).expect(400);
+
+                const unknown = await request(app).post('/admin/providers/unknown/keys').set(admin).send({ key: 'k' }).expect(404);
+                expect(unknown.body.error.message).toBe('Provider unknown not found');
+            });
+
+            it('should disable, enable and reset keys', async () => {
+                const mockInstance = new (LlmManager as any)();
+
+                for (const action of ['disable', 'enable', 'reset']) {
+                    const response = await request(app).post(`/admin/providers/gemini/keys/${geminiFingerprint}/${action}`).set(admin).expect(200);
+                    expect(response.body.id).toBe(geminiFingerprint);
+                }
+                expect(mockInstance.disableApiKey).toHaveBeenCalledWith('gemini', geminiFingerprint);
+                expect(mockInstance.enableApiKey).toHaveBeenCalledWith('gemini', geminiFingerprint);
+                expect(mockInstance.resetApiKey).toHaveBeenCalledWith('gemini', geminiFingerprint);
+
+                const missing = await request(app).post('/admin/providers/gemini/keys/sha256:0000000000000000/disable').set(admin).expect(404);
+                expect(missing.body.error.code).toBe('not_found');
+
+                const reset = await request(app).post('/admin/providers/gemini/keys/reset').set(admin).expect(200);
+                expect(mockInstance.resetApiKeys).toHaveBeenCalledWith('gemini');
+                expect(reset.body.data.map((key: any) => key.id)).toEqual([geminiFingerprint]);
+            });
+
+            it('should require the admin key', async () => {
+                await request(app).get('/admin/providers/gemini/keys').set('Authorization', 'Bearer test-gemini-key').expect(401);
+            });
+        });
+    });
+
+    describe('GET /v1/cache/stats', () => {
+        it('should report a disabled cache', async () => {
+            const response = await request(app)
+                .get('/v1/cache/stats')
+                .expect(200);
+
+            expect(response.body).toEqual({ enabled: false, hits: 0, misses: 0, hit_rate: 0 });
+        });
+
+        it('should not flag responses while the cache is disabled', async () => {
+            const response = await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hi' }], temperature: 0 })
+                .expect(200);
+
+            expect(response.headers['x-cache']).toBeUndefined();
+        });
+    });
+
     describe('GET /health', () => {
         it('should return health status', async () => {
             const response = await request(app)
@@ -486,6 +1382,104 @@ describe('Server Integration Tests', () => {
             expect(response.body).toHaveProperty('uptime');
             expect(response.body).toHaveProperty('memory');
         });
+
+        it('should report circuit breaker states', async () => {
+            const getCircuitStates = new (LlmManager as any)().getCircuitStates;
+            getCircuitStates.mockImplementation((provider: string) => provider === 'openrouter'
+                ? [{ state: 'open', requests: 0, failures: 0, failureRate: 0, openedAt: 0, retryAt: 30000 }]
+                : []);
+
+            try {
+                const response = await request(app)
+                    .get('/health')
+                    .expect(200);
+
+                expect(response.body.status).toBe('ok');
+                expect(response.body.circuits).toEqual({ openrouter: 'open' });
+            } finally {
+                getCircuitStates.mockReturnValue([]);
+            }
+        });
+    });
+
+    describe('GET /metrics', () => {
+        const scrape = async () => (await request(app).get('/metrics').expect(200)).text;
+
+        it('should expose key series in the Prometheus text format', async () => {
+            const response = await request(app)
+                .get('/metrics')
+                .expect(200);
+
+            expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+            expect(response.text).toContain('# TYPE llm_api_key_status gauge');
+            expect(response.text).toContain('llm_api_key_status{provider="gemini",key_index="0",status="working"} 1');
+            expect(response.text).toContain('llm_api_key_status{provider="gemini",key_index="0",status="failed"} 0');
+            expect(response.text).toContain('llm_api_key_requests_total{provider="gemini",key_index="0",result="success"} 3');
+            expect(response.text).toContain('llm_api_key_requests_total{provider="gemini",key_index="0",result="failure"} 1');
+            expect(response.text).toContain('llm_key_rotations_total{provider="openrouter"} 5');
+        });
+
+        it('should count requests, latency and tokens by route, model and provider', async () => {
+            const requests = 'llm_http_requests_total{route="/v1/chat/completions",model="gemini-1.5-pro",provider="gemini",method="POST",status="200"}';
+            const latency = 'llm_http_request_duration_seconds_count{route="/v1/chat/completions",model="gemini-1.5-pro",provider="gemini"}';
+            const promptTokens = 'llm_tokens_total{provider="gemini",model="gemini-1.5-pro",type="prompt"}';
+            const completionTokens = 'llm_tokens_total{provider="gemini",model="gemini-1.5-pro",type="completion"}';
+            const before = await scrape();
+            mockGenerateResponse.mockResolvedValueOnce({ content: 'Hi', usage: { promptTokens: 9, completionTokens: 2 } });
+
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(200);
+
+            const after = await scrape();
+            expect(getMetricValue(after, requests) - getMetricValue(before, requests)).toBe(1);
+            expect(getMetricValue(after, latency) - getMetricValue(before, latency)).toBe(1);
+            expect(getMetricValue(after, promptTokens) - getMetricValue(before, promptTokens)).toBe(9);
+            expect(getMetricValue(after, completionTokens) - getMetricValue(before, completionTokens)).toBe(2);
+        });
+
+        it('should count validation failures and timeouts', async () => {
+            const validation = 'llm_validation_failures_total{route="/v1/chat/completions",code="validation_failed"}';
+            const timeouts = 'llm_request_timeouts_total{route="/v1/chat/completions"}';
+            const before = await scrape();
+            mockGenerateResponse.mockRejectedValueOnce(ApiError.timeout('gemini', 30000));
+
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro' })
+                .expect(400);
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-1.5-pro', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(504);
+
+            const after = await scrape();
+            expect(getMetricValue(after, validation) - getMetricValue(before, validation)).toBe(1);
+            expect(getMetricValue(after, timeouts) - getMetricValue(before, timeouts)).toBe(1);
+        });
+
+        it('should label requests by route pattern and keep unknown models and keys out of labels', async () => {
+            await request(app).get('/admin/keys/vk_123').set('Authorization', 'Bearer test-admin-key').expect(404);
+            await request(app).get('/admin/keys/vk_123').set('Authorization', 'Bearer test-gemini-key').expect(401);
+            await request(app).get('/unknown/path').expect(404);
+            mockGenerateResponse.mockResolvedValueOnce({ content: 'Hi' });
+            await request(app)
+                .post('/v1/chat/completions')
+                .send({ model: 'gemini-experimental-unlisted', messages: [{ role: 'user', content: 'Hello' }] })
+                .expect(200);
+
+            const text = await scrape();
+            expect(text).toContain('llm_http_requests_total{route="/admin/keys/:id",model="",provider="",method="GET",status="404"}');
+            expect(text).toContain('llm_http_requests_total{route="unmatched",model="",provider="",method="GET",status="401"}');
+            expect(text).toContain('llm_http_requests_total{route="unmatched",model="",provider="",method="GET",status="404"}');
+            expect(text).toContain('model="other",provider="gemini"');
+            expect(text).not.toContain('vk_123');
+            expect(text).not.toContain('/unknown/path');
+            expect(text).not.toContain('gemini-experimental-unlisted');
+            expect(text).not.toContain('test-gemini-key');
+            expect(text).not.toContain('test-openrouter-key');
+        });
     });
 
     describe('GET /v1/keys/status', () => {
@@ -553,6 +1547,22 @@ describe('Server Integration Tests', () => {
             expect(keyInfo).not.toHaveProperty('apiKey');
         });
 
+        it('should report per-key usage statistics from LlmManager', async () => {
+            const response = await request(app)
+                .get('/v1/keys/status')
+                .expect(200);
+
+            const geminiProvider = response.body.providers.gemini;
+            expect(geminiProvider.lastRotation).toBe('2025-07-14T00:00:00.000Z');
+
+            const keyInfo = geminiProvider.keys[0];
+            expect(keyInfo.lastUsed).toBe('2025-07-14T00:00:00.000Z');
+            expect(keyInfo.successCount).toBe(3);
+            expect(keyInfo.failureCount).toBe(1);
+            expect(keyInfo.lastError).toBe('API request failed: 429');
+            expect(keyInfo.latencyMs).toEqual({ p50: 120, p90: 300, p99: 300 });
+        });
+
         it('should determine system status correctly based on key health', async () => {
             const response = await request(app)
                 .get('/v1/keys/status')
@@ -584,6 +1594,40 @@ describe('Server Integration Tests', () => {
             }
         });
 
+        it('should include circuit breakers and count keys behind an open circuit as unhealthy', async () => {
+            const getCircuitStates = new (LlmManager as any)().getCircuitStates;
+            getCircuitStates.mockImplementation((provider: string) => provider === 'openrouter'
+                ? [{ state: 'open', requests: 0, failures: 0, failureRate: 0, openedAt: Date.UTC(2025, 6, 14), retryAt: Date.UTC(2025, 6, 14, 0, 0, 30) }]
+                : [{ state: 'half-open', requests: 0, failures: 0, failureRate: 0, openedAt: Date.UTC(2025, 6, 14) }]);
+
+            try {
+                const response = await request(app)
+                    .get('/v1/keys/status')
+                    .expect(200);
+
+                expect(response.body.providers.openrouter.circuits).toEqual([{
+                    state: 'open',
+                    requests: 0,
+                    failures: 0,
+                    failureRate: 0,
+                    openedAt: '2025-07-14T00:00:00.000Z',
+                    retryAt: '2025-07-14T00:00:30.000Z'
+                }]);
+                expect(response.body.providers.gemini.circuits[0].state).toBe('half-open');
+                // One of the two configured keys is usable
+                expect(response.body.systemStatus).toBe('healthy');
+                
+                getCircuitStates.mockReturnValue([{ state: 'open', requests: 0, failures: 0, failureRate: 0 }]);
+                const allOpen = await request(app)
+                    .get('/v1/keys/status')
+                    .expect(200);
+                
+                expect(allOpen.body.systemStatus).toBe('critical');
+            } finally {
+                getCircuitStates.mockReturnValue([]);
+            }
+        });
+
         it('should handle errors gracefully', async () => {
             // Since our implementation is robust and handles null/undefined gracefully,
             // let's test that it returns a proper response even with missing data
@@ -1,18 +1,45 @@
 import express from 'express';
-import { LlmManager } from './llm_rotation';
-import { determineProvider } from './provider-detection';
+import { LlmManager, getUnsupportedParameters, API_KEY_STATUSES } from './llm_rotation';
+import { determineProvider, determineProviderWithDetails, determineEmbeddingProvider, modelSupportsVision, getModelContextWindow } from './provider-detection';
+import { resolveFallbackCandidates, executeWithFallback } from './fallback';
+import { JsonFileKeyStateStore, fingerprintApiKey } from './key-state-store';
+import type { FallbackCandidate } from './fallback';
 import { loadConfiguration, validateConfiguration, getConfigSummary } from './config';
 import { ErrorTransformer, ErrorResponseFormatter, ValidationErrorHandler } from './errors';
-import { transformRequest, transformResponse, estimateTokens } from './transformations';
+import { transformRequest, GENERATION_PARAMETER_FIELDS, transformResponse, createStreamingTransformer, createToolCallsDelta, formatSseEvent, estimateTokens, estimateTokensWithRoles, hasImageContent, transformEmbeddingResponse, transformVirtualKey, transformVirtualKeyRequest, transformProviderKey } from './transformations';
+import { encodeText, getEncodingForModel } from './tokenizer';
+import { normalizeFinishReason } from './finish-reason';
+import { generateStructuredOutput } from './structured-output';
+import { VirtualKeyManager, JsonFileVirtualKeyStore, secretsMatch } from './virtual-keys';
+import { ClientRateLimiter } from './rate-limiter';
+import { ResponseCache, MemoryCacheBackend, DiskCacheBackend, getCacheKey } from './response-cache';
+import { RequestCancelledError } from './cancellation';
+import { MetricsRegistry, METRICS_CONTENT_TYPE } from './metrics';
+import { JsonLogger } from './logger';
+import { Tracer, LogSpanExporter, OtlpHttpSpanExporter, parseTraceparent } from './tracing';
+import type { Logger } from './logger';
+import type { Span, SpanContext, SpanAttributes, SpanExporter } from './tracing';
+import type { MetricSample } from './metrics';
+import type { VirtualKeyOptions } from './virtual-keys';
+import type { CircuitState } from './circuit-breaker';
 import type {
     ChatCompletionRequest,
     ChatCompletionResponse,
+    EmbeddingRequest,
+    TokenizeRequest,
+    TokenizeResponse,
     ModelsListResponse,
+    CacheStatsResponse,
     HealthCheckResponse,
     KeyStatusResponse,
+    KeyStatusInfo,
+    CircuitStatusInfo,
     Message,
     RequestContext,
-    Provider
+    Provider,
+    VirtualKeyRequest,
+    ProviderKeyRequest,
+    ProviderKeyObject
 } from './types';
 import { ApiError } from './types';
 
@@ -41,10 +68,84 @@ if (process.env.NODE_ENV !== 'test') {
         },
         enableLogging: false,
         environment: 'test',
-        requestTimeout: 30000
+        requestTimeout: 30000,
+        adminApiKey: 'test-admin-key',
+        rateLimits: { requestsPerMinute: 1000, tokensPerDay: 1000000 }
     };
 }
 
+// Values redacted from logs and spans wherever they appear
+const secrets: string[] = [
+    ...Object.values(config.apiKeys as Record<string, string | string[]>).flat(),
+    config.adminApiKey
+].filter(Boolean);
+
+// Structured logger
+const logger = new JsonLogger({
+    level: config.logLevel ?? (config.enableLogging ? 'debug' : 'info'),
+    secrets
+});
+
+/**
+ * Logger of a request, adding its requestId and traceId to every entry
+ */
+function getRequestLogger(req: express.Request): Logger {
+    return (req as any).context?.logger ?? logger;
+}
+
+// ===== TRACING =====
+
+// Spans are always recorded so that traceparent headers propagate, but only exported when configured
+const spanExporters: SpanExporter[] = [];
+if (config.tracing?.exporter === 'log') {
+    spanExporters.push(new LogSpanExporter(logger));
+} else if (config.tracing?.exporter === 'otlp') {
+    spanExporters.push(new OtlpHttpSpanExporter({ url: config.tracing.otlpEndpoint, serviceName: config.tracing.serviceName }));
+}
+const tracer = new Tracer({ exporters: spanExporters, sampleRatio: config.tracing?.sampleRatio, secrets, logger });
+
+/**
+ * Span context of a request, under which its steps and provider calls are recorded
+ */
+function getTraceContext(req: express.Request): SpanContext | undefined {
+    return ((req as any).context?.span as Span | undefined)?.context;
+}
+
+/**
+ * Start a span for a step of a request
+ */
+function startRequestSpan(req: express.Request, name: string, attributes?: SpanAttributes): Span {
+    return tracer.startSpan(name, { parent: getTraceContext(req), attributes });
+}
+
+/**
+ * End a validation span, recording how many checks failed
+ */
+function endValidationSpan(span: Span, errors: ApiError[]): void {
+    span.setAttribute('validation.error_count', errors.length);
+    span.setStatus(errors.length > 0 ? 'error' : 'ok', errors[0]?.message);
+    span.end();
+}
+
+/**
+ * Detect the provider serving a model within a span of the request
+ */
+function detectProvider(req: express.Request, model: string, operation: 'chat' | 'embeddings'): Provider | null {
+    const span = startRequestSpan(req, 'detect provider', { 'llm.model': model, 'llm.operation': operation });
+    let provider: Provider | null;
+    if (operation === 'embeddings') {
+        provider = determineEmbeddingProvider(model);
+    } else {
+        const detection = determineProviderWithDetails(model);
+        provider = detection.provider;
+        span.setAttributes({ 'llm.detection_reason': detection.reason, 'llm.detection_confidence': detection.confidence });
+    }
+    span.setAttribute('llm.provider', provider ?? undefined);
+    span.setStatus(provider ? 'ok' : 'error', provider ? undefined : `No provider serves model ${model}`);
+    span.end();
+    return provider;
+}
+
 // ===== MIDDLEWARE SETUP =====
 
 // Request parsing middleware
@@ -53,45 +154,176 @@ app.use(express.json({
     type: 'application/json'
 }));
 
-// Request context middleware (always set requestId)
+// Request context middleware (always set requestId). A request carrying a traceparent
+// header continues the caller's trace.
 app.use((req, res, next) => {
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const startTime = Date.now();
     
+    const span = tracer.startSpan(req.method, {
+        kind: 'server',
+        parent: parseTraceparent(req.get('traceparent')),
+        attributes: { 'http.request.method': req.method, 'url.path': req.path, 'request.id': requestId }
+    });
+    const requestLogger = logger.child({ requestId, traceId: span.context.traceId });
+    
     // Add request context to request object
     (req as any).context = {
         requestId,
         startTime,
         clientIp: req.ip || req.connection.remoteAddress,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        logger: requestLogger,
+        span
     } as RequestContext;
     
-    // Only log if logging is enabled
-    if (config.enableLogging) {
-        console.log(`[${requestId}] ${req.method} ${req.path} - ${req.ip || 'unknown'}`);
-        
-        // Log response when finished
-        res.on('finish', () => {
-            const duration = Date.now() - startTime;
-            console.log(`[${requestId}] ${res.statusCode} - ${duration}ms`);
+    requestLogger.debug('Request received', { method: req.method, path: req.path, clientIp: req.ip || 'unknown' });
+    res.on('finish', () => {
+        requestLogger.debug('Request completed', { status: res.statusCode, durationMs: Date.now() - startTime });
+    });
+    
+    // Ends once the response is complete or the client is gone
+    const endSpan = () => {
+        const route = getRouteLabel(req);
+        const status = res.writableFinished ? res.statusCode : 499;
+        span.updateName(`${req.method} ${route}`);
+        span.setAttributes({
+            'http.route': route,
+            'http.response.status_code': status,
+            'llm.provider': res.getHeader('X-LLM-Provider')?.toString(),
+            'error.type': res.locals.errorCode
         });
-    }
+        if (status === 499) {
+            span.setStatus('error', 'Client closed the connection');
+        } else if (status >= 500) {
+            span.setStatus('error', res.locals.errorCode);
+        }
+        span.end();
+    };
+    res.on('finish', endSpan);
+    res.on('close', endSpan);
     
     next();
 });
 
-// Request timeout middleware
+// ===== METRICS =====
+
+const metrics = new MetricsRegistry();
+const httpRequests = metrics.counter('llm_http_requests_total', 'HTTP requests by route, method, model, provider and status');
+const httpRequestDuration = metrics.histogram('llm_http_request_duration_seconds', 'HTTP request latency in seconds by route, model and provider');
+const tokensUsed = metrics.counter('llm_tokens_total', 'Tokens sent to (prompt) and received from (completion) providers by provider and model');
+const requestTimeouts = metrics.counter('llm_request_timeouts_total', 'Requests answered with a timeout error by route');
+const validationFailures = metrics.counter('llm_validation_failures_total', 'Requests rejected by validation by route and error code');
+
+// Key series are read from LlmManager when scraped; keys are identified by their index only
+metrics.collect('llm_api_key_status', 'Status of each API key; 1 for its current status, 0 for the others', 'gauge', () => {
+    const samples: MetricSample[] = [];
+    for (const [provider, statuses] of Object.entries(llmManager.apiKeyStatus)) {
+        // Clears expired cooldowns so that their keys report as untested
+        llmManager.getKeyCooldowns(provider);
+        statuses.forEach((current, index) => API_KEY_STATUSES.forEach(status => samples.push({
+            labels: { provider, key_index: String(index), status },
+            value: current === status ? 1 : 0
+        })));
+    }
+    return samples;
+});
+metrics.collect('llm_api_key_requests_total', 'Provider calls made with each API key by result', 'counter', () =>
+    Object.keys(llmManager.apiKeyStatus).flatMap(provider => llmManager.getKeyStats(provider).flatMap((stats, index) => [
+        { labels: { provider, key_index: String(index), result: 'success' }, value: stats.successCount },
+        { labels: { provider, key_index: String(index), result: 'failure' }, value: stats.failureCount }
+    ]))
+);
+metrics.collect('llm_key_rotations_total', 'Changes of the active API key by provider', 'counter', () =>
+    Object.keys(llmManager.apiKeyStatus).map(provider => ({ labels: { provider }, value: llmManager.getRotationCount(provider) }))
+);
+
+const VALIDATION_ERROR_CODES = ['validation_failed', 'json_validation_failed'];
+
+/**
+ * Route pattern of a request, e.g. /admin/keys/:id, so that ids never become label values.
+ * Requests that never reached a route, including those rejected by authentication or rate
+ * limits, are labelled "unmatched".
+ */
+function getRouteLabel(req: express.Request): string {
+    const path = req.route?.path;
+    return typeof path === 'string' ? path : 'unmatched';
+}
+
+/**
+ * Model label of a request. Only listed models are used as label values; any other model
+ * name the client sent is reported as "other".
+ */
+function getModelLabel(model: unknown): string {
+    if (typeof model !== 'string' || !model) {
+        return '';
+    }
+    const configurations = [...Object.values(LlmManager.modelConfigurations), ...Object.values(LlmManager.embeddingModelConfigurations ?? {})];
+    return configurations.some(models => models.some(m => m.id === model)) ? model : 'other';
+}
+
+// Record every request once its response is complete or the client is gone
+app.use((req, res, next) => {
+    // Error codes are only known from the response body
+    const json = res.json.bind(res);
+    res.json = body => {
+        res.locals.errorCode = body?.error?.code;
+        return json(body);
+    };
+
+    let recorded = false;
+    const record = () => {
+        if (recorded) return;
+        recorded = true;
+
+        const route = getRouteLabel(req);
+        const model = req.body?.model;
+        const provider = res.getHeader('X-LLM-Provider')?.toString()
+            ?? (typeof model === 'string' ? determineEmbeddingProvider(model) ?? determineProvider(model) : null)
+            ?? '';
+        // 499 is the conventional status of requests the client closed before the response was sent
+        const status = res.writableFinished ? String(res.statusCode) : '499';
+        const labels = { route, model: getModelLabel(model), provider };
+
+        httpRequests.inc({ ...labels, method: req.method, status });
+        httpRequestDuration.observe(labels, (Date.now() - (req as any).context.startTime) / 1000);
+        if (res.locals.errorCode === 'timeout_error') {
+            requestTimeouts.inc({ route });
+        }
+        if (VALIDATION_ERROR_CODES.includes(res.locals.errorCode)) {
+            validationFailures.inc({ route, code: res.locals.errorCode });
+        }
+    };
+    res.on('finish', record);
+    res.on('close', record);
+    next();
+});
+
+// Request timeout middleware. Upstream calls are cancelled through the request's abort
+// signal when the timeout fires or the client disconnects before the response is complete.
+// Streams have sent their headers by then, so they report the timeout themselves.
 app.use((req, res, next) => {
     const timeout = config.requestTimeout || 30000;
+    const controller = new AbortController();
+    const context: RequestContext = (req as any).context;
+    context.abortSignal = controller.signal;
+
     const timer = setTimeout(() => {
+        const error = ApiError.timeout('server', timeout);
+        context.timeoutError = error;
         if (!res.headersSent) {
-            const error = ApiError.timeout('server', timeout);
             res.status(error.statusCode).json(error.toResponse());
         }
+        controller.abort(new RequestCancelledError(`Request timed out after ${timeout}ms`));
     }, timeout);
     
     res.on('finish', () => clearTimeout(timer));
-    res.on('close', () => clearTimeout(timer));
+    res.on('close', () => {
+        clearTimeout(timer);
+        if (!res.writableFinished) {
+            controller.abort(new RequestCancelledError('Client closed the connection'));
+        }
+    });
     
     next();
 });
@@ -104,50 +336,163 @@ app.use((req, res, next) => {
     next();
 });
 
-// Error handling middleware (must be last)
-app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const requestId = (req as any).context?.requestId || 'unknown';
-    
-    if (error instanceof ApiError) {
-        const response = ErrorResponseFormatter.logAndFormatError(
-            error, 
-            requestId, 
-            config.environment === 'development'
-        );
-        res.status(error.statusCode).json(response);
+// ===== AUTHENTICATION =====
+
+// Virtual keys issued through the admin API; kept in memory only when no key file is configured
+const virtualKeys = new VirtualKeyManager(
+    config.virtualKeysFile ? new JsonFileVirtualKeyStore(config.virtualKeysFile) : undefined
+);
+
+/**
+ * Read the token of a `Bearer` Authorization header
+ */
+function getBearerToken(req: express.Request): string | undefined {
+    return req.get('Authorization')?.match(/^Bearer\s+(\S+)\s*$/i)?.[1];
+}
+
+// Require a virtual key (or the admin key) on the OpenAI-compatible API once a key file is
+// configured or a key has been issued, even if the keys are only kept in memory
+app.use('/v1', (req, res, next) => {
+    if (!config.virtualKeysFile && virtualKeys.list().length === 0) {
+        next();
         return;
     }
-    
-    // Handle JSON parsing errors
-    if (error instanceof SyntaxError && 'body' in error) {
-        const apiError = ApiError.validation('Invalid JSON in request body');
-        const response = ErrorResponseFormatter.logAndFormatError(
-            apiError, 
-            requestId, 
-            config.environment === 'development'
+
+    const token = getBearerToken(req);
+    if (token && config.adminApiKey && secretsMatch(token, config.adminApiKey)) {
+        next();
+        return;
+    }
+
+    const record = token ? virtualKeys.findByKey(token) : undefined;
+    if (!record || virtualKeys.isExpired(record)) {
+        const error = ApiError.authentication(
+            !token ? 'Missing API key. Send it as "Authorization: Bearer <key>"'
+                : record ? 'API key has expired'
+                : 'Invalid API key'
         );
-        res.status(apiError.statusCode).json(response);
+        res.status(error.statusCode).json(error.toResponse());
         return;
     }
-    
-    // Handle generic errors
-    const apiError = ErrorTransformer.fromGenericError(error);
-    const response = ErrorResponseFormatter.logAndFormatError(
-        apiError, 
-        requestId, 
-        config.environment === 'development'
-    );
-    res.status(apiError.statusCode).json(response);
+
+    (req as any).context.virtualKey = record;
+    next();
+});
+
+// The admin API is only reachable with ADMIN_API_KEY and disabled without it
+app.use('/admin', (req, res, next) => {
+    const token = getBearerToken(req);
+    if (!config.adminApiKey || !token || !secretsMatch(token, config.adminApiKey)) {
+        const error = ApiError.authentication(config.adminApiKey ? 'Invalid admin API key' : 'Admin API is disabled; set ADMIN_API_KEY to enable it');
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+    next();
+});
+
+// ===== RATE LIMITING =====
+
+const rateLimiter = new ClientRateLimiter(config.rateLimits);
+
+/**
+ * Identify a client for rate limiting: by the virtual key it authenticated with, else its IP address.
+ * Unchecked bearer tokens are ignored, as a client could send a new one with every request.
+ */
+function getClientId(req: express.Request): string {
+    const context: RequestContext = (req as any).context;
+    return context.virtualKey ? `key:${context.virtualKey.id}` : `ip:${context.clientIp || 'unknown'}`;
+}
+
+/**
+ * Count tokens used by a request towards its client's daily quota, the token metrics and its span
+ */
+function recordTokenUsage(
+    req: express.Request,
+    usage: { prompt_tokens: number; completion_tokens?: number; total_tokens: number },
+    provider: string,
+    model: string
+): void {
+    const clientId = (req as any).context?.clientId;
+    if (clientId) {
+        rateLimiter.recordTokens(clientId, usage.total_tokens);
+    }
+    ((req as any).context?.span as Span | undefined)?.setAttributes({
+        'gen_ai.usage.input_tokens': usage.prompt_tokens,
+        'gen_ai.usage.output_tokens': usage.completion_tokens
+    });
+    tokensUsed.inc({ provider, model: getModelLabel(model), type: 'prompt' }, usage.prompt_tokens);
+    if (usage.completion_tokens !== undefined) {
+        tokensUsed.inc({ provider, model: getModelLabel(model), type: 'completion' }, usage.completion_tokens);
+    }
+}
+
+// Per-client limits on the endpoints that use provider keys
+app.use(['/v1/chat/completions', '/v1/embeddings'], (req, res, next) => {
+    if (!rateLimiter.enabled) {
+        next();
+        return;
+    }
+
+    const context: RequestContext = (req as any).context;
+    context.clientId = getClientId(req);
+    const decision = rateLimiter.acquire(context.clientId);
+    res.set(decision.headers);
+
+    if (!decision.allowed) {
+        const retryAfter = Math.max(Math.ceil(decision.retryAfterMs / 1000), 1);
+        const error = ApiError.clientRateLimit(decision.message, retryAfter, decision.limit === 'tokens');
+        res.setHeader('Retry-After', String(retryAfter));
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+
+    res.on('finish', decision.release);
+    res.on('close', decision.release);
+    next();
 });
 
 // ===== LLM MANAGER SETUP =====
 
 // Create LlmManager instance with configuration
-const llmManager = new LlmManager();
+const llmManager = new LlmManager({
+    logger,
+    tracer,
+    cooldown: config.keyCooldown,
+    retry: config.retry,
+    providerRetry: config.providerRetry,
+    circuitBreaker: config.circuitBreaker,
+    imageFetch: config.imageFetch,
+    stateStore: config.keyStateFile ? new JsonFileKeyStateStore(config.keyStateFile) : undefined
+});
 
 // Log configuration summary on startup
-if (config.enableLogging) {
-    console.log('🔧 Server Configuration:', getConfigSummary(config));
+logger.debug('Server configuration', { config: getConfigSummary(config) });
+
+// ===== RESPONSE CACHE =====
+
+// Opt-in cache of non-streaming chat completions
+const responseCache = config.responseCache
+    ? new ResponseCache(
+        config.responseCache.backend === 'disk'
+            ? new DiskCacheBackend(config.responseCache.directory, config.responseCache.maxEntries)
+            : new MemoryCacheBackend(config.responseCache.maxEntries),
+        config.responseCache.ttlMs
+    )
+    : undefined;
+
+/**
+ * Run a cache operation, treating failures as misses so that a broken cache never fails a request
+ */
+async function withCache<T>(operation: (cache: ResponseCache) => Promise<T>, requestLogger: Logger): Promise<T | undefined> {
+    if (!responseCache) {
+        return undefined;
+    }
+    try {
+        return await operation(responseCache);
+    } catch (error) {
+        requestLogger.warn('Response cache error', { error: (error as Error).message });
+        return undefined;
+    }
 }
 
 // ===== API ENDPOINTS =====
@@ -156,10 +501,12 @@ if (config.enableLogging) {
 app.post('/v1/chat/completions', async (req, res, next) => {
     try {
         const requestBody: ChatCompletionRequest = req.body;
-        const { messages, model, temperature, max_tokens, top_p } = requestBody;
+        const { messages, model, temperature, max_tokens, top_p, tools, tool_choice } = requestBody;
         const requestId = (req as any).context?.requestId || 'unknown';
+        const requestLogger = getRequestLogger(req);
 
         // Comprehensive request validation
+        const validationSpan = startRequestSpan(req, 'validate request');
         const validationErrors: ApiError[] = [];
 
         // Validate required fields
@@ -191,6 +538,13 @@ app.post('/v1/chat/completions', async (req, res, next) => {
         const topPError = ValidationErrorHandler.validateTopP(top_p);
         if (topPError) validationErrors.push(topPError);
 
+        const toolsError = ValidationErrorHandler.validateTools(tools, tool_choice);
+        if (toolsError) validationErrors.push(toolsError);
+
+        const generationError = ValidationErrorHandler.validateGenerationOptions(requestBody);
+        if (generationError) validationErrors.push(generationError);
+        endValidationSpan(validationSpan, validationErrors);
+
         // Return validation errors if any
         if (validationErrors.length > 0) {
             const { statusCode, body } = ErrorResponseFormatter.formatMultipleErrors(validationErrors);
@@ -199,7 +553,7 @@ app.post('/v1/chat/completions', async (req, res, next) => {
         }
 
         // Determine provider
-        const provider = determineProvider(model);
+        const provider = detectProvider(req, model, 'chat');
         if (!provider) {
             const error = ApiError.modelNotFound(model);
             res.status(error.statusCode).json(error.toResponse());
@@ -220,21 +574,125 @@ app.post('/v1/chat/completions', async (req, res, next) => {
             }
         );
 
-        if (config.enableLogging) {
-            console.log(`[${requestId}] Using provider: ${provider}, model: ${model}`);
+        requestLogger.debug('Routing chat completion', { provider, model });
+
+        // Alternative providers to retry on when every key of the detected one is exhausted
+        let candidates = resolveFallbackCandidates(model, provider, config.providerFallback, config.apiKeys);
+        const virtualKey = (req as any).context?.virtualKey as RequestContext['virtualKey'];
+        if (virtualKey) {
+            candidates = candidates.filter(candidate => virtualKeys.isAllowed(virtualKey, candidate.provider, candidate.model));
+            if (candidates.length === 0) {
+                const error = ApiError.modelNotAllowed(model, virtualKey.label);
+                res.status(error.statusCode).json(error.toResponse());
+                return;
+            }
+        }
+        if (settings.tools) {
+            candidates = candidates.filter(candidate => LlmManager.getProviderAdapter(candidate.provider)?.supportsTools);
+            if (candidates.length === 0) {
+                const error = ApiError.validation(`Provider ${provider} does not support tool calling`, {
+                    tools: `Model ${model} is served by ${provider}, which does not support tools`
+                });
+                res.status(error.statusCode).json(error.toResponse());
+                return;
+            }
+        }
+        // Skip candidates that would have to ignore stop, seed, response_format or similar parameters
+        const unsupportedParameters = getUnsupportedParameters(LlmManager.getProviderAdapter(provider)!, settings);
+        candidates = candidates.filter(candidate => {
+            const adapter = LlmManager.getProviderAdapter(candidate.provider);
+            return adapter !== undefined && getUnsupportedParameters(adapter, settings).length === 0;
+        });
+        if (candidates.length === 0) {
+            const fields = unsupportedParameters.map(parameter => GENERATION_PARAMETER_FIELDS[parameter]);
+            const error = ApiError.validation(`Provider ${provider} does not support ${fields.join(', ')}`, Object.fromEntries(
+                fields.map(field => [field, `Model ${model} is served by ${provider}, which does not support ${field}`])
+            ));
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+        if (hasImageContent(messages)) {
+            candidates = candidates.filter(candidate => modelSupportsVision(candidate.provider, candidate.model));
+            if (candidates.length === 0) {
+                const error = ApiError.validation(`Model ${model} does not support image input`, {
+                    messages: `Model ${model} is not marked as vision-capable; send text-only content or choose a vision model`
+                });
+                res.status(error.statusCode).json(error.toResponse());
+                return;
+            }
+        }
+        // Skip candidates whose context window cannot hold the prompt and the requested completion
+        if (candidates.some(candidate => getModelContextWindow(candidate.provider, candidate.model))) {
+            const requestedTokens = estimateTokensWithRoles(messages, model) + (max_tokens ?? 0);
+            const fitting = candidates.filter(candidate => requestedTokens <= (getModelContextWindow(candidate.provider, candidate.model) ?? Infinity));
+            if (fitting.length === 0) {
+                const error = ApiError.contextLengthExceeded(model, requestedTokens, getModelContextWindow(candidates[0].provider, candidates[0].model)!);
+                res.status(error.statusCode).json(error.toResponse());
+                return;
+            }
+            candidates = fitting;
+        }
+        const onFallback = (from: FallbackCandidate, to: FallbackCandidate, error: Error) => {
+            (req as any).context?.span?.addEvent('fallback', { 'llm.provider': from.provider, 'llm.fallback_provider': to.provider });
+            requestLogger.info(`Falling back from ${from.provider} to ${to.provider}`, {
+                provider: from.provider,
+                model: from.model,
+                fallbackProvider: to.provider,
+                fallbackModel: to.model,
+                error: error.message
+            });
+        };
+
+        if (requestBody.stream) {
+            await streamChatCompletion(req, res, messages, settings, candidates, onFallback, model, requestId);
+            return;
+        }
+
+        // Identical requests are answered from the cache; "Cache-Control: no-cache" skips the lookup
+        // and "no-store" keeps the response out of the cache
+        const cacheControl = req.get('Cache-Control')?.toLowerCase() ?? '';
+        const cacheKey = responseCache ? getCacheKey(requestBody) : undefined;
+        if (cacheKey && !cacheControl.includes('no-cache')) {
+            const cached = await withCache(cache => cache.get(cacheKey), requestLogger);
+            if (cached) {
+                res.setHeader('x-cache', 'HIT');
+                if (cached.provider) {
+                    res.setHeader('X-LLM-Provider', cached.provider);
+                }
+                res.json({ ...cached, id: `chatcmpl-${requestId}`, created: Math.floor(Date.now() / 1000) });
+                return;
+            }
         }
 
-        // Generate response using LlmManager
-        const response = await llmManager.generateResponse(messages, settings);
+        // Generate response using LlmManager; JSON response formats are validated and retried
+        const responseFormat = settings.responseFormat?.type === 'text' ? undefined : settings.responseFormat;
+        const { result: completion, candidate } = await executeWithFallback(
+            candidates,
+            candidate => {
+                const generate = () => llmManager.generateResponse(messages, { ...settings, provider: candidate.provider, model: candidate.model, signal: (req as any).context?.abortSignal, logger: getRequestLogger(req), traceContext: getTraceContext(req) });
+                return responseFormat ? generateStructuredOutput(generate, responseFormat, config.structuredOutputAttempts ?? 2) : generate();
+            },
+            onFallback
+        );
 
         // Transform response using transformations module
         const openaiResponse = transformResponse(
-            response,
+            completion,
             model,
             messages,
             requestId
         );
+        openaiResponse.provider = candidate.provider;
+        recordTokenUsage(req, openaiResponse.usage, candidate.provider, candidate.model);
 
+        if (cacheKey) {
+            if (!cacheControl.includes('no-store')) {
+                // Stored in the background: the client need not wait for the disk cache
+                void withCache(cache => cache.set(cacheKey, openaiResponse), requestLogger);
+            }
+            res.setHeader('x-cache', cacheControl.includes('no-cache') ? 'BYPASS' : 'MISS');
+        }
+        res.setHeader('X-LLM-Provider', candidate.provider);
         res.json(openaiResponse);
 
     } catch (error) {
@@ -251,11 +709,279 @@ app.post('/v1/chat/completions', async (req, res, next) => {
     }
 });
 
+// Embeddings endpoint. Requests are not moved to fallback providers, since
+// vectors from different models cannot be compared with each other.
+app.post('/v1/embeddings', async (req, res, next) => {
+    try {
+        const requestBody: EmbeddingRequest = req.body;
+        const { input, model, dimensions, encoding_format } = requestBody;
+        const requestId = (req as any).context?.requestId || 'unknown';
+
+        const validationSpan = startRequestSpan(req, 'validate request');
+        const validationErrors: ApiError[] = [];
+
+        const requiredFieldError = ValidationErrorHandler.validateRequiredFields(requestBody, ['input', 'model']);
+        if (requiredFieldError) validationErrors.push(requiredFieldError);
+
+        if (model) {
+            const modelError = ValidationErrorHandler.validateModel(model);
+            if (modelError) validationErrors.push(modelError);
+        }
+
+        if (input !== undefined) {
+            const optionsError = ValidationErrorHandler.validateEmbeddingOptions(input, dimensions, encoding_format);
+            if (optionsError) validationErrors.push(optionsError);
+        }
+        endValidationSpan(validationSpan, validationErrors);
+
+        if (validationErrors.length > 0) {
+            const { statusCode, body } = ErrorResponseFormatter.formatMultipleErrors(validationErrors);
+            res.status(statusCode).json(body);
+            return;
+        }
+
+        const provider = detectProvider(req, model, 'embeddings');
+        if (!provider) {
+            const error = ApiError.modelNotFound(model);
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+
+        const virtualKey = (req as any).context?.virtualKey as RequestContext['virtualKey'];
+        if (virtualKey && !virtualKeys.isAllowed(virtualKey, provider, model)) {
+            const error = ApiError.modelNotAllowed(model, virtualKey.label);
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+
+        if (dimensions !== undefined && !LlmManager.getProviderAdapter(provider)?.embeddings?.supportsDimensions) {
+            const error = ApiError.validation(`Model ${model} does not support custom dimensions`, {
+                dimensions: `Provider ${provider} always returns full-size vectors`
+            });
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+
+        getRequestLogger(req).debug('Routing embeddings', { provider, model });
+
+        const result = await llmManager.generateEmbeddings(input, {
+            provider,
+            model,
+            apiKeys: config.apiKeys,
+            dimensions,
+            signal: (req as any).context?.abortSignal,
+            logger: getRequestLogger(req),
+            traceContext: getTraceContext(req)
+        });
+
+        const response = transformEmbeddingResponse(result, model, input, encoding_format);
+        response.provider = provider;
+        recordTokenUsage(req, response.usage, provider, model);
+
+        res.setHeader('X-LLM-Provider', provider);
+        res.json(response);
+
+    } catch (error) {
+        const apiError = error instanceof ApiError
+            ? error
+            : ErrorTransformer.fromGenericError(error as Error, {
+                provider: determineEmbeddingProvider(req.body?.model) || undefined,
+                model: req.body?.model
+            });
+
+        next(apiError);
+    }
+});
+
 
 
 
 
 
+/**
+ * Send the response headers that open a Server-Sent Events stream
+ */
+function startSseResponse(res: express.Response, provider: string): void {
+    res.status(200);
+    res.setHeader('X-LLM-Provider', provider);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+}
+
+/**
+ * Stream a chat completion as Server-Sent Events in OpenAI chunk format.
+ * The first chunk is awaited before headers are sent so that key exhaustion
+ * can still fall back to another provider, and other upstream failures still
+ * produce a regular JSON error response.
+ * Providers only stream text, so requests with tools are completed first and
+ * replayed as a content chunk and a tool_calls chunk.
+ */
+async function streamChatCompletion(
+    req: express.Request,
+    res: express.Response,
+    messages: Message[],
+    settings: ReturnType<typeof transformRequest>,
+    candidates: FallbackCandidate[],
+    onFallback: (from: FallbackCandidate, to: FallbackCandidate, error: Error) => void,
+    model: string,
+    requestId: string
+): Promise<void> {
+    if (settings.tools) {
+        const { result: completion, candidate } = await executeWithFallback(
+            candidates,
+            candidate => llmManager.generateResponse(messages, { ...settings, provider: candidate.provider, model: candidate.model, signal: (req as any).context?.abortSignal, logger: getRequestLogger(req), traceContext: getTraceContext(req) }),
+            onFallback
+        );
+
+        startSseResponse(res, candidate.provider);
+        const transformChunk = createStreamingTransformer(model, `chatcmpl-${requestId}`);
+        const roleChunk = transformChunk('');
+        roleChunk.choices[0].delta = { role: 'assistant', content: completion.toolCalls ? null : '' };
+        res.write(formatSseEvent(roleChunk));
+        if (completion.content) {
+            res.write(formatSseEvent(transformChunk(completion.content)));
+        }
+        if (completion.toolCalls) {
+            const toolCallsChunk = transformChunk('');
+            toolCallsChunk.choices[0].delta = createToolCallsDelta(completion.toolCalls);
+            res.write(formatSseEvent(toolCallsChunk));
+        }
+        res.write(formatSseEvent(transformChunk('', true, normalizeFinishReason(completion.finishReason, !!completion.toolCalls))));
+        res.write(formatSseEvent('[DONE]'));
+        res.end();
+        recordTokenUsage(req, transformResponse(completion, model, messages).usage, candidate.provider, candidate.model);
+        return;
+    }
+
+    const { result: { stream, firstChunk }, candidate } = await executeWithFallback(
+        candidates,
+        async candidate => {
+            const stream = llmManager.generateResponseStream(messages, { ...settings, provider: candidate.provider, model: candidate.model, signal: (req as any).context?.abortSignal, logger: getRequestLogger(req), traceContext: getTraceContext(req) });
+            const firstChunk = await stream.next();
+            return { stream, firstChunk };
+        },
+        onFallback
+    );
+
+    startSseResponse(res, candidate.provider);
+
+    const transformChunk = createStreamingTransformer(model, `chatcmpl-${requestId}`);
+    const context: RequestContext = (req as any).context;
+    let clientClosed = false;
+    let streamedContent = '';
+    req.on('close', () => { clientClosed = true; });
+
+    try {
+        // OpenAI clients expect the assistant role on the first delta
+        const roleChunk = transformChunk('');
+        roleChunk.choices[0].delta = { role: 'assistant', content: '' };
+        res.write(formatSseEvent(roleChunk));
+
+        // Iterate by hand: the stream's return value is the provider's stop reason
+        let chunk = firstChunk;
+        while (!chunk.done) {
+            streamedContent += chunk.value;
+            res.write(formatSseEvent(transformChunk(chunk.value)));
+            chunk = await stream.next();
+            if (clientClosed || context.timeoutError) {
+                await stream.return(undefined);
+                if (context.timeoutError) throw context.timeoutError;
+                break;
+            }
+        }
+
+        res.write(formatSseEvent(transformChunk('', true, normalizeFinishReason(chunk.done ? chunk.value : undefined))));
+    } catch (error) {
+        // A client that disconnected has nobody to report to
+        if (clientClosed) {
+            res.end();
+            return;
+        }
+        // Headers are already sent, so report the failure in-band. A timed out stream fails
+        // with the cancellation of its upstream call, which is reported as the timeout.
+        const apiError = context.timeoutError ?? (error instanceof ApiError
+            ? error
+            : ErrorTransformer.fromGenericError(error as Error, { provider: settings.provider, model }));
+        ErrorResponseFormatter.logAndFormatError(apiError, requestId, false, getRequestLogger(req));
+        res.locals.errorCode = apiError.code;
+        res.write(formatSseEvent(ErrorResponseFormatter.createSafeErrorResponse(apiError)));
+    }
+
+    res.write(formatSseEvent('[DONE]'));
+    res.end();
+    // Streams report no usage, so count it with the local tokenizer
+    const promptTokens = estimateTokensWithRoles(messages, model);
+    const completionTokens = estimateTokens(streamedContent, model);
+    recordTokenUsage(req, { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }, candidate.provider, candidate.model);
+}
+
+// Token counting endpoint, using the local tokenizer for the model's family
+app.post('/v1/tokenize', (req, res, next) => {
+    try {
+        const { model, input, messages }: TokenizeRequest = req.body ?? {};
+
+        const validationErrors: ApiError[] = [];
+
+        const modelError = ValidationErrorHandler.validateModel(model);
+        if (modelError) validationErrors.push(modelError);
+
+        if ((input === undefined) === (messages === undefined)) {
+            validationErrors.push(ApiError.validation('Provide either input or messages', {
+                input: 'Exactly one of input or messages is required'
+            }));
+        } else if (input !== undefined && typeof input !== 'string') {
+            validationErrors.push(ApiError.validation('Input must be a string', {
+                input: 'Input must be a string'
+            }));
+        } else if (messages !== undefined) {
+            const messagesError = ValidationErrorHandler.validateMessages(messages);
+            if (messagesError) validationErrors.push(messagesError);
+        }
+
+        if (validationErrors.length > 0) {
+            const { statusCode, body } = ErrorResponseFormatter.formatMultipleErrors(validationErrors);
+            res.status(statusCode).json(body);
+            return;
+        }
+
+        const provider = determineProvider(model);
+        const contextWindow = provider ? getModelContextWindow(provider, model) : undefined;
+        const response: TokenizeResponse = {
+            object: 'tokenize',
+            model,
+            encoding: getEncodingForModel(model),
+            count: 0,
+            ...(contextWindow !== undefined && { context_window: contextWindow })
+        };
+
+        if (input !== undefined) {
+            response.tokens = encodeText(input, model).tokens;
+            response.count = response.tokens.length;
+        } else {
+            response.count = estimateTokensWithRoles(messages!, model);
+        }
+
+        res.json(response);
+    } catch (error) {
+        next(error instanceof ApiError ? error : ErrorTransformer.fromGenericError(error as Error, { model: req.body?.model }));
+    }
+});
+
+/**
+ * Circuit breaker state of each configured provider, or of each of its models for per-model circuits
+ */
+function getCircuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const provider of Object.keys(config.apiKeys)) {
+        for (const circuit of llmManager.getCircuitStates(provider)) {
+            states[circuit.model ? `${provider}/${circuit.model}` : provider] = circuit.state;
+        }
+    }
+    return states;
+}
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
     const healthResponse: HealthCheckResponse = {
@@ -266,17 +992,29 @@ app.get('/health', (_req, res) => {
             used: process.memoryUsage().heapUsed,
             total: process.memoryUsage().heapTotal,
             percentage: (process.memoryUsage().heapUsed / process.memoryUsage().heapTotal) * 100
-        }
+        },
+        circuits: getCircuitStates()
     };
     res.json(healthResponse);
 });
 
+// Prometheus metrics endpoint
+app.get('/metrics', (_req, res) => {
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(metrics.render());
+});
+
 // Models listing endpoint
-app.get('/v1/models', (_req, res) => {
+app.get('/v1/models', (req, res) => {
     const models = [];
+    const virtualKey = (req as any).context?.virtualKey as RequestContext['virtualKey'];
 
     for (const [provider, providerModels] of Object.entries(LlmManager.modelConfigurations)) {
         for (const model of providerModels) {
+            // Only list the models the caller's virtual key may use
+            if (virtualKey && !virtualKeys.isAllowed(virtualKey, provider as Provider, model.id)) {
+                continue;
+            }
             models.push({
                 id: model.id,
                 object: 'model' as const,
@@ -297,6 +1035,19 @@ app.get('/v1/models', (_req, res) => {
     res.json(response);
 });
 
+// Response cache statistics
+app.get('/v1/cache/stats', async (_req, res, next) => {
+    try {
+        const stats = responseCache ? await responseCache.getStats() : undefined;
+        const response: CacheStatsResponse = stats
+            ? { enabled: true, backend: config.responseCache.backend, entries: stats.entries, hits: stats.hits, misses: stats.misses, hit_rate: stats.hitRate }
+            : { enabled: false, hits: 0, misses: 0, hit_rate: 0 };
+        res.json(response);
+    } catch (error) {
+        next(error instanceof ApiError ? error : ErrorTransformer.fromGenericError(error as Error));
+    }
+});
+
 // API key status monitoring endpoint
 app.get('/v1/keys/status', (_req, res) => {
     try {
@@ -322,27 +1073,40 @@ app.get('/v1/keys/status', (_req, res) => {
             const currentKeyIndex = (llmManager as any)._apiKeyIndices?.[provider] || 0;
 
             // Build key status information
-            const keys = keyStatuses.map((status, index) => ({
+            const cooldowns = llmManager.getKeyCooldowns(provider);
+            const stats = llmManager.getKeyStats(provider);
+            const keys: KeyStatusInfo[] = keyStatuses.map((status, index) => ({
                 index,
                 status,
+                cooldownUntil: cooldowns[index]?.until ? new Date(cooldowns[index].until) : undefined,
+                consecutiveFailures: cooldowns[index]?.consecutiveFailures,
                 // Don't expose actual key values for security
-                lastUsed: undefined, // LlmManager doesn't track this currently
-                lastError: undefined, // LlmManager doesn't track this currently
-                successCount: undefined, // LlmManager doesn't track this currently
-                failureCount: undefined // LlmManager doesn't track this currently
+                lastUsed: stats[index]?.lastUsed,
+                lastError: stats[index]?.lastError,
+                successCount: stats[index]?.successCount,
+                failureCount: stats[index]?.failureCount,
+                latencyMs: stats[index]?.latencyMs
             }));
 
-            // Count healthy keys
-            const healthyKeys = keyStatuses.filter(status => status === 'working' || status === 'untested').length;
+            const circuits: CircuitStatusInfo[] = llmManager.getCircuitStates(provider).map(circuit => ({
+                ...circuit,
+                openedAt: circuit.openedAt ? new Date(circuit.openedAt) : undefined,
+                retryAt: circuit.retryAt ? new Date(circuit.retryAt) : undefined
+            }));
+
+            // Count healthy keys; keys behind an open circuit are not used, and disabled keys were taken out on purpose
+            const circuitOpen = circuits.some(circuit => circuit.state === 'open' && !circuit.model);
+            const healthyKeys = circuitOpen ? 0 : keyStatuses.filter(status => status === 'working' || status === 'untested').length;
             overallHealthy += healthyKeys;
-            overallTotal += totalKeys;
+            overallTotal += totalKeys - keyStatuses.filter(status => status === 'disabled').length;
 
             providers[provider] = {
                 provider,
                 totalKeys,
                 currentKeyIndex,
                 keys,
-                lastRotation: undefined // LlmManager doesn't track this currently
+                lastRotation: llmManager.getLastRotation(provider),
+                circuits
             };
         }
 
@@ -375,46 +1139,341 @@ app.get('/v1/keys/status', (_req, res) => {
     }
 });
 
+// ===== ADMIN API =====
+
+// List virtual keys; the keys themselves are never returned after creation
+app.get('/admin/keys', (_req, res) => {
+    res.json({ object: 'list', data: virtualKeys.list().map(record => transformVirtualKey(record)) });
+});
+
+// Issue a virtual key; the response is the only place the key is shown
+app.post('/admin/keys', async (req, res, next) => {
+    try {
+        const requestBody: VirtualKeyRequest = req.body;
+        const validationError = ValidationErrorHandler.validateVirtualKeyOptions(requestBody);
+        if (validationError) {
+            res.status(validationError.statusCode).json(validationError.toResponse());
+            return;
+        }
+
+        const { key, record } = await virtualKeys.create(transformVirtualKeyRequest(requestBody) as VirtualKeyOptions);
+        res.status(201).json(transformVirtualKey(record, key));
+    } catch (error) {
+        next(error instanceof ApiError ? error : ErrorTransformer.fromGenericError(error as Error));
+    }
+});
+
+app.get('/admin/keys/:id', (req, res) => {
+    const record = virtualKeys.get(req.params.id);
+    if (!record) {
+        const error = ApiError.notFound(`Virtual key ${req.params.id}`);
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+    res.json(transformVirtualKey(record));
+});
+
+// Change the label, allow-lists or expiry of a virtual key
+app.patch('/admin/keys/:id', async (req, res, next) => {
+    try {
+        const requestBody: VirtualKeyRequest = req.body;
+        const validationError = ValidationErrorHandler.validateVirtualKeyOptions(requestBody, true);
+        if (validationError) {
+            res.status(validationError.statusCode).json(validationError.toResponse());
+            return;
+        }
+
+        const record = await virtualKeys.update(req.params.id, transformVirtualKeyRequest(requestBody));
+        if (!record) {
+            const error = ApiError.notFound(`Virtual key ${req.params.id}`);
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+        res.json(transformVirtualKey(record));
+    } catch (error) {
+        next(error instanceof ApiError ? error : ErrorTransformer.fromGenericError(error as Error));
+    }
+});
+
+// Revoke a virtual key; requests using it are rejected immediately
+app.delete('/admin/keys/:id', async (req, res, next) => {
+    try {
+        if (!await virtualKeys.revoke(req.params.id)) {
+            const error = ApiError.notFound(`Virtual key ${req.params.id}`);
+            res.status(error.statusCode).json(error.toResponse());
+            return;
+        }
+        res.json({ id: req.params.id, object: 'virtual_key', deleted: true });
+    } catch (error) {
+        next(error instanceof ApiError ? error : ErrorTransformer.fromGenericError(error as Error));
+    }
+});
+
+// ===== PROVIDER KEY ADMIN API =====
+
+/**
+ * Configured keys of a provider as an array
+ */
+function getConfiguredKeys(provider: Provider): string[] {
+    const keys = config.apiKeys[provider];
+    return Array.isArray(keys) ? keys : keys ? [keys] : [];
+}
+
+/**
+ * Replaces the keys of a provider and applies them to the live LlmManager. Requests in flight
+ * finish with the keys they started with; new requests use the new keys.
+ */
+function setConfiguredKeys(provider: Provider, keys: string[]): void {
+    if (keys.length > 0) {
+        config.apiKeys[provider] = keys;
+    } else {
+        delete config.apiKeys[provider];
+    }
+    llmManager.syncApiKeys(provider, config.apiKeys);
+}
+
+/**
+ * Admin API view of the keys of a provider, identified by fingerprint only
+ */
+function listProviderKeys(provider: Provider): ProviderKeyObject[] {
+    // Key state is created on first use, so align it with the configured keys before reading it
+    llmManager.syncApiKeys(provider, config.apiKeys);
+    const statuses = llmManager.apiKeyStatus[provider] || [];
+    const cooldowns = llmManager.getKeyCooldowns(provider);
+    const stats = llmManager.getKeyStats(provider);
+    return llmManager.getKeyFingerprints(provider).map((fingerprint, index) =>
+        transformProviderKey(provider, index, fingerprint, statuses[index], cooldowns[index], stats[index]));
+}
+
+/**
+ * Resolves the provider of a route, or sends a 404 when no adapter is registered for it
+ */
+function resolveAdminProvider(req: express.Request, res: express.Response): Provider | undefined {
+    const provider = req.params.provider.toLowerCase();
+    if (!LlmManager.getProviderAdapter(provider)) {
+        const error = ApiError.notFound(`Provider ${req.params.provider}`);
+        res.status(error.statusCode).json(error.toResponse());
+        return undefined;
+    }
+    return provider;
+}
+
+/**
+ * Sends a provider key after a change, or a 404 when the provider has no key with the fingerprint
+ */
+function sendProviderKey(res: express.Response, provider: Provider, fingerprint: string, found: boolean): void {
+    const key = found ? listProviderKeys(provider).find(candidate => candidate.id === fingerprint) : undefined;
+    if (!key) {
+        const error = ApiError.notFound(`Key ${fingerprint} of provider ${provider}`);
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+    res.json(key);
+}
+
+// List the keys of a provider with their status; keys are only shown as fingerprints
+app.get('/admin/providers/:provider/keys', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+    res.json({ object: 'list', data: listProviderKeys(provider) });
+});
+
+// Add a key to the rotation of a provider; it is kept in memory until the server restarts
+app.post('/admin/providers/:provider/keys', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+
+    const requestBody: ProviderKeyRequest = req.body;
+    const validationError = ValidationErrorHandler.validateProviderKey(requestBody);
+    if (validationError) {
+        res.status(validationError.statusCode).json(validationError.toResponse());
+        return;
+    }
+
+    const key = requestBody.key.trim();
+    const keys = getConfiguredKeys(provider);
+    if (keys.includes(key)) {
+        const error = ApiError.validation('Invalid provider key', { key: `key is already configured for ${provider}` });
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+
+    // Redact the new key from logs and spans like the configured ones
+    secrets.push(key);
+    setConfiguredKeys(provider, [...keys, key]);
+    res.status(201).json(listProviderKeys(provider)[keys.length]);
+});
+
+// Reset the status and cooldown of every key of a provider
+app.post('/admin/providers/:provider/keys/reset', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+    llmManager.syncApiKeys(provider, config.apiKeys);
+    llmManager.resetApiKeys(provider);
+    res.json({ object: 'list', data: listProviderKeys(provider) });
+});
+
+// Remove a key from the rotation; requests already using it finish
+app.delete('/admin/providers/:provider/keys/:fingerprint', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+
+    const fingerprint = req.params.fingerprint;
+    const keys = getConfiguredKeys(provider);
+    const remaining = keys.filter(key => fingerprintApiKey(key) !== fingerprint);
+    if (remaining.length === keys.length) {
+        const error = ApiError.notFound(`Key ${fingerprint} of provider ${provider}`);
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+
+    setConfiguredKeys(provider, remaining);
+    res.json({ id: fingerprint, object: 'provider_key', deleted: true });
+});
+
+// Take a key out of rotation until it is enabled again; requests already using it finish
+app.post('/admin/providers/:provider/keys/:fingerprint/disable', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+    llmManager.syncApiKeys(provider, config.apiKeys);
+    sendProviderKey(res, provider, req.params.fingerprint, llmManager.disableApiKey(provider, req.params.fingerprint));
+});
+
+// Put a disabled key back into rotation
+app.post('/admin/providers/:provider/keys/:fingerprint/enable', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+    llmManager.syncApiKeys(provider, config.apiKeys);
+    sendProviderKey(res, provider, req.params.fingerprint, llmManager.enableApiKey(provider, req.params.fingerprint));
+});
+
+// Clear the status and cooldown of a key so that it is tried again right away
+app.post('/admin/providers/:provider/keys/:fingerprint/reset', (req, res) => {
+    const provider = resolveAdminProvider(req, res);
+    if (!provider) return;
+    llmManager.syncApiKeys(provider, config.apiKeys);
+    sendProviderKey(res, provider, req.params.fingerprint, llmManager.resetApiKey(provider, req.params.fingerprint));
+});
+
+// Error handling middleware (must be last)
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const requestId = (req as any).context?.requestId || 'unknown';
+    
+    // The timeout response has been sent or the client is gone; upstream work was cancelled
+    if (res.headersSent || (req as any).context?.abortSignal?.aborted) {
+        getRequestLogger(req).debug('Request cancelled', { error: error.message });
+        return;
+    }
+    
+    if (error instanceof ApiError) {
+        const response = ErrorResponseFormatter.logAndFormatError(
+            error, 
+            requestId, 
+            config.environment === 'development',
+            getRequestLogger(req)
+        );
+        res.status(error.statusCode).json(response);
+        return;
+    }
+    
+    // Handle JSON parsing errors
+    if (error instanceof SyntaxError && 'body' in error) {
+        const apiError = ApiError.validation('Invalid JSON in request body');
+        const response = ErrorResponseFormatter.logAndFormatError(
+            apiError, 
+            requestId, 
+            config.environment === 'development',
+            getRequestLogger(req)
+        );
+        res.status(apiError.statusCode).json(response);
+        return;
+    }
+    
+    // Handle generic errors
+    const apiError = ErrorTransformer.fromGenericError(error);
+    const response = ErrorResponseFormatter.logAndFormatError(
+        apiError, 
+        requestId, 
+        config.environment === 'development',
+        getRequestLogger(req)
+    );
+    res.status(apiError.statusCode).json(response);
+});
+
 // ===== SERVER STARTUP =====
 
 // Only start server if not in test environment
 if (process.env.NODE_ENV !== 'test') {
+    // Restore persisted key health before accepting requests
+    llmManager.loadState()
+        .then(() => {
+            if (config.keyStateFile) {
+                logger.info('Key state loaded', { file: config.keyStateFile });
+            }
+        })
+        .catch(error => {
+            logger.warn('Could not load key state, starting with a clean state', { file: config.keyStateFile, error: error.message });
+        })
+        // Virtual keys are not optional once configured: refuse to start without them
+        .then(() => virtualKeys.load().catch(error => {
+            logger.error('Could not load virtual keys', { file: config.virtualKeysFile, error: error.message });
+            process.exit(1);
+        }))
+        .then(() => {
+            if (config.virtualKeysFile) {
+                logger.info('Virtual keys loaded', { file: config.virtualKeysFile, count: virtualKeys.list().length });
+            } else if (config.adminApiKey) {
+                logger.warn('VIRTUAL_KEYS_FILE is not set: virtual keys issued through the admin API are kept in memory and lost on restart');
+            }
+        })
+        .then(startServer)
+        .catch(error => {
+            logger.error('Could not start the server', { error: error.message });
+            process.exit(1);
+        });
+}
+
+function startServer(): void {
+    responseCache?.startSweeping(error => logger.warn('Could not remove expired cache entries', { error: error.message }));
+
     const server = app.listen(config.port, () => {
-        console.log(`🚀 LLM Rotation Server запущен на порту ${config.port}`);
-        console.log(`📋 Доступные эндпоинты:`);
-        console.log(`   POST /v1/chat/completions - Основной эндпоинт для чата`);
-        console.log(`   GET  /v1/models - Список доступных моделей`);
-        console.log(`   GET  /v1/keys/status - Статус API ключей`);
-        console.log(`   GET  /health - Проверка состояния сервера`);
-        
-        if (config.enableLogging) {
-            console.log(`\n🔧 Конфигурация:`);
-            console.log(`   Environment: ${config.environment}`);
-            console.log(`   Logging: ${config.enableLogging ? 'enabled' : 'disabled'}`);
-            console.log(`   Request timeout: ${config.requestTimeout}ms`);
-            console.log(`   Providers configured: ${Object.keys(config.apiKeys).join(', ')}`);
-        }
-        
-        console.log(`\n🔑 Убедитесь, что установлены переменные окружения для API ключей:`);
-        console.log(`   GEMINI_API_KEY, OPENROUTER_API_KEY, HUGGINGFACE_API_KEY, и т.д.`);
+        logger.info('LLM Rotation Server listening', {
+            port: config.port,
+            environment: config.environment,
+            requestTimeout: config.requestTimeout,
+            providers: Object.keys(config.apiKeys),
+            endpoints: [
+                'POST /v1/chat/completions',
+                'POST /v1/embeddings',
+                'POST /v1/tokenize',
+                'GET /v1/models',
+                'GET /v1/keys/status',
+                'GET /v1/cache/stats',
+                'GET /health',
+                'GET /metrics',
+                ...(config.adminApiKey ? ['* /admin/keys', '* /admin/providers/:provider/keys'] : [])
+            ]
+        });
+    });
+    // Listening failures, such as a port in use, are reported as events rather than thrown
+    server.on('error', error => {
+        logger.error('Could not start the server', { port: config.port, error: error.message });
+        process.exit(1);
     });
 
     // Graceful shutdown handling
-    process.on('SIGTERM', () => {
-        console.log('🛑 Получен сигнал SIGTERM, завершаем сервер...');
-        server.close(() => {
-            console.log('✅ Сервер успешно завершен');
+    const shutdown = (signal: string) => {
+        logger.info('Shutting down', { signal });
+        server.close(async () => {
+            await llmManager.flushState();
+            await tracer.shutdown().catch(error => logger.warn('Could not export the remaining spans', { error: error.message }));
+            logger.info('Server stopped');
             process.exit(0);
         });
-    });
+    };
 
-    process.on('SIGINT', () => {
-        console.log('🛑 Получен сигнал SIGINT, завершаем сервер...');
-        server.close(() => {
-            console.log('✅ Сервер успешно завершен');
-            process.exit(0);
-        });
-    });
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
 }
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,111 @@
+/**
+ * @file structured-output.test.ts
+ * @description Unit tests for the JSON instruction, output validation and retries of structured output
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { applyJsonInstruction, buildJsonInstruction, checkJsonSchema, generateStructuredOutput, validateJsonOutput, StructuredOutputError } from './structured-output';
+import type { ResponseFormat } from './llm_rotation';
+
+const personFormat: ResponseFormat = {
+    type: 'json_schema',
+    json_schema: {
+        name: 'person',
+        schema: {
+            type: 'object',
+            properties: { name: { type: 'string' }, age: { type: 'integer' } },
+            required: ['name', 'age'],
+            additionalProperties: false
+        }
+    }
+};
+
+describe('checkJsonSchema', () => {
+    it('should accept compilable schemas', () => {
+        expect(checkJsonSchema({ type: 'object', properties: { when: { type: 'string', format: 'date-time' } } })).toBeNull();
+    });
+
+    it('should describe unusable schemas', () => {
+        expect(checkJsonSchema('object')).toBe('schema must be a JSON Schema object');
+        expect(checkJsonSchema({ type: 'banana' })).toMatch(/^schema is invalid/);
+    });
+
+    it('should not keep checked schemas, so a later request may reuse their $id', () => {
+        expect(checkJsonSchema({ $id: 'https://example.com/person', type: 'object' })).toBeNull();
+        expect(checkJsonSchema({ $id: 'https://example.com/person', type: 'array' })).toBeNull();
+    });
+});
+
+describe('applyJsonInstruction', () => {
+    it('should extend a leading system message', () => {
+        const prompt = applyJsonInstruction([{ role: 'system', content: 'You extract people.' }, { role: 'user', content: 'Ada, 36' }], personFormat);
+
+        expect(prompt).toHaveLength(2);
+        expect(prompt[0].content).toMatch(/^You extract people\.\n\nRespond only with a single valid JSON value/);
+        expect(prompt[0].content).toContain('"required":["name","age"]');
+    });
+
+    it('should prepend a system message otherwise', () => {
+        const prompt = applyJsonInstruction([{ role: 'user', content: 'List three colours' }], { type: 'json_object' });
+
+        expect(prompt[0]).toEqual({ role: 'system', content: buildJsonInstruction({ type: 'json_object' }) });
+        expect(prompt[1]).toEqual({ role: 'user', content: 'List three colours' });
+    });
+});
+
+describe('validateJsonOutput', () => {
+    it('should accept matching JSON and strip code fences', () => {
+        expect(validateJsonOutput('```json\n{"name":"Ada","age":36}\n```', personFormat)).toEqual({ json: '{"name":"Ada","age":36}' });
+    });
+
+    it('should report invalid JSON and schema mismatches', () => {
+        expect(validateJsonOutput('Sure! {"name":', personFormat)).toMatchObject({ error: expect.stringMatching(/^invalid JSON/) });
+        expect(validateJsonOutput('{"name":"Ada"}', personFormat)).toMatchObject({ error: expect.stringContaining("must have required property 'age'") });
+        expect(validateJsonOutput('[1, 2]', { type: 'json_object' })).toEqual({ error: 'expected a JSON object' });
+    });
+});
+
+describe('generateStructuredOutput', () => {
+    it('should retry until a reply matches the schema', async () => {
+        const generate = vi.fn()
+            .mockResolvedValueOnce({ content: '{"name":"Ada"}' })
+            .mockResolvedValueOnce({ content: '```\n{"name":"Ada","age":36}\n```', finishReason: 'stop' });
+
+        const result = await generateStructuredOutput(generate, personFormat, 3);
+
+        expect(generate).toHaveBeenCalledTimes(2);
+        expect(result).toEqual({ content: '{"name":"Ada","age":36}', finishReason: 'stop' });
+    });
+
+    it('should throw StructuredOutputError when every attempt is invalid', async () => {
+        const generate = vi.fn().mockResolvedValue({ content: 'not json' });
+
+        const attempt = generateStructuredOutput(generate, personFormat, 2);
+
+        await expect(attempt).rejects.toBeInstanceOf(StructuredOutputError);
+        await expect(attempt).rejects.toThrow(/^No valid JSON output after 2 attempts: invalid JSON/);
+        expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip validation for replies that only call tools', async () => {
+        const toolCalls = [{ id: 'call_1', type: 'function' as const, function: { name: 'lookup', arguments: '{}' } }];
+        const generate = vi.fn().mockResolvedValue({ content: null, toolCalls });
+
+        await expect(generateStructuredOutput(generate, personFormat, 1)).resolves.toEqual({ content: null, toolCalls });
+    });
+
+    it('should validate overlapping requests whose schemas share an $id', async () => {
+        const formatWithId = (type: string): ResponseFormat => ({
+            type: 'json_schema',
+            json_schema: { name: 'reply', schema: { $id: 'https://example.com/reply', type } }
+        });
+        let resolveObject!: (result: { content: string }) => void;
+        const objectRequest = generateStructuredOutput(() => new Promise(resolve => { resolveObject = resolve; }), formatWithId('object'), 1);
+
+        expect(checkJsonSchema({ $id: 'https://example.com/reply', type: 'string' })).toBeNull();
+        await expect(generateStructuredOutput(async () => ({ content: '[]' }), formatWithId('array'), 1)).resolves.toEqual({ content: '[]' });
+
+        resolveObject({ content: '{}' });
+        await expect(objectRequest).resolves.toEqual({ content: '{}' });
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * @file structured-output.ts
+ * @description JSON mode and JSON Schema structured output: the system instruction used for
+ * providers without native support, and validation of replies with retries on invalid JSON
+ */
+
+import Ajv from 'ajv';
+import type { Message, ResponseFormat, CompletionResult, CompletionChoice } from './llm_rotation';
+
+/**
+ * Check of one value against a compiled schema
+ * @returns The mismatches as text, or null when the value matches
+ */
+export type SchemaValidator = (value: unknown) => string | null;
+
+/**
+ * Compile a JSON Schema on an Ajv instance of its own. Ajv registers schemas by `$id`, so a
+ * shared instance would reject concurrent requests whose schemas have the same `$id`.
+ * @throws Error if the schema is invalid
+ */
+function compileSchema(schema: object): SchemaValidator {
+    // Formats such as "date-time" are advisory here; providers do not enforce them either
+    const ajv = new Ajv({ strict: false, validateFormats: false });
+    const validate = ajv.compile(schema);
+    return value => (validate(value) ? null : ajv.errorsText(validate.errors));
+}
+
+/**
+ * Raised when no attempt produced JSON matching the requested response format
+ */
+export class StructuredOutputError extends Error {
+    constructor(public readonly attempts: number, public readonly reason: string) {
+        super(`No valid JSON output after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${reason}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+/**
+ * Check whether a JSON Schema can be compiled
+ * @param schema - The schema from a json_schema response format
+ * @returns An error description, or null when the schema is usable
+ */
+export function checkJsonSchema(schema: unknown): string | null {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        return 'schema must be a JSON Schema object';
+    }
+    try {
+        compileSchema(schema);
+        return null;
+    } catch (error) {
+        return `schema is invalid: ${(error as Error).message}`;
+    }
+}
+
+/**
+ * Compile the schema of a response format for the replies of one request
+ * @param format - The requested response format
+ * @returns The validator, or undefined without a schema
+ */
+function compileResponseSchema(format: ResponseFormat): SchemaValidator | undefined {
+    return format.type === 'json_schema' && format.json_schema.schema ? compileSchema(format.json_schema.schema) : undefined;
+}
+
+/**
+ * Build the system instruction that asks a model without native support for JSON output
+ * @param format - A json_object or json_schema response format
+ * @returns The instruction text
+ */
+export function buildJsonInstruction(format: ResponseFormat): string {
+    const instruction = 'Respond only with a single valid JSON value. Do not wrap it in Markdown code fences or add any other text.';
+    if (format.type !== 'json_schema' || !format.json_schema.schema) {
+        return instruction;
+    }
+    const { name, description, schema } = format.json_schema;
+    return `${instruction} The JSON must conform to the JSON Schema "${name}"${description ? ` (${description})` : ''}:\n${JSON.stringify(schema)}`;
+}
+
+/**
+ * Add the JSON instruction to a prompt, extending a leading text system message or prepending one
+ * @param prompt - The conversation to send
+ * @param format - A json_object or json_schema response format
+ * @returns A new prompt; the original is not modified
+ */
+export function applyJsonInstruction(prompt: Message[], format: ResponseFormat): Message[] {
+    const instruction = buildJsonInstruction(format);
+    const [first, ...rest] = prompt;
+    if (first?.role === 'system' && typeof first.content === 'string') {
+        return [{ ...first, content: `${first.content}\n\n${instruction}` }, ...rest];
+    }
+    return [{ role: 'system', content: instruction }, ...prompt];
+}
+
+/**
+ * Check a reply against a response format. A Markdown code fence around the JSON is tolerated.
+ * @param content - The reply text
+ * @param format - The requested response format
+ * @param validate - The compiled schema of the format; compiled for this call when omitted
+ * @returns The JSON text without fences, or the reason the reply is invalid
+ */
+export function validateJsonOutput(content: string | null, format: ResponseFormat, validate?: SchemaValidator): { json: string } | { error: string } {
+    const json = (content ?? '').trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch (error) {
+        return { error: `invalid JSON (${(error as Error).message})` };
+    }
+
+    if (format.type === 'json_object' && (!value || typeof value !== 'object' || Array.isArray(value))) {
+        return { error: 'expected a JSON object' };
+    }
+    if (format.type === 'json_schema' && format.json_schema.schema) {
+        const mismatch = (validate ?? compileResponseSchema(format)!)(value);
+        if (mismatch) {
+            return { error: `does not match schema "${format.json_schema.name}" (${mismatch})` };
+        }
+    }
+    return { json };
+}
+
+/**
+ * Generate a completion whose replies must be JSON matching the response format, retrying
+ * invalid output. The schema is compiled once for all attempts. Replies that only request tool calls are not checked.
+ * @param generate - Performs one attempt; LlmManager moves to the next key on every call
+ * @param format - The requested response format
+ * @param attempts - Maximum number of attempts
+ * @returns The completion, with code fences stripped from its replies
+ * @throws StructuredOutputError when every attempt returns invalid output
+ */
+export async function generateStructuredOutput(
+    generate: () => Promise<CompletionResult>,
+    format: ResponseFormat,
+    attempts: number
+): Promise<CompletionResult> {
+    let lastError = 'no attempts were made';
+    const validate = compileResponseSchema(format);
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        const result = await generate();
+        const replies: CompletionChoice[] = [result, ...(result.alternatives || [])];
+        const checked = replies.map(reply => reply.toolCalls?.length ? null : validateJsonOutput(reply.content, format, validate));
+        const failure = checked.find(check => check && 'error' in check);
+        if (failure && 'error' in failure) {
+            lastError = failure.error;
+            continue;
+        }
+
+        const [first, ...alternatives] = replies.map((reply, index) => {
+            const check = checked[index];
+            return check && 'json' in check ? { ...reply, content: check.json } : reply;
+        });
+        return { ...result, ...first, ...(result.alternatives && { alternatives }) };
+    }
+
+    throw new StructuredOutputError(attempts, lastError);
+}
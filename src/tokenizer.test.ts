@@ -0,0 +1,54 @@
+/**
+ * @file tokenizer.test.ts
+ * @description Unit tests for local BPE token counting and model family selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEncodingForModel, encodeText, decodeTokens, countTokens, DEFAULT_ENCODING } from './tokenizer';
+
+describe('getEncodingForModel', () => {
+    it('should select o200k_base for recent OpenAI models', () => {
+        expect(getEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+        expect(getEncodingForModel('openai/gpt-4.1')).toBe('o200k_base');
+        expect(getEncodingForModel('o3-mini')).toBe('o200k_base');
+    });
+
+    it('should select cl100k_base for older OpenAI and Claude models', () => {
+        expect(getEncodingForModel('gpt-4')).toBe('cl100k_base');
+        expect(getEncodingForModel('gpt-3.5-turbo')).toBe('cl100k_base');
+        expect(getEncodingForModel('anthropic/claude-3-opus')).toBe('cl100k_base');
+    });
+
+    it('should fall back to the default encoding for other families', () => {
+        expect(getEncodingForModel('gemini-2.5-flash')).toBe(DEFAULT_ENCODING);
+        expect(getEncodingForModel('deepseek-ai/DeepSeek-R1')).toBe(DEFAULT_ENCODING);
+        expect(getEncodingForModel()).toBe(DEFAULT_ENCODING);
+    });
+});
+
+describe('encodeText', () => {
+    it('should round-trip text through token ids', () => {
+        const { encoding, tokens } = encodeText('Hello world', 'gpt-4o');
+
+        expect(encoding).toBe('o200k_base');
+        expect(tokens).toEqual([13225, 2375]);
+        expect(decodeTokens(tokens, 'gpt-4o')).toBe('Hello world');
+    });
+
+    it('should encode special-token markers as plain text', () => {
+        expect(encodeText('<|endoftext|>', 'gpt-4').tokens.length).toBeGreaterThan(1);
+    });
+});
+
+describe('countTokens', () => {
+    it('should count Cyrillic text far more tightly with o200k_base', () => {
+        const russian = 'Сегодня в Москве солнечно и тепло.';
+
+        expect(countTokens(russian, 'gpt-4o')).toBe(8);
+        expect(countTokens(russian, 'gpt-4')).toBe(19);
+    });
+
+    it('should return 0 for empty text', () => {
+        expect(countTokens('')).toBe(0);
+    });
+});
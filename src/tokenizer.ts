@@ -0,0 +1,95 @@
+/**
+ * @file tokenizer.ts
+ * @description Local BPE token counting with the cl100k_base and o200k_base vocabularies
+ * bundled by js-tiktoken. Each model family is mapped to the vocabulary that best
+ * approximates its own tokenizer; encoders are loaded on first use and cached.
+ */
+
+import { getEncoding } from 'js-tiktoken';
+import type { Tiktoken } from 'js-tiktoken';
+
+/**
+ * BPE vocabularies available for counting
+ */
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Encoding used for models that match no family below. o200k_base has a far larger
+ * multilingual vocabulary, so it stays close on Cyrillic and CJK text for most modern models.
+ */
+export const DEFAULT_ENCODING: TokenizerEncoding = 'o200k_base';
+
+/**
+ * Model families in match order; the first pattern found in the lowercase model id wins
+ */
+const MODEL_FAMILY_ENCODINGS: Array<{ pattern: RegExp; encoding: TokenizerEncoding }> = [
+    { pattern: /gpt-4o|gpt-4\.1|gpt-5|(^|\/)o[134](-|$)|gpt-oss/, encoding: 'o200k_base' },
+    { pattern: /gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada/, encoding: 'cl100k_base' },
+    { pattern: /claude|anthropic/, encoding: 'cl100k_base' },
+    { pattern: /llama-2|mistral-7b|mixtral-8x7b|zephyr/, encoding: 'cl100k_base' }
+];
+
+/** Tokens added per message for the role and separators in chat formats */
+export const TOKENS_PER_MESSAGE = 3;
+/** Tokens added when a message carries a name */
+export const TOKENS_PER_NAME = 1;
+/** Tokens that prime the assistant reply */
+export const REPLY_PRIMING_TOKENS = 3;
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+/**
+ * Pick the vocabulary that best approximates a model's tokenizer
+ * @param model - The model identifier; the default encoding is used when omitted
+ * @returns The encoding name
+ */
+export function getEncodingForModel(model?: string): TokenizerEncoding {
+    const normalizedModel = model?.trim().toLowerCase();
+    if (!normalizedModel) {
+        return DEFAULT_ENCODING;
+    }
+    return MODEL_FAMILY_ENCODINGS.find(family => family.pattern.test(normalizedModel))?.encoding ?? DEFAULT_ENCODING;
+}
+
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+    let encoder = encoders.get(encoding);
+    if (!encoder) {
+        encoder = getEncoding(encoding);
+        encoders.set(encoding, encoder);
+    }
+    return encoder;
+}
+
+/**
+ * Encode text into BPE token ids
+ * @param text - Text to encode; special-token markers are encoded as plain text
+ * @param model - Model whose tokenizer family to use
+ * @returns The encoding used and the token ids
+ */
+export function encodeText(text: string, model?: string): { encoding: TokenizerEncoding; tokens: number[] } {
+    const encoding = getEncodingForModel(model);
+    return { encoding, tokens: getEncoder(encoding).encode(text, [], []) };
+}
+
+/**
+ * Decode BPE token ids back to text
+ * @param tokens - Token ids produced by encodeText for the same model
+ * @param model - Model whose tokenizer family to use
+ * @returns The decoded text
+ */
+export function decodeTokens(tokens: number[], model?: string): string {
+    return getEncoder(getEncodingForModel(model)).decode(tokens);
+}
+
+/**
+ * Count the BPE tokens in a piece of text
+ * @param text - Text to count
+ * @param model - Model whose tokenizer family to use
+ * @returns Token count
+ */
+export function countTokens(text: string, model?: string): number {
+    if (!text) {
+        return 0;
+    }
+    return encodeText(text, model).tokens.length;
+}
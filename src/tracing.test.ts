@@ -0,0 +1,208 @@
+/**
+ * @file tracing.test.ts
+ * @description Unit tests for spans, traceparent propagation, sampling and the span exporters
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Tracer, InMemorySpanExporter, LogSpanExporter, OtlpHttpSpanExporter, parseTraceparent, formatTraceparent } from './tracing';
+
+const fetchMock = vi.hoisted(() => vi.fn());
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+describe('tracing', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-07-14T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('parseTraceparent', () => {
+        it('should parse the trace id, parent span id and sampled flag', () => {
+            expect(parseTraceparent(traceparent)).toEqual({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true });
+            expect(parseTraceparent(traceparent.replace(/01$/, '00'))?.sampled).toBe(false);
+        });
+
+        it('should accept fields added by future versions', () => {
+            expect(parseTraceparent(`cc${traceparent.slice(2)}-extra`)?.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+        });
+
+        it('should reject missing and malformed headers', () => {
+            expect(parseTraceparent(undefined)).toBeUndefined();
+            expect(parseTraceparent('not-a-traceparent')).toBeUndefined();
+            expect(parseTraceparent(`ff${traceparent.slice(2)}`)).toBeUndefined();
+            expect(parseTraceparent(`${traceparent}-extra`)).toBeUndefined();
+            expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+            expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01')).toBeUndefined();
+        });
+
+        it('should round-trip through formatTraceparent', () => {
+            expect(formatTraceparent(parseTraceparent(traceparent)!)).toBe(traceparent);
+        });
+    });
+
+    describe('Tracer', () => {
+        let exporter: InMemorySpanExporter;
+
+        beforeEach(() => {
+            exporter = new InMemorySpanExporter();
+        });
+
+        it('should export spans with their parent, attributes, status and duration once they end', () => {
+            const tracer = new Tracer({ exporters: [exporter] });
+            const request = tracer.startSpan('POST', { kind: 'server', parent: parseTraceparent(traceparent), attributes: { 'http.request.method': 'POST' } });
+            const attempt = tracer.startSpan('key attempt', { parent: request.context });
+
+            vi.advanceTimersByTime(250);
+            attempt.setAttributes({ 'llm.key_index': 0, 'llm.retry_delay_ms': undefined }).setStatus('ok').end();
+            request.updateName('POST /v1/chat/completions').end();
+
+            const [attemptSpan, requestSpan] = exporter.getFinishedSpans();
+            expect(requestSpan).toMatchObject({
+                name: 'POST /v1/chat/completions',
+                kind: 'server',
+                traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                parentSpanId: '00f067aa0ba902b7',
+                attributes: { 'http.request.method': 'POST' },
+                status: { code: 'unset' }
+            });
+            expect(attemptSpan).toMatchObject({
+                traceId: requestSpan.traceId,
+                parentSpanId: requestSpan.spanId,
+                attributes: { 'llm.key_index': 0 },
+                status: { code: 'ok' }
+            });
+            expect(attemptSpan.attributes).not.toHaveProperty('llm.retry_delay_ms');
+            expect(attemptSpan.endTime - attemptSpan.startTime).toBe(250);
+        });
+
+        it('should export a span only once', () => {
+            const span = new Tracer({ exporters: [exporter] }).startSpan('validate request');
+
+            span.end();
+            span.end();
+
+            expect(exporter.getFinishedSpans()).toHaveLength(1);
+        });
+
+        it('should record exceptions as events and mark the span failed', () => {
+            new Tracer({ exporters: [exporter] }).startSpan('key attempt').recordException(new TypeError('boom'), 'redacted boom').end();
+
+            expect(exporter.getFinishedSpans()[0]).toMatchObject({
+                status: { code: 'error', message: 'redacted boom' },
+                events: [{ name: 'exception', time: Date.now(), attributes: { 'exception.type': 'TypeError', 'exception.message': 'redacted boom' } }]
+            });
+        });
+
+        it('should follow the sampled flag of the parent and the sample ratio for new traces', () => {
+            const tracer = new Tracer({ exporters: [exporter], sampleRatio: 0 });
+
+            tracer.startSpan('dropped').end();
+            tracer.startSpan('unsampled parent', { parent: parseTraceparent(traceparent.replace(/01$/, '00')) }).end();
+            tracer.startSpan('sampled parent', { parent: parseTraceparent(traceparent) }).end();
+
+            expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['sampled parent']);
+        });
+
+        it('should redact secrets from attributes, status messages and events', () => {
+            const tracer = new Tracer({ exporters: [exporter], secrets: ['configured-key'] });
+
+            tracer.startSpan('chat', { attributes: { 'url.full': 'https://api.example.com/v1?key=abc', note: 'sent configured-key' } })
+                .recordException(new Error('invalid configured-key'))
+                .end();
+
+            expect(JSON.stringify(exporter.getFinishedSpans())).not.toMatch(/configured-key|key=abc/);
+        });
+
+        it('should log export failures instead of throwing them', async () => {
+            const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn() };
+            const tracer = new Tracer({
+                exporters: [{ export: () => { throw new Error('exporter down'); } }, { export: async () => { throw new Error('collector down'); } }],
+                logger
+            });
+
+            tracer.startSpan('chat').end();
+            await vi.runAllTimersAsync();
+
+            expect(logger.warn).toHaveBeenCalledWith('Span export failed', { error: 'exporter down' });
+            expect(logger.warn).toHaveBeenCalledWith('Span export failed', { error: 'collector down' });
+        });
+    });
+
+    describe('LogSpanExporter', () => {
+        it('should write each span as a debug entry', () => {
+            const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn() };
+            const tracer = new Tracer({ exporters: [new LogSpanExporter(logger)] });
+
+            const span = tracer.startSpan('detect provider', { attributes: { 'llm.provider': 'gemini' } });
+            span.setStatus('ok').end();
+
+            expect(logger.debug).toHaveBeenCalledWith('Span detect provider', expect.objectContaining({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                status: 'ok',
+                durationMs: 0,
+                attributes: { 'llm.provider': 'gemini' }
+            }));
+        });
+    });
+
+    describe('OtlpHttpSpanExporter', () => {
+        it('should send buffered spans as OTLP JSON once the flush interval has passed', async () => {
+            fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+            const exporter = new OtlpHttpSpanExporter({ url: 'http://collector:4318/v1/traces', serviceName: 'llm-gateway', flushIntervalMs: 1000 });
+            const tracer = new Tracer({ exporters: [exporter] });
+
+            const span = tracer.startSpan('chat gemini-2.5-pro', { kind: 'client', parent: parseTraceparent(traceparent), attributes: { 'gen_ai.usage.input_tokens': 12, 'llm.streaming': false } });
+            span.recordException(new Error('boom')).end();
+            expect(fetchMock).not.toHaveBeenCalled();
+            await vi.advanceTimersByTimeAsync(1000);
+
+            // node-fetch is imported on the first flush, which may take longer than the timers
+            await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledWith('http://collector:4318/v1/traces', expect.objectContaining({ method: 'POST' })));
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'llm-gateway' } }]);
+            expect(body.resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+                traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                spanId: span.context.spanId,
+                parentSpanId: '00f067aa0ba902b7',
+                name: 'chat gemini-2.5-pro',
+                kind: 3,
+                startTimeUnixNano: `${span.startTime}000000`,
+                attributes: [
+                    { key: 'gen_ai.usage.input_tokens', value: { intValue: '12' } },
+                    { key: 'llm.streaming', value: { boolValue: false } }
+                ],
+                status: { code: 2, message: 'boom' }
+            });
+        });
+
+        it('should send a full batch right away and the rest on shutdown', async () => {
+            fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+            const exporter = new OtlpHttpSpanExporter({ url: 'http://collector:4318/v1/traces', serviceName: 'llm-gateway', maxBatchSize: 2 });
+            const tracer = new Tracer({ exporters: [exporter] });
+
+            ['a', 'b', 'c'].forEach(name => tracer.startSpan(name).end());
+            await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+            await tracer.shutdown();
+
+            const batches = fetchMock.mock.calls.map(call => JSON.parse(call[1].body).resourceSpans[0].scopeSpans[0].spans.map((span: any) => span.name));
+            expect(batches).toEqual([['a', 'b'], ['c']]);
+        });
+
+        it('should reject a flush the collector refuses', async () => {
+            fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+            const exporter = new OtlpHttpSpanExporter({ url: 'http://collector:4318/v1/traces', serviceName: 'llm-gateway' });
+
+            await exporter.export([{ name: 'a', kind: 'internal', traceId: '1'.repeat(32), spanId: '1'.repeat(16), startTime: 0, endTime: 1, attributes: {}, status: { code: 'unset' }, events: [] }]);
+
+            await expect(exporter.flush()).rejects.toThrow('OTLP export failed: 503 Service Unavailable');
+        });
+    });
+});
@@ -0,0 +1,411 @@
+/**
+ * @file tracing.ts
+ * @description Trace spans in the style of OpenTelemetry. A span is recorded for each inbound
+ * request and its steps: validation, provider detection, every key attempt and the upstream
+ * call it makes. Incoming W3C `traceparent` headers are continued, and finished spans are handed
+ * to pluggable exporters, e.g. an in-memory exporter for tests or OTLP/HTTP for a collector.
+ */
+
+import { randomBytes } from 'crypto';
+import { redactSecrets, redactValue } from './logger';
+import type { Logger } from './logger';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Identity of a span, as carried by a `traceparent` header
+ */
+export interface SpanContext {
+    /** 32 lowercase hex digits */
+    traceId: string;
+    /** 16 lowercase hex digits */
+    spanId: string;
+    /** Whether the span is recorded; unsampled spans are not exported */
+    sampled: boolean;
+}
+
+export interface SpanEvent {
+    name: string;
+    /** Epoch milliseconds */
+    time: number;
+    attributes?: SpanAttributes;
+}
+
+/**
+ * A span as handed to exporters
+ */
+export interface FinishedSpan {
+    name: string;
+    kind: SpanKind;
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    /** Epoch milliseconds */
+    startTime: number;
+    /** Epoch milliseconds */
+    endTime: number;
+    attributes: SpanAttributes;
+    status: { code: SpanStatusCode; message?: string };
+    events: SpanEvent[];
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface SpanExporter {
+    export(spans: FinishedSpan[]): void | Promise<void>;
+    /** Sends any buffered spans; called when the server shuts down */
+    shutdown?(): Promise<void>;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    /** Span this one is a child of, e.g. one from a `traceparent` header; without it a new trace starts */
+    parent?: SpanContext;
+    attributes?: SpanAttributes;
+}
+
+export interface TracerOptions {
+    /** Receive every sampled span once it ends; spans are discarded without exporters */
+    exporters?: SpanExporter[];
+    /** Share of new traces that are sampled, between 0 and 1 (default 1). Child spans follow their parent. */
+    sampleRatio?: number;
+    /** Values redacted from attributes, status messages and events, such as the configured API keys */
+    secrets?: string[];
+    /** Receives exporter failures */
+    logger?: Logger;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a W3C `traceparent` header
+ * @returns The remote parent span, or undefined when the header is missing or malformed
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+    const match = TRACEPARENT_PATTERN.exec(header?.trim().toLowerCase() ?? '');
+    if (!match) {
+        return undefined;
+    }
+    const [, version, traceId, spanId, flags, rest] = match;
+    // Version ff is forbidden; version 00 has no further fields
+    if (version === 'ff' || (version === '00' && rest !== undefined)) {
+        return undefined;
+    }
+    if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+        return undefined;
+    }
+    return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header
+ */
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * An operation being timed. Attributes and status can be changed until end() is called.
+ */
+export class Span {
+    readonly startTime = Date.now();
+    private attributes: SpanAttributes = {};
+    private status: FinishedSpan['status'] = { code: 'unset' };
+    private events: SpanEvent[] = [];
+    private ended = false;
+
+    /**
+     * @param onEnd - Receives the span once it ends
+     */
+    constructor(
+        private name: string,
+        readonly kind: SpanKind,
+        readonly context: SpanContext,
+        readonly parentSpanId: string | undefined,
+        private readonly onEnd: (span: FinishedSpan) => void
+    ) {}
+
+    /**
+     * Set an attribute; undefined values are skipped
+     */
+    setAttribute(name: string, value: SpanAttributeValue | undefined): this {
+        if (value !== undefined) {
+            this.attributes[name] = value;
+        }
+        return this;
+    }
+
+    setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+        Object.entries(attributes).forEach(([name, value]) => this.setAttribute(name, value));
+        return this;
+    }
+
+    setStatus(code: SpanStatusCode, message?: string): this {
+        this.status = message !== undefined ? { code, message } : { code };
+        return this;
+    }
+
+    /**
+     * Rename the span, e.g. once the route of a request is known
+     */
+    updateName(name: string): this {
+        this.name = name;
+        return this;
+    }
+
+    addEvent(name: string, attributes?: SpanAttributes): this {
+        this.events.push({ name, time: Date.now(), ...(attributes && { attributes }) });
+        return this;
+    }
+
+    /**
+     * Add an exception event and mark the span as failed
+     * @param message - Message to record instead of the error's own, e.g. a redacted one
+     */
+    recordException(error: Error, message: string = error.message): this {
+        this.addEvent('exception', { 'exception.type': error.name, 'exception.message': message });
+        return this.setStatus('error', message);
+    }
+
+    /**
+     * End the span; later calls are ignored
+     */
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        this.onEnd({
+            name: this.name,
+            kind: this.kind,
+            traceId: this.context.traceId,
+            spanId: this.context.spanId,
+            ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+            startTime: this.startTime,
+            endTime: Date.now(),
+            attributes: { ...this.attributes },
+            status: { ...this.status },
+            events: [...this.events]
+        });
+    }
+}
+
+/**
+ * Creates spans and hands the sampled ones to the exporters when they end
+ */
+export class Tracer {
+    private readonly exporters: SpanExporter[];
+    private readonly sampleRatio: number;
+    private readonly secrets: string[];
+    private readonly logger?: Logger;
+
+    constructor(options: TracerOptions = {}) {
+        this.exporters = options.exporters ?? [];
+        this.sampleRatio = options.sampleRatio ?? 1;
+        this.secrets = options.secrets ?? [];
+        this.logger = options.logger;
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        const { parent } = options;
+        const context: SpanContext = {
+            traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+            spanId: randomBytes(8).toString('hex'),
+            sampled: parent ? parent.sampled : Math.random() < this.sampleRatio
+        };
+        const span = new Span(name, options.kind ?? 'internal', context, parent?.spanId, finished => this.export(finished, context.sampled));
+        return options.attributes ? span.setAttributes(options.attributes) : span;
+    }
+
+    /**
+     * Flush and stop every exporter
+     */
+    async shutdown(): Promise<void> {
+        await Promise.all(this.exporters.map(exporter => exporter.shutdown?.()));
+    }
+
+    private export(span: FinishedSpan, sampled: boolean): void {
+        if (!sampled || this.exporters.length === 0) return;
+        const redacted: FinishedSpan = {
+            ...span,
+            attributes: redactValue(span.attributes, this.secrets) as SpanAttributes,
+            status: span.status.message !== undefined ? { ...span.status, message: redactSecrets(span.status.message, this.secrets) } : span.status,
+            events: redactValue(span.events, this.secrets) as SpanEvent[]
+        };
+        for (const exporter of this.exporters) {
+            try {
+                Promise.resolve(exporter.export([redacted])).catch(error => this.reportExportError(error));
+            } catch (error) {
+                this.reportExportError(error);
+            }
+        }
+    }
+
+    private reportExportError(error: unknown): void {
+        this.logger?.warn('Span export failed', { error: (error as Error).message });
+    }
+}
+
+/**
+ * Keeps finished spans in memory, for tests and debugging
+ */
+export class InMemorySpanExporter implements SpanExporter {
+    private spans: FinishedSpan[] = [];
+
+    export(spans: FinishedSpan[]): void {
+        this.spans.push(...spans);
+    }
+
+    /**
+     * Spans in the order they ended
+     */
+    getFinishedSpans(): FinishedSpan[] {
+        return [...this.spans];
+    }
+
+    reset(): void {
+        this.spans = [];
+    }
+
+    async shutdown(): Promise<void> {
+        this.reset();
+    }
+}
+
+/**
+ * Writes each finished span as a debug log entry
+ */
+export class LogSpanExporter implements SpanExporter {
+    constructor(private readonly logger: Logger) {}
+
+    export(spans: FinishedSpan[]): void {
+        for (const span of spans) {
+            this.logger.debug(`Span ${span.name}`, {
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                kind: span.kind,
+                durationMs: span.endTime - span.startTime,
+                status: span.status.code,
+                attributes: span.attributes
+            });
+        }
+    }
+}
+
+export interface OtlpHttpSpanExporterOptions {
+    /** Traces endpoint of the collector, e.g. http://localhost:4318/v1/traces */
+    url: string;
+    /** Reported as the service.name resource attribute */
+    serviceName: string;
+    /** Spans sent in one request (default 100) */
+    maxBatchSize?: number;
+    /** Milliseconds after which buffered spans are sent even if the batch is not full (default 5000) */
+    flushIntervalMs?: number;
+    /** Extra request headers, e.g. for collector authentication */
+    headers?: Record<string, string>;
+}
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, unknown> }> {
+    return Object.entries(attributes).map(([key, value]) => ({
+        key,
+        value: typeof value === 'string' ? { stringValue: value }
+            : typeof value === 'boolean' ? { boolValue: value }
+            : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+    }));
+}
+
+function toUnixNano(epochMs: number): string {
+    return `${Math.round(epochMs)}000000`;
+}
+
+/**
+ * Sends spans in batches to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+    private buffer: FinishedSpan[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private readonly maxBatchSize: number;
+    private readonly flushIntervalMs: number;
+
+    constructor(private readonly options: OtlpHttpSpanExporterOptions) {
+        this.maxBatchSize = options.maxBatchSize ?? 100;
+        this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    }
+
+    async export(spans: FinishedSpan[]): Promise<void> {
+        this.buffer.push(...spans);
+        if (this.buffer.length >= this.maxBatchSize) {
+            await this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                // A failed background flush drops its batch rather than growing the buffer
+                this.flush().catch(() => {});
+            }, this.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    /**
+     * Send every buffered span
+     * @throws Error if the collector rejects the batch
+     */
+    async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const spans = this.buffer.splice(0);
+        if (spans.length === 0) return;
+
+        const fetch = (await import('node-fetch')).default;
+        const response = await fetch(this.options.url, {
+            method: 'POST',
+            headers: { ...this.options.headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(this.toRequest(spans))
+        });
+        if (!response.ok) {
+            throw new Error(`OTLP export failed: ${response.status} ${response.statusText}`);
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        await this.flush();
+    }
+
+    private toRequest(spans: FinishedSpan[]): Record<string, unknown> {
+        return {
+            resourceSpans: [{
+                resource: { attributes: toOtlpAttributes({ 'service.name': this.options.serviceName }) },
+                scopeSpans: [{
+                    scope: { name: 'llm-rotation-server' },
+                    spans: spans.map(span => ({
+                        traceId: span.traceId,
+                        spanId: span.spanId,
+                        ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                        name: span.name,
+                        kind: OTLP_SPAN_KINDS[span.kind],
+                        startTimeUnixNano: toUnixNano(span.startTime),
+                        endTimeUnixNano: toUnixNano(span.endTime),
+                        attributes: toOtlpAttributes(span.attributes),
+                        events: span.events.map(event => ({
+                            name: event.name,
+                            timeUnixNano: toUnixNano(event.time),
+                            attributes: toOtlpAttributes(event.attributes ?? {})
+                        })),
+                        status: { code: OTLP_STATUS_CODES[span.status.code], ...(span.status.message && { message: span.status.message }) }
+                    }))
+                }]
+            }]
+        };
+    }
+}
@@ -10,8 +10,12 @@ import {
     estimateTokens,
     estimateTokensWithRoles,
     createStreamingTransformer,
+    formatSseEvent,
     validateTransformationRequest,
-    transformError
+    transformError,
+    getTextContent,
+    hasImageContent,
+    transformEmbeddingResponse
 } from './transformations';
 import type { ChatCompletionRequest, Message, ApiKeys } from './types';
 
@@ -96,6 +100,34 @@ describe('transformRequest', () => {
         expect(result.model).toBe('gemini-2.0-flash');
         expect(result.apiKeys).toBe(mockApiKeys);
     });
+
+    it('should carry generation parameters in camelCase', () => {
+        const openaiRequest: ChatCompletionRequest = {
+            model: 'gpt-4',
+            messages: [{ role: 'user', content: 'Hello' }],
+            stop: 'END',
+            frequency_penalty: 0.2,
+            presence_penalty: -0.2,
+            seed: 7,
+            n: 2,
+            response_format: { type: 'json_object' },
+            logit_bias: { '50256': -100 },
+            user: 'user-1'
+        };
+
+        const result = transformRequest(openaiRequest, 'openrouter', mockApiKeys);
+
+        expect(result).toMatchObject({
+            stop: ['END'],
+            frequencyPenalty: 0.2,
+            presencePenalty: -0.2,
+            seed: 7,
+            n: 2,
+            responseFormat: { type: 'json_object' },
+            logitBias: { '50256': -100 },
+            user: 'user-1'
+        });
+    });
 });
 
 describe('transformResponse', () => {
@@ -122,6 +154,59 @@ describe('transformResponse', () => {
         expect(result.id).toMatch(/^chatcmpl-/);
     });
 
+    it('should report provider usage when available', () => {
+        const usage = { promptTokens: 12, completionTokens: 5, totalTokens: 17 };
+        const result = transformResponse({ content: 'The answer is 4.', usage }, 'gpt-4', mockMessages);
+
+        expect(result.usage).toEqual({ prompt_tokens: 12, completion_tokens: 5, total_tokens: 17, estimated: false });
+    });
+
+    it('should flag estimated usage when the provider reports none', () => {
+        const result = transformResponse({ content: 'The answer is 4.' }, 'gpt-4', mockMessages);
+
+        expect(result.usage.estimated).toBe(true);
+        expect(result.usage.prompt_tokens).toBe(estimateTokensWithRoles(mockMessages, 'gpt-4'));
+        expect(result.usage.completion_tokens).toBe(estimateTokens('The answer is 4.', 'gpt-4'));
+    });
+
+    it('should return tool calls with a tool_calls finish reason', () => {
+        const toolCalls = [{ id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }];
+        const result = transformResponse({ content: null, toolCalls }, 'gpt-4', mockMessages);
+
+        expect(result.choices[0].message).toEqual({ role: 'assistant', content: null, tool_calls: toolCalls });
+        expect(result.choices[0].finish_reason).toBe('tool_calls');
+        expect(result.usage.completion_tokens).toBeGreaterThan(0);
+    });
+
+    it('should map provider finish reasons to OpenAI values', () => {
+        expect(transformResponse({ content: 'Cut', finishReason: 'MAX_TOKENS' }, 'gemini-2.5-flash', mockMessages).choices[0].finish_reason).toBe('length');
+        expect(transformResponse({ content: 'Cut', finishReason: 'model_length' }, 'mistral-large-latest', mockMessages).choices[0].finish_reason).toBe('length');
+        expect(transformResponse({ content: 'Partial', finishReason: 'SAFETY' }, 'gemini-2.5-flash', mockMessages).choices[0].finish_reason).toBe('content_filter');
+        expect(transformResponse({ content: 'Done', finishReason: 'COMPLETE' }, 'command-r', mockMessages).choices[0].finish_reason).toBe('stop');
+        expect(transformResponse({ content: 'Done', finishReason: 'something_new' }, 'gpt-4', mockMessages).choices[0].finish_reason).toBe('stop');
+    });
+
+    it('should report tool_calls when a provider stops normally with tool calls', () => {
+        const toolCalls = [{ id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{}' } }];
+        const result = transformResponse({ content: null, toolCalls, finishReason: 'STOP' }, 'gemini-2.5-flash', mockMessages);
+
+        expect(result.choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should return one choice per alternative reply', () => {
+        const result = transformResponse({
+            content: 'First',
+            finishReason: 'stop',
+            alternatives: [{ content: 'Second', finishReason: 'length' }]
+        }, 'gpt-4', mockMessages);
+
+        expect(result.choices.map(choice => [choice.index, choice.message.content, choice.finish_reason])).toEqual([
+            [0, 'First', 'stop'],
+            [1, 'Second', 'length']
+        ]);
+        expect(result.usage.completion_tokens).toBe(estimateTokens('First', 'gpt-4') + estimateTokens('Second', 'gpt-4'));
+    });
+
     it('should use provided request ID', () => {
         const requestId = 'test-request-123';
         const result = transformResponse('Hello', 'gpt-4', mockMessages, requestId);
@@ -148,6 +233,30 @@ describe('transformResponse', () => {
     });
 });
 
+describe('transformEmbeddingResponse', () => {
+    it('should return one embedding object per input with provider usage', () => {
+        const response = transformEmbeddingResponse({ embeddings: [[0.1], [0.2]], promptTokens: 7 }, 'mistral-embed', ['a', 'b']);
+
+        expect(response).toEqual({
+            object: 'list',
+            data: [
+                { object: 'embedding', index: 0, embedding: [0.1] },
+                { object: 'embedding', index: 1, embedding: [0.2] }
+            ],
+            model: 'mistral-embed',
+            usage: { prompt_tokens: 7, total_tokens: 7 }
+        });
+    });
+
+    it('should encode vectors as base64 float32 and estimate missing usage', () => {
+        const response = transformEmbeddingResponse({ embeddings: [[1, -2.5]] }, 'text-embedding-004', 'hello world', 'base64');
+
+        const bytes = Buffer.from(response.data[0].embedding as string, 'base64');
+        expect(Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, 2))).toEqual([1, -2.5]);
+        expect(response.usage.prompt_tokens).toBe(estimateTokens('hello world'));
+    });
+});
+
 describe('estimateTokens', () => {
     it('should estimate tokens for simple strings', () => {
         expect(estimateTokens('hello')).toBeGreaterThan(0);
@@ -194,11 +303,9 @@ describe('estimateTokens', () => {
         expect(tokens).toBeGreaterThan(0);
     });
 
-    it('should handle whitespace normalization', () => {
-        const normalText = 'hello world';
-        const spacedText = '  hello    world  ';
-        
-        expect(estimateTokens(normalText)).toBe(estimateTokens(spacedText));
+    it('should count with the BPE tokenizer of the model family', () => {
+        expect(estimateTokens('hello world')).toBe(2);
+        expect(estimateTokens('Привет, как дела?', 'gpt-4o')).toBeLessThan(estimateTokens('Привет, как дела?', 'gpt-4'));
     });
 
     it('should return minimum 1 token for non-empty text', () => {
@@ -251,6 +358,16 @@ describe('estimateTokensWithRoles', () => {
         // Multiple messages should have more overhead, but be more realistic about the expectation
         expect(multipleTokens).toBeGreaterThan(singleTokens * 2);
     });
+
+    it('should match the chat format count of OpenAI models', () => {
+        const messages: Message[] = [
+            { role: 'system', content: 'You are a helpful assistant.' },
+            { role: 'user', content: 'Hello!' }
+        ];
+
+        // 3 per message + role + content, plus 3 to prime the reply
+        expect(estimateTokensWithRoles(messages, 'gpt-4')).toBe((3 + 1 + 6) + (3 + 1 + 2) + 3);
+    });
 });
 
 describe('createStreamingTransformer', () => {
@@ -292,6 +409,22 @@ describe('createStreamingTransformer', () => {
     });
 });
 
+describe('formatSseEvent', () => {
+    it('should serialize chunk objects as SSE data lines', () => {
+        const chunk = createStreamingTransformer('gpt-4', 'test-id')('Hi');
+
+        const event = formatSseEvent(chunk);
+
+        expect(event.startsWith('data: ')).toBe(true);
+        expect(event.endsWith('\n\n')).toBe(true);
+        expect(JSON.parse(event.slice(6))).toEqual(chunk);
+    });
+
+    it('should emit the [DONE] terminator verbatim', () => {
+        expect(formatSseEvent('[DONE]')).toBe('data: [DONE]\n\n');
+    });
+});
+
 describe('validateTransformationRequest', () => {
     it('should validate correct requests', () => {
         const validRequest: ChatCompletionRequest = {
@@ -389,6 +522,55 @@ describe('validateTransformationRequest', () => {
         const errors = validateTransformationRequest(invalidRequest);
         expect(errors).toContain('top_p must be a number between 0 and 1');
     });
+
+    it('should accept image content parts', () => {
+        const request: ChatCompletionRequest = {
+            model: 'gemini-2.0-flash',
+            messages: [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'Describe this' },
+                    { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/4AAQ' } }
+                ]
+            }]
+        };
+
+        expect(validateTransformationRequest(request)).toEqual([]);
+    });
+
+    it('should reject unknown content part types', () => {
+        const request = {
+            model: 'gemini-2.0-flash',
+            messages: [{ role: 'user', content: [{ type: 'audio', audio: 'abc' }] }]
+        } as unknown as ChatCompletionRequest;
+
+        expect(validateTransformationRequest(request)).toContain("Message 0: content parts must be non-empty 'text' or 'image_url' parts");
+    });
+});
+
+describe('content parts', () => {
+    const messages: Message[] = [
+        { role: 'system', content: 'Be brief' },
+        {
+            role: 'user',
+            content: [
+                { type: 'text', text: 'First' },
+                { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+                { type: 'text', text: 'Second' }
+            ]
+        }
+    ];
+
+    it('should join the text parts of structured content', () => {
+        expect(getTextContent(messages[1].content)).toBe('First\nSecond');
+        expect(getTextContent(null)).toBe('');
+    });
+
+    it('should detect image parts and count only text tokens', () => {
+        expect(hasImageContent(messages)).toBe(true);
+        expect(hasImageContent([messages[0]])).toBe(false);
+        expect(estimateTokens(messages[1])).toBe(estimateTokens('First\nSecond'));
+    });
 });
 
 describe('transformError', () => {
@@ -1,7 +1,7 @@
 /**
  * @file transformations.ts
  * @description Request/response transformation utilities for converting between
- * OpenAI API format and LlmManager format, including token estimation utilities
+ * OpenAI API format and LlmManager format, including token counting utilities
  */
 
 import type {
@@ -12,8 +12,22 @@ import type {
     Message,
     LlmSettings,
     ApiKeys,
-    Provider
+    Provider,
+    CompletionResult,
+    CompletionChoice,
+    ToolCall,
+    GenerationParameter,
+    EmbeddingResult,
+    EmbeddingResponse,
+    VirtualKeyRequest,
+    VirtualKeyObject,
+    ApiKeyStatus,
+    ProviderKeyObject
 } from './types';
+import type { VirtualKey, VirtualKeyOptions } from './virtual-keys';
+import type { KeyCooldown, KeyStatsSnapshot } from './llm_rotation';
+import { countTokens, TOKENS_PER_MESSAGE, TOKENS_PER_NAME, REPLY_PRIMING_TOKENS } from './tokenizer';
+import { normalizeFinishReason } from './finish-reason';
 
 /**
  * Transform OpenAI API request format to LlmManager settings format
@@ -43,162 +57,275 @@ export function transformRequest(
         maxTokens: openaiRequest.max_tokens ?? defaultSettings?.maxTokens ?? 2048,
         topP: openaiRequest.top_p ?? defaultSettings?.topP ?? 0.9,
         siteUrl: defaultSettings?.siteUrl ?? 'http://localhost:3000',
-        siteName: defaultSettings?.siteName ?? 'LLM Rotation Server'
+        siteName: defaultSettings?.siteName ?? 'LLM Rotation Server',
+        ...(openaiRequest.tools?.length && { tools: openaiRequest.tools, toolChoice: openaiRequest.tool_choice }),
+        stop: typeof openaiRequest.stop === 'string' ? [openaiRequest.stop] : openaiRequest.stop,
+        frequencyPenalty: openaiRequest.frequency_penalty,
+        presencePenalty: openaiRequest.presence_penalty,
+        seed: openaiRequest.seed,
+        n: openaiRequest.n,
+        responseFormat: openaiRequest.response_format,
+        logitBias: openaiRequest.logit_bias,
+        user: openaiRequest.user
     };
 }
 
+/**
+ * Request field carrying each optional generation parameter, used to name fields in validation errors
+ */
+export const GENERATION_PARAMETER_FIELDS: Record<GenerationParameter, keyof ChatCompletionRequest> = {
+    stop: 'stop',
+    frequencyPenalty: 'frequency_penalty',
+    presencePenalty: 'presence_penalty',
+    seed: 'seed',
+    n: 'n',
+    responseFormat: 'response_format',
+    logitBias: 'logit_bias',
+    user: 'user'
+};
+
 /**
  * Transform LlmManager response to OpenAI API response format
- * @param content - The response content from LlmManager
+ * @param completion - The response text, or the full completion including tool calls and usage
  * @param model - The model that was used for generation
- * @param messages - The original messages sent to the model (for token estimation)
+ * @param messages - The original messages sent to the model (to estimate usage the provider did not report)
  * @param requestId - Optional request ID for tracking
  * @returns OpenAI-compatible chat completion response
  */
 export function transformResponse(
-    content: string,
+    completion: string | CompletionResult,
     model: string,
     messages: Message[],
     requestId?: string
 ): ChatCompletionResponse {
-    const promptTokens = estimateTokens(messages);
-    const completionTokens = estimateTokens([{ role: 'assistant', content }]);
+    const result: CompletionResult = typeof completion === 'string' ? { content: completion } : completion;
+    const replies: CompletionChoice[] = [result, ...(result.alternatives || [])];
     
-    const choice: ChatCompletionChoice = {
-        index: 0,
+    const choices: ChatCompletionChoice[] = replies.map(({ content, toolCalls, finishReason }, index) => ({
+        index,
         message: {
             role: 'assistant',
-            content
+            content: toolCalls ? content ?? null : content ?? '',
+            ...(toolCalls && { tool_calls: toolCalls })
         },
-        finish_reason: 'stop'
-    };
+        finish_reason: normalizeFinishReason(finishReason, !!toolCalls)
+    }));
 
-    const usage: ChatCompletionUsage = {
-        prompt_tokens: promptTokens,
-        completion_tokens: completionTokens,
-        total_tokens: promptTokens + completionTokens
-    };
+    const usage = result.usage ? {
+        prompt_tokens: result.usage.promptTokens,
+        completion_tokens: result.usage.completionTokens,
+        total_tokens: result.usage.totalTokens,
+        estimated: false
+    } : estimateUsage(replies, messages, model);
 
     return {
         id: requestId ? `chatcmpl-${requestId}` : `chatcmpl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         object: 'chat.completion',
         created: Math.floor(Date.now() / 1000),
         model,
-        choices: [choice],
+        choices,
         usage
     };
 }
 
 /**
- * Estimate the number of tokens in a message or array of messages
- * This is a rough approximation based on common tokenization patterns
+ * Count usage with the local tokenizer, for providers that report no counts
+ */
+function estimateUsage(replies: CompletionChoice[], messages: Message[], model: string): ChatCompletionUsage {
+    const promptTokens = estimateTokensWithRoles(messages, model);
+    const completionTokens = replies.reduce((total, { content, toolCalls }) => {
+        const completionText = [content ?? '', ...(toolCalls || []).map(call => `${call.function.name} ${call.function.arguments}`)].join(' ');
+        return total + estimateTokens(completionText, model);
+    }, 0);
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+        estimated: true
+    };
+}
+
+/**
+ * Transform LlmManager embeddings to OpenAI embeddings response format
+ * @param result - The vectors and provider-reported token usage
+ * @param model - The embedding model that was used
+ * @param input - The original input, used to estimate usage when the provider reports none
+ * @param encodingFormat - 'base64' to encode each vector as little-endian float32 bytes
+ * @returns OpenAI-compatible embeddings response
+ */
+export function transformEmbeddingResponse(
+    result: EmbeddingResult,
+    model: string,
+    input: string | string[],
+    encodingFormat: 'float' | 'base64' = 'float'
+): EmbeddingResponse {
+    const promptTokens = result.promptTokens ?? (Array.isArray(input) ? input : [input])
+        .reduce((total, text) => total + estimateTokens(text, model), 0);
+
+    return {
+        object: 'list',
+        data: result.embeddings.map((vector, index) => ({
+            object: 'embedding',
+            index,
+            embedding: encodingFormat === 'base64'
+                ? Buffer.from(new Float32Array(vector).buffer).toString('base64')
+                : vector
+        })),
+        model,
+        usage: {
+            prompt_tokens: promptTokens,
+            total_tokens: promptTokens
+        }
+    };
+}
+
+/**
+ * Transform an admin API key request to virtual key options. Fields that are absent stay
+ * absent, so the result can also be used for partial updates.
+ * @param request - A validated POST or PATCH /admin/keys body
+ * @returns Options for VirtualKeyManager.create or update
+ */
+export function transformVirtualKeyRequest(request: VirtualKeyRequest): Partial<VirtualKeyOptions> {
+    const options: Partial<VirtualKeyOptions> = {};
+    if (request.label !== undefined) {
+        options.label = request.label.trim();
+    }
+    if (request.allowed_models !== undefined) {
+        options.allowedModels = request.allowed_models ?? undefined;
+    }
+    if (request.allowed_providers !== undefined) {
+        options.allowedProviders = request.allowed_providers ?? undefined;
+    }
+    if (request.expires_at !== undefined) {
+        options.expiresAt = request.expires_at === null ? null : Date.parse(request.expires_at);
+    }
+    return options;
+}
+
+/**
+ * Transform a stored virtual key to its admin API representation; the hash is never included
+ * @param record - The stored key
+ * @param key - The raw key, only passed when the key has just been created
+ * @returns Virtual key object
+ */
+export function transformVirtualKey(record: VirtualKey, key?: string): VirtualKeyObject {
+    return {
+        id: record.id,
+        object: 'virtual_key',
+        label: record.label,
+        key_prefix: record.keyPrefix,
+        allowed_models: record.allowedModels ?? null,
+        allowed_providers: record.allowedProviders ?? null,
+        expires_at: record.expiresAt !== undefined ? new Date(record.expiresAt).toISOString() : null,
+        created_at: new Date(record.createdAt).toISOString(),
+        ...(key && { key })
+    };
+}
+
+/**
+ * Transform the state of a provider API key to its admin API representation
+ * @param provider - Provider the key belongs to
+ * @param index - Position of the key in the rotation
+ * @param fingerprint - Fingerprint of the key, which stands in for the key
+ * @returns Provider key object
+ */
+export function transformProviderKey(
+    provider: Provider,
+    index: number,
+    fingerprint: string,
+    status: ApiKeyStatus,
+    cooldown: KeyCooldown | undefined,
+    stats: KeyStatsSnapshot | undefined
+): ProviderKeyObject {
+    return {
+        id: fingerprint,
+        object: 'provider_key',
+        provider,
+        index,
+        status,
+        cooldown_until: cooldown?.until ? new Date(cooldown.until).toISOString() : null,
+        consecutive_failures: cooldown?.consecutiveFailures ?? 0,
+        success_count: stats?.successCount ?? 0,
+        failure_count: stats?.failureCount ?? 0,
+        last_used: stats?.lastUsed ? stats.lastUsed.toISOString() : null,
+        last_error: stats?.lastError ?? null
+    };
+}
+
+/**
+ * Extract the text of message content, dropping image parts
+ * @param content - String content, content parts, or null
+ * @returns The text parts joined with newlines
+ */
+export function getTextContent(content: Message['content']): string {
+    if (!content) {
+        return '';
+    }
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.filter(part => part.type === 'text').map(part => (part as { text: string }).text).join('\n');
+}
+
+/**
+ * Count the tokens in a message or array of messages with the local BPE tokenizer
  * @param input - Single message, array of messages, or string content
- * @returns Estimated token count
+ * @param model - Model whose tokenizer family to count with; the default vocabulary is used when omitted
+ * @returns Token count of the text content, without chat formatting overhead
  */
-export function estimateTokens(input: Message[] | Message | string): number {
+export function estimateTokens(input: Message[] | Message | string, model?: string): number {
     let text: string;
     
     if (typeof input === 'string') {
         text = input;
     } else if (Array.isArray(input)) {
         // For message arrays, concatenate all content
-        text = input.map(msg => msg.content).join(' ');
+        text = input.map(msg => getTextContent(msg.content)).join(' ');
     } else {
         // Single message
-        text = input.content;
+        text = getTextContent(input.content);
     }
     
-    if (!text || typeof text !== 'string') {
+    // Whitespace-only content carries nothing the model would answer to
+    if (!text || text.trim().length === 0) {
         return 0;
     }
     
-    // Basic token estimation algorithm
-    // This is a simplified approximation - real tokenizers are more complex
-    
-    // Remove extra whitespace and normalize
-    const normalizedText = text.trim().replace(/\s+/g, ' ');
-    
-    if (normalizedText.length === 0) {
-        return 0;
-    }
-    
-    // Split by common word boundaries and punctuation
-    const words = normalizedText.split(/[\s\-_.,!?;:()\[\]{}'"]+/).filter(word => word.length > 0);
-    
-    let tokenCount = 0;
-    
-    for (const word of words) {
-        if (word.length === 0) continue;
-        
-        // Very short words (1-2 chars) are usually 1 token
-        if (word.length <= 2) {
-            tokenCount += 1;
-        }
-        // Short words (3-4 chars) are usually 1 token
-        else if (word.length <= 4) {
-            tokenCount += 1;
-        }
-        // Medium words (5-8 chars) might be 1-2 tokens
-        else if (word.length <= 8) {
-            tokenCount += Math.ceil(word.length / 4);
-        }
-        // Longer words are typically broken into multiple tokens
-        else {
-            // Rough approximation: 1 token per 3-4 characters for longer words
-            tokenCount += Math.ceil(word.length / 3.5);
-        }
-    }
-    
-    // Add some tokens for special characters, formatting, etc.
-    const specialCharCount = (normalizedText.match(/[^\w\s]/g) || []).length;
-    tokenCount += Math.ceil(specialCharCount / 4);
-    
-    // Ensure minimum of 1 token for non-empty text, but allow 0 for empty text
-    return Math.max(normalizedText.length > 0 ? 1 : 0, Math.round(tokenCount));
+    return countTokens(text, model);
 }
 
 /**
- * Estimate tokens more accurately for specific message roles
- * Takes into account role-specific formatting that might affect tokenization
- * @param messages - Array of messages to estimate tokens for
- * @returns Estimated token count including role formatting overhead
+ * Count the prompt tokens of a conversation, including the role and separator
+ * tokens each message adds in chat formats and the tokens that prime the reply
+ * @param messages - Array of messages to count tokens for
+ * @param model - Model whose tokenizer family to count with
+ * @returns Token count including role formatting overhead
  */
-export function estimateTokensWithRoles(messages: Message[]): number {
-    let totalTokens = 0;
+export function estimateTokensWithRoles(messages: Message[], model?: string): number {
+    if (messages.length === 0) {
+        return 0;
+    }
+    
+    let totalTokens = REPLY_PRIMING_TOKENS;
     
     for (const message of messages) {
-        // Base content tokens
-        const contentTokens = estimateTokens(message.content);
+        totalTokens += TOKENS_PER_MESSAGE + countTokens(message.role, model) + estimateTokens(message, model);
         
-        // Add overhead for role formatting
-        // Different roles might have different formatting overhead in the actual tokenizer
-        let roleOverhead = 0;
-        switch (message.role) {
-            case 'system':
-                roleOverhead = 4; // "<|system|>" or similar formatting
-                break;
-            case 'user':
-                roleOverhead = 3; // "<|user|>" or similar
-                break;
-            case 'assistant':
-                roleOverhead = 4; // "<|assistant|>" or similar
-                break;
-            default:
-                roleOverhead = 2; // Generic role formatting
+        if (message.name) {
+            totalTokens += TOKENS_PER_NAME + countTokens(message.name, model);
         }
         
-        totalTokens += contentTokens + roleOverhead;
+        for (const call of message.tool_calls ?? []) {
+            totalTokens += countTokens(call.function.name, model) + countTokens(call.function.arguments, model);
+        }
     }
     
-    // Add some overhead for conversation formatting
-    const conversationOverhead = Math.max(2, Math.ceil(messages.length / 2));
-    
-    return totalTokens + conversationOverhead;
+    return totalTokens;
 }
 
 /**
  * Create a streaming response transformer for handling streaming responses
- * This is a utility for future streaming support
+ * Produces OpenAI `chat.completion.chunk` objects for each text delta
  * @param model - The model being used
  * @param requestId - Request ID for tracking
  * @returns Function to transform streaming chunks
@@ -207,11 +334,11 @@ export function createStreamingTransformer(model: string, requestId?: string) {
     const id = requestId || `chatcmpl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const created = Math.floor(Date.now() / 1000);
     
-    return function transformStreamChunk(content: string, isLast: boolean = false) {
+    return function transformStreamChunk(content: string, isLast: boolean = false, finishReason: ChatCompletionChoice['finish_reason'] = 'stop') {
         const choice: any = {
             index: 0,
             delta: isLast ? {} : { content },
-            finish_reason: isLast ? 'stop' : null
+            finish_reason: isLast ? finishReason : null
         };
         
         return {
@@ -224,6 +351,52 @@ export function createStreamingTransformer(model: string, requestId?: string) {
     };
 }
 
+/**
+ * Build the streaming delta that carries a completed set of tool calls.
+ * Each call gets its position as `index`, as in OpenAI tool call deltas.
+ * @param toolCalls - Tool calls requested by the model
+ * @returns Delta object for a `chat.completion.chunk` choice
+ */
+export function createToolCallsDelta(toolCalls: ToolCall[]) {
+    return {
+        tool_calls: toolCalls.map((call, index) => ({ index, ...call }))
+    };
+}
+
+/**
+ * Format a payload as a single Server-Sent Events message
+ * @param data - Chunk object to serialize, or the '[DONE]' terminator
+ * @returns SSE-formatted string ready to be written to the response
+ */
+export function formatSseEvent(data: object | '[DONE]'): string {
+    const payload = data === '[DONE]' ? data : JSON.stringify(data);
+    return `data: ${payload}\n\n`;
+}
+
+/**
+ * Check that a content part is a text part or an image_url part with a URL
+ * @param part - The content part to check
+ * @returns True if the part is well-formed
+ */
+export function isValidContentPart(part: any): boolean {
+    if (part?.type === 'text') {
+        return typeof part.text === 'string';
+    }
+    if (part?.type === 'image_url') {
+        return typeof part.image_url?.url === 'string' && /^(https?:|data:image\/)/.test(part.image_url.url);
+    }
+    return false;
+}
+
+/**
+ * Check whether any message carries image parts
+ * @param messages - The conversation messages
+ * @returns True if at least one message contains an image_url part
+ */
+export function hasImageContent(messages: Message[]): boolean {
+    return messages.some(message => Array.isArray(message.content) && message.content.some(part => part.type === 'image_url'));
+}
+
 /**
  * Validate that a request can be properly transformed
  * @param request - The OpenAI request to validate
@@ -245,11 +418,20 @@ export function validateTransformationRequest(request: ChatCompletionRequest): s
         
         for (let i = 0; i < request.messages.length; i++) {
             const message = request.messages[i];
-            if (!message.role || !['system', 'user', 'assistant'].includes(message.role)) {
-                errors.push(`Message ${i}: role must be 'system', 'user', or 'assistant'`);
+            if (!message.role || !['system', 'user', 'assistant', 'tool'].includes(message.role)) {
+                errors.push(`Message ${i}: role must be 'system', 'user', 'assistant', or 'tool'`);
+            }
+            // Assistant messages that only request tool calls have no content
+            const toolCallOnly = message.role === 'assistant' && Array.isArray(message.tool_calls) && message.tool_calls.length > 0;
+            if (Array.isArray(message.content)) {
+                if (message.content.length === 0 || !message.content.every(isValidContentPart)) {
+                    errors.push(`Message ${i}: content parts must be non-empty 'text' or 'image_url' parts`);
+                }
+            } else if (!toolCallOnly && (!message.content || typeof message.content !== 'string')) {
+                errors.push(`Message ${i}: content is required and must be a string or an array of content parts`);
             }
-            if (!message.content || typeof message.content !== 'string') {
-                errors.push(`Message ${i}: content is required and must be a string`);
+            if (message.role === 'tool' && (!message.tool_call_id || typeof message.tool_call_id !== 'string')) {
+                errors.push(`Message ${i}: tool messages require a tool_call_id`);
             }
         }
     }
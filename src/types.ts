@@ -8,21 +8,54 @@
 // Import and re-export types from llm_rotation.ts
 import type {
     Message,
+    ContentPart,
+    ToolCall,
+    ToolDefinition,
+    ToolChoice,
+    ResponseFormat,
+    GenerationParameter,
+    CompletionChoice,
+    CompletionResult,
+    TokenUsage,
+    EmbeddingSettings,
+    EmbeddingResult,
     ModelConfiguration,
     ApiKeys,
     LlmSettings,
     ApiKeyStatus,
-    Provider
+    Provider,
+    CooldownPolicy,
+    LatencyPercentiles
 } from './llm_rotation';
+import type { VirtualKey } from './virtual-keys';
+import type { ClientRateLimits } from './rate-limiter';
+import type { RetryPolicy } from './retry-policy';
+import type { CircuitBreakerPolicy, CircuitState } from './circuit-breaker';
+import type { LogLevel, Logger } from './logger';
+import type { Span } from './tracing';
+import type { ImageFetchPolicy } from './image-fetch';
 
 // Re-export the types
 export type {
     Message,
+    ContentPart,
+    ToolCall,
+    ToolDefinition,
+    ToolChoice,
+    ResponseFormat,
+    GenerationParameter,
+    CompletionChoice,
+    CompletionResult,
+    TokenUsage,
+    EmbeddingSettings,
+    EmbeddingResult,
     ModelConfiguration,
     ApiKeys,
     LlmSettings,
     ApiKeyStatus,
-    Provider
+    Provider,
+    CooldownPolicy,
+    LatencyPercentiles
 };
 
 // ===== OpenAI API Compatible Request/Response Interfaces =====
@@ -54,6 +87,16 @@ export interface ChatCompletionRequest {
     presence_penalty?: number;
     /** Modify the likelihood of specified tokens appearing in the completion */
     logit_bias?: Record<string, number>;
+    /** Functions the model may call */
+    tools?: ToolDefinition[];
+    /** Controls which (if any) tool is called by the model */
+    tool_choice?: ToolChoice;
+    /** Seed for best-effort deterministic sampling */
+    seed?: number;
+    /** How many chat completion choices to generate */
+    n?: number;
+    /** Output format; `{ type: 'json_object' }` enables JSON mode */
+    response_format?: ResponseFormat;
 }
 
 /**
@@ -72,6 +115,8 @@ export interface ChatCompletionResponse {
     choices: ChatCompletionChoice[];
     /** Usage statistics for the completion request */
     usage: ChatCompletionUsage;
+    /** Provider that served the completion (differs from the detected one after a fallback) */
+    provider?: string;
 }
 
 /**
@@ -96,6 +141,85 @@ export interface ChatCompletionUsage {
     completion_tokens: number;
     /** Total number of tokens used in the request (prompt + completion) */
     total_tokens: number;
+    /** True when the counts come from the local tokenizer because the provider reported none */
+    estimated?: boolean;
+}
+
+/**
+ * OpenAI Embeddings API Request interface
+ */
+export interface EmbeddingRequest {
+    /** Text to embed, or an array of texts to embed in one request */
+    input: string | string[];
+    /** ID of the embedding model to use */
+    model: string;
+    /** Number of dimensions of the output vectors, for models that support shortening */
+    dimensions?: number;
+    /** Return vectors as float arrays or as base64-encoded little-endian float32 */
+    encoding_format?: 'float' | 'base64';
+    /** A unique identifier representing your end-user */
+    user?: string;
+}
+
+/**
+ * Individual embedding in an embeddings response
+ */
+export interface EmbeddingObject {
+    /** The object type, which is always "embedding" */
+    object: 'embedding';
+    /** Position of the corresponding input */
+    index: number;
+    /** The vector, or its base64 encoding when requested */
+    embedding: number[] | string;
+}
+
+/**
+ * OpenAI Embeddings API Response interface
+ */
+export interface EmbeddingResponse {
+    /** The object type, which is always "list" */
+    object: 'list';
+    /** One embedding per input, in input order */
+    data: EmbeddingObject[];
+    /** The model used to create the embeddings */
+    model: string;
+    /** Token usage of the inputs */
+    usage: {
+        prompt_tokens: number;
+        total_tokens: number;
+    };
+    /** Provider that served the embeddings */
+    provider?: string;
+}
+
+/**
+ * Tokenize API Request interface; send either `input` or `messages`
+ */
+export interface TokenizeRequest {
+    /** Model whose tokenizer family to use */
+    model: string;
+    /** Text to tokenize */
+    input?: string;
+    /** Conversation to count, including chat formatting tokens */
+    messages?: Message[];
+}
+
+/**
+ * Tokenize API Response interface
+ */
+export interface TokenizeResponse {
+    /** The object type, which is always "tokenize" */
+    object: 'tokenize';
+    /** The model the count applies to */
+    model: string;
+    /** BPE vocabulary used for the count */
+    encoding: string;
+    /** Number of tokens */
+    count: number;
+    /** Token ids, returned for `input` only */
+    tokens?: number[];
+    /** The model's context window, when known */
+    context_window?: number;
 }
 
 /**
@@ -144,8 +268,94 @@ export interface ServerConfig {
     environment?: string;
     /** Enable request logging */
     enableLogging?: boolean;
+    /** Least severe level written to the log; request logging uses debug */
+    logLevel?: LogLevel | 'silent';
     /** Request timeout in milliseconds */
     requestTimeout?: number;
+    /** Cross-provider fallback settings */
+    providerFallback?: ProviderFallbackConfig;
+    /** Overrides for the key cooldown policy */
+    keyCooldown?: Partial<CooldownPolicy>;
+    /** Path of the JSON file used to persist key health across restarts */
+    keyStateFile?: string;
+    /** OpenAI-compatible providers declared in configuration */
+    customProviders?: CustomProviderConfig[];
+    /** Attempts per provider to get JSON matching a requested response_format */
+    structuredOutputAttempts?: number;
+    /** JSON file of virtual keys; when set, /v1 requests need a virtual key or the admin key */
+    virtualKeysFile?: string;
+    /** Bearer key for the /admin API, which is disabled when unset */
+    adminApiKey?: string;
+    /** Per-client request, token and concurrency limits */
+    rateLimits?: ClientRateLimits;
+    /** Chat completion response cache; disabled when unset */
+    responseCache?: ResponseCacheConfig;
+    /** Overrides for the retry policy of every provider */
+    retry?: Partial<RetryPolicy>;
+    /** Overrides for the retry policy of single providers */
+    providerRetry?: Record<string, Partial<RetryPolicy>>;
+    /** Overrides for the per-provider circuit breaker policy */
+    circuitBreaker?: Partial<CircuitBreakerPolicy>;
+    /** Trace span export; spans are discarded when unset */
+    tracing?: TracingConfig;
+    /** Overrides for the limits on images downloaded for providers that need inline image data */
+    imageFetch?: Partial<ImageFetchPolicy>;
+}
+
+/**
+ * OpenAI-compatible provider declared in configuration
+ */
+export interface CustomProviderConfig {
+    /** Provider name used in requests, API key maps and key status */
+    name: string;
+    /** API base URL, e.g. `http://localhost:8000/v1`; `/chat/completions` is appended */
+    baseUrl: string;
+    /** Environment variable holding the API key(s); defaults to `<NAME>_API_KEY` */
+    apiKeyEnv?: string;
+    /** Headers sent with every request in addition to the bearer token */
+    headers?: Record<string, string>;
+    /** Models served by the provider */
+    models: ModelConfiguration[];
+    /** Lowercase substrings that identify the provider's models */
+    patterns?: string[];
+}
+
+/**
+ * Cross-provider fallback configuration
+ */
+export interface ProviderFallbackConfig {
+    /** Retry on alternative providers when every key of a provider is exhausted */
+    enabled: boolean;
+    /** Explicit fallback chains; providers without one use the detected alternatives */
+    chains: Partial<Record<Provider, Provider[]>>;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface ResponseCacheConfig {
+    /** Where responses are kept */
+    backend: 'memory' | 'disk';
+    /** How long a response is served from the cache */
+    ttlMs: number;
+    /** Entries kept before the least recently used (memory) or oldest (disk) is evicted */
+    maxEntries: number;
+    /** Directory of the disk backend */
+    directory?: string;
+}
+
+/**
+ * Trace export configuration
+ */
+export interface TracingConfig {
+    /** Where finished spans are sent: debug log entries, or an OpenTelemetry collector over OTLP/HTTP */
+    exporter: 'log' | 'otlp';
+    /** Traces endpoint of the collector */
+    otlpEndpoint?: string;
+    /** Share of new traces that are recorded, between 0 and 1; requests with a traceparent follow its sampled flag */
+    sampleRatio: number;
+    /** Reported as the service.name of every span */
+    serviceName: string;
 }
 
 /**
@@ -168,8 +378,6 @@ export interface DefaultLlmSettings {
  * Extended LLM settings that includes server-specific options
  */
 export interface ExtendedLlmSettings extends LlmSettings {
-    /** Request timeout override */
-    timeout?: number;
     /** Custom headers for the request */
     customHeaders?: Record<string, string>;
     /** Enable debug logging for this request */
@@ -184,6 +392,7 @@ export interface ExtendedLlmSettings extends LlmSettings {
 export type ApiErrorType = 
     | 'invalid_request_error'
     | 'authentication_error'
+    | 'permission_error'
     | 'api_error'
     | 'rate_limit_error'
     | 'server_error';
@@ -200,6 +409,13 @@ export type ApiErrorCode =
     | 'rate_limited'
     | 'invalid_api_key'
     | 'insufficient_quota'
+    | 'context_length_exceeded'
+    | 'content_filter'
+    | 'json_validation_failed'
+    | 'model_not_allowed'
+    | 'not_found'
+    | 'circuit_open'
+    | 'invalid_image_url'
     | 'internal_error';
 
 /**
@@ -305,6 +521,42 @@ export class ApiError extends Error {
         );
     }
 
+    /**
+     * Create an error for a virtual key that may not use the requested model or its providers
+     */
+    static modelNotAllowed(model: string, keyLabel: string): ApiError {
+        return new ApiError(
+            `API key "${keyLabel}" is not allowed to use model ${model}`,
+            'permission_error',
+            'model_not_allowed',
+            403
+        );
+    }
+
+    /**
+     * Create an error for an unknown resource
+     */
+    static notFound(resource: string): ApiError {
+        return new ApiError(
+            `${resource} not found`,
+            'invalid_request_error',
+            'not_found',
+            404
+        );
+    }
+
+    /**
+     * Create an error for an image URL that could not be downloaded or may not be fetched
+     */
+    static invalidImageUrl(url: string, reason: string): ApiError {
+        return new ApiError(
+            `Could not load image ${url}: ${reason}`,
+            'invalid_request_error',
+            'invalid_image_url',
+            400
+        );
+    }
+
     /**
      * Create a model not found error
      */
@@ -318,6 +570,58 @@ export class ApiError extends Error {
         );
     }
 
+    /**
+     * Create an error for a prompt that does not fit the model's context window
+     */
+    static contextLengthExceeded(model: string, requestedTokens: number, contextWindow: number): ApiError {
+        return new ApiError(
+            `This model's maximum context length is ${contextWindow} tokens, but ${requestedTokens} tokens were requested for '${model}'`,
+            'invalid_request_error',
+            'context_length_exceeded',
+            400,
+            { fieldErrors: { messages: `Reduce the prompt or max_tokens to at most ${contextWindow} tokens in total` } }
+        );
+    }
+
+    /**
+     * Create an error for a prompt or response blocked by the provider's safety filter
+     */
+    static contentFiltered(provider: string, reason: string): ApiError {
+        return new ApiError(
+            `The response was blocked by ${provider}'s content filter (${reason})`,
+            'invalid_request_error',
+            'content_filter',
+            400,
+            { provider, lastError: reason, timestamp: new Date().toISOString() }
+        );
+    }
+
+    /**
+     * Create an error for structured output that stayed invalid after every attempt
+     */
+    static jsonValidationFailed(attempts: number, reason: string, provider?: string): ApiError {
+        return new ApiError(
+            `The model did not return valid JSON for the requested response_format after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${reason}`,
+            'api_error',
+            'json_validation_failed',
+            502,
+            { provider, lastError: reason, timestamp: new Date().toISOString() }
+        );
+    }
+
+    /**
+     * Create a keys exhausted error for a provider without any configured keys
+     */
+    static noApiKeys(provider: string): ApiError {
+        return new ApiError(
+            `No API key(s) found for ${provider}.`,
+            'api_error',
+            'keys_exhausted',
+            502,
+            { provider, timestamp: new Date().toISOString() }
+        );
+    }
+
     /**
      * Create a keys exhausted error
      */
@@ -349,6 +653,37 @@ export class ApiError extends Error {
         );
     }
 
+    /**
+     * Create an error for a client that exceeded one of its own limits
+     * @param message - Description of the exceeded limit
+     * @param retryAfter - Seconds until the client may retry
+     * @param quotaExceeded - True for the daily token quota
+     */
+    static clientRateLimit(message: string, retryAfter: number, quotaExceeded: boolean = false): ApiError {
+        return new ApiError(
+            `${message}. Retry after ${retryAfter} seconds`,
+            'rate_limit_error',
+            quotaExceeded ? 'insufficient_quota' : 'rate_limited',
+            429,
+            { timestamp: new Date().toISOString() }
+        );
+    }
+
+    /**
+     * Create an error for a provider skipped because its circuit breaker is open
+     * @param provider - Provider whose circuit is open
+     * @param retryAfter - Seconds until the provider is tried again
+     */
+    static circuitOpen(provider: string, retryAfter: number): ApiError {
+        return new ApiError(
+            `Provider ${provider} is temporarily unavailable after repeated failures. Retry after ${retryAfter} seconds`,
+            'api_error',
+            'circuit_open',
+            503,
+            { provider, timestamp: new Date().toISOString() }
+        );
+    }
+
     /**
      * Create a timeout error
      */
@@ -381,6 +716,12 @@ export interface KeyStatusInfo {
     successCount?: number;
     /** Number of failed requests with this key */
     failureCount?: number;
+    /** When the key leaves its cooldown window (absent when the key is available) */
+    cooldownUntil?: Date;
+    /** Consecutive failures since the key last succeeded */
+    consecutiveFailures?: number;
+    /** Latency percentiles in milliseconds over recent successful requests */
+    latencyMs?: LatencyPercentiles;
 }
 
 /**
@@ -397,6 +738,25 @@ export interface ProviderKeyStatus {
     keys: KeyStatusInfo[];
     /** Last rotation timestamp */
     lastRotation?: Date;
+    /** Circuit breakers of the provider that have seen requests */
+    circuits?: CircuitStatusInfo[];
+}
+
+/**
+ * Circuit breaker information for monitoring endpoint
+ */
+export interface CircuitStatusInfo {
+    /** Model the circuit covers; absent for a circuit covering the whole provider */
+    model?: string;
+    state: CircuitState;
+    /** Requests recorded within the failure-rate window */
+    requests: number;
+    failures: number;
+    failureRate: number;
+    /** When the circuit last opened */
+    openedAt?: Date;
+    /** When an open circuit lets a probe request through */
+    retryAt?: Date;
 }
 
 /**
@@ -411,6 +771,85 @@ export interface KeyStatusResponse {
     timestamp: string;
 }
 
+// ===== Virtual Key Types =====
+
+/**
+ * Body of POST /admin/keys and PATCH /admin/keys/:id
+ */
+export interface VirtualKeyRequest {
+    /** Human-readable owner or purpose */
+    label?: string;
+    /** Models the key may use; a trailing `*` matches any suffix */
+    allowed_models?: string[] | null;
+    /** Providers the key may be served by */
+    allowed_providers?: Provider[] | null;
+    /** ISO timestamp after which the key is rejected; null for no expiry */
+    expires_at?: string | null;
+}
+
+/**
+ * Virtual key as returned by the admin API
+ */
+export interface VirtualKeyObject {
+    id: string;
+    object: 'virtual_key';
+    label: string;
+    /** First characters of the key */
+    key_prefix: string;
+    allowed_models: string[] | null;
+    allowed_providers: Provider[] | null;
+    expires_at: string | null;
+    created_at: string;
+    /** The full key; only returned when the key is created */
+    key?: string;
+}
+
+// ===== Provider Key Types =====
+
+/**
+ * Body of POST /admin/providers/:provider/keys
+ */
+export interface ProviderKeyRequest {
+    /** The provider API key to add to the rotation */
+    key: string;
+}
+
+/**
+ * Provider API key as returned by the admin API; the key itself is never included
+ */
+export interface ProviderKeyObject {
+    /** Fingerprint of the key, as computed by fingerprintApiKey */
+    id: string;
+    object: 'provider_key';
+    provider: Provider;
+    /** Position of the key in the rotation */
+    index: number;
+    status: ApiKeyStatus;
+    /** When the key leaves its cooldown window; null when the key is available */
+    cooldown_until: string | null;
+    consecutive_failures: number;
+    success_count: number;
+    failure_count: number;
+    last_used: string | null;
+    last_error: string | null;
+}
+
+// ===== Response Cache Types =====
+
+/**
+ * Response of GET /v1/cache/stats
+ */
+export interface CacheStatsResponse {
+    enabled: boolean;
+    backend?: 'memory' | 'disk';
+    /** Stored entries, including expired ones not yet removed */
+    entries?: number;
+    hits: number;
+    misses: number;
+    /** Hits divided by lookups since the server started */
+    hit_rate: number;
+}
+
 // ===== Health Check Types =====
 
 /**
@@ -431,6 +870,8 @@ export interface HealthCheckResponse {
     };
     /** Version information */
     version?: string;
+    /** Circuit breaker state by provider, or by provider/model for per-model circuits */
+    circuits?: Record<string, CircuitState>;
 }
 
 // ===== Utility Types =====
@@ -467,6 +908,18 @@ export interface RequestContext {
     userAgent?: string;
     /** Custom headers from the request */
     customHeaders?: Record<string, string>;
+    /** Virtual key the request was authenticated with */
+    virtualKey?: VirtualKey;
+    /** Identity the client's rate limits are tracked under */
+    clientId?: string;
+    /** Aborted when the request times out or the client disconnects */
+    abortSignal?: AbortSignal;
+    /** Set when the request timed out, for streams that must report it in-band */
+    timeoutError?: ApiError;
+    /** Logger adding the requestId to every entry */
+    logger?: Logger;
+    /** Span of the request, the parent of the spans recorded while serving it */
+    span?: Span;
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * @file virtual-keys.test.ts
+ * @description Unit tests for virtual key issuing, lookup, allow-lists and storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+    VIRTUAL_KEY_PREFIX,
+    hashVirtualKey,
+    secretsMatch,
+    MemoryVirtualKeyStore,
+    JsonFileVirtualKeyStore,
+    VirtualKeyManager
+} from './virtual-keys';
+
+describe('secretsMatch', () => {
+    it('should compare secrets of any length', () => {
+        expect(secretsMatch('admin-secret', 'admin-secret')).toBe(true);
+        expect(secretsMatch('admin', 'admin-secret')).toBe(false);
+    });
+});
+
+describe('VirtualKeyManager', () => {
+    let store: MemoryVirtualKeyStore;
+    let manager: VirtualKeyManager;
+
+    beforeEach(() => {
+        store = new MemoryVirtualKeyStore();
+        manager = new VirtualKeyManager(store);
+    });
+
+    it('should issue keys that are stored only as hashes', async () => {
+        const { key, record } = await manager.create({ label: 'team-a' });
+
+        expect(key.startsWith(VIRTUAL_KEY_PREFIX)).toBe(true);
+        expect(record).toMatchObject({ label: 'team-a', keyHash: hashVirtualKey(key), keyPrefix: key.slice(0, 12) });
+        expect(record.id).toMatch(/^vk_[0-9a-f]{16}$/);
+        expect(JSON.stringify(await store.load())).not.toContain(key);
+        expect(manager.findByKey(key)).toEqual(record);
+        expect(manager.findByKey(`${key}x`)).toBeUndefined();
+    });
+
+    it('should update and clear settings', async () => {
+        const { record } = await manager.create({ label: 'team-a', allowedModels: ['gpt-4o'], expiresAt: 2000 });
+
+        const updated = await manager.update(record.id, { label: 'team-b', expiresAt: null });
+
+        expect(updated).toMatchObject({ label: 'team-b', allowedModels: ['gpt-4o'] });
+        expect(updated).not.toHaveProperty('expiresAt');
+        expect(await manager.update('vk_missing', { label: 'x' })).toBeUndefined();
+    });
+
+    it('should reject revoked keys and persist the removal', async () => {
+        const { key, record } = await manager.create({ label: 'team-a' });
+
+        expect(await manager.revoke(record.id)).toBe(true);
+        expect(await manager.revoke(record.id)).toBe(false);
+        expect(manager.findByKey(key)).toBeUndefined();
+        expect(await store.load()).toEqual([]);
+    });
+
+    it('should restore keys from the store', async () => {
+        const { key } = await manager.create({ label: 'team-a' });
+
+        const restored = new VirtualKeyManager(store);
+        await restored.load();
+
+        expect(restored.findByKey(key)?.label).toBe('team-a');
+    });
+
+    it('should detect expired keys', async () => {
+        const { record } = await manager.create({ label: 'team-a', expiresAt: 1000 });
+
+        expect(manager.isExpired(record, 999)).toBe(false);
+        expect(manager.isExpired(record, 1000)).toBe(true);
+    });
+
+    it('should apply model and provider allow-lists', async () => {
+        const { record: open } = await manager.create({ label: 'open' });
+        const { record } = await manager.create({ label: 'limited', allowedModels: ['gpt-4o', 'Gemini-*'], allowedProviders: ['openai', 'gemini'] });
+
+        expect(manager.isAllowed(open, 'openrouter', 'anything')).toBe(true);
+        expect(manager.isAllowed(record, 'openai', 'gpt-4o')).toBe(true);
+        expect(manager.isAllowed(record, 'gemini', 'gemini-1.5-flash')).toBe(true);
+        expect(manager.isAllowed(record, 'openai', 'gpt-4o-mini')).toBe(false);
+        expect(manager.isAllowed(record, 'openrouter', 'gpt-4o')).toBe(false);
+    });
+});
+
+describe('JsonFileVirtualKeyStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'virtual-keys-'));
+        filePath = path.join(directory, 'nested', 'virtual-keys.json');
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should return no keys when the file does not exist', async () => {
+        expect(await new JsonFileVirtualKeyStore(filePath).load()).toEqual([]);
+    });
+
+    it('should save keys readable by the owner only', async () => {
+        const manager = new VirtualKeyManager(new JsonFileVirtualKeyStore(filePath));
+        const { key, record } = await manager.create({ label: 'team-a' });
+
+        const saved = JSON.parse(readFileSync(filePath, 'utf8'));
+
+        expect(saved).toEqual({ version: 1, keys: [record] });
+        expect(readFileSync(filePath, 'utf8')).not.toContain(key);
+        expect(statSync(filePath).mode & 0o777).toBe(0o600);
+        expect(await new JsonFileVirtualKeyStore(filePath).load()).toEqual([record]);
+    });
+
+    it('should reject files in an unknown format', async () => {
+        const store = new JsonFileVirtualKeyStore(path.join(directory, 'keys.json'));
+        writeFileSync(path.join(directory, 'keys.json'), JSON.stringify({ version: 2, keys: [] }));
+
+        await expect(store.load()).rejects.toThrow('Unsupported virtual key file format');
+    });
+});
@@ -0,0 +1,254 @@
+/**
+ * @file virtual-keys.ts
+ * @description Bearer keys issued by the proxy to its own clients. Each key carries a
+ * label, optional model and provider allow-lists and an optional expiry. Only a SHA-256
+ * hash of a key is stored; the key itself is returned once, when it is created.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Provider } from './llm_rotation';
+
+/** Prefix of every issued key, so leaked keys are easy to recognise */
+export const VIRTUAL_KEY_PREFIX = 'sk-llmr-';
+
+/**
+ * A stored virtual key
+ */
+export interface VirtualKey {
+    /** Stable identifier used by the admin API */
+    id: string;
+    /** Human-readable owner or purpose */
+    label: string;
+    /** Hex SHA-256 of the key */
+    keyHash: string;
+    /** First characters of the key, shown to help identify it */
+    keyPrefix: string;
+    /** Models the key may use; a trailing `*` matches any suffix. All models when omitted */
+    allowedModels?: string[];
+    /** Providers the key may be served by. All providers when omitted */
+    allowedProviders?: Provider[];
+    /** Epoch milliseconds after which the key is rejected */
+    expiresAt?: number;
+    /** Epoch milliseconds of creation */
+    createdAt: number;
+}
+
+/**
+ * Settings of a virtual key that can be chosen when creating or updating it
+ */
+export interface VirtualKeyOptions {
+    label: string;
+    allowedModels?: string[];
+    allowedProviders?: Provider[];
+    /** Expiry in epoch milliseconds; null removes an existing expiry */
+    expiresAt?: number | null;
+}
+
+/**
+ * Storage backend for virtual keys
+ */
+export interface VirtualKeyStore {
+    /** Load all keys; an empty list if none were saved */
+    load(): Promise<VirtualKey[]>;
+    /** Replace the saved keys */
+    save(keys: VirtualKey[]): Promise<void>;
+}
+
+/**
+ * Hash a virtual key for storage and lookup
+ * @param key - The raw key
+ * @returns Hex SHA-256 digest
+ */
+export function hashVirtualKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Compare two secrets in constant time
+ * @param provided - Value sent by the client
+ * @param expected - Configured secret
+ * @returns True when both are equal
+ */
+export function secretsMatch(provided: string, expected: string): boolean {
+    // Hashing first gives equal-length buffers, as timingSafeEqual requires
+    return timingSafeEqual(createHash('sha256').update(provided).digest(), createHash('sha256').update(expected).digest());
+}
+
+/**
+ * In-memory store, used when no key file is configured and in tests
+ */
+export class MemoryVirtualKeyStore implements VirtualKeyStore {
+    private keys: VirtualKey[];
+
+    constructor(initial: VirtualKey[] = []) {
+        this.keys = structuredClone(initial);
+    }
+
+    async load(): Promise<VirtualKey[]> {
+        return structuredClone(this.keys);
+    }
+
+    async save(keys: VirtualKey[]): Promise<void> {
+        this.keys = structuredClone(keys);
+    }
+}
+
+/**
+ * Store that keeps the keys in a JSON file, written through a temporary file and a rename
+ * like JsonFileKeyStateStore. The file is created readable by its owner only.
+ */
+export class JsonFileVirtualKeyStore implements VirtualKeyStore {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<VirtualKey[]> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const parsed = JSON.parse(raw);
+        if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.keys)) {
+            throw new Error(`Unsupported virtual key file format: ${this.filePath}`);
+        }
+        return parsed.keys as VirtualKey[];
+    }
+
+    async save(keys: VirtualKey[]): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify({ version: 1, keys }, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await fs.rename(tempPath, this.filePath);
+    }
+}
+
+/**
+ * Issues, looks up and revokes virtual keys. Changes are saved to the store in order.
+ */
+export class VirtualKeyManager {
+    private readonly keys = new Map<string, VirtualKey>();
+    private pendingSave: Promise<void> = Promise.resolve();
+
+    constructor(private readonly store: VirtualKeyStore = new MemoryVirtualKeyStore()) {}
+
+    /**
+     * Replace the keys in memory with those in the store; call before serving requests
+     */
+    async load(): Promise<void> {
+        const keys = await this.store.load();
+        this.keys.clear();
+        keys.forEach(key => this.keys.set(key.id, key));
+    }
+
+    /**
+     * All keys, oldest first
+     */
+    list(): VirtualKey[] {
+        return [...this.keys.values()].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    get(id: string): VirtualKey | undefined {
+        return this.keys.get(id);
+    }
+
+    /**
+     * Issue a new key
+     * @returns The raw key, which is not stored and cannot be retrieved later, and its record
+     */
+    async create(options: VirtualKeyOptions): Promise<{ key: string; record: VirtualKey }> {
+        const key = `${VIRTUAL_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+        const record: VirtualKey = {
+            id: `vk_${randomBytes(8).toString('hex')}`,
+            label: options.label,
+            keyHash: hashVirtualKey(key),
+            keyPrefix: key.slice(0, VIRTUAL_KEY_PREFIX.length + 4),
+            ...(options.allowedModels && { allowedModels: options.allowedModels }),
+            ...(options.allowedProviders && { allowedProviders: options.allowedProviders }),
+            ...(typeof options.expiresAt === 'number' && { expiresAt: options.expiresAt }),
+            createdAt: Date.now()
+        };
+        this.keys.set(record.id, record);
+        await this.save();
+        return { key, record };
+    }
+
+    /**
+     * Change the label, allow-lists or expiry of a key; fields that are not given stay unchanged
+     * @returns The updated record, or undefined for an unknown id
+     */
+    async update(id: string, options: Partial<VirtualKeyOptions>): Promise<VirtualKey | undefined> {
+        const existing = this.keys.get(id);
+        if (!existing) {
+            return undefined;
+        }
+        const { expiresAt, ...rest } = options;
+        const updated: VirtualKey = { ...existing, ...rest };
+        if (expiresAt === null) {
+            delete updated.expiresAt;
+        } else if (expiresAt !== undefined) {
+            updated.expiresAt = expiresAt;
+        }
+        this.keys.set(id, updated);
+        await this.save();
+        return updated;
+    }
+
+    /**
+     * Delete a key; requests using it are rejected from then on
+     * @returns False for an unknown id
+     */
+    async revoke(id: string): Promise<boolean> {
+        if (!this.keys.delete(id)) {
+            return false;
+        }
+        await this.save();
+        return true;
+    }
+
+    /**
+     * Find the record of a raw key
+     * @returns The record, or undefined if the key was never issued or has been revoked
+     */
+    findByKey(key: string): VirtualKey | undefined {
+        const keyHash = hashVirtualKey(key);
+        return [...this.keys.values()].find(record => record.keyHash === keyHash);
+    }
+
+    /**
+     * Whether a key is past its expiry
+     */
+    isExpired(record: VirtualKey, now: number = Date.now()): boolean {
+        return record.expiresAt !== undefined && record.expiresAt <= now;
+    }
+
+    /**
+     * Whether a key may send a request for a model to a provider
+     */
+    isAllowed(record: VirtualKey, provider: Provider, model: string): boolean {
+        if (record.allowedProviders && !record.allowedProviders.includes(provider)) {
+            return false;
+        }
+        if (!record.allowedModels) {
+            return true;
+        }
+        const normalizedModel = model.toLowerCase();
+        return record.allowedModels.some(pattern => {
+            const normalizedPattern = pattern.toLowerCase();
+            return normalizedPattern.endsWith('*')
+                ? normalizedModel.startsWith(normalizedPattern.slice(0, -1))
+                : normalizedModel === normalizedPattern;
+        });
+    }
+
+    private save(): Promise<void> {
+        const snapshot = this.list();
+        this.pendingSave = this.pendingSave.catch(() => {}).then(() => this.store.save(snapshot));
+        return this.pendingSave;
+    }
+}